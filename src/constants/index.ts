@@ -33,9 +33,22 @@ export const SKIP_DIRECTORIES = [
  */
 export const API_DEFAULTS = {
   GITHUB_PER_PAGE: 100,
-  GITLAB_MAX_PAGES: 10,
   GITLAB_PER_PAGE: 100,
+  BITBUCKET_PER_PAGE: 100,
+  BITBUCKET_SERVER_PAGE_LIMIT: 100,
+  AZURE_DEVOPS_PAGE_SIZE: 100,
+  GITEA_PER_PAGE: 50,
   REQUEST_TIMEOUT: 30000,
+  GIT_CLONE_TIMEOUT: 300000,
+} as const;
+
+/**
+ * Module Registry Constants
+ */
+export const REGISTRY_DEFAULTS = {
+  BASE_URL: 'https://registry.terraform.io',
+  MODULES_PATH: '/v1/modules/',
+  CONCURRENCY: 5,
 } as const;
 
 /**
@@ -61,6 +74,11 @@ export const PROGRESS_THRESHOLDS = {
 export const VCS_CONSTANTS = {
   GITHUB_API_VERSION: '2022-11-28',
   GITLAB_API_VERSION: 'v4',
+  BITBUCKET_API_URL: 'https://api.bitbucket.org/2.0',
+  AZURE_DEVOPS_URL: 'https://dev.azure.com',
+  AZURE_DEVOPS_API_VERSION: '7.1',
+  AZURE_DEVOPS_MERGE_BASES_API_VERSION: '7.1-preview.1',
+  GITEA_URL: 'https://gitea.com',
   DEFAULT_BRANCH_NAMES: ['main', 'master', 'develop'],
 } as const;
 
@@ -0,0 +1,261 @@
+/**
+ * AST node definitions for HCL2 (HashiCorp Configuration Language) documents
+ */
+
+/**
+ * A position in the source text (1-based line and column, 0-based offset)
+ */
+export interface HclPosition {
+  readonly line: number;
+  readonly column: number;
+  readonly offset: number;
+}
+
+/**
+ * A range in the source text, end position is exclusive
+ */
+export interface HclRange {
+  readonly start: HclPosition;
+  readonly end: HclPosition;
+}
+
+/**
+ * Comment found in the source text
+ */
+export interface HclComment {
+  readonly style: 'line' | 'block';
+  readonly text: string;
+  readonly range: HclRange;
+}
+
+/**
+ * Literal value (string, number, bool or null)
+ */
+export interface HclLiteralExpression {
+  readonly kind: 'Literal';
+  readonly value: string | number | boolean | null;
+  readonly range: HclRange;
+}
+
+/**
+ * Literal text inside a template
+ */
+export interface HclTemplateLiteral {
+  readonly kind: 'TemplateLiteral';
+  readonly value: string;
+}
+
+/**
+ * Interpolation sequence inside a template, e.g. ${local.name}
+ */
+export interface HclTemplateInterpolation {
+  readonly kind: 'TemplateInterpolation';
+  readonly expression: HclExpression;
+  readonly raw: string;
+}
+
+/**
+ * Template directive, e.g. %{ if var.enabled }. Directives are kept as raw text.
+ */
+export interface HclTemplateDirective {
+  readonly kind: 'TemplateDirective';
+  readonly raw: string;
+}
+
+export type HclTemplatePart = HclTemplateLiteral | HclTemplateInterpolation | HclTemplateDirective;
+
+/**
+ * Quoted string or heredoc template
+ */
+export interface HclTemplateExpression {
+  readonly kind: 'Template';
+  readonly parts: HclTemplatePart[];
+  readonly heredoc: boolean;
+  readonly range: HclRange;
+}
+
+/**
+ * Reference to a root variable, e.g. the "local" in local.name
+ */
+export interface HclVariableExpression {
+  readonly kind: 'Variable';
+  readonly name: string;
+  readonly range: HclRange;
+}
+
+/**
+ * Attribute access, e.g. .name
+ */
+export interface HclGetAttrExpression {
+  readonly kind: 'GetAttr';
+  readonly object: HclExpression;
+  readonly name: string;
+  readonly range: HclRange;
+}
+
+/**
+ * Index access, e.g. [0] or ["key"]
+ */
+export interface HclIndexExpression {
+  readonly kind: 'Index';
+  readonly collection: HclExpression;
+  readonly key: HclExpression;
+  readonly range: HclRange;
+}
+
+/**
+ * Splat operator, e.g. aws_instance.web[*] or aws_instance.web.*
+ */
+export interface HclSplatExpression {
+  readonly kind: 'Splat';
+  readonly source: HclExpression;
+  readonly range: HclRange;
+}
+
+/**
+ * Function call, e.g. find_in_parent_folders("root.hcl")
+ */
+export interface HclFunctionCallExpression {
+  readonly kind: 'FunctionCall';
+  readonly name: string;
+  readonly args: HclExpression[];
+  readonly expandFinal: boolean;
+  readonly range: HclRange;
+}
+
+/**
+ * Tuple constructor, e.g. ["a", "b"]
+ */
+export interface HclTupleExpression {
+  readonly kind: 'Tuple';
+  readonly items: HclExpression[];
+  readonly range: HclRange;
+}
+
+/**
+ * Single key/value pair of an object constructor
+ */
+export interface HclObjectItem {
+  readonly key: HclExpression;
+  readonly value: HclExpression;
+  readonly range: HclRange;
+}
+
+/**
+ * Object constructor, e.g. { Name = "example" }
+ */
+export interface HclObjectExpression {
+  readonly kind: 'Object';
+  readonly items: HclObjectItem[];
+  readonly range: HclRange;
+}
+
+/**
+ * For expression, e.g. [for s in var.list : upper(s)]
+ */
+export interface HclForExpression {
+  readonly kind: 'For';
+  readonly keyVariable?: string;
+  readonly valueVariable: string;
+  readonly collection: HclExpression;
+  readonly keyExpression?: HclExpression;
+  readonly valueExpression: HclExpression;
+  readonly condition?: HclExpression;
+  readonly grouping: boolean;
+  readonly range: HclRange;
+}
+
+/**
+ * Conditional operator, e.g. var.enabled ? 1 : 0
+ */
+export interface HclConditionalExpression {
+  readonly kind: 'Conditional';
+  readonly condition: HclExpression;
+  readonly trueExpression: HclExpression;
+  readonly falseExpression: HclExpression;
+  readonly range: HclRange;
+}
+
+/**
+ * Binary operation, e.g. a + b
+ */
+export interface HclBinaryExpression {
+  readonly kind: 'Binary';
+  readonly operator: string;
+  readonly left: HclExpression;
+  readonly right: HclExpression;
+  readonly range: HclRange;
+}
+
+/**
+ * Unary operation, e.g. !a or -1
+ */
+export interface HclUnaryExpression {
+  readonly kind: 'Unary';
+  readonly operator: string;
+  readonly operand: HclExpression;
+  readonly range: HclRange;
+}
+
+/**
+ * Parenthesized expression, e.g. (a + b)
+ */
+export interface HclParenthesesExpression {
+  readonly kind: 'Parentheses';
+  readonly expression: HclExpression;
+  readonly range: HclRange;
+}
+
+export type HclExpression =
+  | HclLiteralExpression
+  | HclTemplateExpression
+  | HclVariableExpression
+  | HclGetAttrExpression
+  | HclIndexExpression
+  | HclSplatExpression
+  | HclFunctionCallExpression
+  | HclTupleExpression
+  | HclObjectExpression
+  | HclForExpression
+  | HclConditionalExpression
+  | HclBinaryExpression
+  | HclUnaryExpression
+  | HclParenthesesExpression;
+
+/**
+ * Attribute definition, e.g. source = "./modules/vpc"
+ */
+export interface HclAttribute {
+  readonly kind: 'Attribute';
+  readonly name: string;
+  readonly expression: HclExpression;
+  readonly range: HclRange;
+}
+
+/**
+ * Block definition, e.g. module "vpc" { ... }
+ */
+export interface HclBlock {
+  readonly kind: 'Block';
+  readonly type: string;
+  readonly labels: string[];
+  readonly body: HclBody;
+  readonly range: HclRange;
+}
+
+/**
+ * Body of a file or block, attributes and blocks are kept in source order
+ */
+export interface HclBody {
+  readonly attributes: HclAttribute[];
+  readonly blocks: HclBlock[];
+  readonly range: HclRange;
+}
+
+/**
+ * Parsed HCL document
+ */
+export interface HclFile {
+  readonly body: HclBody;
+  readonly comments: HclComment[];
+}
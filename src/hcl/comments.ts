@@ -0,0 +1,142 @@
+import { HclBlock, HclComment } from './ast';
+import { parseHcl } from './parser';
+
+/**
+ * Lines that look like the header of a block, e.g. module "vpc" { or terraform {
+ */
+const BLOCK_HEADER_PATTERN =
+  /^[\p{L}_][\p{L}\p{N}_-]*(\s+("[^"]*"|[\p{L}_][\p{L}\p{N}_-]*))*\s*\{/u;
+
+/**
+ * A run of comment lines with the comment markers removed
+ */
+interface UncommentedGroup {
+  readonly startLine: number;
+  readonly lines: string[];
+}
+
+/**
+ * Find blocks that were commented out, e.g.
+ *
+ *   # module "old_vpc" {
+ *   #   source = "./modules/vpc"
+ *   # }
+ *
+ * Consecutive line comments and block comments are uncommented and scanned for
+ * block headers; each candidate block is parsed on its own so surrounding prose
+ * does not prevent detection. Returned blocks carry line numbers of the original
+ * file (columns are relative to the uncommented text).
+ * @param source Original file content
+ * @param comments Comments collected while parsing the file
+ */
+export function parseCommentedBlocks(source: string, comments: HclComment[]): HclBlock[] {
+  const blocks: HclBlock[] = [];
+
+  for (const group of groupComments(source, comments)) {
+    let index = 0;
+    while (index < group.lines.length) {
+      if (!BLOCK_HEADER_PATTERN.test(group.lines[index].trim())) {
+        index++;
+        continue;
+      }
+
+      const endIndex = findBlockEnd(group.lines, index);
+      if (endIndex === -1) {
+        index++;
+        continue;
+      }
+
+      const startLine = group.startLine + index;
+      const snippet = group.lines.slice(index, endIndex + 1).join('\n');
+      try {
+        // Pad with newlines so positions match the original file
+        const parsed = parseHcl(`${'\n'.repeat(startLine - 1)}${snippet}`);
+        blocks.push(...parsed.body.blocks);
+        index = endIndex + 1;
+      } catch {
+        index++;
+      }
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * Group comments into runs of uncommented lines. Line comments on consecutive lines
+ * form one group; trailing comments after code are ignored.
+ */
+function groupComments(source: string, comments: HclComment[]): UncommentedGroup[] {
+  const groups: UncommentedGroup[] = [];
+  let current: { startLine: number; lines: string[]; lastLine: number } | null = null;
+
+  for (const comment of comments) {
+    if (comment.style === 'block') {
+      current = null;
+      groups.push({
+        startLine: comment.range.start.line,
+        lines: comment.text
+          .slice(2, -2)
+          .split('\n')
+          .map(line => line.replace(/^\s*\* ?/, '')),
+      });
+      continue;
+    }
+
+    const lineStart = source.lastIndexOf('\n', comment.range.start.offset - 1) + 1;
+    if (source.slice(lineStart, comment.range.start.offset).trim() !== '') {
+      current = null;
+      continue;
+    }
+
+    const line = comment.text.replace(/^(#|\/\/) ?/, '');
+    if (current && current.lastLine === comment.range.start.line - 1) {
+      current.lines.push(line);
+      current.lastLine = comment.range.start.line;
+    } else {
+      current = {
+        startLine: comment.range.start.line,
+        lines: [line],
+        lastLine: comment.range.start.line,
+      };
+      groups.push(current);
+    }
+  }
+
+  return groups;
+}
+
+/**
+ * Find the line that closes the block opened on the start line by counting braces
+ * outside of quoted strings
+ * @returns Index of the closing line, or -1 if the block is never closed
+ */
+function findBlockEnd(lines: string[], startIndex: number): number {
+  let depth = 0;
+
+  for (let index = startIndex; index < lines.length; index++) {
+    let inString = false;
+    const line = lines[index];
+    for (let i = 0; i < line.length; i++) {
+      const ch = line[i];
+      if (inString) {
+        if (ch === '\\') {
+          i++;
+        } else if (ch === '"') {
+          inString = false;
+        }
+      } else if (ch === '"') {
+        inString = true;
+      } else if (ch === '{') {
+        depth++;
+      } else if (ch === '}') {
+        depth--;
+        if (depth === 0) {
+          return index;
+        }
+      }
+    }
+  }
+
+  return -1;
+}
@@ -0,0 +1,15 @@
+import { HclPosition } from './ast';
+
+/**
+ * Error raised when HCL source text cannot be tokenized or parsed
+ */
+export class HclParseError extends Error {
+  constructor(
+    public readonly reason: string,
+    public readonly position: HclPosition,
+    public readonly filename?: string
+  ) {
+    super(`${filename ? `${filename}:` : ''}${position.line}:${position.column}: ${reason}`);
+    this.name = 'HclParseError';
+  }
+}
@@ -0,0 +1,412 @@
+import { HclExpression, HclTemplatePart } from './ast';
+
+/**
+ * Value produced by evaluating an HCL expression
+ */
+export type HclValue = string | number | boolean | null | HclValue[] | { [key: string]: HclValue };
+
+/**
+ * Function available to expressions. Throwing marks the call as unresolved.
+ */
+export type HclFunction = (args: HclValue[]) => HclValue;
+
+/**
+ * Variables and functions available to expressions
+ */
+export interface HclEvaluationContext {
+  variables: Record<string, HclValue>;
+  functions?: Record<string, HclFunction>;
+}
+
+/**
+ * Result of a best-effort evaluation
+ */
+export interface HclEvaluationResult {
+  /** The value, or undefined if the expression could not be fully resolved */
+  value: HclValue | undefined;
+  /** References and function calls that could not be resolved, e.g. local.version */
+  unresolved: string[];
+}
+
+/**
+ * Result of evaluating an expression to text
+ */
+export interface HclTextEvaluationResult {
+  /** The text, with unresolved template sequences kept as written (e.g. ${local.version}) */
+  text: string;
+  /** References and function calls that could not be resolved */
+  unresolved: string[];
+}
+
+/**
+ * Functions from the HCL standard library that are commonly used to build module sources
+ */
+export const HCL_STANDARD_FUNCTIONS: Record<string, HclFunction> = {
+  lower: ([value]) => asString(value).toLowerCase(),
+  upper: ([value]) => asString(value).toUpperCase(),
+  trimspace: ([value]) => asString(value).trim(),
+  trimprefix: ([value, prefix]) => {
+    const text = asString(value);
+    return text.startsWith(asString(prefix)) ? text.slice(asString(prefix).length) : text;
+  },
+  trimsuffix: ([value, suffix]) => {
+    const text = asString(value);
+    return text.endsWith(asString(suffix)) ? text.slice(0, -asString(suffix).length) : text;
+  },
+  replace: ([value, search, replacement]) =>
+    asString(value).split(asString(search)).join(asString(replacement)),
+  join: ([separator, list]) => asList(list).map(asString).join(asString(separator)),
+  split: ([separator, value]) => asString(value).split(asString(separator)),
+  concat: args => args.flatMap(asList),
+  merge: args => Object.assign({}, ...args.map(asObject)),
+  lookup: ([map, key, fallback]) => {
+    const object = asObject(map);
+    const name = asString(key);
+    if (name in object) {
+      return object[name];
+    }
+    if (fallback === undefined) {
+      throw new Error(`no key ${name}`);
+    }
+    return fallback;
+  },
+  coalesce: args => {
+    const value = args.find(arg => arg !== null && arg !== '');
+    if (value === undefined) {
+      throw new Error('no non-empty argument');
+    }
+    return value;
+  },
+  format: ([spec, ...args]) => {
+    let index = 0;
+    return asString(spec).replace(/%[sdv%]/g, verb =>
+      verb === '%%' ? '%' : asString(args[index++])
+    );
+  },
+};
+
+/**
+ * Marker for values that could not be resolved
+ */
+const UNKNOWN = Symbol('unknown');
+type MaybeValue = HclValue | typeof UNKNOWN;
+
+/**
+ * Evaluate an expression as far as the context allows
+ * @param expression Expression to evaluate
+ * @param context Variables and functions available to the expression
+ */
+export function evaluateExpression(
+  expression: HclExpression,
+  context: HclEvaluationContext
+): HclEvaluationResult {
+  const evaluator = new ExpressionEvaluator(context);
+  const value = evaluator.evaluate(expression);
+  return {
+    value: value === UNKNOWN ? undefined : value,
+    unresolved: [...new Set(evaluator.unresolved)],
+  };
+}
+
+/**
+ * Evaluate an expression to text. Template sequences that cannot be resolved are kept
+ * as written, so partially resolved values stay readable.
+ * @param expression Expression to evaluate
+ * @param context Variables and functions available to the expression
+ * @param sourceText Source text of the expression, used when it cannot be resolved at all
+ */
+export function evaluateExpressionText(
+  expression: HclExpression,
+  context: HclEvaluationContext,
+  sourceText: string
+): HclTextEvaluationResult {
+  const evaluator = new ExpressionEvaluator(context);
+  let text: string;
+
+  if (expression.kind === 'Template') {
+    text = evaluator.renderTemplate(expression.parts).text;
+  } else {
+    const value = evaluator.evaluate(expression);
+    text = value === UNKNOWN || !isScalar(value) ? `\${${sourceText}}` : String(value ?? '');
+  }
+
+  return { text, unresolved: [...new Set(evaluator.unresolved)] };
+}
+
+/**
+ * Recursive evaluator that records unresolved references
+ */
+class ExpressionEvaluator {
+  readonly unresolved: string[] = [];
+
+  constructor(private readonly context: HclEvaluationContext) {}
+
+  /**
+   * Evaluate an expression, recording references that cannot be resolved
+   */
+  evaluate(expression: HclExpression): MaybeValue {
+    switch (expression.kind) {
+      case 'Literal':
+        return expression.value;
+      case 'Parentheses':
+        return this.evaluate(expression.expression);
+      case 'Template': {
+        const { text, known } = this.renderTemplate(expression.parts);
+        return known ? text : UNKNOWN;
+      }
+      case 'Variable':
+      case 'GetAttr':
+      case 'Index':
+        return this.evaluateTraversal(expression);
+      case 'FunctionCall':
+        return this.evaluateFunctionCall(expression.name, expression.args);
+      case 'Tuple':
+        return this.all(expression.items.map(item => this.evaluate(item)));
+      case 'Object': {
+        const object: Record<string, HclValue> = {};
+        let known = true;
+        for (const item of expression.items) {
+          const key = this.evaluate(item.key);
+          const value = this.evaluate(item.value);
+          if (key === UNKNOWN || value === UNKNOWN || !isScalar(key)) {
+            known = false;
+          } else {
+            object[String(key)] = value;
+          }
+        }
+        return known ? object : UNKNOWN;
+      }
+      case 'Conditional': {
+        const condition = this.evaluate(expression.condition);
+        if (condition === UNKNOWN) {
+          return UNKNOWN;
+        }
+        return this.evaluate(condition ? expression.trueExpression : expression.falseExpression);
+      }
+      case 'Unary': {
+        const operand = this.evaluate(expression.operand);
+        if (operand === UNKNOWN) {
+          return UNKNOWN;
+        }
+        return expression.operator === '!' ? !operand : -Number(operand);
+      }
+      case 'Binary':
+        return this.evaluateBinary(
+          expression.operator,
+          this.evaluate(expression.left),
+          this.evaluate(expression.right)
+        );
+      default:
+        this.unresolved.push(`${expression.kind.toLowerCase()} expression`);
+        return UNKNOWN;
+    }
+  }
+
+  /**
+   * Render template parts, keeping unresolved sequences as written
+   */
+  renderTemplate(parts: HclTemplatePart[]): { text: string; known: boolean } {
+    let known = true;
+    const text = parts
+      .map(part => {
+        if (part.kind === 'TemplateLiteral') {
+          return part.value;
+        }
+        if (part.kind === 'TemplateDirective') {
+          known = false;
+          this.unresolved.push(`%{${part.raw.trim()}}`);
+          return `%{${part.raw}}`;
+        }
+        const value = this.evaluate(part.expression);
+        if (value === UNKNOWN || !isScalar(value)) {
+          known = false;
+          return `\${${part.raw}}`;
+        }
+        return String(value ?? '');
+      })
+      .join('');
+    return { text, known };
+  }
+
+  /**
+   * Evaluate a variable reference with attribute and index access, e.g. local.versions["vpc"]
+   */
+  private evaluateTraversal(expression: HclExpression): MaybeValue {
+    const reference = describeTraversal(expression);
+
+    if (expression.kind === 'Variable') {
+      if (!(expression.name in this.context.variables)) {
+        this.unresolved.push(reference);
+        return UNKNOWN;
+      }
+      return this.context.variables[expression.name];
+    }
+
+    const collection =
+      expression.kind === 'GetAttr'
+        ? expression.object
+        : expression.kind === 'Index'
+          ? expression.collection
+          : undefined;
+    if (!collection) {
+      return UNKNOWN;
+    }
+
+    const unresolvedBefore = this.unresolved.length;
+    const container = this.evaluate(collection);
+    if (container === UNKNOWN) {
+      // Report the full reference instead of its unresolved prefix
+      this.unresolved.splice(
+        unresolvedBefore,
+        this.unresolved.length - unresolvedBefore,
+        reference
+      );
+      return UNKNOWN;
+    }
+
+    const key =
+      expression.kind === 'GetAttr'
+        ? expression.name
+        : expression.kind === 'Index'
+          ? this.evaluate(expression.key)
+          : UNKNOWN;
+    if (key === UNKNOWN || !isScalar(key) || container === null || typeof container !== 'object') {
+      this.unresolved.push(reference);
+      return UNKNOWN;
+    }
+
+    const value = Array.isArray(container)
+      ? container[Number(key)]
+      : (container as Record<string, HclValue>)[String(key)];
+    if (value === undefined) {
+      this.unresolved.push(reference);
+      return UNKNOWN;
+    }
+    return value;
+  }
+
+  /**
+   * Call a context or standard library function once all arguments are known
+   */
+  private evaluateFunctionCall(name: string, args: HclExpression[]): MaybeValue {
+    const fn = this.context.functions?.[name] ?? HCL_STANDARD_FUNCTIONS[name];
+    const values = this.all(args.map(arg => this.evaluate(arg)));
+    if (!fn) {
+      this.unresolved.push(`${name}()`);
+      return UNKNOWN;
+    }
+    if (values === UNKNOWN) {
+      return UNKNOWN;
+    }
+
+    try {
+      return fn(values as HclValue[]);
+    } catch {
+      this.unresolved.push(`${name}()`);
+      return UNKNOWN;
+    }
+  }
+
+  /**
+   * Apply a binary operator to known operands
+   */
+  private evaluateBinary(operator: string, left: MaybeValue, right: MaybeValue): MaybeValue {
+    if (left === UNKNOWN || right === UNKNOWN) {
+      return UNKNOWN;
+    }
+
+    switch (operator) {
+      case '==':
+        return JSON.stringify(left) === JSON.stringify(right);
+      case '!=':
+        return JSON.stringify(left) !== JSON.stringify(right);
+      case '&&':
+        return Boolean(left) && Boolean(right);
+      case '||':
+        return Boolean(left) || Boolean(right);
+      case '+':
+        return Number(left) + Number(right);
+      case '-':
+        return Number(left) - Number(right);
+      case '*':
+        return Number(left) * Number(right);
+      case '/':
+        return Number(left) / Number(right);
+      case '%':
+        return Number(left) % Number(right);
+      case '<':
+        return Number(left) < Number(right);
+      case '<=':
+        return Number(left) <= Number(right);
+      case '>':
+        return Number(left) > Number(right);
+      case '>=':
+        return Number(left) >= Number(right);
+      default:
+        this.unresolved.push(`operator ${operator}`);
+        return UNKNOWN;
+    }
+  }
+
+  /**
+   * Combine values, unknown if any of them is unknown
+   */
+  private all(values: MaybeValue[]): HclValue[] | typeof UNKNOWN {
+    return values.includes(UNKNOWN) ? UNKNOWN : (values as HclValue[]);
+  }
+}
+
+/**
+ * Describe a traversal for reporting, e.g. include.root.locals.version
+ */
+function describeTraversal(expression: HclExpression): string {
+  switch (expression.kind) {
+    case 'Variable':
+      return expression.name;
+    case 'GetAttr':
+      return `${describeTraversal(expression.object)}.${expression.name}`;
+    case 'Index':
+      return `${describeTraversal(expression.collection)}[${
+        expression.key.kind === 'Literal' ? JSON.stringify(expression.key.value) : '...'
+      }]`;
+    default:
+      return expression.kind === 'FunctionCall' ? `${expression.name}()` : expression.kind;
+  }
+}
+
+/**
+ * Check whether a value can be used in a template
+ */
+function isScalar(value: HclValue): value is string | number | boolean | null {
+  return value === null || typeof value !== 'object';
+}
+
+/**
+ * Convert a function argument to a string, throwing for collections
+ */
+function asString(value: HclValue | undefined): string {
+  if (value === undefined || (value !== null && typeof value === 'object')) {
+    throw new Error('expected a string');
+  }
+  return String(value ?? '');
+}
+
+/**
+ * Get a function argument that must be a list
+ */
+function asList(value: HclValue | undefined): HclValue[] {
+  if (!Array.isArray(value)) {
+    throw new Error('expected a list');
+  }
+  return value;
+}
+
+/**
+ * Get a function argument that must be an object
+ */
+function asObject(value: HclValue | undefined): Record<string, HclValue> {
+  if (value === null || value === undefined || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('expected an object');
+  }
+  return value;
+}
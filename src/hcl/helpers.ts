@@ -0,0 +1,149 @@
+import { HclAttribute, HclBlock, HclBody, HclExpression, HclRange } from './ast';
+
+/**
+ * Find all blocks of the given type directly inside a body
+ */
+export function findBlocks(body: HclBody, type: string): HclBlock[] {
+  return body.blocks.filter(block => block.type === type);
+}
+
+/**
+ * Find an attribute by name directly inside a body
+ */
+export function findAttribute(body: HclBody, name: string): HclAttribute | undefined {
+  return body.attributes.find(attribute => attribute.name === name);
+}
+
+/**
+ * Get the value of a string expression that contains no template sequences
+ * @returns The string value, or undefined if the expression is not a static string
+ */
+export function getStaticString(expression: HclExpression): string | undefined {
+  if (expression.kind === 'Literal') {
+    return typeof expression.value === 'string' ? expression.value : undefined;
+  }
+
+  if (expression.kind === 'Template') {
+    if (expression.parts.some(part => part.kind !== 'TemplateLiteral')) {
+      return undefined;
+    }
+    return expression.parts
+      .map(part => (part.kind === 'TemplateLiteral' ? part.value : ''))
+      .join('');
+  }
+
+  return undefined;
+}
+
+/**
+ * Get the text of a template expression, keeping template sequences as written
+ * (e.g. "${local.base_url}//vpc")
+ * @returns The template text, or undefined if the expression is not a template
+ */
+export function getTemplateText(expression: HclExpression): string | undefined {
+  if (expression.kind !== 'Template') {
+    return getStaticString(expression);
+  }
+
+  return expression.parts
+    .map(part => {
+      if (part.kind === 'TemplateInterpolation') {
+        return `\${${part.raw}}`;
+      }
+      if (part.kind === 'TemplateDirective') {
+        return `%{${part.raw}}`;
+      }
+      return part.value;
+    })
+    .join('');
+}
+
+/**
+ * Find the value of an object constructor item by its static key
+ * @returns The item value, or undefined if the expression is not an object or has no such key
+ */
+export function findObjectItem(expression: HclExpression, key: string): HclExpression | undefined {
+  if (expression.kind !== 'Object') {
+    return undefined;
+  }
+  return expression.items.find(item => getStaticString(item.key) === key)?.value;
+}
+
+/**
+ * Get the source text of a node as written in the file
+ * @param source Content of the file the node was parsed from
+ */
+export function getSourceText(source: string, node: { range: HclRange }): string {
+  return source.slice(node.range.start.offset, node.range.end.offset);
+}
+
+/**
+ * Visit an expression and all of its nested expressions, depth first
+ */
+export function walkExpression(
+  expression: HclExpression,
+  visit: (expression: HclExpression) => void
+): void {
+  visit(expression);
+
+  const walk = (child: HclExpression | undefined) => {
+    if (child) {
+      walkExpression(child, visit);
+    }
+  };
+
+  switch (expression.kind) {
+    case 'Template':
+      expression.parts.forEach(part => {
+        if (part.kind === 'TemplateInterpolation') {
+          walk(part.expression);
+        }
+      });
+      break;
+    case 'GetAttr':
+      walk(expression.object);
+      break;
+    case 'Index':
+      walk(expression.collection);
+      walk(expression.key);
+      break;
+    case 'Splat':
+      walk(expression.source);
+      break;
+    case 'FunctionCall':
+      expression.args.forEach(walk);
+      break;
+    case 'Tuple':
+      expression.items.forEach(walk);
+      break;
+    case 'Object':
+      expression.items.forEach(item => {
+        walk(item.key);
+        walk(item.value);
+      });
+      break;
+    case 'For':
+      walk(expression.collection);
+      walk(expression.keyExpression);
+      walk(expression.valueExpression);
+      walk(expression.condition);
+      break;
+    case 'Conditional':
+      walk(expression.condition);
+      walk(expression.trueExpression);
+      walk(expression.falseExpression);
+      break;
+    case 'Binary':
+      walk(expression.left);
+      walk(expression.right);
+      break;
+    case 'Unary':
+      walk(expression.operand);
+      break;
+    case 'Parentheses':
+      walk(expression.expression);
+      break;
+    default:
+      break;
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * Barrel export for the HCL2 lexer and parser
+ */
+
+// AST node types
+export * from './ast';
+
+// Errors
+export * from './errors';
+
+// Lexer
+export * from './lexer';
+
+// Parser
+export * from './parser';
+
+// AST helpers
+export * from './helpers';
+
+// Commented-out code detection
+export * from './comments';
+
+// Best-effort expression evaluation
+export * from './evaluator';
@@ -0,0 +1,454 @@
+import { HclComment, HclPosition, HclRange } from './ast';
+import { HclParseError } from './errors';
+
+/**
+ * Token categories produced by the lexer
+ */
+export type HclTokenType = 'identifier' | 'number' | 'template' | 'punctuation' | 'newline' | 'eof';
+
+/**
+ * Unparsed piece of a template token. Interpolations and directives only record
+ * where their expression text lives so the parser can tokenize it on demand.
+ */
+export type HclRawTemplatePart =
+  | { kind: 'literal'; value: string }
+  | {
+      kind: 'interpolation' | 'directive';
+      start: HclPosition;
+      end: number;
+      stripLeft: boolean;
+      stripRight: boolean;
+    };
+
+/**
+ * Lexical token
+ */
+export interface HclToken {
+  readonly type: HclTokenType;
+  readonly value: string;
+  readonly range: HclRange;
+  readonly templateParts?: HclRawTemplatePart[];
+  readonly heredoc?: boolean;
+}
+
+/**
+ * Lexer options, start/end allow tokenizing a slice of a larger document
+ */
+export interface HclLexerOptions {
+  filename?: string;
+  start?: HclPosition;
+  end?: number;
+}
+
+const PUNCTUATION = [
+  '...',
+  '==',
+  '!=',
+  '<=',
+  '>=',
+  '&&',
+  '||',
+  '=>',
+  '::',
+  '{',
+  '}',
+  '[',
+  ']',
+  '(',
+  ')',
+  '=',
+  ':',
+  ',',
+  '.',
+  '?',
+  '<',
+  '>',
+  '+',
+  '-',
+  '*',
+  '/',
+  '%',
+  '!',
+];
+
+const IDENTIFIER_PATTERN = /[\p{L}_][\p{L}\p{N}_-]*/uy;
+const NUMBER_PATTERN = /\d+(\.\d+)?([eE][+-]?\d+)?/y;
+const HEREDOC_PATTERN = /<<(-?)([\p{L}_][\p{L}\p{N}_-]*)[ \t]*\r?\n/uy;
+
+/**
+ * Converts HCL2 source text into tokens, collecting comments on the side
+ */
+export class HclLexer {
+  private offset: number;
+  private line: number;
+  private column: number;
+  private readonly end: number;
+  private readonly tokens: HclToken[] = [];
+  private readonly comments: HclComment[] = [];
+
+  constructor(
+    private readonly source: string,
+    private readonly options: HclLexerOptions = {}
+  ) {
+    const start = options.start || { line: 1, column: 1, offset: 0 };
+    this.offset = start.offset;
+    this.line = start.line;
+    this.column = start.column;
+    this.end = options.end !== undefined ? options.end : source.length;
+  }
+
+  /**
+   * Tokenize the whole input
+   */
+  tokenize(): { tokens: HclToken[]; comments: HclComment[] } {
+    while (this.offset < this.end) {
+      const ch = this.source[this.offset];
+      const next = this.source[this.offset + 1];
+
+      if (ch === ' ' || ch === '\t' || ch === '\r' || ch === '\uFEFF') {
+        this.advance();
+      } else if (ch === '\n') {
+        const start = this.position();
+        this.advance();
+        this.pushToken('newline', '\n', start);
+      } else if (ch === '#' || (ch === '/' && next === '/')) {
+        this.readLineComment();
+      } else if (ch === '/' && next === '*') {
+        this.readBlockComment();
+      } else if (ch === '"') {
+        this.readQuotedTemplate();
+      } else if (ch === '<' && next === '<') {
+        this.readHeredoc();
+      } else if (ch >= '0' && ch <= '9') {
+        this.readPattern(NUMBER_PATTERN, 'number');
+      } else if (!this.readPattern(IDENTIFIER_PATTERN, 'identifier')) {
+        this.readPunctuation();
+      }
+    }
+
+    this.pushToken('eof', '', this.position());
+    return { tokens: this.tokens, comments: this.comments };
+  }
+
+  private position(): HclPosition {
+    return { line: this.line, column: this.column, offset: this.offset };
+  }
+
+  private advance(count = 1): void {
+    for (let i = 0; i < count && this.offset < this.source.length; i++) {
+      if (this.source[this.offset] === '\n') {
+        this.line++;
+        this.column = 1;
+      } else {
+        this.column++;
+      }
+      this.offset++;
+    }
+  }
+
+  private error(reason: string, position: HclPosition = this.position()): HclParseError {
+    return new HclParseError(reason, position, this.options.filename);
+  }
+
+  private pushToken(
+    type: HclTokenType,
+    value: string,
+    start: HclPosition,
+    extra: Partial<HclToken> = {}
+  ): void {
+    this.tokens.push({ type, value, range: { start, end: this.position() }, ...extra });
+  }
+
+  private readPattern(pattern: RegExp, type: HclTokenType): boolean {
+    pattern.lastIndex = this.offset;
+    const match = pattern.exec(this.source);
+    if (!match || this.offset + match[0].length > this.end) {
+      return false;
+    }
+
+    const start = this.position();
+    this.advance(match[0].length);
+    this.pushToken(type, match[0], start);
+    return true;
+  }
+
+  private readPunctuation(): void {
+    const start = this.position();
+    const punctuation = PUNCTUATION.find(p => this.source.startsWith(p, this.offset));
+    if (!punctuation) {
+      throw this.error(`Unexpected character "${this.source[this.offset]}"`);
+    }
+
+    this.advance(punctuation.length);
+    this.pushToken('punctuation', punctuation, start);
+  }
+
+  private readLineComment(): void {
+    const start = this.position();
+    while (this.offset < this.end && this.source[this.offset] !== '\n') {
+      this.advance();
+    }
+
+    this.comments.push({
+      style: 'line',
+      text: this.source.slice(start.offset, this.offset),
+      range: { start, end: this.position() },
+    });
+  }
+
+  private readBlockComment(): void {
+    const start = this.position();
+    const closeIndex = this.source.indexOf('*/', this.offset + 2);
+    if (closeIndex === -1 || closeIndex + 2 > this.end) {
+      throw this.error('Unterminated block comment', start);
+    }
+
+    this.advance(closeIndex + 2 - this.offset);
+    this.comments.push({
+      style: 'block',
+      text: this.source.slice(start.offset, this.offset),
+      range: { start, end: this.position() },
+    });
+  }
+
+  private readQuotedTemplate(): void {
+    const start = this.position();
+    this.advance(); // opening quote
+    const parts = this.readTemplateParts('quoted', this.end);
+    this.advance(); // closing quote
+
+    this.pushToken('template', this.source.slice(start.offset, this.offset), start, {
+      templateParts: parts,
+      heredoc: false,
+    });
+  }
+
+  private readHeredoc(): void {
+    const start = this.position();
+    HEREDOC_PATTERN.lastIndex = this.offset;
+    const match = HEREDOC_PATTERN.exec(this.source);
+    if (!match) {
+      throw this.error('Invalid heredoc introducer, expected <<MARKER or <<-MARKER', start);
+    }
+
+    const indented = match[1] === '-';
+    const marker = match[2];
+    this.advance(match[0].length);
+
+    // Locate the closing marker line
+    const bodyStart = this.offset;
+    let bodyEnd = -1;
+    let terminatorEnd = -1;
+    let lineStart = bodyStart;
+    while (lineStart <= this.end) {
+      const newlineIndex = this.source.indexOf('\n', lineStart);
+      const lineEnd = newlineIndex === -1 || newlineIndex > this.end ? this.end : newlineIndex;
+      if (this.source.slice(lineStart, lineEnd).trim() === marker) {
+        bodyEnd = lineStart;
+        terminatorEnd = lineEnd;
+        break;
+      }
+      if (lineEnd >= this.end) {
+        break;
+      }
+      lineStart = lineEnd + 1;
+    }
+
+    if (bodyEnd === -1) {
+      throw this.error(`Unterminated heredoc, missing closing marker "${marker}"`, start);
+    }
+
+    let parts = this.readTemplateParts('heredoc', bodyEnd);
+    if (indented) {
+      parts = this.stripHeredocIndentation(parts, this.source.slice(bodyStart, bodyEnd));
+    }
+    this.advance(terminatorEnd - this.offset);
+
+    this.pushToken('template', this.source.slice(start.offset, this.offset), start, {
+      templateParts: parts,
+      heredoc: true,
+    });
+  }
+
+  /**
+   * Read template content until the closing quote (quoted mode) or the limit (heredoc mode)
+   */
+  private readTemplateParts(mode: 'quoted' | 'heredoc', limit: number): HclRawTemplatePart[] {
+    const parts: HclRawTemplatePart[] = [];
+    let literal = '';
+    const flush = () => {
+      if (literal) {
+        parts.push({ kind: 'literal', value: literal });
+        literal = '';
+      }
+    };
+
+    for (;;) {
+      if (this.offset >= limit) {
+        if (mode === 'quoted') {
+          throw this.error('Unterminated string');
+        }
+        break;
+      }
+
+      const ch = this.source[this.offset];
+      const next = this.source[this.offset + 1];
+
+      if (mode === 'quoted') {
+        if (ch === '"') {
+          break;
+        }
+        if (ch === '\n') {
+          throw this.error('Unterminated string, quoted strings cannot span lines');
+        }
+        if (ch === '\\') {
+          literal += this.readEscape();
+          continue;
+        }
+      }
+
+      if ((ch === '$' || ch === '%') && next === ch && this.source[this.offset + 2] === '{') {
+        // Escaped sequence: $${ or %%{
+        literal += `${ch}{`;
+        this.advance(3);
+      } else if ((ch === '$' || ch === '%') && next === '{') {
+        flush();
+        parts.push(this.readTemplateSequence(ch === '$' ? 'interpolation' : 'directive'));
+      } else {
+        literal += ch;
+        this.advance();
+      }
+    }
+
+    flush();
+    return this.applyStripMarkers(parts);
+  }
+
+  private readEscape(): string {
+    const start = this.position();
+    this.advance(); // backslash
+    const ch = this.source[this.offset];
+    const simpleEscapes: Record<string, string> = {
+      n: '\n',
+      r: '\r',
+      t: '\t',
+      '"': '"',
+      '\\': '\\',
+    };
+
+    if (ch in simpleEscapes) {
+      this.advance();
+      return simpleEscapes[ch];
+    }
+
+    if (ch === 'u' || ch === 'U') {
+      const length = ch === 'u' ? 4 : 8;
+      const hex = this.source.slice(this.offset + 1, this.offset + 1 + length);
+      if (!/^[0-9a-fA-F]+$/.test(hex) || hex.length !== length) {
+        throw this.error('Invalid unicode escape sequence', start);
+      }
+      this.advance(length + 1);
+      return String.fromCodePoint(parseInt(hex, 16));
+    }
+
+    throw this.error(`Invalid escape sequence "\\${ch}"`, start);
+  }
+
+  private readTemplateSequence(kind: 'interpolation' | 'directive'): HclRawTemplatePart {
+    const sequenceStart = this.position();
+    this.advance(2); // ${ or %{
+
+    let stripLeft = false;
+    if (this.source[this.offset] === '~') {
+      stripLeft = true;
+      this.advance();
+    }
+
+    const start = this.position();
+    this.skipToClosingBrace(sequenceStart);
+
+    let end = this.offset;
+    let stripRight = false;
+    if (end > start.offset && this.source[end - 1] === '~') {
+      stripRight = true;
+      end--;
+    }
+    this.advance(); // closing brace
+
+    return { kind, start, end, stripLeft, stripRight };
+  }
+
+  private skipToClosingBrace(sequenceStart: HclPosition): void {
+    let depth = 0;
+    for (;;) {
+      if (this.offset >= this.end) {
+        throw this.error('Unterminated template sequence', sequenceStart);
+      }
+
+      const ch = this.source[this.offset];
+      if (ch === '{') {
+        depth++;
+      } else if (ch === '}') {
+        if (depth === 0) {
+          return;
+        }
+        depth--;
+      } else if (ch === '"') {
+        // Nested string, which may itself contain braces
+        this.advance();
+        this.readTemplateParts('quoted', this.end);
+      }
+      this.advance();
+    }
+  }
+
+  private applyStripMarkers(parts: HclRawTemplatePart[]): HclRawTemplatePart[] {
+    return parts
+      .map((part, index) => {
+        if (part.kind !== 'literal') {
+          return part;
+        }
+
+        const previous = parts[index - 1];
+        const following = parts[index + 1];
+        let value = part.value;
+        if (previous && previous.kind !== 'literal' && previous.stripRight) {
+          value = value.trimStart();
+        }
+        if (following && following.kind !== 'literal' && following.stripLeft) {
+          value = value.trimEnd();
+        }
+        return { kind: 'literal' as const, value };
+      })
+      .filter(part => part.kind !== 'literal' || part.value !== '');
+  }
+
+  private stripHeredocIndentation(parts: HclRawTemplatePart[], body: string): HclRawTemplatePart[] {
+    const indents = body
+      .split('\n')
+      .filter(line => line.trim() !== '')
+      .map(line => (line.match(/^[ \t]*/) as RegExpMatchArray)[0].length);
+    const minIndent = indents.length > 0 ? Math.min(...indents) : 0;
+
+    let atLineStart = true;
+    return parts.map(part => {
+      if (part.kind !== 'literal') {
+        atLineStart = false;
+        return part;
+      }
+
+      let value = '';
+      let pending = 0;
+      for (const ch of part.value) {
+        if (atLineStart && pending < minIndent && (ch === ' ' || ch === '\t')) {
+          pending++;
+          continue;
+        }
+        atLineStart = ch === '\n';
+        pending = 0;
+        value += ch;
+      }
+      return { kind: 'literal' as const, value };
+    });
+  }
+}
@@ -0,0 +1,588 @@
+import {
+  HclAttribute,
+  HclBlock,
+  HclBody,
+  HclExpression,
+  HclFile,
+  HclObjectItem,
+  HclPosition,
+  HclRange,
+  HclTemplateExpression,
+  HclTemplatePart,
+} from './ast';
+import { HclParseError } from './errors';
+import { HclLexer, HclToken } from './lexer';
+
+/**
+ * Binary operators by precedence, lowest first
+ */
+const BINARY_PRECEDENCE: string[][] = [
+  ['||'],
+  ['&&'],
+  ['==', '!='],
+  ['<', '>', '<=', '>='],
+  ['+', '-'],
+  ['*', '/', '%'],
+];
+
+/**
+ * Nesting contexts: newlines are insignificant inside parentheses, brackets and
+ * template interpolations, but separate items inside object constructors.
+ */
+type NestingContext = 'paren' | 'bracket' | 'brace';
+
+/**
+ * Recursive descent parser for HCL2 native syntax
+ */
+export class HclParser {
+  private position = 0;
+  private readonly nesting: NestingContext[] = [];
+
+  constructor(
+    private readonly source: string,
+    private readonly tokens: HclToken[],
+    private readonly filename?: string
+  ) {}
+
+  /**
+   * Parse a complete configuration body until end of input
+   */
+  parseFile(): HclBody {
+    const body = this.parseBody(false);
+    this.expect('eof');
+    return body;
+  }
+
+  /**
+   * Parse a single expression spanning all tokens (used for template interpolations)
+   */
+  parseStandaloneExpression(): HclExpression {
+    this.nesting.push('paren');
+    const expression = this.parseExpression();
+    this.expect('eof');
+    this.nesting.pop();
+    return expression;
+  }
+
+  // === Token navigation ===
+
+  private newlinesIgnored(): boolean {
+    const context = this.nesting[this.nesting.length - 1];
+    return context === 'paren' || context === 'bracket';
+  }
+
+  private peek(lookahead = 0): HclToken {
+    let index = this.position;
+    let seen = 0;
+    for (;;) {
+      const token = this.tokens[Math.min(index, this.tokens.length - 1)];
+      if (token.type === 'newline' && this.newlinesIgnored()) {
+        index++;
+        continue;
+      }
+      if (seen === lookahead || token.type === 'eof') {
+        return token;
+      }
+      seen++;
+      index++;
+    }
+  }
+
+  private next(): HclToken {
+    for (;;) {
+      const token = this.tokens[Math.min(this.position, this.tokens.length - 1)];
+      if (token.type !== 'eof') {
+        this.position++;
+      }
+      if (token.type === 'newline' && this.newlinesIgnored()) {
+        continue;
+      }
+      return token;
+    }
+  }
+
+  private skipNewlines(): void {
+    while (this.tokens[this.position].type === 'newline') {
+      this.position++;
+    }
+  }
+
+  private isPunctuation(token: HclToken, ...values: string[]): boolean {
+    return token.type === 'punctuation' && values.includes(token.value);
+  }
+
+  private isKeyword(token: HclToken, keyword: string): boolean {
+    return token.type === 'identifier' && token.value === keyword;
+  }
+
+  private expect(type: HclToken['type'], value?: string): HclToken {
+    const token = this.next();
+    if (token.type !== type || (value !== undefined && token.value !== value)) {
+      throw this.unexpected(token, value ? `"${value}"` : type);
+    }
+    return token;
+  }
+
+  private unexpected(token: HclToken, expected?: string): HclParseError {
+    const found =
+      token.type === 'eof'
+        ? 'end of input'
+        : token.type === 'newline'
+          ? 'newline'
+          : `"${token.value}"`;
+    return new HclParseError(
+      `Unexpected ${found}${expected ? `, expected ${expected}` : ''}`,
+      token.range.start,
+      this.filename
+    );
+  }
+
+  private withNesting<T>(context: NestingContext, parse: () => T): T {
+    this.nesting.push(context);
+    try {
+      return parse();
+    } finally {
+      this.nesting.pop();
+    }
+  }
+
+  private rangeFrom(start: HclPosition): HclRange {
+    const previous = this.tokens[Math.max(this.position - 1, 0)];
+    return { start, end: previous.range.end };
+  }
+
+  // === Structural parsing ===
+
+  private parseBody(nested: boolean): HclBody {
+    const attributes: HclAttribute[] = [];
+    const blocks: HclBlock[] = [];
+    const start = this.peek().range.start;
+
+    for (;;) {
+      this.skipNewlines();
+      const token = this.peek();
+
+      if (token.type === 'eof') {
+        if (nested) {
+          throw this.unexpected(token, '"}"');
+        }
+        break;
+      }
+      if (nested && this.isPunctuation(token, '}')) {
+        break;
+      }
+      if (token.type !== 'identifier') {
+        throw this.unexpected(token, 'attribute or block definition');
+      }
+
+      const item = this.parseBodyItem();
+      if (item.kind === 'Attribute') {
+        attributes.push(item);
+      } else {
+        blocks.push(item);
+      }
+
+      // Items end at a newline, end of input, or the closing brace of a single-line block
+      const terminator = this.peek();
+      if (terminator.type === 'newline' || terminator.type === 'eof') {
+        continue;
+      }
+      if (nested && this.isPunctuation(terminator, '}')) {
+        continue;
+      }
+      throw this.unexpected(terminator, 'newline');
+    }
+
+    return { attributes, blocks, range: { start, end: this.peek().range.start } };
+  }
+
+  private parseBodyItem(): HclAttribute | HclBlock {
+    const nameToken = this.next();
+
+    if (this.isPunctuation(this.peek(), '=')) {
+      this.next();
+      const expression = this.parseExpression();
+      return {
+        kind: 'Attribute',
+        name: nameToken.value,
+        expression,
+        range: this.rangeFrom(nameToken.range.start),
+      };
+    }
+
+    const labels: string[] = [];
+    for (;;) {
+      const token = this.peek();
+      if (token.type === 'identifier') {
+        labels.push(this.next().value);
+      } else if (token.type === 'template' && !token.heredoc) {
+        const label = this.parseTemplate(this.next());
+        if (label.parts.some(part => part.kind !== 'TemplateLiteral')) {
+          throw new HclParseError(
+            'Block labels cannot contain template sequences',
+            token.range.start,
+            this.filename
+          );
+        }
+        labels.push(
+          label.parts.map(part => (part.kind === 'TemplateLiteral' ? part.value : '')).join('')
+        );
+      } else if (this.isPunctuation(token, '{')) {
+        break;
+      } else {
+        throw this.unexpected(token, '"=" or "{"');
+      }
+    }
+
+    this.expect('punctuation', '{');
+    const body = this.withNesting('brace', () => this.parseBody(true));
+    this.expect('punctuation', '}');
+
+    return {
+      kind: 'Block',
+      type: nameToken.value,
+      labels,
+      body,
+      range: this.rangeFrom(nameToken.range.start),
+    };
+  }
+
+  // === Expressions ===
+
+  private parseExpression(): HclExpression {
+    const condition = this.parseBinary(0);
+
+    if (this.isPunctuation(this.peek(), '?')) {
+      this.next();
+      const trueExpression = this.parseExpression();
+      this.expect('punctuation', ':');
+      const falseExpression = this.parseExpression();
+      return {
+        kind: 'Conditional',
+        condition,
+        trueExpression,
+        falseExpression,
+        range: this.rangeFrom(condition.range.start),
+      };
+    }
+
+    return condition;
+  }
+
+  private parseBinary(level: number): HclExpression {
+    if (level >= BINARY_PRECEDENCE.length) {
+      return this.parseUnary();
+    }
+
+    let left = this.parseBinary(level + 1);
+    while (this.isPunctuation(this.peek(), ...BINARY_PRECEDENCE[level])) {
+      const operator = this.next().value;
+      const right = this.parseBinary(level + 1);
+      left = { kind: 'Binary', operator, left, right, range: this.rangeFrom(left.range.start) };
+    }
+    return left;
+  }
+
+  private parseUnary(): HclExpression {
+    const token = this.peek();
+    if (this.isPunctuation(token, '!', '-')) {
+      this.next();
+      const operand = this.parseUnary();
+      return {
+        kind: 'Unary',
+        operator: token.value,
+        operand,
+        range: this.rangeFrom(token.range.start),
+      };
+    }
+    return this.parsePostfix(this.parsePrimary());
+  }
+
+  private parsePostfix(term: HclExpression): HclExpression {
+    let expression = term;
+    const start = term.range.start;
+
+    for (;;) {
+      const token = this.peek();
+
+      if (this.isPunctuation(token, '.')) {
+        this.next();
+        const member = this.next();
+        if (member.type === 'identifier') {
+          expression = {
+            kind: 'GetAttr',
+            object: expression,
+            name: member.value,
+            range: this.rangeFrom(start),
+          };
+        } else if (member.type === 'number') {
+          // Legacy index syntax, e.g. list.0
+          expression = {
+            kind: 'Index',
+            collection: expression,
+            key: { kind: 'Literal', value: Number(member.value), range: member.range },
+            range: this.rangeFrom(start),
+          };
+        } else if (this.isPunctuation(member, '*')) {
+          expression = { kind: 'Splat', source: expression, range: this.rangeFrom(start) };
+        } else {
+          throw this.unexpected(member, 'attribute name');
+        }
+      } else if (this.isPunctuation(token, '[')) {
+        this.next();
+        expression = this.withNesting<HclExpression>('bracket', () => {
+          if (this.isPunctuation(this.peek(), '*')) {
+            this.next();
+            this.expect('punctuation', ']');
+            return { kind: 'Splat', source: expression, range: this.rangeFrom(start) };
+          }
+          const key = this.parseExpression();
+          this.expect('punctuation', ']');
+          return { kind: 'Index', collection: expression, key, range: this.rangeFrom(start) };
+        });
+      } else {
+        return expression;
+      }
+    }
+  }
+
+  private parsePrimary(): HclExpression {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'number':
+        return { kind: 'Literal', value: Number(token.value), range: token.range };
+      case 'template':
+        return this.parseTemplate(token);
+      case 'identifier':
+        return this.parseIdentifierExpression(token);
+      case 'punctuation':
+        if (token.value === '(') {
+          return this.withNesting<HclExpression>('paren', () => {
+            const expression = this.parseExpression();
+            this.expect('punctuation', ')');
+            return {
+              kind: 'Parentheses',
+              expression,
+              range: this.rangeFrom(token.range.start),
+            };
+          });
+        }
+        if (token.value === '[') {
+          return this.withNesting('bracket', () => this.parseTuple(token));
+        }
+        if (token.value === '{') {
+          return this.parseObject(token);
+        }
+        throw this.unexpected(token, 'expression');
+      default:
+        throw this.unexpected(token, 'expression');
+    }
+  }
+
+  private parseIdentifierExpression(token: HclToken): HclExpression {
+    if (token.value === 'true' || token.value === 'false') {
+      return { kind: 'Literal', value: token.value === 'true', range: token.range };
+    }
+    if (token.value === 'null') {
+      return { kind: 'Literal', value: null, range: token.range };
+    }
+
+    // Namespaced function names, e.g. provider::aws::arn_parse
+    let name = token.value;
+    while (this.isPunctuation(this.peek(), '::') && this.peek(1).type === 'identifier') {
+      this.next();
+      name += `::${this.next().value}`;
+    }
+
+    if (!this.isPunctuation(this.peek(), '(')) {
+      return { kind: 'Variable', name, range: this.rangeFrom(token.range.start) };
+    }
+
+    this.next();
+    return this.withNesting<HclExpression>('paren', () => {
+      const args: HclExpression[] = [];
+      let expandFinal = false;
+
+      while (!this.isPunctuation(this.peek(), ')')) {
+        args.push(this.parseExpression());
+        if (this.isPunctuation(this.peek(), '...')) {
+          this.next();
+          expandFinal = true;
+        }
+        if (!this.isPunctuation(this.peek(), ',')) {
+          break;
+        }
+        this.next();
+      }
+
+      this.expect('punctuation', ')');
+      return {
+        kind: 'FunctionCall',
+        name,
+        args,
+        expandFinal,
+        range: this.rangeFrom(token.range.start),
+      };
+    });
+  }
+
+  private parseTuple(open: HclToken): HclExpression {
+    if (this.isKeyword(this.peek(), 'for') && this.peek(1).type === 'identifier') {
+      return this.parseFor(open, false);
+    }
+
+    const items: HclExpression[] = [];
+    while (!this.isPunctuation(this.peek(), ']')) {
+      items.push(this.parseExpression());
+      if (!this.isPunctuation(this.peek(), ',')) {
+        break;
+      }
+      this.next();
+    }
+
+    this.expect('punctuation', ']');
+    return { kind: 'Tuple', items, range: this.rangeFrom(open.range.start) };
+  }
+
+  private parseObject(open: HclToken): HclExpression {
+    this.nesting.push('brace');
+    try {
+      this.skipNewlines();
+      if (this.isKeyword(this.peek(), 'for') && this.peek(1).type === 'identifier') {
+        return this.withNesting('bracket', () => this.parseFor(open, true));
+      }
+
+      const items: HclObjectItem[] = [];
+      for (;;) {
+        this.skipNewlines();
+        if (this.isPunctuation(this.peek(), '}')) {
+          break;
+        }
+
+        const rawKey = this.parseExpression();
+        // Bare identifiers used as keys are literal strings, not variable references
+        const key: HclExpression =
+          rawKey.kind === 'Variable'
+            ? { kind: 'Literal', value: rawKey.name, range: rawKey.range }
+            : rawKey;
+
+        const separator = this.next();
+        if (!this.isPunctuation(separator, '=', ':')) {
+          throw this.unexpected(separator, '"=" or ":"');
+        }
+
+        const value = this.parseExpression();
+        items.push({ key, value, range: this.rangeFrom(key.range.start) });
+
+        const following = this.peek();
+        if (this.isPunctuation(following, ',')) {
+          this.next();
+        } else if (following.type !== 'newline' && !this.isPunctuation(following, '}')) {
+          throw this.unexpected(following, '"," or newline');
+        }
+      }
+
+      this.expect('punctuation', '}');
+      return { kind: 'Object', items, range: this.rangeFrom(open.range.start) };
+    } finally {
+      this.nesting.pop();
+    }
+  }
+
+  private parseFor(open: HclToken, isObject: boolean): HclExpression {
+    this.expect('identifier', 'for');
+    let keyVariable: string | undefined;
+    let valueVariable = this.expect('identifier').value;
+    if (this.isPunctuation(this.peek(), ',')) {
+      this.next();
+      keyVariable = valueVariable;
+      valueVariable = this.expect('identifier').value;
+    }
+    this.expect('identifier', 'in');
+    const collection = this.parseExpression();
+    this.expect('punctuation', ':');
+
+    let keyExpression: HclExpression | undefined;
+    if (isObject) {
+      keyExpression = this.parseExpression();
+      this.expect('punctuation', '=>');
+    }
+    const valueExpression = this.parseExpression();
+
+    let grouping = false;
+    if (isObject && this.isPunctuation(this.peek(), '...')) {
+      this.next();
+      grouping = true;
+    }
+
+    let condition: HclExpression | undefined;
+    if (this.isKeyword(this.peek(), 'if')) {
+      this.next();
+      condition = this.parseExpression();
+    }
+
+    this.expect('punctuation', isObject ? '}' : ']');
+    return {
+      kind: 'For',
+      keyVariable,
+      valueVariable,
+      collection,
+      keyExpression,
+      valueExpression,
+      condition,
+      grouping,
+      range: this.rangeFrom(open.range.start),
+    };
+  }
+
+  private parseTemplate(token: HclToken): HclTemplateExpression {
+    const parts: HclTemplatePart[] = (token.templateParts || []).map(part => {
+      if (part.kind === 'literal') {
+        return { kind: 'TemplateLiteral', value: part.value };
+      }
+
+      const raw = this.source.slice(part.start.offset, part.end);
+      if (part.kind === 'directive') {
+        return { kind: 'TemplateDirective', raw: raw.trim() };
+      }
+
+      const { tokens } = new HclLexer(this.source, {
+        filename: this.filename,
+        start: part.start,
+        end: part.end,
+      }).tokenize();
+      const expression = new HclParser(
+        this.source,
+        tokens,
+        this.filename
+      ).parseStandaloneExpression();
+      return { kind: 'TemplateInterpolation', expression, raw: raw.trim() };
+    });
+
+    return { kind: 'Template', parts, heredoc: Boolean(token.heredoc), range: token.range };
+  }
+}
+
+/**
+ * Parse HCL2 source text into an AST
+ * @param source HCL source text
+ * @param filename Optional file name used in error messages
+ * @returns Parsed file with its body and comments
+ * @throws HclParseError when the source is not valid HCL
+ */
+export function parseHcl(source: string, filename?: string): HclFile {
+  const { tokens, comments } = new HclLexer(source, { filename }).tokenize();
+  const body = new HclParser(source, tokens, filename).parseFile();
+  return { body, comments };
+}
+
+/**
+ * Parse a single HCL2 expression
+ * @param source Expression source text
+ * @throws HclParseError when the source is not a valid expression
+ */
+export function parseHclExpression(source: string): HclExpression {
+  const { tokens } = new HclLexer(source).tokenize();
+  return new HclParser(source, tokens).parseStandaloneExpression();
+}
@@ -1,11 +1,21 @@
 #!/usr/bin/env node
 
-import { program } from 'commander';
-import { VcsServiceFactory, VcsServiceFactoryConfig } from './vcs';
-import { LocalFilesystemScanner } from './scanners';
-import { TerraformParser, TerragruntParser, IaCModule } from './parsers';
+import { Command, program } from 'commander';
+import { BaseVcsService, VcsServiceFactory, VcsServiceFactoryConfig } from './vcs';
+import { GitRemoteScanner, LocalFilesystemScanner, redactRemoteUrl } from './scanners';
+import {
+  TerraformParser,
+  TerragruntParser,
+  ProviderParser,
+  LockFileParser,
+  RequiredVersionParser,
+  IaCModule,
+  ModuleParseOptions,
+  SourceType,
+  GIT_SOURCE_TYPES,
+} from './parsers';
 import { Logger, LogLevel } from './services/logger';
-import { VcsPlatform } from './types';
+import { IacFile, VcsChangeRequest, VcsFetchMode, VcsPlatform, VcsRepositoryFilter } from './types';
 import {
   parseSource,
   convertLegacyToSource,
@@ -13,7 +23,23 @@ import {
   ParsedSource,
 } from './utils/source-parser';
 import { sortModulesBySource } from './utils/sort-modules';
+import { compareVersions } from './utils/version';
 import { createNormalizedSummary } from './utils/normalize-source';
+import {
+  ModuleVersionLookup,
+  OutdatedStatus,
+  checkOutdatedModules,
+  createOutdatedSummary,
+} from './utils/outdated';
+import { buildModuleGraph, formatGraphAsDot, formatGraphAsMermaid } from './utils/module-graph';
+import { createUsageSummary, findModuleUsages } from './utils/module-usages';
+import {
+  ModuleChange,
+  describeChange,
+  diffModules,
+  formatModuleChangesAsMarkdown,
+} from './utils/module-diff';
+import { GitTagResolver, RegistryClient } from './registry';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as dotenv from 'dotenv';
@@ -24,246 +50,704 @@ dotenv.config({ quiet: true });
 const logger = Logger.forComponent('Main');
 
 /**
- * Set up command line interface
+ * Options shared by commands that discover IaC files
  */
-program
-  .name('terrawiz')
-  .description('Track Terraform modules across version control platforms and local filesystems')
-  .version(packageJson.version);
+interface DiscoveryOptions {
+  org?: string;
+  repo?: string;
+  pattern?: string;
+  format: string;
+  export?: string;
+  concurrency?: string;
+  limit?: string;
+  ref?: string;
+  refFile?: string;
+  fetchMode?: string;
+  includeArchived?: boolean;
+  subgroups?: boolean;
+  topic?: string;
+  language?: string;
+  team?: string;
+  pushedAfter?: string;
+  visibility?: string;
+  terraformOnly?: boolean;
+  terragruntOnly?: boolean;
+  disableRateLimit?: boolean;
+  debug?: boolean;
+}
 
-program
-  .command('scan')
-  .description('Scan and analyze Infrastructure as Code modules from various sources')
-  .argument(
-    '[source]',
-    'Source to scan (platform:identifier format, e.g., github:myorg, local:/path/to/dir)'
-  )
+/**
+ * Files discovered for a source
+ */
+interface DiscoveryResult {
+  parsedSource: ParsedSource;
+  files: IacFile[];
+  fileTypesDescription: string;
+  targetDescription: string;
+  /** Options for parsing the modules of the discovered files */
+  moduleParseOptions: ModuleParseOptions;
+  /** Service used to discover the files of VCS sources */
+  vcsService?: BaseVcsService;
+}
 
-  // === Core Options (Legacy - Deprecated) ===
-  .option(
-    '-o, --org <organization>',
-    '[DEPRECATED] Use source argument instead. Organization or user name'
-  )
-  .option(
-    '-r, --repo <repository>',
-    '[DEPRECATED] Use source argument instead. Specific repository name'
-  )
-  .option('-p, --pattern <regex>', 'Filter repositories by name pattern')
+/**
+ * Add the source, filtering, output and concurrency options shared by commands that
+ * discover IaC files
+ * @param command Command to add the options to
+ * @param formats Output formats of the command, the first is the default
+ */
+function addDiscoveryOptions(
+  command: Command,
+  formats: string[] = ['table', 'json', 'csv']
+): Command {
+  return (
+    command
+      .argument(
+        '[source]',
+        'Source to scan (platform:identifier format, e.g., github:myorg, local:/path/to/dir)'
+      )
 
-  .option('-f, --format <format>', 'Output format: table, json, csv', 'table')
-  .option('-e, --export <file>', 'Export results to file')
-  .option(
-    '-c, --concurrency <repos:files>',
-    'Concurrent processing (e.g., "5:10" for 5 repos, 10 files)',
-    '5:10'
-  )
-  .option('--limit <number>', 'Maximum repositories to scan')
-  .option('--include-archived', 'Include archived repositories (default: skip archived)')
-  .option('--terraform-only', 'Scan only Terraform (.tf) files')
-  .option('--terragrunt-only', 'Scan only Terragrunt (.hcl) files')
-  .option('--disable-rate-limit', 'Disable API rate limiting')
-  .option('--debug', 'Enable debug logging')
-  .action(async (source, options) => {
-    try {
-      // Configure logging based on debug flag
-      if (options.debug) {
-        Logger.getInstance({ level: LogLevel.DEBUG });
-        logger.debug('Debug logging enabled');
-      }
+      // === Core Options (Legacy - Deprecated) ===
+      .option(
+        '-o, --org <organization>',
+        '[DEPRECATED] Use source argument instead. Organization or user name'
+      )
+      .option(
+        '-r, --repo <repository>',
+        '[DEPRECATED] Use source argument instead. Specific repository name'
+      )
+      .option('-p, --pattern <regex>', 'Filter repositories by name pattern')
+      .option(
+        '--topic <topics>',
+        'Only scan repositories with one of these comma-separated topics (GitHub only)'
+      )
+      .option(
+        '--language <language>',
+        'Only scan repositories with this primary language (GitHub only)'
+      )
+      .option('--team <slug>', 'Only scan repositories of this organization team (GitHub only)')
+      .option(
+        '--pushed-after <date>',
+        'Only scan repositories pushed to since this date, e.g. 2024-01-01 (GitHub only)'
+      )
+      .option(
+        '--visibility <visibility>',
+        'Only scan repositories with this visibility: public, private, all'
+      )
 
-      // Handle source argument vs legacy flags
-      let parsedSource: ParsedSource;
-      if (source) {
-        // New format: positional argument
-        try {
-          parsedSource = parseSource(source);
-          logger.info(
-            `Using source: ${getPlatformDisplayName(parsedSource.platform)} - ${parsedSource.identifier}`
-          );
-        } catch (error) {
-          logger.error(`Invalid source format: ${(error as Error).message}`);
-          process.exit(1);
-        }
-      } else if (options.org) {
-        // Legacy format: deprecated flags
-        logger.warn('⚠️  DEPRECATION WARNING: --org and --repo flags are deprecated.');
-        logger.warn(
-          `   Please use the new source format: terrawiz scan ${convertLegacyToSource(options.org, options.repo)}`
-        );
-        logger.warn('   The old flags will be removed in a future version.');
+      .option('-f, --format <format>', `Output format: ${formats.join(', ')}`, formats[0])
+      .option('-e, --export <file>', 'Export results to file')
+      .option(
+        '-c, --concurrency <repos:files>',
+        'Concurrent processing (e.g., "5:10" for 5 repos, 10 files)',
+        '5:10'
+      )
+      .option('--limit <number>', 'Maximum repositories to scan')
+      .option('--ref <ref>', 'Branch, tag or commit SHA to scan instead of the default branch')
+      .option(
+        '--ref-file <file>',
+        'JSON file mapping repository names to the branch, tag or commit SHA to scan'
+      )
+      .option(
+        '--fetch-mode <mode>',
+        'Fetch files with one API request each (api), a shallow clone (clone) or a tarball (archive) per repository; GitHub and GitLab only',
+        'api'
+      )
+      .option('--include-archived', 'Include archived repositories (default: skip archived)')
+      .option(
+        '--no-subgroups',
+        'Only scan projects directly in a GitLab group, not in its subgroups'
+      )
+      .option('--terraform-only', 'Scan only Terraform (.tf) files')
+      .option('--terragrunt-only', 'Scan only Terragrunt (.hcl) files')
+      .option('--disable-rate-limit', 'Disable API rate limiting')
+      .option('--debug', 'Enable debug logging')
+  );
+}
 
-        try {
-          const legacySource = convertLegacyToSource(options.org, options.repo);
-          parsedSource = parseSource(legacySource);
-        } catch (error) {
-          logger.error(`Error converting legacy format: ${(error as Error).message}`);
-          process.exit(1);
-        }
-      } else {
-        logger.error('Error: No source specified.');
-        logger.error('Usage: terrawiz scan <source>');
-        logger.error('Examples:');
-        logger.error('  terrawiz scan github:myorg');
-        logger.error('  terrawiz scan gitlab:mygroup');
-        logger.error('  terrawiz scan gitlab://gitlab.company.com/mygroup');
-        logger.error('  terrawiz scan github:myorg/myrepo');
-        logger.error('  terrawiz scan local:/path/to/directory');
-        logger.error('');
-        logger.error('For backward compatibility, you can still use --org (deprecated):');
-        logger.error('  terrawiz scan --org myorg');
-        process.exit(1);
-      }
+/**
+ * Load a ref mapping file: a JSON object mapping repository full names (org/repo) or
+ * names to the branch, tag or commit SHA to scan. Exits the process when the file is invalid.
+ * @param filePath Path of the mapping file
+ */
+function loadRepositoryRefs(filePath: string): Record<string, string> {
+  let refs: unknown;
+  try {
+    refs = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    logger.error(`Error reading ref file ${filePath}: ${(error as Error).message}`);
+    process.exit(1);
+  }
 
-      // Parse repository limit
-      let maxRepos: number | null = null;
-      if (options.limit) {
-        maxRepos = parseInt(options.limit, 10);
-        if (isNaN(maxRepos) || maxRepos < 1) {
-          logger.error('Error: --limit must be a positive number');
-          process.exit(1);
-        }
-        logger.info(`Limiting scan to ${maxRepos} repositor${maxRepos === 1 ? 'y' : 'ies'}`);
-      }
+  if (!refs || typeof refs !== 'object' || Array.isArray(refs)) {
+    logger.error(`Error: ref file ${filePath} must contain a JSON object of repository refs`);
+    process.exit(1);
+  }
 
-      // Parse concurrency options
-      let maxConcurrentRepos = DEFAULT_REPO_CONCURRENCY;
-      let maxConcurrentFiles = DEFAULT_FILE_CONCURRENCY;
-
-      if (options.concurrency) {
-        const concurrencyMatch = options.concurrency.match(/^(\d+):(\d+)$/);
-        if (concurrencyMatch) {
-          maxConcurrentRepos = parseInt(concurrencyMatch[1], 10);
-          maxConcurrentFiles = parseInt(concurrencyMatch[2], 10);
-        } else {
-          logger.error('Error: --concurrency must be in format "repos:files" (e.g., "5:10")');
-          process.exit(1);
-        }
-      }
+  for (const [repository, ref] of Object.entries(refs)) {
+    if (typeof ref !== 'string' || ref.trim() === '') {
+      logger.error(`Error: ref of repository '${repository}' in ${filePath} must be a string`);
+      process.exit(1);
+    }
+  }
 
-      if (maxConcurrentRepos < 1 || maxConcurrentFiles < 1) {
-        logger.error('Error: concurrency values must be positive numbers');
-        process.exit(1);
-      }
+  return refs as Record<string, string>;
+}
+
+/**
+ * Source and settings parsed from the discovery options
+ */
+interface DiscoverySettings {
+  parsedSource: ParsedSource;
+  iacFileTypes: Array<'terraform' | 'terragrunt'>;
+  fileTypesDescription: string;
+  targetDescription: string;
+  maxRepos: number | null;
+  maxConcurrentRepos: number;
+  maxConcurrentFiles: number;
+  repositoryRefs?: Record<string, string>;
+  fetchMode: VcsFetchMode;
+  /** Topic, language, team, pushed date and visibility filters of the repositories */
+  repositoryFilter: VcsRepositoryFilter;
+  /** Options for parsing the modules of the discovered files */
+  moduleParseOptions: ModuleParseOptions;
+}
 
-      logger.debug(
-        `Concurrency settings: ${maxConcurrentRepos} repos, ${maxConcurrentFiles} files per repo`
+/**
+ * Parse the source and discovery options. Exits the process when the options are invalid.
+ * @param commandName Name of the running command, used in usage messages
+ * @param source Source argument, if given
+ * @param options Parsed command options
+ */
+function parseDiscoverySettings(
+  commandName: string,
+  source: string | undefined,
+  options: DiscoveryOptions
+): DiscoverySettings {
+  // Configure logging based on debug flag
+  if (options.debug) {
+    Logger.getInstance({ level: LogLevel.DEBUG });
+    logger.debug('Debug logging enabled');
+  }
+
+  // Handle source argument vs legacy flags
+  let parsedSource: ParsedSource;
+  if (source) {
+    // New format: positional argument
+    try {
+      parsedSource = parseSource(source);
+      logger.info(
+        `Using source: ${getPlatformDisplayName(parsedSource.platform)} - ${parsedSource.identifier}`
       );
+    } catch (error) {
+      logger.error(`Invalid source format: ${(error as Error).message}`);
+      process.exit(1);
+    }
+  } else if (options.org) {
+    // Legacy format: deprecated flags
+    logger.warn('⚠️  DEPRECATION WARNING: --org and --repo flags are deprecated.');
+    logger.warn(
+      `   Please use the new source format: terrawiz ${commandName} ${convertLegacyToSource(options.org, options.repo)}`
+    );
+    logger.warn('   The old flags will be removed in a future version.');
 
-      // Validate repository pattern
-      if (options.pattern) {
-        try {
-          new RegExp(options.pattern);
-          logger.info(`Using repository filter pattern: ${options.pattern}`);
-        } catch (error) {
-          logger.error(`Invalid repository pattern regex: ${options.pattern}`);
-          logger.errorWithStack('Regex error', error as Error);
-          process.exit(1);
-        }
-      }
+    try {
+      const legacySource = convertLegacyToSource(options.org, options.repo);
+      parsedSource = parseSource(legacySource);
+    } catch (error) {
+      logger.error(`Error converting legacy format: ${(error as Error).message}`);
+      process.exit(1);
+    }
+  } else {
+    logger.error('Error: No source specified.');
+    logger.error(`Usage: terrawiz ${commandName} <source>`);
+    logger.error('Examples:');
+    logger.error(`  terrawiz ${commandName} github:myorg`);
+    logger.error(`  terrawiz ${commandName} gitlab:mygroup`);
+    logger.error(`  terrawiz ${commandName} gitlab://gitlab.company.com/mygroup`);
+    logger.error(`  terrawiz ${commandName} github:myorg/myrepo`);
+    logger.error(`  terrawiz ${commandName} local:/path/to/directory`);
+    logger.error('');
+    logger.error('For backward compatibility, you can still use --org (deprecated):');
+    logger.error(`  terrawiz ${commandName} --org myorg`);
+    process.exit(1);
+  }
+
+  // Parse repository limit
+  let maxRepos: number | null = null;
+  if (options.limit) {
+    maxRepos = parseInt(options.limit, 10);
+    if (isNaN(maxRepos) || maxRepos < 1) {
+      logger.error('Error: --limit must be a positive number');
+      process.exit(1);
+    }
+    logger.info(`Limiting scan to ${maxRepos} repositor${maxRepos === 1 ? 'y' : 'ies'}`);
+  }
+
+  // Parse concurrency options
+  let maxConcurrentRepos = DEFAULT_REPO_CONCURRENCY;
+  let maxConcurrentFiles = DEFAULT_FILE_CONCURRENCY;
+
+  if (options.concurrency) {
+    const concurrencyMatch = options.concurrency.match(/^(\d+):(\d+)$/);
+    if (concurrencyMatch) {
+      maxConcurrentRepos = parseInt(concurrencyMatch[1], 10);
+      maxConcurrentFiles = parseInt(concurrencyMatch[2], 10);
+    } else {
+      logger.error('Error: --concurrency must be in format "repos:files" (e.g., "5:10")');
+      process.exit(1);
+    }
+  }
+
+  if (maxConcurrentRepos < 1 || maxConcurrentFiles < 1) {
+    logger.error('Error: concurrency values must be positive numbers');
+    process.exit(1);
+  }
+
+  logger.debug(
+    `Concurrency settings: ${maxConcurrentRepos} repos, ${maxConcurrentFiles} files per repo`
+  );
+
+  // Parse the refs to scan instead of the default branches
+  const repositoryRefs = options.refFile ? loadRepositoryRefs(options.refFile) : undefined;
+  if (options.ref) {
+    logger.info(`Scanning ref ${options.ref} instead of the default branch`);
+  }
+  if (repositoryRefs) {
+    const count = Object.keys(repositoryRefs).length;
+    logger.info(`Loaded refs for ${count} repositor${count === 1 ? 'y' : 'ies'}`);
+  }
+
+  // Validate how repository files are fetched
+  const fetchModes: VcsFetchMode[] = ['api', 'clone', 'archive'];
+  const fetchMode = (options.fetchMode ?? 'api') as VcsFetchMode;
+  if (!fetchModes.includes(fetchMode)) {
+    logger.error(`Error: --fetch-mode must be one of: ${fetchModes.join(', ')}`);
+    process.exit(1);
+  }
+  const fetchModePlatforms = [
+    VcsPlatform.GITHUB,
+    VcsPlatform.GITHUB_SELF_HOSTED,
+    VcsPlatform.GITLAB,
+    VcsPlatform.GITLAB_SELF_HOSTED,
+  ];
+  if (fetchMode !== 'api' && !fetchModePlatforms.includes(parsedSource.platform)) {
+    logger.warn(`--fetch-mode ${fetchMode} is only supported for GitHub and GitLab sources`);
+  } else if (fetchMode !== 'api') {
+    logger.info(`Fetching repository files with ${fetchMode} instead of the API`);
+  }
+
+  // Parse the repository filters
+  const repositoryFilter = parseRepositoryFilter(options);
+  const githubPlatforms = [VcsPlatform.GITHUB, VcsPlatform.GITHUB_SELF_HOSTED];
+  if (
+    (options.topic || options.language || options.team || options.pushedAfter) &&
+    !githubPlatforms.includes(parsedSource.platform)
+  ) {
+    logger.warn(
+      '--topic, --language, --team and --pushed-after are only supported for GitHub sources'
+    );
+  }
+
+  // Validate repository pattern
+  if (options.pattern) {
+    try {
+      new RegExp(options.pattern);
+      logger.info(`Using repository filter pattern: ${options.pattern}`);
+    } catch (error) {
+      logger.error(`Invalid repository pattern regex: ${options.pattern}`);
+      logger.errorWithStack('Regex error', error as Error);
+      process.exit(1);
+    }
+  }
+
+  // Validate IaC file types options
+  if (options.terraformOnly && options.terragruntOnly) {
+    logger.error(
+      'Error: Cannot specify both --terraform-only and --terragrunt-only. Use neither to scan both.'
+    );
+    process.exit(1);
+  }
+
+  // Determine which IaC file types to scan
+  let iacFileTypes: Array<'terraform' | 'terragrunt'> = ['terraform', 'terragrunt'];
+  if (options.terraformOnly) {
+    iacFileTypes = ['terraform'];
+  } else if (options.terragruntOnly) {
+    iacFileTypes = ['terragrunt'];
+  }
+
+  // Local module directories can only be checked when files of every type are scanned
+  const moduleParseOptions: ModuleParseOptions = {
+    completeFileSet: iacFileTypes.length === 2,
+  };
+  if (!moduleParseOptions.completeFileSet) {
+    logger.info('Not checking local module links, the scan is filtered by file type');
+  }
+
+  // Log what we're scanning for
+  const fileTypesDescription = options.terraformOnly
+    ? 'Terraform files'
+    : options.terragruntOnly
+      ? 'Terragrunt files'
+      : 'Terraform and Terragrunt files';
+
+  const targetDescription =
+    parsedSource.platform === VcsPlatform.GIT
+      ? redactRemoteUrl(parsedSource.identifier)
+      : parsedSource.repository
+        ? `${parsedSource.identifier}/${parsedSource.repository}`
+        : parsedSource.identifier;
+
+  return {
+    parsedSource,
+    iacFileTypes,
+    fileTypesDescription,
+    targetDescription,
+    maxRepos,
+    maxConcurrentRepos,
+    maxConcurrentFiles,
+    repositoryRefs,
+    fetchMode,
+    repositoryFilter,
+    moduleParseOptions,
+  };
+}
+
+/**
+ * Parse the topic, language, team, pushed date and visibility filters of the repositories to
+ * scan. Exits the process when a filter is invalid.
+ * @param options Parsed command options
+ */
+function parseRepositoryFilter(options: DiscoveryOptions): VcsRepositoryFilter {
+  const visibilities = ['public', 'private', 'all'];
+  if (options.visibility && !visibilities.includes(options.visibility)) {
+    logger.error(`Error: --visibility must be one of: ${visibilities.join(', ')}`);
+    process.exit(1);
+  }
+
+  let pushedAfter: Date | undefined;
+  if (options.pushedAfter) {
+    pushedAfter = new Date(options.pushedAfter);
+    if (isNaN(pushedAfter.getTime())) {
+      logger.error('Error: --pushed-after must be a date, e.g. 2024-01-01');
+      process.exit(1);
+    }
+  }
+
+  const topics = options.topic
+    ?.split(',')
+    .map(topic => topic.trim())
+    .filter(topic => topic.length > 0);
+
+  return {
+    topics: topics?.length ? topics : undefined,
+    language: options.language,
+    team: options.team,
+    pushedAfter,
+    visibility: options.visibility as VcsRepositoryFilter['visibility'],
+  };
+}
 
-      // Validate IaC file types options
-      if (options.terraformOnly && options.terragruntOnly) {
+/**
+ * Create the VCS service of a parsed VCS source
+ * @param settings Parsed discovery settings
+ * @param options Parsed command options
+ */
+function createVcsService(settings: DiscoverySettings, options: DiscoveryOptions): BaseVcsService {
+  const { parsedSource } = settings;
+
+  const vcsServiceConfig: VcsServiceFactoryConfig = {
+    platform: parsedSource.platform,
+    debug: options.debug,
+    skipArchived: !options.includeArchived,
+    cacheEnabled: true,
+    githubToken: process.env.GITHUB_TOKEN,
+    githubHost: parsedSource.host,
+    gitlabToken: process.env.GITLAB_TOKEN,
+    gitlabHost: parsedSource.host,
+    bitbucketToken: process.env.BITBUCKET_TOKEN,
+    bitbucketUsername: process.env.BITBUCKET_USERNAME,
+    bitbucketAppPassword: process.env.BITBUCKET_APP_PASSWORD,
+    bitbucketApiUrl: process.env.BITBUCKET_API_URL,
+    bitbucketHost: parsedSource.host,
+    azureDevOpsToken: process.env.AZURE_DEVOPS_TOKEN,
+    azureDevOpsApiUrl: process.env.AZURE_DEVOPS_API_URL,
+    giteaToken: process.env.GITEA_TOKEN,
+    giteaHost: parsedSource.host,
+    useRateLimit: !options.disableRateLimit,
+    repoPattern: options.pattern,
+    iacFileTypes: settings.iacFileTypes,
+    maxConcurrentRepos: settings.maxConcurrentRepos,
+    maxConcurrentFiles: settings.maxConcurrentFiles,
+  };
+
+  return VcsServiceFactory.createService(vcsServiceConfig);
+}
+
+/**
+ * Parse the source and discovery options and find the IaC files of the source.
+ * Exits the process when the options are invalid.
+ * @param commandName Name of the running command, used in usage messages
+ * @param source Source argument, if given
+ * @param options Parsed command options
+ */
+async function discoverIacFiles(
+  commandName: string,
+  source: string | undefined,
+  options: DiscoveryOptions
+): Promise<DiscoveryResult> {
+  const settings = parseDiscoverySettings(commandName, source, options);
+  const {
+    parsedSource,
+    iacFileTypes,
+    fileTypesDescription,
+    targetDescription,
+    maxRepos,
+    maxConcurrentFiles,
+    repositoryRefs,
+    fetchMode,
+  } = settings;
+
+  logger.info(
+    `Scanning for ${fileTypesDescription} in ${getPlatformDisplayName(parsedSource.platform)}: ${targetDescription}${options.pattern ? ` (filtering by pattern: ${options.pattern})` : ''}`
+  );
+
+  // Route to platform-specific scanning logic
+  let files: IacFile[];
+  let vcsService: BaseVcsService | undefined;
+  if (parsedSource.platform === VcsPlatform.LOCAL) {
+    // Local filesystem - direct scanning, no VCS concepts
+    logger.info(`Scanning local filesystem...`);
+    if (options.ref || repositoryRefs) {
+      logger.warn('Refs are ignored for local sources, the working tree is scanned as is');
+    }
+
+    const localScanner = new LocalFilesystemScanner({
+      maxConcurrentFiles,
+      debug: options.debug,
+    });
+
+    files = await localScanner.scanDirectory(parsedSource.identifier, {
+      fileTypes: iacFileTypes,
+    });
+  } else if (parsedSource.platform === VcsPlatform.GIT) {
+    // Plain git remote - shallow clone with the git binary, no platform API
+    logger.info(`Cloning git remote...`);
+
+    const gitScanner = new GitRemoteScanner({
+      maxConcurrentFiles,
+      debug: options.debug,
+    });
+
+    files = await gitScanner.scanRemote(parsedSource.identifier, {
+      fileTypes: iacFileTypes,
+      ref: options.ref,
+      repositoryRefs,
+    });
+  } else {
+    // VCS platforms - use repository discovery and scanning
+    logger.info(`Getting repositories and extracting ${fileTypesDescription}...`);
+
+    // Create VCS service using factory
+    vcsService = createVcsService(settings, options);
+
+    if (parsedSource.repository) {
+      // Single repository specified in source - fetch it directly
+      const targetRepo = await vcsService.getSingleRepository(
+        parsedSource.identifier,
+        parsedSource.repository
+      );
+
+      if (!targetRepo) {
         logger.error(
-          'Error: Cannot specify both --terraform-only and --terragrunt-only. Use neither to scan both.'
+          `Repository '${parsedSource.repository}' not found in '${parsedSource.identifier}'`
         );
         process.exit(1);
       }
 
-      // Determine which IaC file types to scan
-      let iacFileTypes: Array<'terraform' | 'terragrunt'> = ['terraform', 'terragrunt'];
-      if (options.terraformOnly) {
-        iacFileTypes = ['terraform'];
-      } else if (options.terragruntOnly) {
-        iacFileTypes = ['terragrunt'];
-      }
+      files = await vcsService.findIacFilesInRepository(targetRepo, {
+        fileTypes: iacFileTypes,
+        ref: options.ref,
+        repositoryRefs,
+        fetchMode,
+      });
+    } else {
+      // All repositories for organization
+      const repositoryFilter = {
+        skipArchived: !options.includeArchived,
+        namePattern: options.pattern ? new RegExp(options.pattern) : undefined,
+        maxRepositories: maxRepos || undefined,
+        includeSubgroups: options.subgroups !== false,
+        ...settings.repositoryFilter,
+      };
+      const fileOptions = {
+        fileTypes: iacFileTypes,
+        ref: options.ref,
+        repositoryRefs,
+        fetchMode,
+      };
+      files = await vcsService.findAllIacFiles(
+        parsedSource.identifier,
+        repositoryFilter,
+        fileOptions
+      );
+    }
+  }
 
-      // Log what we're scanning for
-      const fileTypesDescription = options.terraformOnly
-        ? 'Terraform files'
-        : options.terragruntOnly
-          ? 'Terragrunt files'
-          : 'Terraform and Terragrunt files';
+  return {
+    parsedSource,
+    files,
+    fileTypesDescription,
+    targetDescription,
+    moduleParseOptions: settings.moduleParseOptions,
+    vcsService,
+  };
+}
 
-      const targetDescription = parsedSource.repository
-        ? `${parsedSource.identifier}/${parsedSource.repository}`
-        : parsedSource.identifier;
+/**
+ * Describe the source of a scan for report metadata, without git remote credentials
+ */
+function describeSource(parsedSource: ParsedSource): string {
+  return parsedSource.platform === VcsPlatform.GIT
+    ? `git:${redactRemoteUrl(parsedSource.identifier)}`
+    : parsedSource.originalInput;
+}
 
-      logger.info(
-        `Scanning for ${fileTypesDescription} in ${getPlatformDisplayName(parsedSource.platform)}: ${targetDescription}${options.pattern ? ` (filtering by pattern: ${options.pattern})` : ''}`
-      );
+/**
+ * Describe the scope of a scan for report metadata
+ */
+function describeScope(parsedSource: ParsedSource): string {
+  return parsedSource.platform === VcsPlatform.LOCAL
+    ? `Local directory: ${path.basename(parsedSource.identifier)}`
+    : parsedSource.platform === VcsPlatform.GIT
+      ? `Git remote: ${redactRemoteUrl(parsedSource.identifier)}`
+      : parsedSource.repository
+        ? `Single repository: ${parsedSource.repository}`
+        : `All repositories in ${parsedSource.identifier}`;
+}
 
-      // Route to platform-specific scanning logic
-      let files;
-      if (parsedSource.platform === VcsPlatform.LOCAL) {
-        // Local filesystem - direct scanning, no VCS concepts
-        logger.info(`Scanning local filesystem...`);
+/**
+ * Export results to a file if requested, or print them to the console
+ */
+function writeOutput(outputData: string, options: DiscoveryOptions): void {
+  if (options.export) {
+    const exportPath = path.resolve(options.export);
+    fs.writeFileSync(exportPath, outputData);
+    logger.info(`Results exported to ${exportPath}`);
+  } else {
+    // Only print to console if not exporting
+    console.log(outputData);
+  }
+}
 
-        const localScanner = new LocalFilesystemScanner({
-          maxConcurrentFiles,
-          debug: options.debug,
-        });
+/**
+ * Create the VCS services used to list the tags of git modules, keyed by host. The service
+ * of the scanned source is reused; github.com, gitlab.com, bitbucket.org and dev.azure.com
+ * are added when credentials are set, other hosts fall back to git ls-remote.
+ */
+function createTagServices(
+  discovery: DiscoveryResult,
+  options: DiscoveryOptions
+): Record<string, BaseVcsService> {
+  const { parsedSource, vcsService } = discovery;
+  const services: Record<string, BaseVcsService> = {};
 
-        files = await localScanner.scanDirectory(parsedSource.identifier, {
-          fileTypes: iacFileTypes,
-        });
-      } else {
-        // VCS platforms - use repository discovery and scanning
-        logger.info(`Getting repositories and extracting ${fileTypesDescription}...`);
-
-        // Create VCS service using factory
-        const vcsServiceConfig: VcsServiceFactoryConfig = {
-          platform: parsedSource.platform,
-          debug: options.debug,
-          skipArchived: !options.includeArchived,
-          cacheEnabled: true,
-          githubToken: process.env.GITHUB_TOKEN,
-          githubHost: parsedSource.host,
-          gitlabToken: process.env.GITLAB_TOKEN,
-          gitlabHost: parsedSource.host,
-          useRateLimit: !options.disableRateLimit,
-          repoPattern: options.pattern,
-          iacFileTypes,
-          maxConcurrentRepos,
-          maxConcurrentFiles,
-        };
-
-        const vcsService = VcsServiceFactory.createService(vcsServiceConfig);
-
-        if (parsedSource.repository) {
-          // Single repository specified in source - fetch it directly
-          const targetRepo = await vcsService.getSingleRepository(
-            parsedSource.identifier,
-            parsedSource.repository
-          );
+  if (vcsService) {
+    const cloudHosts: Partial<Record<VcsPlatform, string>> = {
+      [VcsPlatform.GITLAB]: 'gitlab.com',
+      [VcsPlatform.BITBUCKET]: 'bitbucket.org',
+      [VcsPlatform.AZURE_DEVOPS]: 'dev.azure.com',
+      [VcsPlatform.GITEA]: 'gitea.com',
+    };
+    const host = parsedSource.host
+      ? new URL(parsedSource.host).host
+      : cloudHosts[parsedSource.platform] || 'github.com';
+    services[host] = vcsService;
+  }
+  if (!services['github.com'] && process.env.GITHUB_TOKEN) {
+    services['github.com'] = VcsServiceFactory.createService({
+      platform: VcsPlatform.GITHUB,
+      debug: options.debug,
+      githubToken: process.env.GITHUB_TOKEN,
+      useRateLimit: !options.disableRateLimit,
+    });
+  }
+  if (!services['gitlab.com'] && process.env.GITLAB_TOKEN) {
+    services['gitlab.com'] = VcsServiceFactory.createService({
+      platform: VcsPlatform.GITLAB,
+      debug: options.debug,
+      gitlabToken: process.env.GITLAB_TOKEN,
+      useRateLimit: !options.disableRateLimit,
+    });
+  }
+  if (
+    !services['bitbucket.org'] &&
+    (process.env.BITBUCKET_TOKEN ||
+      (process.env.BITBUCKET_USERNAME && process.env.BITBUCKET_APP_PASSWORD))
+  ) {
+    services['bitbucket.org'] = VcsServiceFactory.createService({
+      platform: VcsPlatform.BITBUCKET,
+      debug: options.debug,
+      bitbucketToken: process.env.BITBUCKET_TOKEN,
+      bitbucketUsername: process.env.BITBUCKET_USERNAME,
+      bitbucketAppPassword: process.env.BITBUCKET_APP_PASSWORD,
+    });
+  }
+  if (!services['dev.azure.com'] && process.env.AZURE_DEVOPS_TOKEN) {
+    services['dev.azure.com'] = VcsServiceFactory.createService({
+      platform: VcsPlatform.AZURE_DEVOPS,
+      debug: options.debug,
+      azureDevOpsToken: process.env.AZURE_DEVOPS_TOKEN,
+    });
+  }
 
-          if (!targetRepo) {
-            logger.error(
-              `Repository '${parsedSource.repository}' not found in '${parsedSource.identifier}'`
-            );
-            process.exit(1);
-          }
+  return services;
+}
 
-          files = await vcsService.findIacFilesInRepository(targetRepo, {
-            fileTypes: iacFileTypes,
-          });
-        } else {
-          // All repositories for organization
-          const repositoryFilter = {
-            skipArchived: !options.includeArchived,
-            namePattern: options.pattern ? new RegExp(options.pattern) : undefined,
-            maxRepositories: maxRepos || undefined,
-          };
-          const fileOptions = {
-            fileTypes: iacFileTypes,
-          };
-          files = await vcsService.findAllIacFiles(
-            parsedSource.identifier,
-            repositoryFilter,
-            fileOptions
-          );
-        }
+/**
+ * Record types the scan command can write as CSV, one type per file
+ */
+const CSV_RECORD_TYPES = [
+  'modules',
+  'providers',
+  'locked-providers',
+  'required-versions',
+  'terragrunt-blocks',
+];
+
+/**
+ * Set up command line interface
+ */
+program
+  .name('terrawiz')
+  .description('Track Terraform modules across version control platforms and local filesystems')
+  .version(packageJson.version);
+
+addDiscoveryOptions(
+  program
+    .command('scan')
+    .description('Scan and analyze Infrastructure as Code modules from various sources')
+)
+  .option('--include-commented', 'Report commented-out module blocks separately')
+  .option(
+    '--csv-records <type>',
+    `Records written by --format csv: ${CSV_RECORD_TYPES.join(', ')}`,
+    CSV_RECORD_TYPES[0]
+  )
+  .action(async (source, options) => {
+    try {
+      const csvRecords = options.csvRecords.toLowerCase();
+      if (!CSV_RECORD_TYPES.includes(csvRecords)) {
+        logger.error(
+          `Invalid CSV record type: ${options.csvRecords} (expected ${CSV_RECORD_TYPES.join(', ')})`
+        );
+        process.exit(1);
       }
 
+      const { parsedSource, files, fileTypesDescription, targetDescription, moduleParseOptions } =
+        await discoverIacFiles('scan', source, options);
+
       if (files.length === 0) {
         logger.info(`No ${fileTypesDescription} found`);
         return;
@@ -281,17 +765,43 @@ program
       const terraformParser = new TerraformParser();
       const terragruntParser = new TerragruntParser();
 
-      // Extract module information based on file type
+      // Extract module information based on file type; every file is passed so local module
+      // directories of either type are found
       const terraformModules =
+        terraformFileCount > 0 ? terraformParser.parseModules(files, moduleParseOptions) : [];
+
+      const terragruntModules =
+        terragruntFileCount > 0 ? terragruntParser.parseModules(files, moduleParseOptions) : [];
+
+      // Extract include, dependency, locals and generate blocks that wire Terragrunt units together
+      const terragruntConfig =
+        terragruntFileCount > 0 ? terragruntParser.parseConfigRecords(files) : [];
+
+      // Extract provider requirements from terraform { required_providers { ... } } blocks
+      const providers =
         terraformFileCount > 0
-          ? terraformParser.parseModules(files.filter(f => f.type === 'terraform'))
+          ? new ProviderParser().parseProviders(files.filter(f => f.type === 'terraform'))
           : [];
 
-      const terragruntModules = terragruntFileCount > 0 ? terragruntParser.parseModules(files) : [];
+      // Extract resolved provider versions from .terraform.lock.hcl files
+      const lockFileParser = new LockFileParser();
+      const lockedProviders = terraformFileCount > 0 ? lockFileParser.parseLockFiles(files) : [];
+
+      // Extract Terraform CLI version constraints from terraform { required_version = ... }
+      const requiredVersionParser = new RequiredVersionParser();
+      const requiredVersions =
+        terraformFileCount > 0 ? requiredVersionParser.parseRequiredVersions(files) : [];
 
       // Check module counts
-      if (terraformModules.length === 0 && terragruntModules.length === 0) {
-        logger.info('No modules found in any files');
+      if (
+        terraformModules.length === 0 &&
+        terragruntModules.length === 0 &&
+        providers.length === 0 &&
+        lockedProviders.length === 0 &&
+        requiredVersions.length === 0 &&
+        terragruntConfig.length === 0
+      ) {
+        logger.info('No modules, providers or version constraints found in any files');
         return;
       }
 
@@ -312,24 +822,31 @@ program
       // Sort modules by source to group same sources together
       allModules = sortModulesBySource(allModules);
 
+      // Commented-out module blocks are never part of the results, only reported on request
+      const commentedModules: IaCModule[] | undefined = options.includeCommented
+        ? sortModulesBySource([
+            ...(terraformFileCount > 0 ? terraformParser.parseCommentedModules(files) : []),
+            ...(terragruntFileCount > 0 ? terragruntParser.parseCommentedModules(files) : []),
+          ])
+        : undefined;
+
       // Combine summaries
       const combinedSummary = {
         ...terraformSummary,
         ...terragruntSummary,
       };
+      const providerSummary = new ProviderParser().createProviderSummary(providers);
+      const lockedProviderSummary = lockFileParser.createLockSummary(lockedProviders);
+      const requiredVersionSummary =
+        requiredVersionParser.createRequiredVersionSummary(requiredVersions);
 
       // Output results
       const result = {
         metadata: {
           platform: getPlatformDisplayName(parsedSource.platform),
-          source: parsedSource.originalInput,
+          source: describeSource(parsedSource),
           target: targetDescription,
-          scope:
-            parsedSource.platform === VcsPlatform.LOCAL
-              ? `Local directory: ${path.basename(parsedSource.identifier)}`
-              : parsedSource.repository
-                ? `Single repository: ${parsedSource.repository}`
-                : `All repositories in ${parsedSource.identifier}`,
+          scope: describeScope(parsedSource),
           repoPattern: options.pattern || undefined,
           timestamp: new Date().toISOString(),
           moduleCount: allModules.length,
@@ -338,9 +855,23 @@ program
           terragruntModuleCount: terragruntModules.length,
           terraformFileCount: terraformFileCount,
           terragruntFileCount: terragruntFileCount,
+          providerCount: providers.length,
+          lockedProviderCount: lockedProviders.length,
+          requiredVersionCount: requiredVersions.length,
+          terragruntConfigCount: terragruntConfig.length,
+          brokenLinkCount: allModules.filter(m => m.brokenLink).length,
+          commentedModuleCount: commentedModules?.length,
         },
         modules: allModules,
         summary: combinedSummary,
+        providers,
+        providerSummary,
+        lockedProviders,
+        lockedProviderSummary,
+        requiredVersions,
+        requiredVersionSummary,
+        terragruntConfig,
+        commentedModules,
       };
 
       // Prepare the output data based on format
@@ -350,6 +881,65 @@ program
           outputData = JSON.stringify(result, null, 2);
           break;
         case 'csv': {
+          // Record types have different columns, so a CSV holds one type only
+          if (csvRecords === 'providers') {
+            const providerCsvData = providers
+              .map(
+                p =>
+                  `"${p.localName}","${p.source}","${p.version || ''}","${p.repository}","${p.filePath}",${p.lineNumber},"${p.fileUrl}#L${p.lineNumber}"`
+              )
+              .join('\n');
+            outputData = `provider,source,version,repository,file_path,line_number,file_link\n${providerCsvData}`;
+            break;
+          }
+
+          if (csvRecords === 'locked-providers') {
+            const lockedCsvData = lockedProviders
+              .map(
+                p =>
+                  `"${p.source}","${p.version}","${p.constraints || ''}","${p.rootModule}","${p.repository}","${p.filePath}",${p.lineNumber},"${p.fileUrl}#L${p.lineNumber}"`
+              )
+              .join('\n');
+            outputData = `locked_provider,version,constraints,root_module,repository,file_path,line_number,file_link\n${lockedCsvData}`;
+            break;
+          }
+
+          if (csvRecords === 'required-versions') {
+            const requiredVersionCsvData = requiredVersions
+              .map(
+                v =>
+                  `"${v.constraint}","${v.rootModule}","${v.repository}","${v.filePath}",${v.lineNumber},"${v.fileUrl}#L${v.lineNumber}"`
+              )
+              .join('\n');
+            outputData = `required_version,root_module,repository,file_path,line_number,file_link\n${requiredVersionCsvData}`;
+            break;
+          }
+
+          if (csvRecords === 'terragrunt-blocks') {
+            const terragruntCsvData = terragruntConfig
+              .map(r => {
+                const name = 'name' in r ? r.name || '' : '';
+                const target =
+                  r.kind === 'dependencies'
+                    ? r.paths.join(';')
+                    : r.kind === 'locals'
+                      ? r.names.join(';')
+                      : r.kind === 'dependency'
+                        ? r.configPath || ''
+                        : r.path || '';
+                const resolved =
+                  r.kind === 'dependencies'
+                    ? r.resolvedPaths.join(';')
+                    : 'resolvedPath' in r
+                      ? r.resolvedPath || ''
+                      : '';
+                return `"${r.kind}","${name}","${target.replace(/"/g, '""')}","${resolved}","${r.repository}","${r.filePath}",${r.lineNumber},"${r.fileUrl}#L${r.lineNumber}"`;
+              })
+              .join('\n');
+            outputData = `terragrunt_block,name,path,resolved_path,repository,file_path,line_number,file_link\n${terragruntCsvData}`;
+            break;
+          }
+
           const csvData = allModules
             .map(m => {
               const fileLink = `${m.fileUrl}#L${m.lineNumber}`;
@@ -406,7 +996,7 @@ program
             if (Object.keys(info.versions).length > 0) {
               tableLines.push('  Versions:');
               Object.entries(info.versions)
-                .sort(([versionA], [versionB]) => versionA.localeCompare(versionB))
+                .sort(([versionA], [versionB]) => compareVersions(versionA, versionB))
                 .forEach(([version, count]) => {
                   tableLines.push(`    - ${version}: ${count} instances`);
                 });
@@ -434,7 +1024,7 @@ program
             });
 
           // Add summary by file type
-          if (!options.terraformOnly && !options.terragruntOnly) {
+          if (!options.terraformOnly && !options.terragruntOnly && allModules.length > 0) {
             tableLines.push('\nModules by File Type:');
             tableLines.push(
               `  terraform: ${terraformModules.length} modules (${((terraformModules.length / allModules.length) * 100).toFixed(1)}%)`
@@ -444,20 +1034,648 @@ program
             );
           }
 
+          if (providers.length > 0) {
+            tableLines.push(`\nProvider Requirements by Source: ${providers.length} references`);
+            for (const [source, info] of Object.entries(providerSummary).sort(([a], [b]) =>
+              a.localeCompare(b)
+            )) {
+              tableLines.push(`\n${source} (${info.count} instances)`);
+              if (Object.keys(info.versions).length > 0) {
+                tableLines.push('  Versions:');
+                Object.entries(info.versions)
+                  .sort(([versionA], [versionB]) => compareVersions(versionA, versionB))
+                  .forEach(([version, count]) => {
+                    tableLines.push(`    - ${version}: ${count} instances`);
+                  });
+              } else {
+                tableLines.push('  No version constraints found');
+              }
+            }
+          }
+
+          if (lockedProviders.length > 0) {
+            const rootModuleCount = new Set(
+              lockedProviders.map(p => `${p.repository}/${p.rootModule}`)
+            ).size;
+            tableLines.push(
+              `\nLocked Provider Versions: ${lockedProviders.length} providers in ${rootModuleCount} root modules`
+            );
+            for (const [source, info] of Object.entries(lockedProviderSummary).sort(([a], [b]) =>
+              a.localeCompare(b)
+            )) {
+              tableLines.push(`\n${source} (${info.count} root modules)`);
+              tableLines.push('  Versions:');
+              Object.entries(info.versions)
+                .sort(([versionA], [versionB]) => compareVersions(versionA, versionB))
+                .forEach(([version, count]) => {
+                  tableLines.push(`    - ${version}: ${count} root modules`);
+                });
+            }
+          }
+
+          if (requiredVersions.length > 0) {
+            tableLines.push('\nTerraform Version Constraints by Repository:');
+            for (const [repository, rootModules] of Object.entries(
+              requiredVersionSummary.byRootModule
+            ).sort(([a], [b]) => a.localeCompare(b))) {
+              tableLines.push(`\n${repository}`);
+              Object.entries(rootModules)
+                .sort(([a], [b]) => a.localeCompare(b))
+                .forEach(([rootModule, constraints]) => {
+                  tableLines.push(`  ${rootModule}: ${constraints.join(' | ')}`);
+                });
+            }
+          }
+
+          const terragruntLinks = terragruntConfig.filter(
+            r =>
+              r.kind === 'include' ||
+              r.kind === 'dependency' ||
+              r.kind === 'dependencies' ||
+              r.kind === 'read_terragrunt_config'
+          );
+          if (terragruntLinks.length > 0) {
+            tableLines.push('\nTerragrunt Unit Relationships:');
+            let currentFile = '';
+            for (const link of terragruntLinks) {
+              const file = `${link.repository}/${link.filePath}`;
+              if (file !== currentFile) {
+                tableLines.push(`\n${file}`);
+                currentFile = file;
+              }
+              if (link.kind === 'include') {
+                const resolved =
+                  link.resolvedPath && link.resolvedPath !== link.path
+                    ? ` -> ${link.resolvedPath}`
+                    : '';
+                tableLines.push(
+                  `  include${link.name ? ` "${link.name}"` : ''}: ${link.path || '?'}${resolved}`
+                );
+              } else if (link.kind === 'dependency') {
+                tableLines.push(
+                  `  dependency "${link.name}": ${link.resolvedPath || link.configPath || '?'}`
+                );
+              } else if (link.kind === 'dependencies') {
+                tableLines.push(`  dependencies: ${link.paths.join(', ')}`);
+              } else {
+                tableLines.push(`  read_terragrunt_config: ${link.path}`);
+              }
+            }
+          }
+
+          const unresolvedModules = terragruntModules.filter(m => m.unresolved);
+          if (unresolvedModules.length > 0) {
+            tableLines.push('\nTerragrunt Sources with Unresolved References:');
+            for (const module of unresolvedModules) {
+              tableLines.push(
+                `  ${module.source} (${module.repository}/${module.filePath}:${module.lineNumber}) ` +
+                  `- unresolved: ${module.unresolved?.join(', ')}`
+              );
+            }
+          }
+
+          const brokenLinks = allModules.filter(m => m.brokenLink);
+          if (brokenLinks.length > 0) {
+            tableLines.push('\nBroken Local Module References:');
+            for (const module of brokenLinks) {
+              tableLines.push(
+                `  ${module.source} (${module.repository}/${module.filePath}:${module.lineNumber}) ` +
+                  `- missing: ${module.resolvedPath}`
+              );
+            }
+          }
+
+          if (commentedModules) {
+            tableLines.push(`\nCommented-out Module References: ${commentedModules.length}`);
+            for (const module of commentedModules) {
+              tableLines.push(
+                `  ${module.source} (${module.repository}/${module.filePath}:${module.lineNumber})`
+              );
+            }
+          }
+
+          outputData = tableLines.join('\n');
+          break;
+        }
+      }
+
+      writeOutput(outputData, options);
+    } catch (error) {
+      logger.errorWithStack('Application error', error as Error);
+      process.exit(1);
+    }
+  });
+
+addDiscoveryOptions(
+  program
+    .command('outdated')
+    .description(
+      'Compare registry module versions and git module refs with the latest published versions'
+    )
+)
+  .option(
+    '--registry-url <url>',
+    'Module registry base URL used for all lookups, e.g. a private registry ' +
+      '(default: the host of each module source, or registry.terraform.io)'
+  )
+  .option('--registry-only', 'Only check registry modules, skip tag lookups for git modules')
+  .action(async (source, options) => {
+    try {
+      if (options.registryUrl) {
+        try {
+          new URL(options.registryUrl);
+        } catch {
+          logger.error(`Invalid registry URL: ${options.registryUrl}`);
+          process.exit(1);
+        }
+      }
+
+      const discovery = await discoverIacFiles('outdated', source, options);
+      const { parsedSource, files, fileTypesDescription, targetDescription, moduleParseOptions } =
+        discovery;
+
+      if (files.length === 0) {
+        logger.info(`No ${fileTypesDescription} found`);
+        return;
+      }
+
+      const modules = sortModulesBySource([
+        ...new TerraformParser().parseModules(files, moduleParseOptions),
+        ...new TerragruntParser().parseModules(files, moduleParseOptions),
+      ]);
+      const checkedModules = modules.filter(
+        m =>
+          m.sourceType === 'registry' ||
+          (GIT_SOURCE_TYPES.includes(m.sourceType) && !options.registryOnly)
+      );
+      if (checkedModules.length === 0) {
+        logger.info(`No ${options.registryOnly ? 'registry' : 'registry or git'} modules found`);
+        return;
+      }
+
+      const sourceCount = Object.keys(createNormalizedSummary(checkedModules)).length;
+      logger.info(
+        `Found ${checkedModules.length} module references to ${sourceCount} sources. ` +
+          'Looking up latest versions...'
+      );
+
+      const lookups: Partial<Record<SourceType, ModuleVersionLookup>> = {
+        registry: new RegistryClient({ baseUrl: options.registryUrl }),
+      };
+      if (!options.registryOnly) {
+        const gitTags = new GitTagResolver({ services: createTagServices(discovery, options) });
+        for (const sourceType of GIT_SOURCE_TYPES) {
+          lookups[sourceType] = gitTags;
+        }
+      }
+      const usages = await checkOutdatedModules(checkedModules, lookups);
+      const summary = createOutdatedSummary(usages);
+      const countByStatus = (status: OutdatedStatus) =>
+        usages.filter(u => u.status === status).length;
+
+      const result = {
+        metadata: {
+          platform: getPlatformDisplayName(parsedSource.platform),
+          source: describeSource(parsedSource),
+          target: targetDescription,
+          scope: describeScope(parsedSource),
+          repoPattern: options.pattern || undefined,
+          registryUrl: options.registryUrl || undefined,
+          timestamp: new Date().toISOString(),
+          moduleCount: usages.length,
+          sourceCount,
+          outdatedCount: countByStatus('outdated'),
+          upToDateCount: countByStatus('up-to-date'),
+          unpinnedCount: countByStatus('unpinned'),
+          unknownCount: countByStatus('unknown'),
+        },
+        modules: usages,
+        summary,
+      };
+
+      let outputData: string = '';
+      switch (options.format.toLowerCase()) {
+        case 'json':
+          outputData = JSON.stringify(result, null, 2);
+          break;
+        case 'csv': {
+          const csvData = usages
+            .map(
+              u =>
+                `"${u.source}","${u.version || ''}","${u.resolvedVersion || ''}","${u.latestVersion || ''}",${u.majorsBehind ?? ''},${u.minorsBehind ?? ''},"${u.status}","${u.repository}","${u.filePath}",${u.lineNumber},"${u.fileUrl}#L${u.lineNumber}"`
+            )
+            .join('\n');
+          outputData = `module,version,resolved_version,latest_version,majors_behind,minors_behind,status,repository,file_path,line_number,file_link\n${csvData}`;
+          break;
+        }
+        case 'table':
+        default: {
+          const tableLines = [
+            '\nModule Upgrade Report',
+            '============================',
+            `Platform: ${result.metadata.platform}`,
+            `Target: ${result.metadata.target}`,
+            `Scope: ${result.metadata.scope}`,
+            options.pattern ? `Repository filter: ${options.pattern}` : '',
+            `Registry: ${options.registryUrl || 'host of each module source'}`,
+            `Modules checked: ${usages.length} (${result.metadata.outdatedCount} outdated, ` +
+              `${result.metadata.unpinnedCount} unpinned, ${result.metadata.unknownCount} unknown)`,
+            '\nModule Versions by Source:',
+          ].filter(Boolean);
+
+          for (const [moduleSource, info] of Object.entries(summary).sort(([a], [b]) =>
+            a.localeCompare(b)
+          )) {
+            tableLines.push(
+              `\n${moduleSource} (latest: ${info.latestVersion || 'unknown'}, ` +
+                `${info.outdatedCount} of ${info.count} instances outdated)`
+            );
+            Object.entries(info.versions)
+              .sort(([versionA], [versionB]) => compareVersions(versionA, versionB))
+              .forEach(([version, usage]) => {
+                const resolved =
+                  usage.resolvedVersion && usage.resolvedVersion !== version
+                    ? ` (resolves to ${usage.resolvedVersion})`
+                    : '';
+                const status =
+                  usage.status === 'outdated'
+                    ? `${usage.majorsBehind} major, ${usage.minorsBehind} minor versions behind`
+                    : usage.status === 'unknown'
+                      ? `unknown: ${usage.reason}`
+                      : usage.status === 'unpinned'
+                        ? 'no version pinned, uses latest'
+                        : 'up to date';
+                tableLines.push(
+                  `    - ${version || '(none)'}${usage.status === 'unpinned' ? '' : resolved}: ` +
+                    `${usage.count} instances, ${status}`
+                );
+              });
+          }
+
           outputData = tableLines.join('\n');
           break;
         }
       }
 
-      // Export results if requested or print to console if not exporting
-      if (options.export) {
-        const exportPath = path.resolve(options.export);
-        fs.writeFileSync(exportPath, outputData);
-        logger.info(`Results exported to ${exportPath}`);
+      writeOutput(outputData, options);
+    } catch (error) {
+      logger.errorWithStack('Application error', error as Error);
+      process.exit(1);
+    }
+  });
+
+addDiscoveryOptions(
+  program
+    .command('graph')
+    .description('Export a graph of repositories, root modules and the module sources they call'),
+  ['dot', 'mermaid', 'json']
+).action(async (source, options) => {
+  try {
+    const format = options.format.toLowerCase();
+    if (!['dot', 'mermaid', 'json'].includes(format)) {
+      logger.error(`Invalid graph format: ${options.format} (expected dot, mermaid or json)`);
+      process.exit(1);
+    }
+
+    const discovery = await discoverIacFiles('graph', source, options);
+    const { parsedSource, files, fileTypesDescription, targetDescription, moduleParseOptions } =
+      discovery;
+
+    if (files.length === 0) {
+      logger.info(`No ${fileTypesDescription} found`);
+      return;
+    }
+
+    const terragruntParser = new TerragruntParser();
+    const graph = buildModuleGraph(
+      [
+        ...new TerraformParser().parseModules(files, moduleParseOptions),
+        ...terragruntParser.parseModules(files, moduleParseOptions),
+      ],
+      terragruntParser.parseConfigRecords(files)
+    );
+    logger.info(`Built graph with ${graph.nodes.length} nodes and ${graph.edges.length} edges`);
+
+    let outputData: string;
+    switch (format) {
+      case 'json':
+        outputData = JSON.stringify(
+          {
+            metadata: {
+              platform: getPlatformDisplayName(parsedSource.platform),
+              source: describeSource(parsedSource),
+              target: targetDescription,
+              scope: describeScope(parsedSource),
+              repoPattern: options.pattern || undefined,
+              timestamp: new Date().toISOString(),
+              nodeCount: graph.nodes.length,
+              edgeCount: graph.edges.length,
+            },
+            ...graph,
+          },
+          null,
+          2
+        );
+        break;
+      case 'mermaid':
+        outputData = formatGraphAsMermaid(graph);
+        break;
+      case 'dot':
+      default:
+        outputData = formatGraphAsDot(graph);
+        break;
+    }
+
+    writeOutput(outputData, options);
+  } catch (error) {
+    logger.errorWithStack('Application error', error as Error);
+    process.exit(1);
+  }
+});
+
+addDiscoveryOptions(
+  program
+    .command('who-uses')
+    .description('Find every repository, file and version that references a module source')
+    .argument(
+      '<module>',
+      'Module source to look for, e.g. terraform-aws-modules/vpc/aws or github.com/org/modules'
+    )
+).action(async (moduleSource, source, options) => {
+  try {
+    const discovery = await discoverIacFiles('who-uses', source, options);
+    const { parsedSource, files, fileTypesDescription, targetDescription, moduleParseOptions } =
+      discovery;
+
+    if (files.length === 0) {
+      logger.info(`No ${fileTypesDescription} found`);
+      return;
+    }
+
+    const usages = findModuleUsages(
+      sortModulesBySource([
+        ...new TerraformParser().parseModules(files, moduleParseOptions),
+        ...new TerragruntParser().parseModules(files, moduleParseOptions),
+      ]),
+      moduleSource
+    );
+    const summary = createUsageSummary(usages);
+    logger.info(
+      `Found ${usages.length} references to ${moduleSource} in ` +
+        `${Object.keys(summary).length} repositories`
+    );
+
+    const result = {
+      metadata: {
+        platform: getPlatformDisplayName(parsedSource.platform),
+        source: describeSource(parsedSource),
+        target: targetDescription,
+        scope: describeScope(parsedSource),
+        repoPattern: options.pattern || undefined,
+        module: moduleSource,
+        timestamp: new Date().toISOString(),
+        usageCount: usages.length,
+        repositoryCount: Object.keys(summary).length,
+      },
+      usages,
+      summary,
+    };
+
+    let outputData: string = '';
+    switch (options.format.toLowerCase()) {
+      case 'json':
+        outputData = JSON.stringify(result, null, 2);
+        break;
+      case 'csv': {
+        const csvData = usages
+          .map(
+            u =>
+              `"${u.source}","${u.version || ''}","${u.repository}","${u.filePath}",${u.lineNumber},"${u.fileUrl}#L${u.lineNumber}"`
+          )
+          .join('\n');
+        outputData = `module,version,repository,file_path,line_number,file_link\n${csvData}`;
+        break;
+      }
+      case 'table':
+      default: {
+        const tableLines = [
+          '\nModule Usage Report',
+          '============================',
+          `Module: ${moduleSource}`,
+          `Platform: ${result.metadata.platform}`,
+          `Target: ${result.metadata.target}`,
+          `Scope: ${result.metadata.scope}`,
+          options.pattern ? `Repository filter: ${options.pattern}` : '',
+          `Usages: ${usages.length} in ${result.metadata.repositoryCount} repositories`,
+        ].filter(Boolean);
+
+        for (const [repository, info] of Object.entries(summary).sort(([a], [b]) =>
+          a.localeCompare(b)
+        )) {
+          const versions = Object.entries(info.versions)
+            .sort(([versionA], [versionB]) => compareVersions(versionA, versionB))
+            .map(([version, count]) => `${version || '(none)'} x${count}`);
+          tableLines.push(`\n${repository} (${info.count} usages: ${versions.join(', ')})`);
+
+          for (const usage of usages.filter(u => u.repository === repository)) {
+            tableLines.push(
+              `  - ${usage.filePath}:${usage.lineNumber} ${usage.version || '(no version)'}` +
+                `${usage.source === moduleSource ? '' : ` [${usage.source}]`}`
+            );
+          }
+        }
+
+        outputData = tableLines.join('\n');
+        break;
+      }
+    }
+
+    writeOutput(outputData, options);
+  } catch (error) {
+    logger.errorWithStack('Application error', error as Error);
+    process.exit(1);
+  }
+});
+
+addDiscoveryOptions(
+  program
+    .command('pr-diff')
+    .description(
+      'Report the modules added, removed and bumped by open pull requests or GitLab merge requests'
+    ),
+  ['table', 'json', 'csv', 'markdown']
+)
+  .option('--pr <numbers>', 'Comma-separated pull/merge request numbers (default: all open)')
+  .action(async (source, options) => {
+    try {
+      const settings = parseDiscoverySettings('pr-diff', source, options);
+      const { parsedSource, iacFileTypes, targetDescription, fetchMode } = settings;
+
+      if (parsedSource.platform === VcsPlatform.LOCAL || !parsedSource.repository) {
+        logger.error('Error: pr-diff needs a repository source, e.g. github:myorg/myrepo');
+        process.exit(1);
+      }
+
+      let numbers: number[] | undefined;
+      if (options.pr) {
+        numbers = String(options.pr)
+          .split(',')
+          .map(value => Number(value.trim()));
+        if (numbers.some(number => !Number.isInteger(number) || number < 1)) {
+          logger.error('Error: --pr must be a comma-separated list of positive numbers');
+          process.exit(1);
+        }
+      }
+
+      const vcsService = createVcsService(settings, options);
+      const { label, prefix } = vcsService.changeRequestTerms;
+      const repository = await vcsService.getSingleRepository(
+        parsedSource.identifier,
+        parsedSource.repository
+      );
+      if (!repository) {
+        logger.error(
+          `Repository '${parsedSource.repository}' not found in '${parsedSource.identifier}'`
+        );
+        process.exit(1);
+      }
+
+      let changeRequests: VcsChangeRequest[] = [];
+      if (numbers) {
+        for (const number of numbers) {
+          const changeRequest = await vcsService.getChangeRequest(
+            repository.owner,
+            repository.name,
+            number
+          );
+          if (!changeRequest) {
+            logger.error(`Error: ${label} ${prefix}${number} not found in ${targetDescription}`);
+            process.exit(1);
+          }
+          changeRequests.push(changeRequest);
+        }
       } else {
-        // Only print to console if not exporting
-        console.log(outputData);
+        changeRequests = await vcsService.listOpenChangeRequests(repository.owner, repository.name);
+        logger.info(`Found ${changeRequests.length} open ${label}s in ${targetDescription}`);
       }
+
+      const terraformParser = new TerraformParser();
+      const terragruntParser = new TerragruntParser();
+      const scanModules = async (ref: string) => {
+        const files = await vcsService.findIacFilesInRepository(repository, {
+          fileTypes: iacFileTypes,
+          ref,
+          fetchMode,
+        });
+        return [
+          ...terraformParser.parseModules(files, settings.moduleParseOptions),
+          ...terragruntParser.parseModules(files, settings.moduleParseOptions),
+        ];
+      };
+
+      const reports: Array<VcsChangeRequest & { changes: ModuleChange[] }> = [];
+      for (const changeRequest of changeRequests) {
+        logger.info(
+          `Comparing ${label} ${prefix}${changeRequest.number}: ` +
+            `${changeRequest.sourceBranch} -> ${changeRequest.targetBranch}`
+        );
+        const baseModules = await scanModules(changeRequest.baseRef);
+        const headModules = await scanModules(changeRequest.headRef);
+        reports.push({ ...changeRequest, changes: diffModules(baseModules, headModules) });
+      }
+
+      const changeCount = reports.reduce((count, report) => count + report.changes.length, 0);
+      logger.info(`Found ${changeCount} module changes in ${reports.length} ${label}s`);
+
+      const result = {
+        metadata: {
+          platform: getPlatformDisplayName(parsedSource.platform),
+          source: describeSource(parsedSource),
+          target: targetDescription,
+          timestamp: new Date().toISOString(),
+          changeRequestCount: reports.length,
+          changeCount,
+        },
+        changeRequests: reports,
+      };
+
+      // Summarize the number of changes of each kind
+      const countChanges = (changes: ModuleChange[]): string => {
+        const count = (kinds: string[]) => changes.filter(c => kinds.includes(c.kind)).length;
+        return (
+          `${count(['added'])} added, ${count(['removed'])} removed, ` +
+          `${count(['version-changed', 'source-changed'])} changed`
+        );
+      };
+
+      let outputData: string = '';
+      switch (options.format.toLowerCase()) {
+        case 'json':
+          outputData = JSON.stringify(result, null, 2);
+          break;
+        case 'csv': {
+          const csvData = reports
+            .flatMap(report =>
+              report.changes.map(
+                c =>
+                  `${report.number},"${c.kind}","${c.name}","${c.source}","${c.previousSource || ''}","${c.version || ''}","${c.previousVersion || ''}","${c.filePath}",${c.lineNumber},"${c.fileUrl}#L${c.lineNumber}"`
+              )
+            )
+            .join('\n');
+          outputData = `change_request,change,module,source,previous_source,version,previous_version,file_path,line_number,file_link\n${csvData}`;
+          break;
+        }
+        case 'markdown':
+          outputData = reports
+            .map(report =>
+              [
+                `### Module changes in ${prefix}${report.number}: ${report.title}`,
+                '',
+                `\`${report.sourceBranch}\` → \`${report.targetBranch}\`: ${countChanges(report.changes)}`,
+                '',
+                formatModuleChangesAsMarkdown(report.changes),
+              ].join('\n')
+            )
+            .join('\n\n');
+          break;
+        case 'table':
+        default: {
+          const tableLines = [
+            '\nModule Change Report',
+            '============================',
+            `Platform: ${result.metadata.platform}`,
+            `Target: ${result.metadata.target}`,
+            `Total ${label}s: ${reports.length}`,
+            `Total module changes: ${changeCount}`,
+          ];
+
+          for (const report of reports) {
+            tableLines.push(
+              `\n${prefix}${report.number} ${report.title} ` +
+                `(${report.sourceBranch} -> ${report.targetBranch}): ${countChanges(report.changes)}`
+            );
+            for (const change of report.changes) {
+              const version =
+                change.kind === 'version-changed' || change.kind === 'source-changed'
+                  ? `${change.previousVersion || '(none)'} -> ${change.version || '(none)'}`
+                  : change.version || '(no version)';
+              const source =
+                change.kind === 'source-changed'
+                  ? `${change.previousSource} -> ${change.source}`
+                  : change.source;
+              tableLines.push(
+                `  - ${describeChange(change)}: ${change.name} ${source} ${version} ` +
+                  `(${change.filePath}:${change.lineNumber})`
+              );
+            }
+          }
+
+          outputData = tableLines.join('\n');
+          break;
+        }
+      }
+
+      writeOutput(outputData, options);
     } catch (error) {
       logger.errorWithStack('Application error', error as Error);
       process.exit(1);
@@ -1,10 +1,16 @@
+import * as path from 'path';
 import { IacFile } from '../types';
 import { Logger } from '../services/logger';
-
-/**
- * Common source types for Infrastructure as Code modules
- */
-export type SourceType = 'local' | 'artifactory' | 'archive' | 'registry' | 'git' | 'unknown';
+import { normalizeVersion } from '../utils/version';
+import { HclBlock, HclFile, HclParseError, parseCommentedBlocks, parseHcl } from '../hcl';
+import {
+  ModuleAddress,
+  ModuleSourceDetails,
+  SourceType,
+  determineSourceType,
+  parseModuleAddress,
+  parseModuleSource,
+} from './module-source';
 
 /**
  * Base Module interface that defines common properties
@@ -13,6 +19,14 @@ export interface IaCModule {
   name: string;
   source: string;
   sourceType: SourceType;
+  /** Host, namespace, name, provider, subdirectory and ref parsed from the source */
+  sourceDetails?: ModuleSourceDetails;
+  /** Structured address of the source, used to group differently written sources */
+  address?: ModuleAddress;
+  /** Repository-relative directory a local source points at */
+  resolvedPath?: string;
+  /** Whether the directory a local source points at is missing from the scanned files */
+  brokenLink?: boolean;
   version?: string;
   repository: string;
   filePath: string;
@@ -22,9 +36,21 @@ export interface IaCModule {
 }
 
 /**
- * Base parser class that provides common functionality for all IaC parsers
+ * Options of module parsing
  */
-export abstract class BaseParser<T extends IaCModule> {
+export interface ModuleParseOptions {
+  /**
+   * Whether the files are every IaC file of their repositories (default: true). Missing
+   * local module directories are only flagged as broken links from a complete file set;
+   * scans filtered by file type or file count leave brokenLink undefined.
+   */
+  readonly completeFileSet?: boolean;
+}
+
+/**
+ * Base class for parsers that extract records from HCL files of a single type
+ */
+export abstract class HclFileParser {
   protected logger: Logger;
   protected fileType: string;
 
@@ -34,26 +60,39 @@ export abstract class BaseParser<T extends IaCModule> {
   }
 
   /**
-   * Parse files to extract module information
+   * Run an extractor over all files of this parser's type, logging and skipping
+   * files that fail to parse
    * @param files List of files to parse (will be filtered by type)
-   * @returns Array of extracted modules
+   * @param label Plural description of the extracted items, used in log messages
+   * @param extract Extractor for a single file
    */
-  parseModules(files: IacFile[]): T[] {
+  protected collectFromFiles<R>(
+    files: IacFile[],
+    label: string,
+    extract: (file: IacFile) => R[]
+  ): R[] {
     // Filter to only include files of the correct type
     const filteredFiles = files.filter(file => file.type === this.fileType.toLowerCase());
 
-    const modules: T[] = [];
+    const results: R[] = [];
 
-    this.logger.info(`Parsing ${filteredFiles.length} ${this.fileType} files for modules`);
+    this.logger.info(`Parsing ${filteredFiles.length} ${this.fileType} files for ${label}`);
 
     for (const file of filteredFiles) {
       try {
-        const fileModules = this.extractModulesFromFile(file);
+        const fileResults = extract(file);
         this.logger.debug(
-          `Found ${fileModules.length} modules in ${file.path} (${file.repository})`
+          `Found ${fileResults.length} ${label} in ${file.path} (${file.repository})`
         );
-        modules.push(...fileModules);
+        results.push(...fileResults);
       } catch (error) {
+        if (error instanceof HclParseError) {
+          this.logger.error(
+            `Syntax error in ${file.path} (${file.repository}) at line ${error.position.line}, ` +
+              `column ${error.position.column}: ${error.reason}`
+          );
+          continue;
+        }
         this.logger.errorWithStack(
           `Error parsing file ${file.path} in ${file.repository}`,
           error as Error
@@ -61,7 +100,83 @@ export abstract class BaseParser<T extends IaCModule> {
       }
     }
 
-    this.logger.info(`Extracted ${modules.length} modules from all ${this.fileType} files`);
+    this.logger.info(`Extracted ${results.length} ${label} from all ${this.fileType} files`);
+    return results;
+  }
+
+  /**
+   * Parse the content of a file into an HCL syntax tree
+   * @throws HclParseError when the file is not valid HCL
+   */
+  protected parseHclFile(file: IacFile): HclFile {
+    return parseHcl(file.content, file.path);
+  }
+}
+
+/**
+ * Base parser class that provides common functionality for all IaC parsers
+ */
+export abstract class BaseParser<T extends IaCModule> extends HclFileParser {
+  /**
+   * Parse files to extract module information
+   * @param files List of files to parse (will be filtered by type); pass all scanned files
+   * so local module directories of any file type are found
+   * @param options Parse options
+   * @returns Array of extracted modules
+   */
+  parseModules(files: IacFile[], options: ModuleParseOptions = {}): T[] {
+    const modules = this.collectFromFiles(files, 'modules', file =>
+      this.extractModulesFromFile(file)
+    );
+    return options.completeFileSet === false ? modules : this.flagBrokenLinks(modules, files);
+  }
+
+  /**
+   * Parse files to extract module blocks that are commented out. These are not part of
+   * the configuration, but are useful to find dead code left behind by refactors.
+   * @param files List of files to parse (will be filtered by type)
+   * @returns Array of commented-out modules
+   */
+  parseCommentedModules(files: IacFile[]): T[] {
+    return this.collectFromFiles(files, 'commented-out modules', file => {
+      const hcl = this.parseHclFile(file);
+      return this.extractModulesFromBlocks(parseCommentedBlocks(file.content, hcl.comments), file);
+    });
+  }
+
+  /**
+   * Flag local modules whose target directory does not contain any of the scanned files
+   * of the same repository, in any file type
+   * @param modules Modules with resolved local paths
+   * @param files All scanned files
+   * @returns The modules, with brokenLink set on local modules
+   */
+  protected flagBrokenLinks(modules: T[], files: IacFile[]): T[] {
+    const directories = new Set<string>();
+    for (const file of files) {
+      let directory = path.posix.dirname(file.path);
+      // Stop at the first directory that is already known, its parents are too
+      while (!directories.has(`${file.repository}\0${directory}`)) {
+        directories.add(`${file.repository}\0${directory}`);
+        const parent = path.posix.dirname(directory);
+        if (parent === directory) {
+          break;
+        }
+        directory = parent;
+      }
+    }
+
+    for (const module of modules) {
+      if (module.resolvedPath !== undefined) {
+        module.brokenLink = !directories.has(`${module.repository}\0${module.resolvedPath}`);
+        if (module.brokenLink) {
+          this.logger.warn(
+            `Module "${module.name}" in ${module.filePath} (${module.repository}) points at ` +
+              `missing directory ${module.resolvedPath}`
+          );
+        }
+      }
+    }
     return modules;
   }
 
@@ -70,42 +185,60 @@ export abstract class BaseParser<T extends IaCModule> {
    * @param file File to parse
    * @returns Array of extracted modules from the file
    */
-  protected abstract extractModulesFromFile(file: IacFile): T[];
+  protected extractModulesFromFile(file: IacFile): T[] {
+    return this.extractModulesFromBlocks(this.parseHclFile(file).body.blocks, file);
+  }
+
+  /**
+   * Extract modules from the top-level blocks of a file
+   * @param blocks Top-level blocks to inspect
+   * @param file File the blocks belong to
+   * @returns Array of extracted modules
+   */
+  protected abstract extractModulesFromBlocks(blocks: HclBlock[], file: IacFile): T[];
 
   /**
    * Determine the source type of a module
    */
   protected determineSourceType(source: string): SourceType {
-    if (source.startsWith('./') || source.startsWith('../') || source.startsWith('/')) {
-      return 'local';
-    } else if (
-      source.includes('jfrog.io') &&
-      !source.endsWith('.tar.gz') &&
-      !source.endsWith('.zip')
-    ) {
-      return 'artifactory';
-    } else if (
-      source.endsWith('.tar.gz') ||
-      source.endsWith('.zip') ||
-      (source.includes('jfrog.io') && (source.includes('.tar.gz') || source.includes('.zip')))
-    ) {
-      return 'archive';
-    } else if (
-      source.match(/^[^/]+\/[^/]+\/[^/]+/) ||
-      source.includes('terraform-aws-modules') ||
-      source.includes('.terraform.io')
-    ) {
-      // Format like terraform-aws-modules/rds/aws or app.terraform.io/company/database/aws
-      return 'registry';
-    } else if (
-      source.includes('git::') ||
-      source.includes('github.com') ||
-      source.includes('gitlab.com')
-    ) {
-      return 'git';
-    } else {
-      return 'unknown';
+    return determineSourceType(source);
+  }
+
+  /**
+   * Parse the host, namespace, name, provider, subdirectory and ref of a module source
+   */
+  protected parseSourceDetails(source: string, sourceType: SourceType): ModuleSourceDetails {
+    return parseModuleSource(source, sourceType);
+  }
+
+  /**
+   * Parse a module source into a structured address
+   */
+  protected parseAddress(source: string, sourceType: SourceType): ModuleAddress {
+    return parseModuleAddress(source, sourceType);
+  }
+
+  /**
+   * Resolve a local module source against the directory of the declaring file
+   * @returns Repository-relative directory, or undefined for absolute paths and paths
+   * outside the repository
+   */
+  protected resolveLocalSource(source: string, file: IacFile): string | undefined {
+    if (path.posix.isAbsolute(source)) {
+      return undefined;
     }
+    return this.withinRepository(
+      path.posix.join(path.posix.dirname(file.path), source.replace(/\?.*$/, ''))
+    );
+  }
+
+  /**
+   * Keep a resolved path only if it stays in the repository: a directory outside of it,
+   * e.g. ../modules/c from a root-level file, cannot be checked against the scanned files
+   * @returns The path, or undefined if it leaves the repository root
+   */
+  protected withinRepository(resolvedPath: string): string | undefined {
+    return resolvedPath === '..' || resolvedPath.startsWith('../') ? undefined : resolvedPath;
   }
 
   /**
@@ -155,10 +288,11 @@ export abstract class BaseParser<T extends IaCModule> {
       summary[module.source].count++;
 
       if (module.version) {
-        if (!summary[module.source].versions[module.version]) {
-          summary[module.source].versions[module.version] = 0;
+        const version = normalizeVersion(module.version);
+        if (!summary[module.source].versions[version]) {
+          summary[module.source].versions[version] = 0;
         }
-        summary[module.source].versions[module.version]++;
+        summary[module.source].versions[version]++;
       }
     }
 
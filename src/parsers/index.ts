@@ -5,8 +5,20 @@
 // Base parser
 export * from './base';
 
+// Module source classification
+export * from './module-source';
+
 // Terraform parser
 export * from './terraform';
 
 // Terragrunt parser
 export * from './terragrunt';
+
+// Provider requirements parser
+export * from './providers';
+
+// Lock file parser
+export * from './lock-file';
+
+// Terraform required_version parser
+export * from './required-version';
@@ -0,0 +1,104 @@
+import * as path from 'path';
+import { IacFile } from '../types';
+import { HclBlock, findAttribute, getStaticString } from '../hcl';
+import { isTerraformLockFile } from '../utils/file-type-detector';
+import { HclFileParser } from './base';
+import { ProviderSummaryEntry } from './providers';
+
+/**
+ * Provider version recorded in a .terraform.lock.hcl file
+ */
+export interface LockedProvider {
+  source: string;
+  version: string;
+  constraints?: string;
+  hashes: string[];
+  rootModule: string; // directory containing the lock file
+  repository: string;
+  filePath: string;
+  fileUrl: string;
+  lineNumber: number;
+}
+
+/**
+ * Parser for Terraform dependency lock files to extract resolved provider versions
+ */
+export class LockFileParser extends HclFileParser {
+  constructor() {
+    super('LockFileParser', 'terraform');
+  }
+
+  /**
+   * Parse lock files to extract the locked provider versions
+   * @param files List of files to parse (will be filtered to .terraform.lock.hcl files)
+   * @returns Array of locked providers
+   */
+  parseLockFiles(files: IacFile[]): LockedProvider[] {
+    return this.collectFromFiles(
+      files.filter(file => isTerraformLockFile(file.path)),
+      'locked providers',
+      file =>
+        this.parseHclFile(file)
+          .body.blocks.filter(block => block.type === 'provider' && block.labels.length === 1)
+          .map(block => this.createLockedProvider(block, file))
+          .filter((provider): provider is LockedProvider => provider !== undefined)
+    );
+  }
+
+  /**
+   * Group locked providers by source address, counting root modules per locked version
+   * @param providers List of locked providers to summarize
+   * @returns Object with source addresses as keys and usage statistics as values
+   */
+  createLockSummary(providers: LockedProvider[]): Record<string, ProviderSummaryEntry> {
+    const summary: Record<string, ProviderSummaryEntry> = {};
+
+    for (const provider of providers) {
+      if (!summary[provider.source]) {
+        summary[provider.source] = { count: 0, versions: {} };
+      }
+
+      summary[provider.source].count++;
+      summary[provider.source].versions[provider.version] =
+        (summary[provider.source].versions[provider.version] || 0) + 1;
+    }
+
+    return summary;
+  }
+
+  /**
+   * Create a locked provider from a provider "<address>" { ... } block
+   * @returns The locked provider, or undefined if the block has no static version
+   */
+  private createLockedProvider(block: HclBlock, file: IacFile): LockedProvider | undefined {
+    const versionAttribute = findAttribute(block.body, 'version');
+    const version = versionAttribute ? getStaticString(versionAttribute.expression) : undefined;
+    if (!version) {
+      this.logger.debug(`Provider "${block.labels[0]}" in ${file.path} has no version - skipping`);
+      return undefined;
+    }
+
+    const constraintsAttribute = findAttribute(block.body, 'constraints');
+    const hashesAttribute = findAttribute(block.body, 'hashes');
+    const hashes =
+      hashesAttribute?.expression.kind === 'Tuple'
+        ? hashesAttribute.expression.items
+            .map(element => getStaticString(element))
+            .filter((hash): hash is string => hash !== undefined)
+        : [];
+
+    return {
+      source: block.labels[0],
+      version,
+      constraints: constraintsAttribute
+        ? getStaticString(constraintsAttribute.expression)
+        : undefined,
+      hashes,
+      rootModule: path.posix.dirname(file.path),
+      repository: file.repository,
+      filePath: file.path,
+      fileUrl: file.url,
+      lineNumber: block.range.start.line,
+    };
+  }
+}
@@ -0,0 +1,426 @@
+/**
+ * Kinds of module sources supported by Terraform and Terragrunt
+ * - local: ./modules/vpc, ../shared/vpc
+ * - registry: terraform-aws-modules/vpc/aws, app.terraform.io/acme/vpc/aws, tfr:///acme/vpc/aws
+ * - git: git::https://..., git@host:org/repo.git, ssh://... and git://...
+ * - github, gitlab, bitbucket: host shorthands such as github.com/org/repo
+ * - hg: hg::https://...
+ * - s3, gcs: s3::/gcs:: prefixes and bucket URLs
+ * - archive: URLs of .zip, .tar.gz and other archives
+ * - artifactory: JFrog Artifactory URLs that are not archives
+ * - http: other HTTP(S) URLs
+ */
+export type SourceType =
+  | 'local'
+  | 'registry'
+  | 'git'
+  | 'github'
+  | 'gitlab'
+  | 'bitbucket'
+  | 'hg'
+  | 's3'
+  | 'gcs'
+  | 'http'
+  | 'archive'
+  | 'artifactory'
+  | 'unknown';
+
+/**
+ * Source types that reference a git repository
+ */
+export const GIT_SOURCE_TYPES: readonly SourceType[] = ['git', 'github', 'gitlab', 'bitbucket'];
+
+/**
+ * Parsed breakdown of a module source. Only the parts that apply to the source type are set.
+ */
+export interface ModuleSourceDetails {
+  /** Registry, repository or storage host, e.g. registry.terraform.io or github.com */
+  host?: string;
+  /** Registry namespace, repository owner or group, or storage bucket */
+  namespace?: string;
+  /** Registry module name, repository name or object path */
+  name?: string;
+  /** Registry target system, e.g. aws */
+  provider?: string;
+  /** Path after //, e.g. modules/vpc */
+  subdirectory?: string;
+  /** Git or Mercurial ref from ?ref=, e.g. v1.2.0 */
+  ref?: string;
+}
+
+/**
+ * Module in a local directory, relative to the calling file
+ */
+export interface LocalModuleAddress {
+  kind: 'local';
+  path: string;
+}
+
+/**
+ * Module published in a module registry
+ */
+export interface RegistrySourceAddress {
+  kind: 'registry';
+  /** Registry host, registry.terraform.io when the source has no host */
+  hostname: string;
+  namespace: string;
+  name: string;
+  /** Target system, e.g. aws */
+  system: string;
+  subdirectory?: string;
+}
+
+/**
+ * Module in a git repository
+ */
+export interface GitModuleAddress {
+  kind: 'git';
+  /** Repository URL passed to git, e.g. https://github.com/acme/modules.git */
+  url: string;
+  /** Host without user and port, e.g. github.com; empty for file:// repositories */
+  host: string;
+  /** Repository path without .git, e.g. acme/modules */
+  path: string;
+  subdirectory?: string;
+  ref?: string;
+}
+
+/**
+ * Module downloaded as an archive
+ */
+export interface ArchiveModuleAddress {
+  kind: 'archive';
+  /** Archive URL without getter prefix, subdirectory and query */
+  url: string;
+  /** Archive format from the file extension or ?archive=, e.g. zip or tar.gz */
+  format: string;
+  subdirectory?: string;
+}
+
+/**
+ * Module fetched from another remote location: Mercurial repositories, buckets and URLs
+ * that are not archives
+ */
+export interface RemoteModuleAddress {
+  kind: 'remote';
+  /** URL without getter prefix, subdirectory and query */
+  url: string;
+  subdirectory?: string;
+  ref?: string;
+}
+
+/**
+ * Module source that could not be classified
+ */
+export interface UnknownModuleAddress {
+  kind: 'unknown';
+  /** Source without query */
+  source: string;
+}
+
+/**
+ * Structured address of a module source
+ */
+export type ModuleAddress =
+  | LocalModuleAddress
+  | RegistrySourceAddress
+  | GitModuleAddress
+  | ArchiveModuleAddress
+  | RemoteModuleAddress
+  | UnknownModuleAddress;
+
+/**
+ * Host of the public Terraform Registry, implied by registry addresses without a host
+ */
+export const DEFAULT_REGISTRY_HOST = 'registry.terraform.io';
+
+const FORCED_GETTERS: Record<string, SourceType> = {
+  git: 'git',
+  hg: 'hg',
+  s3: 's3',
+  gcs: 'gcs',
+};
+
+const SHORTHAND_HOSTS: Record<string, SourceType> = {
+  'github.com': 'github',
+  'gitlab.com': 'gitlab',
+  'bitbucket.org': 'bitbucket',
+};
+
+const ARCHIVE_PATTERN = /\.(zip|tar\.gz|tgz|tar\.bz2|tbz2|tar\.xz|txz|tar)$/i;
+const REGISTRY_PART_PATTERN = /^[0-9A-Za-z](?:[0-9A-Za-z_-]*[0-9A-Za-z])?$/;
+const HOSTNAME_PATTERN = /^[0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)+(?::\d+)?$/;
+const SCP_PATTERN = /^([^@/\s]+@)?([^:/\s]+):(?!\d+\/)(.+)$/;
+
+/**
+ * Source split into its parts before classification
+ */
+interface SourceParts {
+  /** Forced getter prefix without ::, e.g. git for git::https://... */
+  getter?: string;
+  /** URL scheme with ://, e.g. https:// */
+  scheme: string;
+  /** Source without getter, scheme, subdirectory and query */
+  location: string;
+  subdirectory?: string;
+  query: URLSearchParams;
+}
+
+/**
+ * Determine the kind of a module source
+ * @param source Module source as written in the configuration
+ */
+export function determineSourceType(source: string): SourceType {
+  const trimmed = source.trim();
+  if (trimmed.startsWith('./') || trimmed.startsWith('../') || trimmed.startsWith('/')) {
+    return 'local';
+  }
+
+  const { getter, scheme, location, query } = splitSource(trimmed);
+  if (getter) {
+    return FORCED_GETTERS[getter] ?? 'unknown';
+  }
+  if (scheme === 'tfr://') {
+    return 'registry';
+  }
+  if (scheme === 'git://' || scheme === 'ssh://' || (!scheme && SCP_PATTERN.test(location))) {
+    return 'git';
+  }
+
+  const [host, ...path] = location.split('/');
+  if (!scheme && SHORTHAND_HOSTS[host.toLowerCase()]) {
+    return SHORTHAND_HOSTS[host.toLowerCase()];
+  }
+  if (!scheme && parseRegistryParts(location)) {
+    return 'registry';
+  }
+
+  const hostname = host.toLowerCase().replace(/:\d+$/, '');
+  if (/(^|\.)s3([.-][0-9a-z-]+)?\.amazonaws\.com$/.test(hostname)) {
+    return 's3';
+  }
+  if (
+    hostname === 'storage.googleapis.com' ||
+    (hostname === 'www.googleapis.com' && path[0] === 'storage')
+  ) {
+    return 'gcs';
+  }
+  if (ARCHIVE_PATTERN.test(location) || query.has('archive')) {
+    return 'archive';
+  }
+  if (hostname.includes('jfrog.io')) {
+    return 'artifactory';
+  }
+  if (scheme === 'http://' || scheme === 'https://') {
+    return 'http';
+  }
+  return 'unknown';
+}
+
+/**
+ * Parse a module source into its host, namespace, name, provider, subdirectory and ref
+ * @param source Module source as written in the configuration
+ * @param sourceType Kind of the source, determined from the source when not given
+ */
+export function parseModuleSource(
+  source: string,
+  sourceType: SourceType = determineSourceType(source)
+): ModuleSourceDetails {
+  const trimmed = source.trim();
+  if (sourceType === 'local') {
+    return {};
+  }
+
+  const { scheme, location, subdirectory, query } = splitSource(trimmed);
+  const ref = query.get('ref') || undefined;
+  const details: ModuleSourceDetails = {};
+
+  if (sourceType === 'registry') {
+    // tfr:///namespace/name/provider uses the default registry
+    const address = scheme === 'tfr://' ? location.replace(/^\//, '') : location;
+    const parts = parseRegistryParts(address);
+    if (parts) {
+      Object.assign(details, parts);
+    }
+  } else if (!scheme && SCP_PATTERN.test(location)) {
+    const [, , host, repositoryPath] = location.match(SCP_PATTERN) ?? [];
+    Object.assign(details, { host: host.toLowerCase() }, splitRepositoryPath(repositoryPath));
+  } else {
+    const [host, ...path] = location.split('/');
+    details.host = host.replace(/^[^@]*@/, '').toLowerCase() || undefined;
+
+    if (sourceType === 's3' || sourceType === 'gcs') {
+      // Bucket is either the first path segment or the first label of the host
+      const hostBucket = details.host?.match(/^(.+)\.s3[.-]/)?.[1];
+      const objectPath = sourceType === 'gcs' && path[0] === 'storage' ? path.slice(2) : path;
+      if (hostBucket) {
+        details.namespace = hostBucket;
+        details.name = objectPath.join('/') || undefined;
+      } else {
+        details.namespace = objectPath[0];
+        details.name = objectPath.slice(1).join('/') || undefined;
+      }
+    } else if (sourceType === 'hg' || GIT_SOURCE_TYPES.includes(sourceType)) {
+      Object.assign(details, splitRepositoryPath(path.join('/')));
+    }
+  }
+
+  if (subdirectory) {
+    details.subdirectory = subdirectory;
+  }
+  if (ref) {
+    details.ref = ref;
+  }
+  return details;
+}
+
+/**
+ * Parse a module source into a structured address
+ * @param source Module source as written in the configuration
+ * @param sourceType Kind of the source, determined from the source when not given
+ */
+export function parseModuleAddress(
+  source: string,
+  sourceType: SourceType = determineSourceType(source)
+): ModuleAddress {
+  const trimmed = source.trim();
+  if (sourceType === 'local') {
+    return { kind: 'local', path: trimmed };
+  }
+
+  const { scheme, location, subdirectory, query } = splitSource(trimmed);
+  const ref = query.get('ref') || undefined;
+
+  if (sourceType === 'registry') {
+    const { host, namespace, name, provider } = parseModuleSource(trimmed, sourceType);
+    if (namespace && name && provider) {
+      return {
+        kind: 'registry',
+        hostname: host ?? DEFAULT_REGISTRY_HOST,
+        namespace,
+        name,
+        system: provider,
+        subdirectory,
+      };
+    }
+  }
+
+  if (GIT_SOURCE_TYPES.includes(sourceType)) {
+    const scpMatch = scheme ? null : location.match(SCP_PATTERN);
+    const [host, ...path] = scpMatch ? [scpMatch[2], scpMatch[3]] : location.split('/');
+    const { namespace, name } = splitRepositoryPath(path.join('/'));
+    return {
+      kind: 'git',
+      // Host shorthands such as github.com/acme/modules are fetched over HTTPS
+      url: scheme || scpMatch ? `${scheme}${location}` : `https://${location}`,
+      host: host
+        .replace(/^[^@]*@/, '')
+        .replace(/:\d+$/, '')
+        .toLowerCase(),
+      path: [namespace, name].filter(Boolean).join('/'),
+      subdirectory,
+      ref,
+    };
+  }
+
+  const url = `${scheme}${location}`;
+  const format = query.get('archive') || location.match(ARCHIVE_PATTERN)?.[1].toLowerCase();
+  if (format) {
+    return { kind: 'archive', url, format, subdirectory };
+  }
+  if (sourceType === 'unknown' || sourceType === 'registry') {
+    return { kind: 'unknown', source: trimmed.replace(/\?.*$/, '') };
+  }
+  return { kind: 'remote', url, subdirectory, ref };
+}
+
+/**
+ * Identity of the module an address refers to, ignoring refs and the way the source
+ * is written: git::https://github.com/acme/x.git and github.com/acme/x have the same key
+ * @param address Address returned by parseModuleAddress
+ */
+export function getModuleAddressKey(address: ModuleAddress): string {
+  const subdirectory =
+    'subdirectory' in address && address.subdirectory
+      ? `//${address.subdirectory.replace(/^\/+|\/+$/g, '')}`
+      : '';
+
+  switch (address.kind) {
+    case 'local':
+      return `local:${address.path}`;
+    case 'registry': {
+      // Registry addresses are case-insensitive
+      const { hostname, namespace, name, system } = address;
+      return `registry:${[hostname, namespace, name, system].join('/').toLowerCase()}${subdirectory}`;
+    }
+    case 'git':
+      return `git:${address.host}/${address.path}${subdirectory}`;
+    case 'archive':
+    case 'remote':
+      return `${address.kind}:${address.url}${subdirectory}`;
+    default:
+      return `unknown:${address.source}`;
+  }
+}
+
+/**
+ * Split a source into getter, scheme, location, subdirectory and query
+ */
+function splitSource(source: string): SourceParts {
+  const getterMatch = source.match(/^([a-z0-9]+)::(.*)$/i);
+  const withoutGetter = getterMatch ? getterMatch[2] : source;
+
+  const queryIndex = withoutGetter.indexOf('?');
+  const base = queryIndex >= 0 ? withoutGetter.slice(0, queryIndex) : withoutGetter;
+  const query = new URLSearchParams(queryIndex >= 0 ? withoutGetter.slice(queryIndex + 1) : '');
+
+  const [, scheme = '', rest = ''] = base.match(/^([a-z][a-z0-9+.-]*:\/\/)?(.*)$/i) ?? [];
+  // tfr:/// has an empty host, so its location starts with /
+  const separator = rest.indexOf('//', scheme === 'tfr://' ? 1 : 0);
+  const location = separator >= 0 ? rest.slice(0, separator) : rest;
+
+  return {
+    getter: getterMatch?.[1].toLowerCase(),
+    scheme: scheme.toLowerCase(),
+    location,
+    subdirectory: separator >= 0 ? rest.slice(separator + 2) || undefined : undefined,
+    query,
+  };
+}
+
+/**
+ * Parse [host/]namespace/name/provider
+ * @returns The registry address parts, or undefined if the location is not a registry address
+ */
+function parseRegistryParts(location: string): ModuleSourceDetails | undefined {
+  const parts = location.split('/');
+  const host =
+    parts.length === 4 && HOSTNAME_PATTERN.test(parts[0])
+      ? parts.shift()?.toLowerCase()
+      : DEFAULT_REGISTRY_HOST;
+  if (parts.length !== 3 || !parts.every(part => REGISTRY_PART_PATTERN.test(part))) {
+    return undefined;
+  }
+
+  const [namespace, name, provider] = parts;
+  return { host, namespace, name, provider };
+}
+
+/**
+ * Split a repository path such as org/repo.git or group/subgroup/project into
+ * namespace and name
+ */
+function splitRepositoryPath(repositoryPath: string): ModuleSourceDetails {
+  const parts = repositoryPath
+    .replace(/^\/+|\/+$/g, '')
+    .replace(/\.git$/, '')
+    .split('/')
+    .filter(Boolean);
+  if (parts.length === 0) {
+    return {};
+  }
+  return {
+    namespace: parts.slice(0, -1).join('/') || undefined,
+    name: parts[parts.length - 1],
+  };
+}
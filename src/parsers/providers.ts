@@ -0,0 +1,118 @@
+import { IacFile } from '../types';
+import { HclAttribute, findBlocks, findObjectItem, getStaticString } from '../hcl';
+import { HclFileParser } from './base';
+import { normalizeVersion } from '../utils/version';
+
+/**
+ * Provider requirement declared in a terraform { required_providers { ... } } block
+ */
+export interface ProviderRequirement {
+  localName: string;
+  source: string;
+  version?: string;
+  repository: string;
+  filePath: string;
+  fileUrl: string;
+  lineNumber: number;
+}
+
+/**
+ * Usage statistics for a single provider source address
+ */
+export interface ProviderSummaryEntry {
+  count: number;
+  versions: Record<string, number>;
+}
+
+/**
+ * Parser for Terraform files to extract provider requirements
+ */
+export class ProviderParser extends HclFileParser {
+  constructor() {
+    super('ProviderParser', 'terraform');
+  }
+
+  /**
+   * Parse files to extract provider requirements
+   * @param files List of files to parse (will be filtered to Terraform files)
+   * @returns Array of extracted provider requirements
+   */
+  parseProviders(files: IacFile[]): ProviderRequirement[] {
+    return this.collectFromFiles(files, 'provider requirements', file =>
+      this.extractProvidersFromFile(file)
+    );
+  }
+
+  /**
+   * Group provider requirements by source address to create a summary report
+   * @param providers List of provider requirements to summarize
+   * @returns Object with source addresses as keys and usage statistics as values
+   */
+  createProviderSummary(providers: ProviderRequirement[]): Record<string, ProviderSummaryEntry> {
+    const summary: Record<string, ProviderSummaryEntry> = {};
+
+    for (const provider of providers) {
+      if (!summary[provider.source]) {
+        summary[provider.source] = { count: 0, versions: {} };
+      }
+
+      summary[provider.source].count++;
+
+      if (provider.version) {
+        const version = normalizeVersion(provider.version);
+        summary[provider.source].versions[version] =
+          (summary[provider.source].versions[version] || 0) + 1;
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Extract provider requirements from a single Terraform file
+   */
+  private extractProvidersFromFile(file: IacFile): ProviderRequirement[] {
+    const hcl = this.parseHclFile(file);
+    const providers: ProviderRequirement[] = [];
+
+    for (const terraformBlock of findBlocks(hcl.body, 'terraform')) {
+      for (const requiredProviders of findBlocks(terraformBlock.body, 'required_providers')) {
+        for (const attribute of requiredProviders.body.attributes) {
+          providers.push(this.createRequirement(attribute, file));
+        }
+      }
+    }
+
+    return providers;
+  }
+
+  /**
+   * Create a provider requirement from a required_providers entry. Entries are either
+   * objects with source and version, or a legacy version constraint string.
+   */
+  private createRequirement(attribute: HclAttribute, file: IacFile): ProviderRequirement {
+    const { expression } = attribute;
+    let source: string | undefined;
+    let version: string | undefined;
+
+    if (expression.kind === 'Object') {
+      const sourceValue = findObjectItem(expression, 'source');
+      const versionValue = findObjectItem(expression, 'version');
+      source = sourceValue ? getStaticString(sourceValue) : undefined;
+      version = versionValue ? getStaticString(versionValue) : undefined;
+    } else {
+      version = getStaticString(expression);
+    }
+
+    return {
+      localName: attribute.name,
+      // Terraform implies the hashicorp namespace when no source is given
+      source: source || `hashicorp/${attribute.name}`,
+      version,
+      repository: file.repository,
+      filePath: file.path,
+      fileUrl: file.url,
+      lineNumber: attribute.range.start.line,
+    };
+  }
+}
@@ -0,0 +1,93 @@
+import * as path from 'path';
+import { IacFile } from '../types';
+import { findAttribute, findBlocks, getStaticString } from '../hcl';
+import { HclFileParser } from './base';
+
+/**
+ * Terraform CLI version constraint declared with terraform { required_version = "..." }
+ */
+export interface RequiredVersionConstraint {
+  constraint: string;
+  rootModule: string; // directory containing the file
+  repository: string;
+  filePath: string;
+  fileUrl: string;
+  lineNumber: number;
+}
+
+/**
+ * Terraform CLI version constraints grouped per repository and per root module
+ */
+export interface RequiredVersionSummary {
+  /** Number of declarations of each constraint, keyed by repository */
+  byRepository: Record<string, Record<string, number>>;
+  /** Distinct constraints of each root module, keyed by repository and root module */
+  byRootModule: Record<string, Record<string, string[]>>;
+}
+
+/**
+ * Parser for Terraform files to extract Terraform CLI version constraints
+ */
+export class RequiredVersionParser extends HclFileParser {
+  constructor() {
+    super('RequiredVersionParser', 'terraform');
+  }
+
+  /**
+   * Parse files to extract required_version constraints
+   * @param files List of files to parse (will be filtered to Terraform files)
+   * @returns Array of extracted constraints
+   */
+  parseRequiredVersions(files: IacFile[]): RequiredVersionConstraint[] {
+    return this.collectFromFiles(files, 'required_version constraints', file => {
+      const constraints: RequiredVersionConstraint[] = [];
+
+      for (const block of findBlocks(this.parseHclFile(file).body, 'terraform')) {
+        const attribute = findAttribute(block.body, 'required_version');
+        const constraint = attribute ? getStaticString(attribute.expression) : undefined;
+        if (!attribute || !constraint) {
+          continue;
+        }
+
+        constraints.push({
+          constraint,
+          rootModule: path.posix.dirname(file.path),
+          repository: file.repository,
+          filePath: file.path,
+          fileUrl: file.url,
+          lineNumber: attribute.range.start.line,
+        });
+      }
+
+      return constraints;
+    });
+  }
+
+  /**
+   * Group constraints per repository and per root module
+   * @param constraints List of constraints to summarize
+   */
+  createRequiredVersionSummary(constraints: RequiredVersionConstraint[]): RequiredVersionSummary {
+    const summary: RequiredVersionSummary = { byRepository: {}, byRootModule: {} };
+
+    for (const { constraint, repository, rootModule } of constraints) {
+      if (!summary.byRepository[repository]) {
+        summary.byRepository[repository] = {};
+        summary.byRootModule[repository] = {};
+      }
+
+      const repositoryConstraints = summary.byRepository[repository];
+      repositoryConstraints[constraint] = (repositoryConstraints[constraint] || 0) + 1;
+
+      const rootModules = summary.byRootModule[repository];
+      if (!rootModules[rootModule]) {
+        rootModules[rootModule] = [];
+      }
+      if (!rootModules[rootModule].includes(constraint)) {
+        rootModules[rootModule].push(constraint);
+      }
+    }
+
+    return summary;
+  }
+}
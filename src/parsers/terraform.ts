@@ -1,5 +1,6 @@
 import { IacFile } from '../types';
 import { BaseParser, IaCModule } from './base';
+import { HclBlock, findAttribute, getStaticString, getTemplateText } from '../hcl';
 
 /**
  * Terraform module information
@@ -17,49 +18,47 @@ export class TerraformParser extends BaseParser<TerraformModule> {
   }
 
   /**
-   * Extract modules from a single Terraform file
-   * @param file Terraform file to parse
+   * Extract modules from the top-level blocks of a Terraform file
+   * @param blocks Top-level blocks of the file
+   * @param file Terraform file the blocks belong to
    * @returns Array of extracted modules from the file
    */
-  protected extractModulesFromFile(file: IacFile): TerraformModule[] {
+  protected extractModulesFromBlocks(blocks: HclBlock[], file: IacFile): TerraformModule[] {
     const modules: TerraformModule[] = [];
-    const content = file.content;
-
-    // Regular expression to match module blocks
-    // This handles both single and multi-line module declarations
-    const moduleRegex = /module\s+"([^"]+)"\s+{([\s\S]*?)}/g;
-    let moduleMatch;
-
-    while ((moduleMatch = moduleRegex.exec(content)) !== null) {
-      const moduleName = moduleMatch[1];
-      const moduleBlock = moduleMatch[2];
+    for (const block of blocks.filter(b => b.type === 'module')) {
+      const moduleName = block.labels[0];
+      if (block.labels.length !== 1) {
+        this.logger.debug(`Module block in ${file.path} has no single name label - skipping`);
+        continue;
+      }
 
-      // Calculate line number by counting newlines before this match
-      const matchStartPosition = moduleMatch.index;
-      const contentBeforeMatch = content.substring(0, matchStartPosition);
-      const lineNumber = (contentBeforeMatch.match(/\n/g) || []).length + 1;
+      const lineNumber = block.range.start.line;
 
       // Extract source
-      const sourceMatch = moduleBlock.match(/source\s*=\s*"([^"]+)"/);
-      if (!sourceMatch) {
+      const sourceAttribute = findAttribute(block.body, 'source');
+      const source = sourceAttribute ? getTemplateText(sourceAttribute.expression) : undefined;
+      if (!source) {
         this.logger.debug(`Module "${moduleName}" in ${file.path} has no source - skipping`);
         continue; // Skip if no source found
       }
 
-      const source = sourceMatch[1];
-
       // Determine source type using the base class method
       const sourceType = this.determineSourceType(source);
 
       // Extract version from both explicit version attribute and source
-      const versionMatch = moduleBlock.match(/version\s*=\s*"([^"]+)"/);
-      const versionValue = versionMatch ? versionMatch[1] : undefined;
+      const versionAttribute = findAttribute(block.body, 'version');
+      const versionValue = versionAttribute
+        ? getStaticString(versionAttribute.expression)
+        : undefined;
       const version = this.extractVersion(source, versionValue);
 
       modules.push({
         name: moduleName,
         source,
         sourceType,
+        sourceDetails: this.parseSourceDetails(source, sourceType),
+        address: this.parseAddress(source, sourceType),
+        resolvedPath: sourceType === 'local' ? this.resolveLocalSource(source, file) : undefined,
         version,
         repository: file.repository,
         filePath: file.path,
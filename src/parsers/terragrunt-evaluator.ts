@@ -0,0 +1,293 @@
+import * as path from 'path';
+import { IacFile } from '../types';
+import {
+  HclEvaluationContext,
+  HclEvaluationResult,
+  HclExpression,
+  HclFile,
+  HclFunction,
+  HclTextEvaluationResult,
+  HclValue,
+  evaluateExpression,
+  evaluateExpressionText,
+  findAttribute,
+  getSourceText,
+  parseHcl,
+} from '../hcl';
+
+/**
+ * Default file name searched by find_in_parent_folders()
+ */
+const DEFAULT_PARENT_CONFIG = 'terragrunt.hcl';
+
+/**
+ * Maximum number of passes over a locals block; locals may reference each other
+ */
+const MAX_LOCALS_PASSES = 10;
+
+/**
+ * Best-effort evaluator for Terragrunt expressions. Resolves local.*, include.*.locals,
+ * read_terragrunt_config() and the path functions against the scanned file set.
+ *
+ * Paths returned by Terragrunt functions are absolute on disk; here they are absolute
+ * from the repository root (e.g. /live/root.hcl), since that is all a scan can know.
+ */
+export class TerragruntEvaluator {
+  private readonly files = new Map<string, IacFile>();
+  private readonly parsedFiles = new Map<string, HclFile | null>();
+  private readonly locals = new Map<string, Record<string, HclValue>>();
+
+  /**
+   * @param files Terragrunt files of the scan, used to resolve includes and parent folders
+   */
+  constructor(files: IacFile[]) {
+    for (const file of files) {
+      this.files.set(this.fileKey(file.repository, file.path), file);
+    }
+  }
+
+  /**
+   * Evaluate an expression of a file
+   */
+  evaluate(expression: HclExpression, file: IacFile): HclEvaluationResult {
+    return evaluateExpression(expression, this.createContext(file, new Set()));
+  }
+
+  /**
+   * Evaluate an expression of a file to text, keeping unresolved template sequences as written
+   */
+  evaluateText(expression: HclExpression, file: IacFile): HclTextEvaluationResult {
+    return evaluateExpressionText(
+      expression,
+      this.createContext(file, new Set()),
+      getSourceText(file.content, expression)
+    );
+  }
+
+  /**
+   * Build the evaluation context of a file, including its locals
+   * @param file File whose expressions are evaluated
+   * @param resolving Keys of locals being evaluated, to break include cycles
+   */
+  private createContext(file: IacFile, resolving: Set<string>): HclEvaluationContext {
+    const context = this.createBaseContext(file, resolving);
+    context.variables.local = this.evaluateLocals(file, file, resolving);
+    return context;
+  }
+
+  /**
+   * Build the evaluation context of a file without its locals: path functions and includes
+   */
+  private createBaseContext(file: IacFile, resolving: Set<string>): HclEvaluationContext {
+    const functions = this.createPathFunctions(file, resolving);
+    const includes = this.resolveIncludes(file, functions);
+
+    functions.get_parent_terragrunt_dir = ([name]) =>
+      toAbsolute(path.posix.dirname(this.getIncludePath(includes, name)));
+    functions.path_relative_to_include = ([name]) =>
+      path.posix.relative(
+        path.posix.dirname(this.getIncludePath(includes, name)),
+        path.posix.dirname(file.path)
+      ) || '.';
+    functions.path_relative_from_include = ([name]) =>
+      path.posix.relative(
+        path.posix.dirname(file.path),
+        path.posix.dirname(this.getIncludePath(includes, name))
+      ) || '.';
+
+    const include: Record<string, HclValue> = {};
+    for (const [name, includePath] of includes) {
+      const included = this.files.get(this.fileKey(file.repository, includePath));
+      if (!included) {
+        continue;
+      }
+      // Included configurations are evaluated in the context of the including file
+      const value = { locals: this.evaluateLocals(included, file, resolving) };
+      if (name) {
+        include[name] = value;
+      } else {
+        Object.assign(include, value);
+      }
+    }
+
+    return { variables: { include }, functions };
+  }
+
+  /**
+   * Evaluate the locals of a file. Locals that cannot be resolved are left out.
+   * @param target File declaring the locals
+   * @param contextFile File whose context the locals are evaluated in
+   * @param resolving Keys of locals being evaluated, to break include cycles
+   */
+  private evaluateLocals(
+    target: IacFile,
+    contextFile: IacFile,
+    resolving: Set<string>
+  ): Record<string, HclValue> {
+    const key = `${this.fileKey(target.repository, target.path)}\0${contextFile.path}`;
+    const cached = this.locals.get(key);
+    if (cached) {
+      return cached;
+    }
+    if (resolving.has(key)) {
+      return {};
+    }
+
+    const attributes = (this.parseFile(target)?.body.blocks ?? [])
+      .filter(block => block.type === 'locals')
+      .flatMap(block => block.body.attributes);
+
+    const values: Record<string, HclValue> = {};
+    if (attributes.length > 0) {
+      resolving.add(key);
+      const context = this.createBaseContext(contextFile, resolving);
+      context.variables.local = values;
+
+      let pending = attributes;
+      for (let pass = 0; pass < MAX_LOCALS_PASSES && pending.length > 0; pass++) {
+        const remaining = pending.filter(attribute => {
+          const { value } = evaluateExpression(attribute.expression, context);
+          if (value === undefined) {
+            return true;
+          }
+          values[attribute.name] = value;
+          return false;
+        });
+        if (remaining.length === pending.length) {
+          break;
+        }
+        pending = remaining;
+      }
+      resolving.delete(key);
+    }
+
+    this.locals.set(key, values);
+    return values;
+  }
+
+  /**
+   * Create the functions that depend on the location of the file
+   */
+  private createPathFunctions(file: IacFile, resolving: Set<string>): Record<string, HclFunction> {
+    const directory = path.posix.dirname(file.path);
+
+    return {
+      find_in_parent_folders: ([name, fallback]) => {
+        const fileName = name === undefined ? DEFAULT_PARENT_CONFIG : String(name);
+        let current = directory;
+        while (current !== '.' && current !== '/') {
+          current = path.posix.dirname(current);
+          const candidate = path.posix.join(current, fileName);
+          if (this.files.has(this.fileKey(file.repository, candidate))) {
+            return toAbsolute(candidate);
+          }
+        }
+        if (fallback === undefined) {
+          throw new Error(`${fileName} not found in parent folders of ${file.path}`);
+        }
+        return fallback;
+      },
+      get_terragrunt_dir: () => toAbsolute(directory),
+      get_original_terragrunt_dir: () => toAbsolute(directory),
+      get_repo_root: () => '/',
+      get_path_to_repo_root: () => path.posix.relative(directory, '.') || '.',
+      get_path_from_repo_root: () => directory,
+      get_env: ([name, fallback]) => {
+        if (fallback === undefined) {
+          throw new Error(`environment variable ${String(name)} is not known`);
+        }
+        return fallback;
+      },
+      read_terragrunt_config: ([configPath]) => {
+        const target = this.files.get(
+          this.fileKey(file.repository, resolvePath(directory, String(configPath)))
+        );
+        if (!target) {
+          throw new Error(`${String(configPath)} is not part of the scan`);
+        }
+        return { locals: this.evaluateLocals(target, target, resolving) };
+      },
+    };
+  }
+
+  /**
+   * Resolve the paths of the include blocks of a file
+   * @returns Repository-relative include paths keyed by include name ('' for unnamed includes)
+   */
+  private resolveIncludes(
+    file: IacFile,
+    functions: Record<string, HclFunction>
+  ): Map<string, string> {
+    const includes = new Map<string, string>();
+    const directory = path.posix.dirname(file.path);
+
+    for (const block of this.parseFile(file)?.body.blocks ?? []) {
+      const pathAttribute =
+        block.type === 'include' ? findAttribute(block.body, 'path') : undefined;
+      if (!pathAttribute) {
+        continue;
+      }
+      const { value } = evaluateExpression(pathAttribute.expression, { variables: {}, functions });
+      if (typeof value === 'string') {
+        includes.set(block.labels[0] || '', resolvePath(directory, value));
+      }
+    }
+
+    return includes;
+  }
+
+  /**
+   * Get the path of a named include, or of the only include when no name is given
+   */
+  private getIncludePath(includes: Map<string, string>, name: HclValue | undefined): string {
+    const includePath =
+      name === undefined
+        ? includes.size === 1
+          ? [...includes.values()][0]
+          : includes.get('')
+        : includes.get(String(name));
+    if (includePath === undefined) {
+      throw new Error(`include ${name === undefined ? '' : String(name)} is not resolved`);
+    }
+    return includePath;
+  }
+
+  /**
+   * Parse a file once, remembering files that are not valid HCL
+   */
+  private parseFile(file: IacFile): HclFile | null {
+    const key = this.fileKey(file.repository, file.path);
+    if (!this.parsedFiles.has(key)) {
+      try {
+        this.parsedFiles.set(key, parseHcl(file.content, file.path));
+      } catch {
+        this.parsedFiles.set(key, null);
+      }
+    }
+    return this.parsedFiles.get(key) ?? null;
+  }
+
+  /**
+   * Key of a file in the scanned file set
+   */
+  private fileKey(repository: string, filePath: string): string {
+    return `${repository}\0${filePath}`;
+  }
+}
+
+/**
+ * Resolve a path relative to a directory. Absolute paths are relative to the repository root.
+ * @returns Repository-relative path
+ */
+export function resolvePath(directory: string, target: string): string {
+  return target.startsWith('/')
+    ? path.posix.normalize(target.replace(/^\/+/, '')) || '.'
+    : path.posix.join(directory, target);
+}
+
+/**
+ * Make a repository-relative path absolute from the repository root
+ */
+function toAbsolute(relativePath: string): string {
+  return relativePath === '.' ? '/' : `/${relativePath}`;
+}
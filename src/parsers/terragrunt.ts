@@ -1,51 +1,155 @@
+import * as path from 'path';
 import { IacFile } from '../types';
-import { BaseParser, IaCModule } from './base';
+import { BaseParser, IaCModule, ModuleParseOptions } from './base';
+import { TerragruntEvaluator, resolvePath } from './terragrunt-evaluator';
+import {
+  HclBlock,
+  HclExpression,
+  findAttribute,
+  getSourceText,
+  getStaticString,
+  getTemplateText,
+  walkExpression,
+} from '../hcl';
 
 /**
  * Terragrunt module information
  */
 export interface TerragruntModule extends IaCModule {
   type: 'terragrunt';
+  rawSource?: string; // source as written, when it differs from the evaluated source
+  unresolved?: string[]; // references the evaluator could not resolve, e.g. local.version
 }
 
+/**
+ * Location shared by all Terragrunt configuration records
+ */
+interface TerragruntRecordLocation {
+  repository: string;
+  filePath: string; // the including/declaring terragrunt file
+  fileUrl: string;
+  lineNumber: number;
+}
+
+/**
+ * include "name" { path = ... } block
+ */
+export interface TerragruntInclude extends TerragruntRecordLocation {
+  kind: 'include';
+  name?: string;
+  path?: string;
+  resolvedPath?: string;
+  expose: boolean;
+  mergeStrategy?: string;
+}
+
+/**
+ * dependency "name" { config_path = ... } block
+ */
+export interface TerragruntDependency extends TerragruntRecordLocation {
+  kind: 'dependency';
+  name: string;
+  configPath?: string;
+  resolvedPath?: string;
+  skipOutputs: boolean;
+  hasMockOutputs: boolean;
+}
+
+/**
+ * dependencies { paths = [...] } block
+ */
+export interface TerragruntDependencies extends TerragruntRecordLocation {
+  kind: 'dependencies';
+  paths: string[];
+  resolvedPaths: string[];
+}
+
+/**
+ * locals { ... } block
+ */
+export interface TerragruntLocals extends TerragruntRecordLocation {
+  kind: 'locals';
+  names: string[];
+}
+
+/**
+ * generate "name" { path = ... } block
+ */
+export interface TerragruntGenerate extends TerragruntRecordLocation {
+  kind: 'generate';
+  name: string;
+  path?: string;
+  ifExists?: string;
+}
+
+/**
+ * read_terragrunt_config(...) call anywhere in the file
+ */
+export interface TerragruntReadConfig extends TerragruntRecordLocation {
+  kind: 'read_terragrunt_config';
+  path: string;
+  resolvedPath?: string;
+}
+
+/**
+ * Typed record for a Terragrunt block that wires units together
+ */
+export type TerragruntConfigRecord =
+  | TerragruntInclude
+  | TerragruntDependency
+  | TerragruntDependencies
+  | TerragruntLocals
+  | TerragruntGenerate
+  | TerragruntReadConfig;
+
 /**
  * Parser for Terragrunt files to extract module information
  */
 export class TerragruntParser extends BaseParser<TerragruntModule> {
+  private evaluator?: TerragruntEvaluator;
+
   constructor() {
     super('TerragruntParser', 'terragrunt');
   }
 
   /**
-   * Extract modules from a single Terragrunt file
-   * @param file Terragrunt file to parse
+   * Parse files to extract module information. Sources are evaluated against the
+   * given file set, so includes and parent folders resolve within the scan.
+   * @param files List of files to parse (will be filtered by type)
+   * @param options Parse options
+   * @returns Array of extracted modules
+   */
+  parseModules(files: IacFile[], options: ModuleParseOptions = {}): TerragruntModule[] {
+    return this.withEvaluator(files, () => super.parseModules(files, options));
+  }
+
+  /**
+   * Extract modules from the top-level blocks of a Terragrunt file
+   * @param blocks Top-level blocks of the file
+   * @param file Terragrunt file the blocks belong to
    * @returns Array of extracted modules from the file
    */
-  protected extractModulesFromFile(file: IacFile): TerragruntModule[] {
+  protected extractModulesFromBlocks(blocks: HclBlock[], file: IacFile): TerragruntModule[] {
     const modules: TerragruntModule[] = [];
-    const content = file.content;
-
-    // Regular expression to match terraform blocks with source (terragrunt modules)
-    // Note that Terragrunt uses terraform { source = "..." } pattern
-    const terraformBlockRegex = /terraform\s*{([\s\S]*?)}/g;
-    let blockMatch;
-
-    while ((blockMatch = terraformBlockRegex.exec(content)) !== null) {
-      const blockContent = blockMatch[1];
-
-      // Calculate line number by counting newlines before this match
-      const matchStartPosition = blockMatch.index;
-      const contentBeforeMatch = content.substring(0, matchStartPosition);
-      const lineNumber = (contentBeforeMatch.match(/\n/g) || []).length + 1;
+    // Terragrunt uses the terraform { source = "..." } pattern
+    for (const block of blocks.filter(b => b.type === 'terraform')) {
+      const lineNumber = block.range.start.line;
 
       // Extract source
-      const sourceMatch = blockContent.match(/source\s*=\s*"([^"]+)"/);
-      if (!sourceMatch) {
+      const sourceAttribute = findAttribute(block.body, 'source');
+      if (!sourceAttribute) {
         this.logger.debug(`Terraform block in ${file.path} has no source - skipping`);
         continue;
       }
 
-      const source = sourceMatch[1].trim();
+      const rawSource = (
+        getTemplateText(sourceAttribute.expression) ??
+        `\${${getSourceText(file.content, sourceAttribute.expression)}}`
+      ).trim();
+      const evaluated = this.evaluator?.evaluateText(sourceAttribute.expression, file);
+      // Joining the repository root (/) with a path gives //path, which Terraform would
+      // read as a subdirectory separator
+      const source = evaluated ? evaluated.text.trim().replace(/^\/{2,}/, '/') : rawSource;
 
       // Skip empty or whitespace-only sources
       if (!source) {
@@ -64,18 +168,220 @@ export class TerragruntParser extends BaseParser<TerragruntModule> {
         name,
         source,
         sourceType,
+        sourceDetails: this.parseSourceDetails(source, sourceType),
+        address: this.parseAddress(source, sourceType),
+        resolvedPath: sourceType === 'local' ? this.resolveLocalSource(source, file) : undefined,
         version,
         repository: file.repository,
         filePath: file.path,
         fileUrl: file.url,
         lineNumber,
         type: 'terragrunt',
+        ...(source !== rawSource && { rawSource }),
+        ...(evaluated?.unresolved.length && { unresolved: evaluated.unresolved }),
       });
     }
 
     return modules;
   }
 
+  /**
+   * Resolve a local source against the directory of the declaring file. Absolute paths,
+   * as returned by functions such as get_repo_root(), are relative to the repository root.
+   * @returns Repository-relative directory, or undefined for paths outside the repository
+   */
+  protected resolveLocalSource(source: string, file: IacFile): string | undefined {
+    return this.withinRepository(
+      resolvePath(path.posix.dirname(file.path), source.replace(/\?.*$/, ''))
+    );
+  }
+
+  /**
+   * Parse files to extract include, dependency, dependencies, locals and generate blocks
+   * and read_terragrunt_config calls
+   * @param files List of files to parse (will be filtered by type)
+   * @returns Array of configuration records in file order
+   */
+  parseConfigRecords(files: IacFile[]): TerragruntConfigRecord[] {
+    return this.withEvaluator(files, () => this.collectConfigRecords(files));
+  }
+
+  /**
+   * Extract configuration records from all files
+   */
+  private collectConfigRecords(files: IacFile[]): TerragruntConfigRecord[] {
+    return this.collectFromFiles(files, 'configuration records', file => {
+      const hcl = this.parseHclFile(file);
+      const records: TerragruntConfigRecord[] = [];
+
+      for (const block of hcl.body.blocks) {
+        const record = this.createConfigRecord(block, file);
+        if (record) {
+          records.push(record);
+        }
+      }
+
+      const expressions = [
+        ...hcl.body.attributes.map(attribute => attribute.expression),
+        ...hcl.body.blocks.flatMap(block => block.body.attributes.map(a => a.expression)),
+      ];
+      for (const expression of expressions) {
+        walkExpression(expression, node => {
+          if (node.kind === 'FunctionCall' && node.name === 'read_terragrunt_config') {
+            const configPath = node.args[0] ? this.getPathText(node.args[0], file) : '';
+            records.push({
+              kind: 'read_terragrunt_config',
+              path: configPath,
+              resolvedPath: this.resolvePath(node.args[0], file),
+              ...this.getLocation(node.range.start.line, file),
+            });
+          }
+        });
+      }
+
+      return records.sort((a, b) => a.lineNumber - b.lineNumber);
+    });
+  }
+
+  /**
+   * Create a configuration record for a top-level block
+   * @returns The record, or undefined for blocks that do not wire units together
+   */
+  private createConfigRecord(block: HclBlock, file: IacFile): TerragruntConfigRecord | undefined {
+    const location = this.getLocation(block.range.start.line, file);
+    const attribute = (name: string) => findAttribute(block.body, name)?.expression;
+
+    switch (block.type) {
+      case 'include': {
+        const includePath = attribute('path');
+        return {
+          kind: 'include',
+          name: block.labels[0],
+          path: includePath ? this.getPathText(includePath, file) : undefined,
+          resolvedPath: this.resolvePath(includePath, file),
+          expose: this.isTrue(attribute('expose')),
+          mergeStrategy: this.getOptionalString(attribute('merge_strategy')),
+          ...location,
+        };
+      }
+      case 'dependency': {
+        const configPath = attribute('config_path');
+        return {
+          kind: 'dependency',
+          name: block.labels[0] || 'unknown',
+          configPath: configPath ? this.getPathText(configPath, file) : undefined,
+          resolvedPath: this.resolvePath(configPath, file),
+          skipOutputs: this.isTrue(attribute('skip_outputs')),
+          hasMockOutputs: attribute('mock_outputs') !== undefined,
+          ...location,
+        };
+      }
+      case 'dependencies': {
+        const paths = attribute('paths');
+        const items = paths?.kind === 'Tuple' ? paths.items : [];
+        return {
+          kind: 'dependencies',
+          paths: items.map(item => this.getPathText(item, file)),
+          resolvedPaths: items
+            .map(item => this.resolvePath(item, file))
+            .filter((resolved): resolved is string => resolved !== undefined),
+          ...location,
+        };
+      }
+      case 'locals':
+        return {
+          kind: 'locals',
+          names: block.body.attributes.map(local => local.name),
+          ...location,
+        };
+      case 'generate':
+        return {
+          kind: 'generate',
+          name: block.labels[0] || 'unknown',
+          path: this.getOptionalString(attribute('path')),
+          ifExists: this.getOptionalString(attribute('if_exists')),
+          ...location,
+        };
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Get a path expression as written: the string value for static strings, otherwise
+   * the expression source (e.g. find_in_parent_folders())
+   */
+  private getPathText(expression: HclExpression, file: IacFile): string {
+    return getStaticString(expression) ?? getSourceText(file.content, expression);
+  }
+
+  /**
+   * Resolve a path against the directory of the declaring file, evaluating expressions
+   * such as find_in_parent_folders() when possible
+   * @returns Repository-relative path, or undefined if the path cannot be resolved or
+   * leaves the repository
+   */
+  private resolvePath(expression: HclExpression | undefined, file: IacFile): string | undefined {
+    if (!expression) {
+      return undefined;
+    }
+
+    const directory = path.posix.dirname(file.path);
+    const staticValue = getStaticString(expression);
+    if (staticValue !== undefined) {
+      // A written absolute path points into the host filesystem, not the repository
+      return !staticValue || path.posix.isAbsolute(staticValue)
+        ? undefined
+        : this.withinRepository(path.posix.join(directory, staticValue));
+    }
+
+    // Evaluated paths are absolute from the repository root, e.g. find_in_parent_folders()
+    const value = this.evaluator?.evaluate(expression, file).value;
+    return typeof value === 'string'
+      ? this.withinRepository(resolvePath(directory, value))
+      : undefined;
+  }
+
+  /**
+   * Run a parse with an evaluator for the Terragrunt files of the given file set
+   */
+  private withEvaluator<R>(files: IacFile[], parse: () => R): R {
+    this.evaluator = new TerragruntEvaluator(
+      files.filter(file => file.type === this.fileType.toLowerCase())
+    );
+    try {
+      return parse();
+    } finally {
+      this.evaluator = undefined;
+    }
+  }
+
+  /**
+   * Get the value of an optional static string attribute
+   */
+  private getOptionalString(expression: HclExpression | undefined): string | undefined {
+    return expression ? getStaticString(expression) : undefined;
+  }
+
+  /**
+   * Check whether an optional attribute is the literal true
+   */
+  private isTrue(expression: HclExpression | undefined): boolean {
+    return expression?.kind === 'Literal' && expression.value === true;
+  }
+
+  /**
+   * Build the location fields of a record
+   */
+  private getLocation(lineNumber: number, file: IacFile): TerragruntRecordLocation {
+    return {
+      repository: file.repository,
+      filePath: file.path,
+      fileUrl: file.url,
+      lineNumber,
+    };
+  }
+
   /**
    * Extract a module name from the file path or source
    */
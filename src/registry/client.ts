@@ -0,0 +1,211 @@
+import { Logger } from '../services/logger';
+import { API_DEFAULTS, REGISTRY_DEFAULTS } from '../constants';
+
+/**
+ * Address of a module in a module registry, e.g. app.terraform.io/acme/vpc/aws
+ */
+export interface RegistryModuleAddress {
+  /** Registry host, or undefined for the public Terraform Registry */
+  host?: string;
+  namespace: string;
+  name: string;
+  provider: string;
+  /** Submodule path after //, e.g. modules/vpc-endpoints */
+  subdirectory?: string;
+}
+
+/**
+ * Configuration for the registry client
+ */
+export interface RegistryClientConfig {
+  /** Base URL used for every lookup, e.g. a private registry or a local stub */
+  baseUrl?: string;
+  /** Token sent as a bearer token; by default read from TF_TOKEN_<host> like Terraform does */
+  token?: string;
+  /** Request timeout in milliseconds */
+  timeout?: number;
+}
+
+/**
+ * Error returned by a module registry
+ */
+export class RegistryError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode?: number
+  ) {
+    super(message);
+    this.name = 'RegistryError';
+  }
+}
+
+const ADDRESS_PART_PATTERN = /^[0-9A-Za-z](?:[0-9A-Za-z_-]*[0-9A-Za-z])?$/;
+
+/**
+ * Parse a registry module source, e.g. terraform-aws-modules/vpc/aws,
+ * app.terraform.io/acme/vpc/aws//modules/endpoints or tfr:///terraform-aws-modules/vpc/aws
+ * @returns The address, or undefined if the source is not a registry address
+ */
+export function parseRegistryAddress(source: string): RegistryModuleAddress | undefined {
+  let address = source.trim().replace(/\?.*$/, '');
+  let host: string | undefined;
+
+  // Terragrunt's tfr:// scheme, where an empty host means the public registry
+  const tfrMatch = address.match(/^tfr:\/\/([^/]*)\/(.*)$/);
+  if (tfrMatch) {
+    host = tfrMatch[1] || undefined;
+    address = tfrMatch[2];
+  }
+
+  const [modulePath, ...subdirectory] = address.split('//');
+  const parts = modulePath.split('/');
+  if (!host && parts.length === 4) {
+    host = parts.shift();
+  }
+  if (parts.length !== 3 || !parts.every(part => ADDRESS_PART_PATTERN.test(part))) {
+    return undefined;
+  }
+  if (host !== undefined && !/^[0-9A-Za-z.-]+(?::\d+)?$/.test(host)) {
+    return undefined;
+  }
+
+  const [namespace, name, provider] = parts;
+  return {
+    host: host?.toLowerCase(),
+    namespace,
+    name,
+    provider,
+    subdirectory: subdirectory.join('//') || undefined,
+  };
+}
+
+/**
+ * Client for the module registry protocol (Terraform Registry, HCP Terraform,
+ * Terraform Enterprise and compatible private registries)
+ */
+export class RegistryClient {
+  private readonly logger = Logger.forComponent('Registry');
+  private readonly baseUrl?: string;
+  private readonly token?: string;
+  private readonly timeout: number;
+  private readonly moduleEndpoints = new Map<string, Promise<string>>();
+  private readonly versions = new Map<string, Promise<string[]>>();
+
+  constructor(config: RegistryClientConfig = {}) {
+    this.baseUrl = config.baseUrl?.replace(/\/+$/, '');
+    this.token = config.token;
+    this.timeout = config.timeout ?? API_DEFAULTS.REQUEST_TIMEOUT;
+  }
+
+  /**
+   * Get all published versions of a module. Lookups are cached per module.
+   * @param source Registry module source
+   * @throws RegistryError when the source is not a registry address or the lookup fails
+   */
+  getVersions(source: string): Promise<string[]> {
+    const address = parseRegistryAddress(source);
+    if (!address) {
+      return Promise.reject(new RegistryError(`${source} is not a registry module address`));
+    }
+
+    const baseUrl = this.getBaseUrl(address);
+    const key = `${baseUrl}/${address.namespace}/${address.name}/${address.provider}`;
+    let versions = this.versions.get(key);
+    if (!versions) {
+      versions = this.fetchVersions(baseUrl, address);
+      this.versions.set(key, versions);
+    }
+    return versions;
+  }
+
+  /**
+   * Fetch the versions of a module from the registry
+   */
+  private async fetchVersions(baseUrl: string, address: RegistryModuleAddress): Promise<string[]> {
+    const endpoint = await this.getModulesEndpoint(baseUrl);
+    const url = new URL(
+      `${address.namespace}/${address.name}/${address.provider}/versions`,
+      endpoint
+    ).toString();
+    this.logger.debug(`Fetching module versions from ${url}`);
+
+    const response = await this.request(url);
+    if (!response.ok) {
+      throw new RegistryError(
+        response.status === 404
+          ? `Module ${address.namespace}/${address.name}/${address.provider} not found in ${baseUrl}`
+          : `Registry request to ${url} failed with status ${response.status}`,
+        response.status
+      );
+    }
+
+    const body = (await response.json()) as {
+      modules?: Array<{ versions?: Array<{ version?: string }> }>;
+    };
+    return (body.modules ?? []).flatMap(module =>
+      (module.versions ?? []).map(v => v.version).filter((v): v is string => Boolean(v))
+    );
+  }
+
+  /**
+   * Discover the modules API endpoint of a registry through /.well-known/terraform.json,
+   * falling back to the default path when the registry does not support service discovery
+   */
+  private getModulesEndpoint(baseUrl: string): Promise<string> {
+    let endpoint = this.moduleEndpoints.get(baseUrl);
+    if (!endpoint) {
+      endpoint = (async () => {
+        const fallback = `${baseUrl}${REGISTRY_DEFAULTS.MODULES_PATH}`;
+        try {
+          const response = await this.request(`${baseUrl}/.well-known/terraform.json`);
+          if (!response.ok) {
+            return fallback;
+          }
+          const services = (await response.json()) as Record<string, unknown>;
+          const modulesPath = services['modules.v1'];
+          if (typeof modulesPath !== 'string') {
+            return fallback;
+          }
+          const resolved = new URL(modulesPath, `${baseUrl}/`).toString();
+          return resolved.endsWith('/') ? resolved : `${resolved}/`;
+        } catch (error) {
+          this.logger.debug(`Service discovery failed for ${baseUrl}: ${(error as Error).message}`);
+          return fallback;
+        }
+      })();
+      this.moduleEndpoints.set(baseUrl, endpoint);
+    }
+    return endpoint;
+  }
+
+  /**
+   * Send a GET request with the token of the requested host, if any
+   */
+  private request(url: string): Promise<Response> {
+    const headers: Record<string, string> = { Accept: 'application/json' };
+    const token = this.token ?? getHostToken(new URL(url).hostname);
+    if (token) {
+      headers.Authorization = `Bearer ${token}`;
+    }
+    return fetch(url, { headers, signal: AbortSignal.timeout(this.timeout) });
+  }
+
+  /**
+   * Get the base URL for a module: the configured base URL, or the registry host of the address
+   */
+  private getBaseUrl(address: RegistryModuleAddress): string {
+    if (this.baseUrl) {
+      return this.baseUrl;
+    }
+    return address.host ? `https://${address.host}` : REGISTRY_DEFAULTS.BASE_URL;
+  }
+}
+
+/**
+ * Read the API token of a registry host from TF_TOKEN_<host>, using Terraform's
+ * encoding: dots become underscores and dashes become double underscores
+ */
+function getHostToken(host: string): string | undefined {
+  const variable = `TF_TOKEN_${host.replace(/-/g, '__').replace(/\./g, '_')}`;
+  return process.env[variable] || undefined;
+}
@@ -0,0 +1,188 @@
+import { execFile } from 'child_process';
+import { Logger } from '../services/logger';
+import { BaseVcsService } from '../vcs';
+import { ModuleVersionLookup } from '../utils/outdated';
+import { API_DEFAULTS } from '../constants';
+import { getSshEnvironment, redactRemoteUrl } from '../scanners';
+
+/**
+ * Repository referenced by a git module source, e.g. git::https://github.com/acme/modules.git
+ */
+export interface GitRepositoryAddress {
+  /** Host with port, e.g. github.com or git.acme.com:8443; empty for file:// repositories */
+  host: string;
+  /** Repository path without .git, e.g. acme/modules or group/subgroup/project */
+  path: string;
+  /** URL passed to git, e.g. https://github.com/acme/modules.git or git@github.com:acme/modules.git */
+  cloneUrl: string;
+  /** Path after //, e.g. modules/vpc */
+  subdirectory?: string;
+}
+
+/**
+ * Configuration for the git tag resolver
+ */
+export interface GitTagResolverConfig {
+  /** VCS services keyed by host (e.g. github.com), used instead of git ls-remote */
+  services?: Record<string, BaseVcsService>;
+  /** Timeout of git ls-remote in milliseconds */
+  timeout?: number;
+}
+
+/**
+ * Parse a git module source: git::<url>, scp-like git@host:path and
+ * host/path shorthands such as github.com/acme/modules
+ * @returns The repository, or undefined if the source does not reference a git repository
+ */
+export function parseGitSource(source: string): GitRepositoryAddress | undefined {
+  const text = source
+    .trim()
+    .replace(/^git::/, '')
+    .replace(/\?.*$/, '');
+  const [, scheme = '', rest] = text.match(/^([a-z][a-z0-9+.-]*:\/\/)?(.*)$/i) ?? [];
+  const [location, ...subdirectory] = rest.split('//');
+
+  let host: string;
+  let repositoryPath: string;
+  let cloneUrl = `${scheme}${location}`;
+  const scpMatch = location.match(/^([^@/\s]+@)?([^:/\s]+):(?!\d+\/)(.+)$/);
+
+  if (scheme) {
+    let url: URL;
+    try {
+      url = new URL(cloneUrl);
+    } catch {
+      return undefined;
+    }
+    host = url.host;
+    repositoryPath = url.pathname;
+  } else if (scpMatch) {
+    host = scpMatch[2];
+    repositoryPath = scpMatch[3];
+  } else {
+    // Shorthands such as github.com/acme/modules are fetched over HTTPS
+    const [shorthandHost, ...parts] = location.split('/');
+    if (!/^[0-9a-z-]+(\.[0-9a-z-]+)+$/i.test(shorthandHost)) {
+      return undefined;
+    }
+    host = shorthandHost;
+    repositoryPath = parts.join('/');
+    cloneUrl = `https://${location}`;
+  }
+
+  repositoryPath = repositoryPath.replace(/^\/+|\/+$/g, '').replace(/\.git$/, '');
+  // Local repositories (git::file:///path) have no host
+  if ((!host && scheme !== 'file://') || repositoryPath.split('/').length < 2) {
+    return undefined;
+  }
+  // Sources come from scanned repositories, git would read a leading dash as an option
+  if (host.startsWith('-') || cloneUrl.startsWith('-')) {
+    return undefined;
+  }
+
+  return {
+    host: host.toLowerCase(),
+    path: repositoryPath,
+    cloneUrl,
+    subdirectory: subdirectory.join('//') || undefined,
+  };
+}
+
+/**
+ * Lists the tags of the repositories referenced by git module sources, through the
+ * VCS service of the host when one is configured and git ls-remote otherwise
+ */
+export class GitTagResolver implements ModuleVersionLookup {
+  private readonly logger = Logger.forComponent('GitTagResolver');
+  private readonly services: Record<string, BaseVcsService>;
+  private readonly timeout: number;
+  private readonly tags = new Map<string, Promise<string[]>>();
+  private sshEnvironment?: Promise<Record<string, string>>;
+
+  constructor(config: GitTagResolverConfig = {}) {
+    this.services = config.services ?? {};
+    this.timeout = config.timeout ?? API_DEFAULTS.REQUEST_TIMEOUT;
+  }
+
+  /**
+   * Get the tag names of the repository of a git module source. Lookups are cached
+   * per repository.
+   * @param source Git module source
+   * @throws Error when the source does not reference a git repository or listing fails
+   */
+  getVersions(source: string): Promise<string[]> {
+    const address = parseGitSource(source);
+    if (!address) {
+      return Promise.reject(new Error(`${source} is not a git repository address`));
+    }
+
+    const key = `${address.host}/${address.path}`;
+    let tags = this.tags.get(key);
+    if (!tags) {
+      tags = this.listTags(address);
+      this.tags.set(key, tags);
+    }
+    return tags;
+  }
+
+  /**
+   * List the tags of a repository
+   */
+  private listTags(address: GitRepositoryAddress): Promise<string[]> {
+    const service = this.services[address.host];
+    if (service) {
+      const separator = address.path.lastIndexOf('/');
+      this.logger.debug(`Listing tags of ${address.path} through ${service.platformName}`);
+      return service.listTags(address.path.slice(0, separator), address.path.slice(separator + 1));
+    }
+    return this.listRemoteTags(address.cloneUrl);
+  }
+
+  /**
+   * List the tags of a repository with git ls-remote
+   */
+  private async listRemoteTags(cloneUrl: string): Promise<string[]> {
+    this.logger.debug(`Listing tags of ${redactRemoteUrl(cloneUrl)} with git ls-remote`);
+    if (!this.sshEnvironment) {
+      this.sshEnvironment = getSshEnvironment(this.timeout);
+    }
+    const sshEnvironment = await this.sshEnvironment;
+
+    return new Promise((resolve, reject) => {
+      execFile(
+        'git',
+        ['ls-remote', '--tags', '--refs', '--', cloneUrl],
+        {
+          timeout: this.timeout,
+          // Fail instead of prompting for credentials
+          env: {
+            ...process.env,
+            GIT_TERMINAL_PROMPT: '0',
+            ...sshEnvironment,
+          },
+        },
+        (error, stdout, stderr) => {
+          if ((error as NodeJS.ErrnoException | null)?.code === 'ENOENT') {
+            reject(new Error('git is not installed or not on the PATH'));
+            return;
+          }
+          if (error) {
+            // Messages may contain the clone URL, which can include credentials
+            const repository = redactRemoteUrl(cloneUrl);
+            const details = (String(stderr).trim() || error.message.trim())
+              .split(cloneUrl)
+              .join(repository);
+            reject(new Error(`git ls-remote failed for ${repository}: ${details}`));
+            return;
+          }
+          resolve(
+            String(stdout)
+              .split('\n')
+              .map(line => line.match(/\trefs\/tags\/(.+)$/)?.[1])
+              .filter((tag): tag is string => Boolean(tag))
+          );
+        }
+      );
+    });
+  }
+}
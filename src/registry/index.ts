@@ -0,0 +1,9 @@
+/**
+ * Barrel export for module version sources
+ */
+
+// Module registry protocol client
+export * from './client';
+
+// Git tags of git-sourced modules
+export * from './git-tags';
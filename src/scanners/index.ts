@@ -3,3 +3,4 @@
  */
 
 export * from './local-filesystem';
+export * from './git-remote';
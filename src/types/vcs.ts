@@ -12,6 +12,9 @@ export enum VcsPlatform {
   GITLAB_SELF_HOSTED = 'gitlab-self-hosted',
   BITBUCKET = 'bitbucket',
   BITBUCKET_SELF_HOSTED = 'bitbucket-self-hosted',
+  AZURE_DEVOPS = 'azure-devops',
+  GITEA = 'gitea',
+  GIT = 'git',
   LOCAL = 'local',
 }
 
@@ -47,6 +50,22 @@ export interface IacFile {
   readonly size?: number;
 }
 
+/**
+ * Pull request (GitHub) or merge request (GitLab) representation
+ */
+export interface VcsChangeRequest {
+  readonly number: number;
+  readonly title: string;
+  readonly url: string;
+  readonly author?: string;
+  readonly sourceBranch: string;
+  readonly targetBranch: string;
+  /** Commit SHA of the proposed changes */
+  readonly headRef: string;
+  /** Commit the changes are compared against: the merge base, or the target branch */
+  readonly baseRef: string;
+}
+
 /**
  * File tree item representation
  */
@@ -93,8 +112,24 @@ export interface VcsRepositoryFilter {
   readonly namePattern?: RegExp;
   readonly visibility?: 'public' | 'private' | 'all';
   readonly maxRepositories?: number;
+  /** Include projects of nested subgroups when listing a GitLab group (default: true) */
+  readonly includeSubgroups?: boolean;
+  /** Only repositories with at least one of these topics (GitHub only) */
+  readonly topics?: string[];
+  /** Only repositories with this primary language, compared case-insensitively (GitHub only) */
+  readonly language?: string;
+  /** Only repositories of the organization team with this slug (GitHub only) */
+  readonly team?: string;
+  /** Only repositories pushed to at or after this date (GitHub only) */
+  readonly pushedAfter?: Date;
 }
 
+/**
+ * How the files of a repository are fetched: one API request per file (api), a shallow
+ * git clone (clone) or a tarball of the repository (archive)
+ */
+export type VcsFetchMode = 'api' | 'clone' | 'archive';
+
 /**
  * File discovery options
  */
@@ -103,6 +138,12 @@ export interface VcsFileDiscoveryOptions {
   readonly maxFiles?: number;
   readonly excludePatterns?: RegExp[];
   readonly includePatterns?: RegExp[];
+  /** Branch, tag or commit SHA to scan instead of the default branch */
+  readonly ref?: string;
+  /** Refs per repository full name (e.g. org/repo) or name, taking precedence over ref */
+  readonly repositoryRefs?: Readonly<Record<string, string>>;
+  /** How to fetch files (default: api); platforms without clone or archive support use the API */
+  readonly fetchMode?: VcsFetchMode;
 }
 
 /**
@@ -17,7 +17,14 @@ export function isNotFoundError(error: unknown, platform: VcsPlatform): boolean
     );
   }
 
-  if (platform === VcsPlatform.GITLAB || platform === VcsPlatform.GITLAB_SELF_HOSTED) {
+  if (
+    platform === VcsPlatform.GITLAB ||
+    platform === VcsPlatform.GITLAB_SELF_HOSTED ||
+    platform === VcsPlatform.BITBUCKET ||
+    platform === VcsPlatform.BITBUCKET_SELF_HOSTED ||
+    platform === VcsPlatform.AZURE_DEVOPS ||
+    platform === VcsPlatform.GITEA
+  ) {
     return Boolean(
       error &&
         typeof error === 'object' &&
@@ -45,7 +52,14 @@ export function isRateLimitError(error: unknown, platform: VcsPlatform): boolean
     );
   }
 
-  if (platform === VcsPlatform.GITLAB || platform === VcsPlatform.GITLAB_SELF_HOSTED) {
+  if (
+    platform === VcsPlatform.GITLAB ||
+    platform === VcsPlatform.GITLAB_SELF_HOSTED ||
+    platform === VcsPlatform.BITBUCKET ||
+    platform === VcsPlatform.BITBUCKET_SELF_HOSTED ||
+    platform === VcsPlatform.AZURE_DEVOPS ||
+    platform === VcsPlatform.GITEA
+  ) {
     return Boolean(
       error &&
         typeof error === 'object' &&
@@ -75,7 +89,14 @@ export function isAuthError(error: unknown, platform: VcsPlatform): boolean {
     );
   }
 
-  if (platform === VcsPlatform.GITLAB || platform === VcsPlatform.GITLAB_SELF_HOSTED) {
+  if (
+    platform === VcsPlatform.GITLAB ||
+    platform === VcsPlatform.GITLAB_SELF_HOSTED ||
+    platform === VcsPlatform.BITBUCKET ||
+    platform === VcsPlatform.BITBUCKET_SELF_HOSTED ||
+    platform === VcsPlatform.AZURE_DEVOPS ||
+    platform === VcsPlatform.GITEA
+  ) {
     return Boolean(
       error &&
         typeof error === 'object' &&
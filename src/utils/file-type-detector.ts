@@ -27,6 +27,13 @@ export function getIacFileType(filePath: string): IacFileType | null {
   return null;
 }
 
+/**
+ * Checks if a file path is a Terraform dependency lock file
+ */
+export function isTerraformLockFile(filePath: string): boolean {
+  return (filePath.split('/').pop() || '') === '.terraform.lock.hcl';
+}
+
 /**
  * Checks if a file path should be included based on its type and filter options
  */
@@ -0,0 +1,192 @@
+import { IaCModule, getModuleAddressKey, parseModuleAddress } from '../parsers';
+import { compareSemanticVersions, normalizeVersion, parseSemanticVersion } from './version';
+
+/**
+ * How a module reference changed between two refs
+ */
+export type ModuleChangeKind = 'added' | 'removed' | 'version-changed' | 'source-changed';
+
+/**
+ * A module reference that was added, removed or changed
+ */
+export interface ModuleChange {
+  kind: ModuleChangeKind;
+  /** Module block name, or 'terraform' for Terragrunt sources */
+  name: string;
+  repository: string;
+  filePath: string;
+  /** Source in the head ref, or in the base ref for removed modules */
+  source: string;
+  previousSource?: string;
+  /** Version in the head ref, or in the base ref for removed modules */
+  version?: string;
+  previousVersion?: string;
+  /** Whether a version change moves to a higher or lower semantic version */
+  direction?: 'upgrade' | 'downgrade';
+  /** Line in the head ref, or in the base ref for removed modules */
+  lineNumber: number;
+  fileUrl: string;
+}
+
+/**
+ * Compare the modules of two refs of a repository. Modules are matched by file path and
+ * block name, so a module that moved to another file is reported as removed and added.
+ * Sources are compared by address, so only version changes are reported when a source is
+ * rewritten without pointing elsewhere (e.g. github.com/org/x to git::https://github.com/org/x.git).
+ * @param baseModules Modules of the base ref
+ * @param headModules Modules of the head ref
+ * @returns The changes, ordered by file path and line
+ */
+export function diffModules(baseModules: IaCModule[], headModules: IaCModule[]): ModuleChange[] {
+  const baseByKey = groupByLocation(baseModules);
+  const changes: ModuleChange[] = [];
+
+  for (const [key, headGroup] of groupByLocation(headModules)) {
+    const baseGroup = baseByKey.get(key) || [];
+
+    // Modules with the same name in the same file are paired in order
+    headGroup.forEach((head, index) => {
+      const base = baseGroup[index];
+      const change = base ? compareModules(base, head) : createChange('added', head);
+      if (change) {
+        changes.push(change);
+      }
+    });
+    for (const base of baseGroup.slice(headGroup.length)) {
+      changes.push(createChange('removed', base));
+    }
+    baseByKey.delete(key);
+  }
+
+  for (const baseGroup of baseByKey.values()) {
+    for (const base of baseGroup) {
+      changes.push(createChange('removed', base));
+    }
+  }
+
+  return changes.sort(
+    (a, b) => a.filePath.localeCompare(b.filePath) || a.lineNumber - b.lineNumber
+  );
+}
+
+/**
+ * Group modules by file path and block name, keeping their order
+ */
+function groupByLocation(modules: IaCModule[]): Map<string, IaCModule[]> {
+  const groups = new Map<string, IaCModule[]>();
+
+  for (const module of modules) {
+    const key = `${module.filePath}\0${module.name}`;
+    const group = groups.get(key);
+    if (group) {
+      group.push(module);
+    } else {
+      groups.set(key, [module]);
+    }
+  }
+
+  return groups;
+}
+
+/**
+ * Compare a module in the base and head refs
+ * @returns The change, or undefined if the module points at the same source and version
+ */
+function compareModules(base: IaCModule, head: IaCModule): ModuleChange | undefined {
+  const baseVersion = base.version ? normalizeVersion(base.version) : '';
+  const headVersion = head.version ? normalizeVersion(head.version) : '';
+
+  if (getAddressKey(base) !== getAddressKey(head)) {
+    return {
+      ...createChange('source-changed', head),
+      previousSource: base.source,
+      previousVersion: base.version,
+    };
+  }
+  if (baseVersion === headVersion) {
+    return undefined;
+  }
+
+  const baseSemantic = parseSemanticVersion(baseVersion);
+  const headSemantic = parseSemanticVersion(headVersion);
+  const comparison =
+    baseSemantic && headSemantic ? compareSemanticVersions(headSemantic, baseSemantic) : 0;
+
+  return {
+    ...createChange('version-changed', head),
+    previousSource: base.source !== head.source ? base.source : undefined,
+    previousVersion: base.version,
+    direction: comparison > 0 ? 'upgrade' : comparison < 0 ? 'downgrade' : undefined,
+  };
+}
+
+/**
+ * Get the address key of a module, parsing the source when the parser did not attach one
+ */
+function getAddressKey(module: IaCModule): string {
+  return getModuleAddressKey(
+    module.address ?? parseModuleAddress(module.source, module.sourceType)
+  );
+}
+
+/**
+ * Create a change describing a module as found in one of the refs
+ */
+function createChange(kind: ModuleChangeKind, module: IaCModule): ModuleChange {
+  return {
+    kind,
+    name: module.name,
+    repository: module.repository,
+    filePath: module.filePath,
+    source: module.source,
+    version: module.version,
+    lineNumber: module.lineNumber,
+    fileUrl: module.fileUrl,
+  };
+}
+
+/**
+ * Render module changes as a Markdown table, e.g. for a pull request comment
+ * @param changes Changes returned by diffModules
+ * @returns The table, or a sentence saying there are no changes
+ */
+export function formatModuleChangesAsMarkdown(changes: ModuleChange[]): string {
+  if (changes.length === 0) {
+    return 'No module changes.';
+  }
+
+  const lines = [
+    '| Change | Module | Source | Version | File |',
+    '| --- | --- | --- | --- | --- |',
+  ];
+  for (const change of changes) {
+    const source =
+      change.kind === 'source-changed'
+        ? `\`${change.previousSource}\` → \`${change.source}\``
+        : `\`${change.source}\``;
+    const version =
+      change.kind === 'version-changed' || change.kind === 'source-changed'
+        ? `${change.previousVersion || '(none)'} → ${change.version || '(none)'}`
+        : change.version || '';
+    const cells = [
+      describeChange(change),
+      change.name,
+      source,
+      version,
+      `[${change.filePath}:${change.lineNumber}](${change.fileUrl}#L${change.lineNumber})`,
+    ];
+    lines.push(`| ${cells.map(cell => cell.replace(/\|/g, '\\|')).join(' | ')} |`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Describe the kind of a change, including the direction of version changes
+ */
+export function describeChange(change: ModuleChange): string {
+  if (change.kind === 'version-changed') {
+    return change.direction ? `${change.direction}d` : 'version changed';
+  }
+  return change.kind === 'source-changed' ? 'source changed' : change.kind;
+}
@@ -0,0 +1,220 @@
+import * as path from 'path';
+import { IaCModule, SourceType, TerragruntConfigRecord } from '../parsers';
+import { resolveNormalizedSources } from './normalize-source';
+import { compareVersions, normalizeVersion } from './version';
+
+/**
+ * Kinds of graph nodes
+ * - repository: a scanned repository
+ * - root-module: a directory with module blocks or a Terragrunt unit
+ * - module: a module source, including directories called as local modules
+ */
+export type GraphNodeKind = 'repository' | 'root-module' | 'module';
+
+/**
+ * Kinds of graph edges
+ * - contains: repository to its directories
+ * - calls: directory to the modules it calls
+ * - depends-on: Terragrunt unit to the units of its dependency and dependencies blocks
+ */
+export type GraphEdgeKind = 'contains' | 'calls' | 'depends-on';
+
+/**
+ * Node of the module graph
+ */
+export interface GraphNode {
+  id: string;
+  kind: GraphNodeKind;
+  label: string;
+  /** Repository of repository and directory nodes */
+  repository?: string;
+  /** Repository-relative directory of directory nodes */
+  path?: string;
+  /** Normalized source of remote module nodes */
+  source?: string;
+  sourceType?: SourceType;
+}
+
+/**
+ * Edge of the module graph. Parallel references, e.g. two module blocks in the same
+ * directory calling the same source, are merged into one edge.
+ */
+export interface GraphEdge {
+  from: string;
+  to: string;
+  kind: GraphEdgeKind;
+  /** Number of references merged into the edge */
+  count: number;
+  /** Normalized versions of the calls, if any */
+  versions?: string[];
+}
+
+/**
+ * Graph of repositories, root modules and module sources
+ */
+export interface ModuleGraph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+}
+
+const NODE_KIND_ORDER: GraphNodeKind[] = ['repository', 'root-module', 'module'];
+
+/**
+ * Build a graph of the module calls and Terragrunt dependencies of the scanned files.
+ * Root modules are the directories of the declaring files; local module calls point at
+ * the directory node of their target, so chains of local modules stay connected.
+ * @param modules Modules returned by the parsers
+ * @param terragruntConfig Terragrunt configuration records, for dependency edges
+ */
+export function buildModuleGraph(
+  modules: IaCModule[],
+  terragruntConfig: TerragruntConfigRecord[] = []
+): ModuleGraph {
+  const nodes = new Map<string, GraphNode>();
+  const edges = new Map<string, GraphEdge>();
+
+  const addEdge = (from: string, to: string, kind: GraphEdgeKind, version?: string) => {
+    const key = `${from}\0${to}\0${kind}`;
+    let edge = edges.get(key);
+    if (!edge) {
+      edge = { from, to, kind, count: 0 };
+      edges.set(key, edge);
+    }
+    edge.count++;
+    if (version) {
+      edge.versions = [...new Set([...(edge.versions ?? []), version])].sort(compareVersions);
+    }
+  };
+
+  const addDirectory = (repository: string, directory: string): string => {
+    const repositoryId = `repository:${repository}`;
+    if (!nodes.has(repositoryId)) {
+      nodes.set(repositoryId, { id: repositoryId, kind: 'repository', label: repository });
+    }
+
+    const id = `directory:${repository}/${directory}`;
+    if (!nodes.has(id)) {
+      nodes.set(id, {
+        id,
+        kind: 'root-module',
+        label: directory === '.' ? `${repository}/` : `${repository}/${directory}`,
+        repository,
+        path: directory,
+      });
+      addEdge(repositoryId, id, 'contains');
+    }
+    return id;
+  };
+
+  const sources = resolveNormalizedSources(modules);
+  modules.forEach((module, index) => {
+    const from = addDirectory(module.repository, path.posix.dirname(module.filePath));
+    let to: string;
+
+    if (module.resolvedPath !== undefined) {
+      to = addDirectory(module.repository, module.resolvedPath);
+      (nodes.get(to) as GraphNode).kind = 'module';
+    } else {
+      to = `module:${sources[index]}`;
+      if (!nodes.has(to)) {
+        nodes.set(to, {
+          id: to,
+          kind: 'module',
+          label: sources[index],
+          source: sources[index],
+          sourceType: module.sourceType,
+        });
+      }
+    }
+
+    addEdge(from, to, 'calls', module.version ? normalizeVersion(module.version) : undefined);
+  });
+
+  for (const record of terragruntConfig) {
+    const targets =
+      record.kind === 'dependency'
+        ? [record.resolvedPath]
+        : record.kind === 'dependencies'
+          ? record.resolvedPaths
+          : [];
+
+    for (const target of targets) {
+      if (target) {
+        addEdge(
+          addDirectory(record.repository, path.posix.dirname(record.filePath)),
+          addDirectory(record.repository, target),
+          'depends-on'
+        );
+      }
+    }
+  }
+
+  return {
+    nodes: [...nodes.values()].sort(
+      (a, b) =>
+        NODE_KIND_ORDER.indexOf(a.kind) - NODE_KIND_ORDER.indexOf(b.kind) ||
+        a.id.localeCompare(b.id)
+    ),
+    edges: [...edges.values()].sort(
+      (a, b) => a.from.localeCompare(b.from) || a.to.localeCompare(b.to)
+    ),
+  };
+}
+
+/**
+ * Render a module graph as a Graphviz DOT digraph
+ */
+export function formatGraphAsDot(graph: ModuleGraph): string {
+  const quote = (text: string) => `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+  const shapes: Record<GraphNodeKind, string> = {
+    repository: 'folder',
+    'root-module': 'box',
+    module: 'ellipse',
+  };
+
+  const lines = ['digraph terrawiz {', '  rankdir=LR;', '  node [fontname="Helvetica"];'];
+  for (const node of graph.nodes) {
+    lines.push(`  ${quote(node.id)} [label=${quote(node.label)}, shape=${shapes[node.kind]}];`);
+  }
+  for (const edge of graph.edges) {
+    const attributes = [
+      edge.kind === 'depends-on' ? 'style=dashed' : '',
+      edge.kind === 'contains' ? 'color=gray' : '',
+      edge.versions ? `label=${quote(edge.versions.join(', '))}` : '',
+    ].filter(Boolean);
+    lines.push(
+      `  ${quote(edge.from)} -> ${quote(edge.to)}` +
+        `${attributes.length > 0 ? ` [${attributes.join(', ')}]` : ''};`
+    );
+  }
+  lines.push('}');
+
+  return lines.join('\n');
+}
+
+/**
+ * Render a module graph as a Mermaid flowchart. Node ids are replaced with short
+ * identifiers, since Mermaid ids cannot contain the characters of module sources.
+ */
+export function formatGraphAsMermaid(graph: ModuleGraph): string {
+  const ids = new Map(graph.nodes.map((node, index) => [node.id, `n${index}`]));
+  const quote = (text: string) => `"${text.replace(/"/g, '#quot;')}"`;
+  const shapes: Record<GraphNodeKind, [string, string]> = {
+    repository: ['[[', ']]'],
+    'root-module': ['[', ']'],
+    module: ['([', '])'],
+  };
+
+  const lines = ['flowchart LR'];
+  for (const node of graph.nodes) {
+    const [open, close] = shapes[node.kind];
+    lines.push(`  ${ids.get(node.id)}${open}${quote(node.label)}${close}`);
+  }
+  for (const edge of graph.edges) {
+    const arrow = edge.kind === 'depends-on' ? '-.->' : '-->';
+    const label = edge.versions ? `|${quote(edge.versions.join(', '))}|` : '';
+    lines.push(`  ${ids.get(edge.from)} ${arrow}${label} ${ids.get(edge.to)}`);
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,57 @@
+import { IaCModule, getModuleAddressKey, parseModuleAddress } from '../parsers';
+import { normalizeVersion } from './version';
+
+/**
+ * Usages of a module source in one repository
+ */
+export interface RepositoryUsageSummary {
+  count: number;
+  /** Usages per normalized version ('' for usages without a version) */
+  versions: Record<string, number>;
+}
+
+/**
+ * Find the modules that reference a module source. Sources are compared by address, so
+ * all refs, versions and spellings of the source match, e.g. github.com/org/x matches
+ * git::https://github.com/org/x.git?ref=v1.0.0. A source without a subdirectory also
+ * matches the modules in its subdirectories.
+ * @param modules Modules returned by the parsers
+ * @param source Module source to look for, e.g. terraform-aws-modules/vpc/aws
+ * @returns The matching modules, in the given order
+ */
+export function findModuleUsages<T extends IaCModule>(modules: T[], source: string): T[] {
+  const key = getModuleAddressKey(parseModuleAddress(source));
+
+  return modules.filter(module => {
+    const moduleKey = getModuleAddressKey(
+      module.address ?? parseModuleAddress(module.source, module.sourceType)
+    );
+    return moduleKey === key || moduleKey.startsWith(`${key}//`);
+  });
+}
+
+/**
+ * Group module usages by repository and version
+ * @param usages Usages returned by findModuleUsages
+ * @returns Object with repositories as keys and usage counts as values
+ */
+export function createUsageSummary(usages: IaCModule[]): Record<string, RepositoryUsageSummary> {
+  const summary: Record<string, RepositoryUsageSummary> = {};
+
+  for (const usage of usages) {
+    if (!summary[usage.repository]) {
+      summary[usage.repository] = { count: 0, versions: {} };
+    }
+
+    const entry = summary[usage.repository];
+    entry.count++;
+
+    const version = usage.version ? normalizeVersion(usage.version) : '';
+    if (!entry.versions[version]) {
+      entry.versions[version] = 0;
+    }
+    entry.versions[version]++;
+  }
+
+  return summary;
+}
@@ -1,4 +1,5 @@
-import { IaCModule } from '../parsers';
+import { IaCModule, getModuleAddressKey, parseModuleAddress } from '../parsers';
+import { normalizeVersion } from './version';
 
 /**
  * Normalize a module source by removing version/ref parameters
@@ -7,30 +8,50 @@ import { IaCModule } from '../parsers';
  * @returns Normalized source without version parameters
  */
 export function normalizeModuleSource(source: string): string {
-  // Handle Terraform module sources with regex-based approach
-  // since they're not standard URLs and may have special prefixes like git::
-
-  let normalized = source;
+  const queryIndex = source.indexOf('?');
+  if (queryIndex < 0) {
+    return source;
+  }
 
-  // Remove ref parameter and its value
-  normalized = normalized.replace(/\?ref=[^&]*&/, '?'); // ?ref=value& -> ?
-  normalized = normalized.replace(/\?ref=[^&]*$/, ''); // ?ref=value (at end) -> (empty)
-  normalized = normalized.replace(/&ref=[^&]*/g, ''); // &ref=value -> (empty)
+  // Sources are not standard URLs (e.g. git:: prefixes), so only the query is split
+  const params = source
+    .slice(queryIndex + 1)
+    .split('&')
+    .filter(param => {
+      const name = param.split('=')[0];
+      return name !== '' && name !== 'ref' && name !== 'version';
+    });
+  const base = source.slice(0, queryIndex);
 
-  // Remove version parameter and its value
-  normalized = normalized.replace(/\?version=[^&]*&/, '?'); // ?version=value& -> ?
-  normalized = normalized.replace(/\?version=[^&]*$/, ''); // ?version=value (at end) -> (empty)
-  normalized = normalized.replace(/&version=[^&]*/g, ''); // &version=value -> (empty)
+  return params.length > 0 ? `${base}?${params.join('&')}` : base;
+}
 
-  // Clean up trailing ? or & characters
-  normalized = normalized.replace(/[?&]+$/, '');
+/**
+ * Get the normalized source of each module. Modules with the same address, e.g.
+ * git::https://github.com/org/x.git and github.com/org/x, share the normalized
+ * source of the first of them.
+ * @param modules Array of IaC modules
+ * @returns Normalized sources in the order of the modules
+ */
+export function resolveNormalizedSources(modules: IaCModule[]): string[] {
+  const sourcesByAddress = new Map<string, string>();
 
-  return normalized;
+  return modules.map(module => {
+    const key = getModuleAddressKey(
+      module.address ?? parseModuleAddress(module.source, module.sourceType)
+    );
+    let source = sourcesByAddress.get(key);
+    if (source === undefined) {
+      source = normalizeModuleSource(module.source);
+      sourcesByAddress.set(key, source);
+    }
+    return source;
+  });
 }
 
 /**
  * Create a summary grouped by normalized source
- * This groups all versions of the same module together
+ * This groups all versions and spellings of the same module together
  * @param modules Array of IaC modules
  * @returns Summary with normalized sources as keys
  */
@@ -42,8 +63,10 @@ export function createNormalizedSummary(
     { count: number; versions: Record<string, number>; sourceType: string }
   > = {};
 
-  for (const module of modules) {
-    const normalizedSource = normalizeModuleSource(module.source);
+  const normalizedSources = resolveNormalizedSources(modules);
+
+  modules.forEach((module, index) => {
+    const normalizedSource = normalizedSources[index];
 
     if (!summary[normalizedSource]) {
       summary[normalizedSource] = {
@@ -56,12 +79,13 @@ export function createNormalizedSummary(
     summary[normalizedSource].count++;
 
     if (module.version) {
-      if (!summary[normalizedSource].versions[module.version]) {
-        summary[normalizedSource].versions[module.version] = 0;
+      const version = normalizeVersion(module.version);
+      if (!summary[normalizedSource].versions[version]) {
+        summary[normalizedSource].versions[version] = 0;
       }
-      summary[normalizedSource].versions[module.version]++;
+      summary[normalizedSource].versions[version]++;
     }
-  }
+  });
 
   return summary;
 }
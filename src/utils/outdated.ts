@@ -0,0 +1,227 @@
+import { IaCModule, SourceType } from '../parsers';
+import { REGISTRY_DEFAULTS } from '../constants';
+import { processConcurrentlySettled } from './concurrent';
+import { createNormalizedSummary, resolveNormalizedSources } from './normalize-source';
+import {
+  SemanticVersion,
+  compareSemanticVersions,
+  formatSemanticVersion,
+  parseSemanticVersion,
+  parseVersion,
+  satisfiesConstraints,
+} from './version';
+
+/**
+ * Service that lists the published versions of a module source
+ */
+export interface ModuleVersionLookup {
+  getVersions(source: string): Promise<string[]>;
+}
+
+/**
+ * Whether a module usage is behind the latest published version
+ * - outdated: the version in use is older than the latest version
+ * - up-to-date: the version in use is the latest version
+ * - unpinned: no version is set, so the latest version is used implicitly
+ * - unknown: the version in use or the published versions could not be determined
+ */
+export type OutdatedStatus = 'outdated' | 'up-to-date' | 'unpinned' | 'unknown';
+
+/**
+ * Result of comparing a version with the published versions of a module
+ */
+export interface VersionAssessment {
+  status: OutdatedStatus;
+  /** Version in use: the exact version, or the newest published version matching a constraint */
+  resolvedVersion?: string;
+  latestVersion?: string;
+  /** Number of newer major versions that have been published */
+  majorsBehind?: number;
+  /** Number of newer minor versions that have been published, across all majors */
+  minorsBehind?: number;
+  /** Why the status is unknown */
+  reason?: string;
+}
+
+/**
+ * Module usage compared with the latest published version of its source
+ */
+export interface OutdatedModuleUsage extends VersionAssessment {
+  source: string; // normalized source without version parameters
+  sourceType: SourceType;
+  version?: string;
+  repository: string;
+  filePath: string;
+  fileUrl: string;
+  lineNumber: number;
+  type: string;
+}
+
+/**
+ * Upgrade status of all usages of a normalized source
+ */
+export interface OutdatedSourceSummary {
+  sourceType: string;
+  latestVersion?: string;
+  count: number;
+  outdatedCount: number;
+  /** Usages per normalized version ('' for usages without a version) */
+  versions: Record<string, VersionAssessment & { count: number }>;
+}
+
+/**
+ * Compare the modules with the latest published versions of their sources. Each
+ * module address is looked up once, through the normalized source of its first usage;
+ * modules without a lookup for their source type are skipped.
+ * @param modules Modules to check
+ * @param lookups Version lookup per source type, e.g. { registry: new RegistryClient() }
+ * @param maxConcurrency Maximum number of concurrent lookups
+ */
+export async function checkOutdatedModules(
+  modules: IaCModule[],
+  lookups: Partial<Record<SourceType, ModuleVersionLookup>>,
+  maxConcurrency: number = REGISTRY_DEFAULTS.CONCURRENCY
+): Promise<OutdatedModuleUsage[]> {
+  const checkedModules = modules.filter(module => lookups[module.sourceType]);
+  const moduleSources = resolveNormalizedSources(checkedModules);
+  const summary = createNormalizedSummary(checkedModules);
+  const sources = Object.keys(summary);
+
+  const { results, errors } = await processConcurrentlySettled(
+    sources,
+    source => {
+      const lookup = lookups[summary[source].sourceType as SourceType] as ModuleVersionLookup;
+      return lookup.getVersions(source);
+    },
+    maxConcurrency
+  );
+  const published = new Map(
+    sources.map((source, i) => [source, { versions: results[i], error: errors[i] }])
+  );
+
+  return checkedModules.map((module, index) => {
+    const source = moduleSources[index];
+    const { versions, error } = published.get(source) ?? {};
+
+    return {
+      source,
+      sourceType: module.sourceType,
+      version: module.version,
+      ...(versions
+        ? assessVersion(module.version, versions)
+        : { status: 'unknown' as const, reason: error?.message || 'lookup failed' }),
+      repository: module.repository,
+      filePath: module.filePath,
+      fileUrl: module.fileUrl,
+      lineNumber: module.lineNumber,
+      type: module.type,
+    };
+  });
+}
+
+/**
+ * Compare a module version or constraint with the published versions of the module
+ * @param version Version as written in the module block, if any
+ * @param published Published versions of the module
+ */
+export function assessVersion(version: string | undefined, published: string[]): VersionAssessment {
+  const available = published
+    .map(parseSemanticVersion)
+    .filter((v): v is SemanticVersion => v !== undefined)
+    .sort(compareSemanticVersions);
+  const stable = available.filter(v => v.prerelease.length === 0);
+  // Prereleases only count when nothing else has been published
+  const releases = stable.length > 0 ? stable : available;
+  const latest = releases[releases.length - 1];
+
+  if (!latest) {
+    return { status: 'unknown', reason: 'no published versions' };
+  }
+  const latestVersion = formatSemanticVersion(latest);
+  if (!version) {
+    return { status: 'unpinned', resolvedVersion: latestVersion, latestVersion };
+  }
+
+  const parsed = parseVersion(version);
+  let resolved: SemanticVersion | undefined;
+  if (parsed.kind === 'exact') {
+    resolved = parsed.version;
+  } else if (parsed.kind === 'constraint' && parsed.constraints) {
+    const constraints = parsed.constraints;
+    const candidates = constraints.some(c => c.version.prerelease.length > 0)
+      ? available
+      : releases;
+    resolved = candidates.filter(v => satisfiesConstraints(v, constraints)).pop();
+    if (!resolved) {
+      return {
+        status: 'unknown',
+        latestVersion,
+        reason: `no published version matches ${version}`,
+      };
+    }
+  }
+  if (!resolved) {
+    return { status: 'unknown', latestVersion, reason: `${version} is not a semantic version` };
+  }
+
+  const newer = releases.filter(v => compareSemanticVersions(v, resolved) > 0);
+  const newerMajors = new Set(newer.filter(v => v.major > resolved.major).map(v => v.major));
+  const newerMinors = new Set(
+    newer
+      .filter(v => v.major > resolved.major || v.minor > resolved.minor)
+      .map(v => `${v.major}.${v.minor}`)
+  );
+
+  return {
+    status: compareSemanticVersions(resolved, latest) < 0 ? 'outdated' : 'up-to-date',
+    resolvedVersion: formatSemanticVersion(resolved),
+    latestVersion,
+    majorsBehind: newerMajors.size,
+    minorsBehind: newerMinors.size,
+  };
+}
+
+/**
+ * Group checked usages by normalized source and version
+ * @param usages Usages returned by checkOutdatedModules
+ * @returns Object with normalized sources as keys and upgrade status as values
+ */
+export function createOutdatedSummary(
+  usages: OutdatedModuleUsage[]
+): Record<string, OutdatedSourceSummary> {
+  const summary: Record<string, OutdatedSourceSummary> = {};
+
+  for (const usage of usages) {
+    if (!summary[usage.source]) {
+      summary[usage.source] = {
+        sourceType: usage.sourceType,
+        latestVersion: usage.latestVersion,
+        count: 0,
+        outdatedCount: 0,
+        versions: {},
+      };
+    }
+
+    const entry = summary[usage.source];
+    entry.count++;
+    if (usage.status === 'outdated') {
+      entry.outdatedCount++;
+    }
+
+    const version = usage.version ? parseVersion(usage.version).normalized : '';
+    if (!entry.versions[version]) {
+      entry.versions[version] = {
+        count: 0,
+        status: usage.status,
+        resolvedVersion: usage.resolvedVersion,
+        latestVersion: usage.latestVersion,
+        majorsBehind: usage.majorsBehind,
+        minorsBehind: usage.minorsBehind,
+        reason: usage.reason,
+      };
+    }
+    entry.versions[version].count++;
+  }
+
+  return summary;
+}
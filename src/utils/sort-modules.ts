@@ -1,4 +1,5 @@
 import { IaCModule } from '../parsers';
+import { compareVersions } from './version';
 
 /**
  * Sort modules by source name to group modules with the same source together.
@@ -14,9 +15,9 @@ export function sortModulesBySource(modules: IaCModule[]): IaCModule[] {
       return sourceComparison;
     }
 
-    // Secondary sort: by version (if both have versions)
+    // Secondary sort: by semantic version (if both have versions)
     if (a.version && b.version) {
-      const versionComparison = a.version.localeCompare(b.version);
+      const versionComparison = compareVersions(a.version, b.version);
       if (versionComparison !== 0) {
         return versionComparison;
       }
@@ -19,7 +19,11 @@ export interface ParsedSource {
  * - github:org[/repo]
  * - gitlab:group[/project]
  * - gitlab://custom-host.com/group[/project] (self-hosted)
- * - bitbucket:workspace[/repo]
+ * - bitbucket:workspace[/repo] and bitbucket:workspace/PROJECT (repositories of a project)
+ * - bitbucket://custom-host.com/PROJECT[/repo] (Bitbucket Server / Data Center)
+ * - azure:organization/project[/repo]
+ * - gitea:org[/repo] (gitea.com) and gitea://custom-host.com/org[/repo] (self-hosted Gitea or Forgejo)
+ * - git:https://host/repo.git, git:ssh://git@host/repo.git, git:git@host:repo.git (any git remote)
  * - local:/absolute/path
  * - local:./relative/path
  * - local:../relative/path
@@ -29,6 +33,11 @@ export function parseSource(source: string): ParsedSource {
     throw new Error('Source must be a non-empty string');
   }
 
+  // Git remotes contain URLs themselves, so they are matched before URL-style sources
+  if (/^git:/i.test(source)) {
+    return parseGitRemoteSource(source);
+  }
+
   // Check for URL-style format (e.g., gitlab://custom-host.com/group/project)
   if (source.includes('://')) {
     return parseUrlStyleSource(source);
@@ -54,6 +63,10 @@ export function parseSource(source: string): ParsedSource {
   // Parse identifier based on platform
   if (platform === VcsPlatform.LOCAL) {
     return parseLocalSource(source, remainder);
+  } else if (platform === VcsPlatform.AZURE_DEVOPS) {
+    return parseAzureDevOpsSource(source, remainder);
+  } else if (platform === VcsPlatform.BITBUCKET) {
+    return parseBitbucketSource(source, remainder);
   } else {
     return parseVcsSource(source, platform, remainder);
   }
@@ -69,6 +82,9 @@ function parseUrlStyleSource(originalInput: string): ParsedSource {
 
     // Validate and normalize platform
     const platform = validateAndNormalizePlatform(protocol);
+    if (platform === VcsPlatform.AZURE_DEVOPS) {
+      throw new Error('Azure DevOps sources use the azure:organization/project[/repo] format');
+    }
 
     // Extract path components
     const pathParts = url.pathname.split('/').filter(part => part.length > 0);
@@ -86,6 +102,8 @@ function parseUrlStyleSource(originalInput: string): ParsedSource {
       adjustedPlatform = VcsPlatform.GITLAB_SELF_HOSTED;
     } else if (platform === VcsPlatform.GITHUB && url.hostname !== 'github.com') {
       adjustedPlatform = VcsPlatform.GITHUB_SELF_HOSTED;
+    } else if (platform === VcsPlatform.BITBUCKET && url.hostname !== 'bitbucket.org') {
+      adjustedPlatform = VcsPlatform.BITBUCKET_SELF_HOSTED;
     }
 
     // Construct the host URL manually since platform:// is not a standard protocol
@@ -170,6 +188,88 @@ function parseVcsSource(
   };
 }
 
+/**
+ * Parse Bitbucket Cloud source. Repository slugs are lowercase and project keys uppercase,
+ * so workspace/PROJECT scans the repositories of a project: like Azure DevOps sources,
+ * the identifier is then the workspace and project (e.g. acme/INFRA).
+ */
+function parseBitbucketSource(originalInput: string, remainder: string): ParsedSource {
+  const parsed = parseVcsSource(originalInput, VcsPlatform.BITBUCKET, remainder);
+
+  if (parsed.repository && /^[A-Z][A-Z0-9_]*$/.test(parsed.repository)) {
+    return {
+      ...parsed,
+      identifier: `${parsed.identifier}/${parsed.repository}`,
+      repository: undefined,
+    };
+  }
+  return parsed;
+}
+
+/**
+ * Parse Azure DevOps source. Repositories belong to projects, so the identifier is the
+ * organization and project (e.g. contoso/platform); project and repository names may
+ * contain spaces.
+ */
+function parseAzureDevOpsSource(originalInput: string, remainder: string): ParsedSource {
+  const [organization, project, repository, ...rest] = remainder.split('/');
+
+  if (!organization || !project || repository === '' || rest.length > 0) {
+    throw new Error(
+      `Invalid Azure DevOps identifier: "${remainder}". Expected format: organization/project[/repo]`
+    );
+  }
+
+  if (!/^[a-zA-Z0-9._-]+$/.test(organization)) {
+    throw new Error(
+      `Invalid Azure DevOps organization: "${organization}". Must contain only alphanumeric characters, dots, hyphens, and underscores.`
+    );
+  }
+
+  for (const name of [project, repository]) {
+    if (name !== undefined && !/^[a-zA-Z0-9._ -]+$/.test(name)) {
+      throw new Error(
+        `Invalid Azure DevOps name: "${name}". Must contain only alphanumeric characters, spaces, dots, hyphens, and underscores.`
+      );
+    }
+  }
+
+  return {
+    platform: VcsPlatform.AZURE_DEVOPS,
+    identifier: `${organization}/${project}`,
+    repository,
+    originalInput,
+  };
+}
+
+/**
+ * Parse git remote source. The identifier is the address passed to git: a URL
+ * (git:https://host/repo.git) or an SCP-like address (git:git@host:repo.git).
+ * git://host/repo sources use the git protocol directly.
+ */
+function parseGitRemoteSource(originalInput: string): ParsedSource {
+  const remainder = originalInput.slice('git:'.length);
+  const remoteUrl = remainder.startsWith('//') ? originalInput : remainder;
+
+  if (!remoteUrl) {
+    throw new Error('Missing identifier after "git:"');
+  }
+
+  const isUrl = /^(https?|ssh|git|file):\/\/[^/\s]*\/\S+$/i.test(remoteUrl);
+  const isScpLike = /^[a-zA-Z0-9._-]+@[a-zA-Z0-9.-]+:[^\s]+$/.test(remoteUrl);
+  if (!isUrl && !isScpLike) {
+    throw new Error(
+      `Invalid git remote: "${remoteUrl}". Expected a https://, ssh://, git:// or file:// URL, or an address such as git@host:org/repo.git`
+    );
+  }
+
+  return {
+    platform: VcsPlatform.GIT,
+    identifier: remoteUrl,
+    originalInput,
+  };
+}
+
 /**
  * Validate and normalize platform string
  */
@@ -184,6 +284,10 @@ function validateAndNormalizePlatform(platformStr: string): VcsPlatform {
     gl: VcsPlatform.GITLAB, // Short alias
     bitbucket: VcsPlatform.BITBUCKET,
     bb: VcsPlatform.BITBUCKET, // Short alias
+    azure: VcsPlatform.AZURE_DEVOPS,
+    ado: VcsPlatform.AZURE_DEVOPS, // Short alias
+    gitea: VcsPlatform.GITEA,
+    forgejo: VcsPlatform.GITEA, // Forgejo serves the Gitea API
     local: VcsPlatform.LOCAL,
     file: VcsPlatform.LOCAL, // Alternative alias
     fs: VcsPlatform.LOCAL, // Alternative alias
@@ -228,6 +332,9 @@ export function getPlatformDisplayName(platform: VcsPlatform): string {
     [VcsPlatform.GITLAB_SELF_HOSTED]: 'GitLab Self-Hosted',
     [VcsPlatform.BITBUCKET]: 'Bitbucket',
     [VcsPlatform.BITBUCKET_SELF_HOSTED]: 'Bitbucket Self-Hosted',
+    [VcsPlatform.AZURE_DEVOPS]: 'Azure DevOps',
+    [VcsPlatform.GITEA]: 'Gitea',
+    [VcsPlatform.GIT]: 'Git Remote',
     [VcsPlatform.LOCAL]: 'Local Filesystem',
   };
 
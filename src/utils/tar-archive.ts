@@ -0,0 +1,117 @@
+import { gunzipSync } from 'zlib';
+
+/**
+ * Regular file of a tar archive
+ */
+export interface TarEntry {
+  readonly path: string;
+  readonly content: Buffer;
+}
+
+/**
+ * Regular files of a tar archive
+ */
+export interface TarArchive {
+  /** Commit the archive was created from, recorded by git archive in a global pax header */
+  readonly commit?: string;
+  readonly entries: TarEntry[];
+}
+
+const BLOCK_SIZE = 512;
+
+/**
+ * Read the regular files of a tar or gzipped tar archive, such as a repository tarball.
+ * Links, directories and other special entries are skipped, so nothing in the archive can
+ * point outside of it.
+ * @param archive Archive contents
+ * @param include Whether to keep the file at a path (default: keep all files)
+ */
+export function readTarArchive(
+  archive: Buffer,
+  include: (path: string) => boolean = () => true
+): TarArchive {
+  const data = archive[0] === 0x1f && archive[1] === 0x8b ? gunzipSync(archive) : archive;
+  const entries: TarEntry[] = [];
+  let commit: string | undefined;
+  let nextPath: string | undefined;
+  let offset = 0;
+
+  while (offset + BLOCK_SIZE <= data.length) {
+    const header = data.subarray(offset, offset + BLOCK_SIZE);
+    // The archive ends with empty blocks
+    if (header.every(byte => byte === 0)) {
+      break;
+    }
+
+    const size = readOctal(header, 124, 12);
+    const type = String.fromCharCode(header[156]);
+    const body = data.subarray(offset + BLOCK_SIZE, offset + BLOCK_SIZE + size);
+    offset += BLOCK_SIZE + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+
+    if (type === 'g') {
+      commit = readPaxRecords(body).comment ?? commit;
+    } else if (type === 'x') {
+      // Paths longer than the header allows come in a pax header before the entry
+      nextPath = readPaxRecords(body).path;
+    } else if (type === 'L') {
+      nextPath = readString(body, 0, body.length);
+    } else {
+      const path = nextPath ?? readHeaderPath(header);
+      nextPath = undefined;
+
+      if ((type === '0' || type === '\0') && include(path)) {
+        entries.push({ path, content: Buffer.from(body) });
+      }
+    }
+  }
+
+  return { commit, entries };
+}
+
+/**
+ * Read the path of an entry from its header, joining the ustar prefix and name
+ */
+function readHeaderPath(header: Buffer): string {
+  const name = readString(header, 0, 100);
+  const prefix = readString(header, 257, 6) === 'ustar' ? readString(header, 345, 155) : '';
+  return prefix ? `${prefix}/${name}` : name;
+}
+
+/**
+ * Read the key=value records of a pax extended header
+ */
+function readPaxRecords(body: Buffer): Record<string, string> {
+  const records: Record<string, string> = {};
+  let offset = 0;
+
+  while (offset < body.length) {
+    const space = body.indexOf(0x20, offset);
+    const length = parseInt(body.toString('utf-8', offset, space), 10);
+    if (space === -1 || !length) {
+      break;
+    }
+
+    const record = body.toString('utf-8', space + 1, offset + length).replace(/\n$/, '');
+    const separator = record.indexOf('=');
+    records[record.slice(0, separator)] = record.slice(separator + 1);
+    offset += length;
+  }
+
+  return records;
+}
+
+/**
+ * Read a NUL-terminated string field of a header
+ */
+function readString(buffer: Buffer, offset: number, length: number): string {
+  const field = buffer.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return field.toString('utf-8', 0, end === -1 ? field.length : end);
+}
+
+/**
+ * Read an octal number field of a header
+ */
+function readOctal(buffer: Buffer, offset: number, length: number): number {
+  return parseInt(readString(buffer, offset, length).trim() || '0', 8);
+}
@@ -0,0 +1,235 @@
+/**
+ * Semantic version, e.g. 1.2.3-beta.1. Components that were not written are 0.
+ */
+export interface SemanticVersion {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: string[];
+  /** Number of numeric components that were written, e.g. 2 for 3.0 */
+  precision: number;
+}
+
+/**
+ * Operators of the Terraform version constraint syntax
+ */
+export type ConstraintOperator = '=' | '!=' | '>' | '>=' | '<' | '<=' | '~>';
+
+/**
+ * Single version constraint, e.g. ~> 3.0
+ */
+export interface VersionConstraint {
+  operator: ConstraintOperator;
+  version: SemanticVersion;
+}
+
+/**
+ * Parsed module or provider version
+ */
+export interface ParsedVersion {
+  raw: string;
+  /** exact: 1.2.0 or v1.2.0, constraint: ~> 3.0 or >= 1.0, < 2.0, ref: any other git ref */
+  kind: 'exact' | 'constraint' | 'ref';
+  /** Canonical text used to group equivalent versions, e.g. v1.2.0 -> 1.2.0 */
+  normalized: string;
+  version?: SemanticVersion;
+  constraints?: VersionConstraint[];
+}
+
+const SEMVER_PATTERN =
+  /^v?(\d+)(?:\.(\d+))?(?:\.(\d+))?(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+const CONSTRAINT_PATTERN = /^(~>|>=|<=|!=|=|>|<)?\s*(\S+)$/;
+
+/**
+ * Parse a semantic version, accepting a v prefix and missing minor/patch components
+ * @returns The version, or undefined if the text is not a version
+ */
+export function parseSemanticVersion(text: string): SemanticVersion | undefined {
+  const match = text.trim().match(SEMVER_PATTERN);
+  if (!match) {
+    return undefined;
+  }
+
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2] ?? 0),
+    patch: Number(match[3] ?? 0),
+    prerelease: match[4] ? match[4].split('.') : [],
+    precision: match[3] !== undefined ? 3 : match[2] !== undefined ? 2 : 1,
+  };
+}
+
+/**
+ * Parse a version string: an exact version, a Terraform constraint list or a git ref
+ */
+export function parseVersion(raw: string): ParsedVersion {
+  const text = raw.trim();
+
+  const version = parseSemanticVersion(text);
+  if (version) {
+    return {
+      raw,
+      kind: 'exact',
+      normalized: formatSemanticVersion(version, version.precision),
+      version,
+    };
+  }
+
+  const constraints: VersionConstraint[] = [];
+  for (const part of text.split(',')) {
+    const match = part.trim().match(CONSTRAINT_PATTERN);
+    const constraintVersion = match ? parseSemanticVersion(match[2]) : undefined;
+    if (!match || !constraintVersion) {
+      return { raw, kind: 'ref', normalized: text };
+    }
+    constraints.push({
+      operator: (match[1] as ConstraintOperator) || '=',
+      version: constraintVersion,
+    });
+  }
+
+  // A single = constraint pins an exact version
+  if (constraints.length === 1 && constraints[0].operator === '=') {
+    const pinned = constraints[0].version;
+    return {
+      raw,
+      kind: 'exact',
+      normalized: formatSemanticVersion(pinned, pinned.precision),
+      version: pinned,
+    };
+  }
+
+  return {
+    raw,
+    kind: 'constraint',
+    normalized: constraints
+      .map(c => `${c.operator} ${formatSemanticVersion(c.version, c.version.precision)}`)
+      .join(', '),
+    constraints,
+  };
+}
+
+/**
+ * Normalize a version string so equivalent versions group together (v1.2.0 -> 1.2.0,
+ * = 1.2.0 -> 1.2.0, >=1.0,<2.0 -> >= 1.0, < 2.0). Git refs are returned trimmed.
+ */
+export function normalizeVersion(raw: string): string {
+  return parseVersion(raw).normalized;
+}
+
+/**
+ * Compare two semantic versions by precedence
+ * @returns Negative if a < b, positive if a > b, 0 if equal
+ */
+export function compareSemanticVersions(a: SemanticVersion, b: SemanticVersion): number {
+  const numeric = a.major - b.major || a.minor - b.minor || a.patch - b.patch;
+  if (numeric !== 0) {
+    return numeric;
+  }
+
+  // A version without prerelease has higher precedence than one with
+  if (a.prerelease.length === 0 || b.prerelease.length === 0) {
+    return b.prerelease.length - a.prerelease.length;
+  }
+
+  for (let i = 0; i < Math.max(a.prerelease.length, b.prerelease.length); i++) {
+    const left = a.prerelease[i];
+    const right = b.prerelease[i];
+    if (left === undefined || right === undefined) {
+      return left === undefined ? -1 : 1;
+    }
+    const leftNumber = /^\d+$/.test(left) ? Number(left) : undefined;
+    const rightNumber = /^\d+$/.test(right) ? Number(right) : undefined;
+    if (leftNumber !== undefined && rightNumber !== undefined) {
+      if (leftNumber !== rightNumber) {
+        return leftNumber - rightNumber;
+      }
+    } else if (leftNumber !== undefined || rightNumber !== undefined) {
+      // Numeric identifiers have lower precedence than alphanumeric ones
+      return leftNumber !== undefined ? -1 : 1;
+    } else if (left !== right) {
+      return left < right ? -1 : 1;
+    }
+  }
+
+  return 0;
+}
+
+/**
+ * Compare two version strings for sorting. Exact versions and constraints are ordered by
+ * the version they are based on, with exact versions first; git refs sort last.
+ */
+export function compareVersions(a: string, b: string): number {
+  const left = parseVersion(a);
+  const right = parseVersion(b);
+  const leftBase = getBaseVersion(left);
+  const rightBase = getBaseVersion(right);
+
+  if (leftBase && rightBase) {
+    return (
+      compareSemanticVersions(leftBase, rightBase) ||
+      Number(left.kind !== 'exact') - Number(right.kind !== 'exact') ||
+      left.normalized.localeCompare(right.normalized)
+    );
+  }
+  if (leftBase || rightBase) {
+    return leftBase ? -1 : 1;
+  }
+  return left.normalized.localeCompare(right.normalized, undefined, { numeric: true });
+}
+
+/**
+ * Check whether a version satisfies all constraints
+ */
+export function satisfiesConstraints(
+  version: SemanticVersion,
+  constraints: VersionConstraint[]
+): boolean {
+  return constraints.every(({ operator, version: bound }) => {
+    const comparison = compareSemanticVersions(version, bound);
+    switch (operator) {
+      case '=':
+        return comparison === 0;
+      case '!=':
+        return comparison !== 0;
+      case '>':
+        return comparison > 0;
+      case '>=':
+        return comparison >= 0;
+      case '<':
+        return comparison < 0;
+      case '<=':
+        return comparison <= 0;
+      case '~>': {
+        // ~> 1.2 allows >= 1.2, < 2.0; ~> 1.2.3 allows >= 1.2.3, < 1.3.0
+        if (comparison < 0) {
+          return false;
+        }
+        return bound.precision >= 3
+          ? version.major === bound.major && version.minor === bound.minor
+          : bound.precision === 2
+            ? version.major === bound.major
+            : true;
+      }
+      default:
+        return false;
+    }
+  });
+}
+
+/**
+ * Format a semantic version without v prefix
+ * @param precision Number of numeric components to print (default 3)
+ */
+export function formatSemanticVersion(version: SemanticVersion, precision = 3): string {
+  const numbers = [version.major, version.minor, version.patch].slice(0, Math.max(precision, 1));
+  const prerelease = version.prerelease.length > 0 ? `-${version.prerelease.join('.')}` : '';
+  return `${numbers.join('.')}${prerelease}`;
+}
+
+/**
+ * Get the version an exact version or constraint list is based on
+ */
+function getBaseVersion(parsed: ParsedVersion): SemanticVersion | undefined {
+  return parsed.version ?? parsed.constraints?.[0]?.version;
+}
@@ -0,0 +1,584 @@
+import * as dotenv from 'dotenv';
+import { BaseVcsService, BaseVcsConfig } from './base';
+import { VcsHttpClient } from './http-client';
+import {
+  IacFile,
+  IacFileType,
+  VcsChangeRequest,
+  VcsRepository,
+  VcsRepositoryFilter,
+  VcsFileDiscoveryOptions,
+  VcsPlatform,
+  VcsError,
+  VcsErrorType,
+} from '../types';
+import { processConcurrentlySettled } from '../utils/concurrent';
+import { isNotFoundError } from '../utils/error-handler';
+import { createRepositoryCacheKey } from '../utils/repository-mapper';
+import { API_DEFAULTS, SKIP_DIRECTORIES, VCS_CONSTANTS } from '../constants';
+
+dotenv.config({ quiet: true });
+
+interface AzureDevOpsList<T> {
+  value: T[];
+  count?: number;
+}
+
+interface AzureDevOpsRepository {
+  id: string;
+  name: string;
+  defaultBranch?: string;
+  isDisabled?: boolean;
+  webUrl: string;
+  remoteUrl?: string;
+  project: {
+    name: string;
+    visibility?: string;
+  };
+}
+
+interface AzureDevOpsItem {
+  path: string;
+  commitId: string;
+  gitObjectType?: string; // 'blob', 'tree' or 'commit' (submodules)
+  isFolder?: boolean;
+  size?: number;
+}
+
+interface AzureDevOpsPullRequest {
+  pullRequestId: number;
+  title: string;
+  createdBy?: {
+    uniqueName?: string;
+    displayName?: string;
+  };
+  sourceRefName: string;
+  targetRefName: string;
+  lastMergeSourceCommit: { commitId: string };
+  lastMergeTargetCommit: { commitId: string };
+}
+
+/**
+ * Version types of the versionDescriptor query parameters, with the prefix of the
+ * version parameter in web URLs
+ */
+const VERSION_TYPES = {
+  branch: 'GB',
+  tag: 'GT',
+  commit: 'GC',
+} as const;
+
+type AzureDevOpsVersionType = keyof typeof VERSION_TYPES;
+
+export interface AzureDevOpsServiceConfig extends BaseVcsConfig {
+  /** Personal access token */
+  token?: string;
+  /** Organization URL base, e.g. a proxy or a local stub (default: https://dev.azure.com) */
+  apiUrl?: string;
+  repoPattern?: string;
+  iacFileTypes?: readonly IacFileType[];
+  maxConcurrentRepos?: number;
+  maxConcurrentFiles?: number;
+}
+
+/**
+ * Azure DevOps Repos service using the Git REST API. Owners are organization/project
+ * paths, e.g. contoso/platform.
+ */
+export class AzureDevOpsService extends BaseVcsService {
+  private client: VcsHttpClient;
+  private baseUrl: string;
+  private repoPattern: RegExp | null = null;
+  private iacFileTypes: readonly IacFileType[];
+  private maxConcurrentRepos: number;
+  private maxConcurrentFiles: number;
+
+  /**
+   * Get concurrency limits for parallel processing
+   */
+  protected getConcurrencyLimits(): { repos: number; files: number } {
+    return {
+      repos: this.maxConcurrentRepos,
+      files: this.maxConcurrentFiles,
+    };
+  }
+
+  constructor(config: AzureDevOpsServiceConfig) {
+    super({
+      platform: VcsPlatform.AZURE_DEVOPS,
+      debug: config.debug,
+      skipArchived: config.skipArchived,
+      maxRetries: config.maxRetries,
+      cacheEnabled: config.cacheEnabled,
+    });
+
+    this.iacFileTypes = config.iacFileTypes || ['terraform', 'terragrunt'];
+    this.maxConcurrentRepos = config.maxConcurrentRepos || 5;
+    this.maxConcurrentFiles = config.maxConcurrentFiles || 10;
+
+    const token = config.token || process.env.AZURE_DEVOPS_TOKEN;
+    if (!token) {
+      throw new VcsError(
+        'Azure DevOps token not found. Please set AZURE_DEVOPS_TOKEN environment variable',
+        VcsErrorType.INVALID_CONFIGURATION,
+        VcsPlatform.AZURE_DEVOPS
+      );
+    }
+
+    this.initializeLogger();
+
+    // Initialize repository pattern filter if provided
+    if (config.repoPattern) {
+      try {
+        this.repoPattern = new RegExp(config.repoPattern);
+        this.logger.info(`Repository filter pattern initialized: ${config.repoPattern}`);
+      } catch (error) {
+        throw new VcsError(
+          `Invalid repository regex pattern: ${config.repoPattern}`,
+          VcsErrorType.INVALID_CONFIGURATION,
+          VcsPlatform.AZURE_DEVOPS,
+          undefined,
+          error instanceof Error ? error : undefined
+        );
+      }
+    }
+
+    // Personal access tokens are sent as the password of Basic auth with an empty username
+    this.baseUrl = (config.apiUrl || VCS_CONSTANTS.AZURE_DEVOPS_URL).replace(/\/+$/, '');
+    this.client = new VcsHttpClient({
+      baseUrl: this.baseUrl,
+      headers: { Authorization: `Basic ${Buffer.from(`:${token}`).toString('base64')}` },
+    });
+    this.logger.info('Azure DevOps service initialized successfully');
+  }
+
+  get platformName(): string {
+    return 'Azure DevOps';
+  }
+
+  /**
+   * Check if a repository exists and is accessible
+   * @param owner Organization and project, e.g. contoso/platform
+   * @param repo Repository name
+   * @returns true if exists, false if not
+   */
+  async repositoryExists(owner: string, repo: string): Promise<boolean | null> {
+    const repository = await this.getSingleRepository(owner, repo);
+    return repository !== null;
+  }
+
+  /**
+   * Get a single repository by project and name
+   * @param owner Organization and project, e.g. contoso/platform
+   * @param repo Repository name
+   * @returns Repository object or null if not found/disabled
+   */
+  async getSingleRepository(owner: string, repo: string): Promise<VcsRepository | null> {
+    this.validateOwnerAndRepo(owner, repo);
+
+    const cacheKey = createRepositoryCacheKey('azure-devops', 'single-repo', owner, repo);
+    const cached = this.getCachedRepository(cacheKey);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    try {
+      this.logger.info(`Retrieving repository ${owner}/${repo}...`);
+
+      const data = await this.get<AzureDevOpsRepository>(this.getRepositoryPath(owner, repo));
+      const repository = this.toRepository(owner, data);
+
+      // Skip disabled repositories if specified
+      if (this.config.skipArchived && repository.archived) {
+        this.logger.info(`Skipping disabled repository: ${owner}/${repo}`);
+        this.setCachedRepository(cacheKey, null);
+        return null;
+      }
+
+      this.setCachedRepository(cacheKey, repository);
+      return repository;
+    } catch (error) {
+      this.setCachedRepository(cacheKey, null);
+      if (isNotFoundError(error, this.platform)) {
+        return null;
+      }
+      this.handleError(error, 'getSingleRepository', { owner, repo });
+      return null;
+    }
+  }
+
+  /**
+   * Get all repositories of a project
+   * @param owner Organization and project, e.g. contoso/platform
+   * @param filter Optional filtering criteria
+   */
+  async getRepositories(owner: string, filter?: VcsRepositoryFilter): Promise<VcsRepository[]> {
+    try {
+      this.logger.info(`Retrieving repositories for ${owner}...`);
+
+      const { organization, project } = this.parseOwner(owner);
+      const data = await this.get<AzureDevOpsList<AzureDevOpsRepository>>(
+        `${encodeURIComponent(organization)}/${encodeURIComponent(project)}/_apis/git/repositories`
+      );
+
+      const repositories: VcsRepository[] = [];
+      let skippedArchivedCount = 0;
+      let skippedPatternCount = 0;
+      for (const item of data.value) {
+        // Disabled repositories cannot be read, so they are treated as archived
+        if (this.config.skipArchived && item.isDisabled) {
+          skippedArchivedCount++;
+          this.logger.debug(`Skipping disabled repository: ${owner}/${item.name}`);
+          continue;
+        }
+
+        // Filter by repository name pattern if specified
+        if (this.repoPattern && !this.repoPattern.test(item.name)) {
+          skippedPatternCount++;
+          this.logger.debug(`Repository ${item.name} doesn't match pattern ${this.repoPattern}`);
+          continue;
+        }
+        repositories.push(this.toRepository(owner, item));
+      }
+
+      this.logger.info(
+        `Found ${repositories.length} repositories for ${owner} ` +
+          `(filtered out ${skippedArchivedCount} disabled, ${skippedPatternCount} by pattern)`
+      );
+
+      // Apply additional filtering using base class method
+      return this.filterRepositories(repositories, filter);
+    } catch (error) {
+      this.handleError(error, 'getRepositories', { owner });
+      return [];
+    }
+  }
+
+  /**
+   * Find all IaC files in a repository
+   * @param repository Repository information
+   * @param options File discovery options
+   */
+  async findIacFilesInRepository(
+    repository: VcsRepository,
+    options?: VcsFileDiscoveryOptions
+  ): Promise<IacFile[]> {
+    try {
+      this.logger.info(`Getting IaC files from ${repository.fullName}...`);
+
+      // Use configured file types or options
+      const fileTypes = options?.fileTypes || this.iacFileTypes;
+      const ref = this.resolveRef(repository, options) || repository.defaultBranch;
+
+      const { items, versionType } = await this.listFiles(repository, ref);
+      const iacFiles = items
+        .map(item => ({ ...item, path: item.path.replace(/^\/+/, '') }))
+        .filter(item =>
+          this.shouldIncludeFile(item.path, { fileTypes: [...fileTypes], ...options })
+        )
+        .map(item => ({
+          path: item.path,
+          size: item.size,
+          commitId: item.commitId,
+          type: this.getIacFileType(item.path)!,
+        }));
+
+      // Apply max files limit if specified
+      const limitedFiles = options?.maxFiles ? iacFiles.slice(0, options.maxFiles) : iacFiles;
+
+      if (limitedFiles.length === 0) {
+        this.logger.info(`No IaC files found in ${repository.fullName}`);
+        return [];
+      }
+
+      // Read contents from the commit that was listed
+      const commit = limitedFiles[0].commitId;
+      if (ref !== repository.defaultBranch) {
+        this.logger.info(`Scanning ${repository.fullName} at ${ref} (${commit})`);
+      }
+
+      const terraformCount = limitedFiles.filter(f => f.type === 'terraform').length;
+      const terragruntCount = limitedFiles.filter(f => f.type === 'terragrunt').length;
+      this.logger.info(
+        `Found ${limitedFiles.length} IaC files in ${repository.fullName} ` +
+          `(${terraformCount} Terraform, ${terragruntCount} Terragrunt)`
+      );
+
+      // Get content for each file in parallel
+      const concurrency = this.getConcurrencyLimits();
+      const fileProcessingResult = await processConcurrentlySettled(
+        limitedFiles,
+        async file => {
+          const item = await this.get<{ content?: string }>(
+            `${this.getRepositoryPath(repository.owner, repository.name)}/items`,
+            {
+              path: `/${file.path}`,
+              includeContent: true,
+              'versionDescriptor.version': commit,
+              'versionDescriptor.versionType': 'commit',
+            }
+          );
+
+          return {
+            type: file.type,
+            repository: repository.fullName,
+            path: file.path,
+            content: item.content || '',
+            url:
+              `${repository.url}?path=/${encodeURI(file.path)}` +
+              `&version=${VERSION_TYPES[versionType]}${encodeURIComponent(ref)}`,
+            size: file.size,
+          } as IacFile;
+        },
+        concurrency.files
+      );
+
+      // Log any file processing errors
+      fileProcessingResult.errors.forEach((error, index) => {
+        if (error !== null) {
+          this.logger.errorWithStack(
+            `Error getting content for ${limitedFiles[index].path} in ${repository.fullName}`,
+            error
+          );
+        }
+      });
+
+      return fileProcessingResult.results.filter((file): file is IacFile => file !== null);
+    } catch (error) {
+      this.handleError(error, 'findIacFilesInRepository', { repository: repository.fullName });
+      return [];
+    }
+  }
+
+  /**
+   * List the tag names of a repository
+   * @param owner Organization and project; the _git segment of clone URLs is ignored
+   * @param repo Repository name
+   */
+  async listTags(owner: string, repo: string): Promise<string[]> {
+    this.validateOwnerAndRepo(owner, repo);
+
+    try {
+      const refs = await this.get<AzureDevOpsList<{ name: string }>>(
+        `${this.getRepositoryPath(owner, repo)}/refs`,
+        { filter: 'tags/' }
+      );
+
+      this.logger.debug(`Found ${refs.value.length} tags in ${owner}/${repo}`);
+      return refs.value.map(ref => ref.name.replace(/^refs\/tags\//, ''));
+    } catch (error) {
+      this.handleError(error, 'listTags', { owner, repo });
+      return [];
+    }
+  }
+
+  /**
+   * Get a pull request of a repository
+   * @param owner Organization and project
+   * @param repo Repository name
+   * @param number Pull request ID
+   * @returns The pull request, or null if it does not exist
+   */
+  async getChangeRequest(
+    owner: string,
+    repo: string,
+    number: number
+  ): Promise<VcsChangeRequest | null> {
+    this.validateOwnerAndRepo(owner, repo);
+
+    try {
+      const pullRequest = await this.get<AzureDevOpsPullRequest>(
+        `${this.getRepositoryPath(owner, repo)}/pullrequests/${number}`
+      );
+      return await this.toChangeRequest(owner, repo, pullRequest);
+    } catch (error) {
+      if (isNotFoundError(error, this.platform)) {
+        return null;
+      }
+      this.handleError(error, 'getChangeRequest', { owner, repo, number });
+      return null;
+    }
+  }
+
+  /**
+   * List the open pull requests of a repository
+   * @param owner Organization and project
+   * @param repo Repository name
+   */
+  async listOpenChangeRequests(owner: string, repo: string): Promise<VcsChangeRequest[]> {
+    this.validateOwnerAndRepo(owner, repo);
+
+    try {
+      const pullRequests: AzureDevOpsPullRequest[] = [];
+      const pageSize = API_DEFAULTS.AZURE_DEVOPS_PAGE_SIZE;
+      for (let skip = 0; ; skip += pageSize) {
+        const page = await this.get<AzureDevOpsList<AzureDevOpsPullRequest>>(
+          `${this.getRepositoryPath(owner, repo)}/pullrequests`,
+          { 'searchCriteria.status': 'active', $top: pageSize, $skip: skip }
+        );
+        pullRequests.push(...page.value);
+        if (page.value.length < pageSize) {
+          break;
+        }
+      }
+
+      this.logger.debug(`Found ${pullRequests.length} open pull requests in ${owner}/${repo}`);
+
+      const changeRequests: VcsChangeRequest[] = [];
+      for (const pullRequest of pullRequests) {
+        changeRequests.push(await this.toChangeRequest(owner, repo, pullRequest));
+      }
+      return changeRequests;
+    } catch (error) {
+      this.handleError(error, 'listOpenChangeRequests', { owner, repo });
+      return [];
+    }
+  }
+
+  /**
+   * Map a pull request to a change request, comparing against its merge base
+   */
+  private async toChangeRequest(
+    owner: string,
+    repo: string,
+    pullRequest: AzureDevOpsPullRequest
+  ): Promise<VcsChangeRequest> {
+    const headRef = pullRequest.lastMergeSourceCommit.commitId;
+    const mergeBases = await this.get<AzureDevOpsList<{ commitId: string }>>(
+      `${this.getRepositoryPath(owner, repo)}/commits/${headRef}/mergebases`,
+      { otherCommitId: pullRequest.lastMergeTargetCommit.commitId },
+      VCS_CONSTANTS.AZURE_DEVOPS_MERGE_BASES_API_VERSION
+    );
+
+    return {
+      number: pullRequest.pullRequestId,
+      title: pullRequest.title,
+      url: `${this.getRepositoryUrl(owner, repo)}/pullrequest/${pullRequest.pullRequestId}`,
+      author: pullRequest.createdBy?.uniqueName || pullRequest.createdBy?.displayName,
+      sourceBranch: pullRequest.sourceRefName.replace(/^refs\/heads\//, ''),
+      targetBranch: pullRequest.targetRefName.replace(/^refs\/heads\//, ''),
+      headRef,
+      baseRef: mergeBases.value[0]?.commitId || pullRequest.lastMergeTargetCommit.commitId,
+    };
+  }
+
+  /**
+   * List the files of a ref. Commit SHAs are read as commits; other refs are tried as a
+   * branch, then as a tag.
+   */
+  private async listFiles(
+    repository: VcsRepository,
+    ref: string
+  ): Promise<{ items: AzureDevOpsItem[]; versionType: AzureDevOpsVersionType }> {
+    const isCommit = /^[0-9a-f]{40}$/i.test(ref);
+    try {
+      return await this.listItems(repository, ref, isCommit ? 'commit' : 'branch');
+    } catch (error) {
+      if (isCommit || !isNotFoundError(error, this.platform)) {
+        throw error;
+      }
+      this.logger.debug(`${ref} is not a branch of ${repository.fullName}, trying tags`);
+      return this.listItems(repository, ref, 'tag');
+    }
+  }
+
+  /**
+   * List the files of a version with a single recursive Items API request. Files under
+   * directories that never hold IaC sources (e.g. .terraform, node_modules) are left out.
+   */
+  private async listItems(
+    repository: VcsRepository,
+    version: string,
+    versionType: AzureDevOpsVersionType
+  ): Promise<{ items: AzureDevOpsItem[]; versionType: AzureDevOpsVersionType }> {
+    const data = await this.get<AzureDevOpsList<AzureDevOpsItem>>(
+      `${this.getRepositoryPath(repository.owner, repository.name)}/items`,
+      {
+        scopePath: '/',
+        recursionLevel: 'full',
+        'versionDescriptor.version': version,
+        'versionDescriptor.versionType': versionType,
+      }
+    );
+    const items = data.value.filter(
+      item =>
+        !item.isFolder &&
+        item.gitObjectType !== 'commit' &&
+        !item.path
+          .split('/')
+          .slice(0, -1)
+          .some(directory => SKIP_DIRECTORIES.includes(directory))
+    );
+
+    this.logger.debug(`Found ${items.length} files in ${repository.fullName}`);
+    return { items, versionType };
+  }
+
+  /**
+   * Send a GET request with the api-version query parameter
+   */
+  private get<T>(
+    path: string,
+    query?: Record<string, string | number | boolean | undefined>,
+    apiVersion: string = VCS_CONSTANTS.AZURE_DEVOPS_API_VERSION
+  ): Promise<T> {
+    return this.client.getJson<T>(path, { 'api-version': apiVersion, ...query });
+  }
+
+  /**
+   * Split an owner into organization and project. Owners parsed from clone URLs
+   * (organization/project/_git/repo) end with _git.
+   * @throws VcsError when the owner has no project
+   */
+  private parseOwner(owner: string): { organization: string; project: string } {
+    const [organization, project, ...rest] = owner.replace(/\/_git$/, '').split('/');
+    if (!organization || !project || rest.length > 0) {
+      throw new VcsError(
+        `Invalid Azure DevOps owner: "${owner}". Expected format: organization/project`,
+        VcsErrorType.INVALID_CONFIGURATION,
+        VcsPlatform.AZURE_DEVOPS
+      );
+    }
+    return { organization, project };
+  }
+
+  /**
+   * Get the API path of a repository
+   */
+  private getRepositoryPath(owner: string, repo: string): string {
+    const { organization, project } = this.parseOwner(owner);
+    return (
+      `${encodeURIComponent(organization)}/${encodeURIComponent(project)}` +
+      `/_apis/git/repositories/${encodeURIComponent(repo)}`
+    );
+  }
+
+  /**
+   * Get the web URL of a repository
+   */
+  private getRepositoryUrl(owner: string, repo: string): string {
+    const { organization, project } = this.parseOwner(owner);
+    return (
+      `${this.baseUrl}/${encodeURIComponent(organization)}/${encodeURIComponent(project)}` +
+      `/_git/${encodeURIComponent(repo)}`
+    );
+  }
+
+  /**
+   * Map an API repository to a VcsRepository. Disabled repositories are reported as archived.
+   */
+  private toRepository(owner: string, repository: AzureDevOpsRepository): VcsRepository {
+    const { organization } = this.parseOwner(owner);
+
+    return {
+      owner: `${organization}/${repository.project.name}`,
+      name: repository.name,
+      fullName: `${organization}/${repository.project.name}/${repository.name}`,
+      defaultBranch: repository.defaultBranch?.replace(/^refs\/heads\//, '') || 'main',
+      archived: Boolean(repository.isDisabled),
+      private: repository.project.visibility !== 'public',
+      url: repository.webUrl,
+      cloneUrl: repository.remoteUrl || repository.webUrl,
+    };
+  }
+}
@@ -1,6 +1,7 @@
 import {
   IacFile,
   IacFileType,
+  VcsChangeRequest,
   VcsRepository,
   VcsRepositoryFilter,
   VcsFileDiscoveryOptions,
@@ -9,9 +10,16 @@ import {
   VcsPlatform,
 } from '../types';
 import { Logger } from '../services/logger';
+import { GitCheckoutOptions, GitRemoteScanner } from '../scanners';
 import { processConcurrentlySettled } from '../utils/concurrent';
 import { getIacFileType } from '../utils/file-type-detector';
-import { DEFAULT_MAX_RETRIES, MAX_BACKOFF_MS, BASE_BACKOFF_MS } from '../constants';
+import { readTarArchive } from '../utils/tar-archive';
+import {
+  DEFAULT_MAX_RETRIES,
+  MAX_BACKOFF_MS,
+  BASE_BACKOFF_MS,
+  SKIP_DIRECTORIES,
+} from '../constants';
 
 export interface BaseVcsConfig {
   readonly platform: VcsPlatform;
@@ -55,6 +63,14 @@ export abstract class BaseVcsService {
    */
   abstract get platformName(): string;
 
+  /**
+   * Name of change requests on the platform and the prefix of their numbers,
+   * e.g. pull request #5 - can be overridden by subclasses
+   */
+  get changeRequestTerms(): { label: string; prefix: string } {
+    return { label: 'pull request', prefix: '#' };
+  }
+
   /**
    * Get concurrency limits - can be overridden by subclasses
    */
@@ -70,6 +86,13 @@ export abstract class BaseVcsService {
     repository: VcsRepository,
     options?: VcsFileDiscoveryOptions
   ): Promise<IacFile[]>;
+  abstract listTags(owner: string, repo: string): Promise<string[]>;
+  abstract getChangeRequest(
+    owner: string,
+    repo: string,
+    number: number
+  ): Promise<VcsChangeRequest | null>;
+  abstract listOpenChangeRequests(owner: string, repo: string): Promise<VcsChangeRequest[]>;
 
   /**
    * Template method for finding all IaC files across repositories
@@ -307,6 +330,103 @@ export abstract class BaseVcsService {
     return true;
   }
 
+  /**
+   * Helper method to find the IaC files of a repository in a shallow clone, with a single
+   * git fetch instead of one API request per file
+   * @param checkout Clone URL, ref and HTTP authorization of the repository
+   * @param getUrl Link of a file path
+   */
+  protected async findIacFilesInClone(
+    repository: VcsRepository,
+    checkout: GitCheckoutOptions & { cloneUrl: string },
+    options: VcsFileDiscoveryOptions,
+    getUrl: (path: string) => string
+  ): Promise<IacFile[]> {
+    const scanner = new GitRemoteScanner({
+      maxConcurrentFiles: this.getConcurrencyLimits().files,
+      debug: this.config.debug,
+    });
+    const { files } = await scanner.scanCheckout(checkout.cloneUrl, checkout, options);
+
+    return this.limitFiles(
+      repository,
+      files.map(file => ({ ...file, repository: repository.fullName, url: getUrl(file.path) })),
+      options
+    );
+  }
+
+  /**
+   * Helper method to find the IaC files of a repository in its tarball, with a single
+   * download instead of one API request per file. Directories that local scans skip are
+   * skipped as well.
+   * @param archive Tarball with the repository files in one top-level directory
+   * @param getUrl Link of a file path
+   */
+  protected findIacFilesInArchive(
+    repository: VcsRepository,
+    archive: Buffer,
+    options: VcsFileDiscoveryOptions,
+    getUrl: (path: string) => string
+  ): IacFile[] {
+    const toRepositoryPath = (entryPath: string): string =>
+      entryPath.slice(entryPath.indexOf('/') + 1);
+
+    const { entries } = readTarArchive(archive, entryPath => {
+      const path = toRepositoryPath(entryPath);
+      const directories = path.split('/').slice(0, -1);
+      if (directories.some(name => SKIP_DIRECTORIES.includes(name) || name.startsWith('.'))) {
+        return false;
+      }
+      return this.shouldIncludeFile(path, options);
+    });
+
+    const files = entries.map(entry => {
+      const path = toRepositoryPath(entry.path);
+      return {
+        type: this.getIacFileType(path)!,
+        repository: repository.fullName,
+        path,
+        content: entry.content.toString('utf-8'),
+        url: getUrl(path),
+        size: entry.content.length,
+      };
+    });
+
+    return this.limitFiles(repository, files, options);
+  }
+
+  /**
+   * Apply the max files limit of the options to the files found locally and log their count
+   */
+  private limitFiles(
+    repository: VcsRepository,
+    files: IacFile[],
+    options: VcsFileDiscoveryOptions
+  ): IacFile[] {
+    const limitedFiles = options.maxFiles ? files.slice(0, options.maxFiles) : files;
+    const terraformCount = limitedFiles.filter(f => f.type === 'terraform').length;
+    const terragruntCount = limitedFiles.filter(f => f.type === 'terragrunt').length;
+
+    this.logger.info(
+      `Found ${limitedFiles.length} IaC files in ${repository.fullName} ` +
+        `(${terraformCount} Terraform, ${terragruntCount} Terragrunt) with ${options.fetchMode}`
+    );
+    return limitedFiles;
+  }
+
+  /**
+   * Helper method to get the branch, tag or commit to scan in a repository: the ref mapped
+   * to its full name or name, otherwise the ref of the options
+   * @returns The ref, or undefined to scan the default branch
+   */
+  protected resolveRef(
+    repository: VcsRepository,
+    options?: VcsFileDiscoveryOptions
+  ): string | undefined {
+    const refs = options?.repositoryRefs;
+    return refs?.[repository.fullName] ?? refs?.[repository.name] ?? options?.ref;
+  }
+
   /**
    * Helper method to create a standard cache key
    */
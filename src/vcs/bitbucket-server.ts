@@ -0,0 +1,597 @@
+import * as dotenv from 'dotenv';
+import { BaseVcsService, BaseVcsConfig } from './base';
+import { VcsHttpClient } from './http-client';
+import {
+  IacFile,
+  IacFileType,
+  VcsChangeRequest,
+  VcsRepository,
+  VcsRepositoryFilter,
+  VcsFileDiscoveryOptions,
+  VcsPlatform,
+  VcsError,
+  VcsErrorType,
+} from '../types';
+import { processConcurrentlySettled } from '../utils/concurrent';
+import { isNotFoundError } from '../utils/error-handler';
+import { createRepositoryCacheKey } from '../utils/repository-mapper';
+import { API_DEFAULTS, SKIP_DIRECTORIES } from '../constants';
+
+dotenv.config({ quiet: true });
+
+interface BitbucketServerPage<T> {
+  values: T[];
+  isLastPage: boolean;
+  nextPageStart?: number;
+}
+
+interface BitbucketServerRepository {
+  slug: string;
+  name: string;
+  public?: boolean;
+  archived?: boolean;
+  project: {
+    key: string;
+  };
+  links?: {
+    self?: Array<{ href: string }>;
+    clone?: Array<{ name: string; href: string }>;
+  };
+}
+
+interface BitbucketServerRef {
+  id: string;
+  displayId: string;
+  latestCommit?: string;
+}
+
+interface BitbucketServerPullRequest {
+  id: number;
+  title: string;
+  links?: {
+    self?: Array<{ href: string }>;
+  };
+  author?: {
+    user?: {
+      name?: string;
+      displayName?: string;
+    };
+  };
+  fromRef: BitbucketServerRef;
+  toRef: BitbucketServerRef;
+}
+
+export interface BitbucketServerServiceConfig extends BaseVcsConfig {
+  /** Server URL, e.g. https://bitbucket.example.com */
+  host?: string;
+  /** HTTP access token or personal access token */
+  token?: string;
+  /** Bitbucket username, used with a password */
+  username?: string;
+  password?: string;
+  repoPattern?: string;
+  iacFileTypes?: readonly IacFileType[];
+  maxConcurrentRepos?: number;
+  maxConcurrentFiles?: number;
+}
+
+/**
+ * Bitbucket Server and Data Center service using the REST API 1.0
+ */
+export class BitbucketServerService extends BaseVcsService {
+  private client: VcsHttpClient;
+  private host: string;
+  private repoPattern: RegExp | null = null;
+  private iacFileTypes: readonly IacFileType[];
+  private maxConcurrentRepos: number;
+  private maxConcurrentFiles: number;
+
+  /**
+   * Get concurrency limits for parallel processing
+   */
+  protected getConcurrencyLimits(): { repos: number; files: number } {
+    return {
+      repos: this.maxConcurrentRepos,
+      files: this.maxConcurrentFiles,
+    };
+  }
+
+  constructor(config: BitbucketServerServiceConfig) {
+    super({
+      platform: VcsPlatform.BITBUCKET_SELF_HOSTED,
+      debug: config.debug,
+      skipArchived: config.skipArchived,
+      maxRetries: config.maxRetries,
+      cacheEnabled: config.cacheEnabled,
+    });
+
+    this.iacFileTypes = config.iacFileTypes || ['terraform', 'terragrunt'];
+    this.maxConcurrentRepos = config.maxConcurrentRepos || 5;
+    this.maxConcurrentFiles = config.maxConcurrentFiles || 10;
+
+    if (!config.host) {
+      throw new VcsError(
+        'Bitbucket Server host is required, e.g. bitbucket://bitbucket.example.com/PROJECT',
+        VcsErrorType.INVALID_CONFIGURATION,
+        VcsPlatform.BITBUCKET_SELF_HOSTED
+      );
+    }
+    this.host = config.host.replace(/\/+$/, '');
+
+    // Access tokens take precedence over passwords
+    const token = config.token || process.env.BITBUCKET_TOKEN;
+    const username = config.username || process.env.BITBUCKET_USERNAME;
+    const password = config.password || process.env.BITBUCKET_APP_PASSWORD;
+    let authorization: string;
+    if (token) {
+      authorization = `Bearer ${token}`;
+    } else if (username && password) {
+      authorization = `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}`;
+    } else {
+      throw new VcsError(
+        'Bitbucket Server credentials not found. Please set BITBUCKET_TOKEN, or BITBUCKET_USERNAME and BITBUCKET_APP_PASSWORD environment variables',
+        VcsErrorType.INVALID_CONFIGURATION,
+        VcsPlatform.BITBUCKET_SELF_HOSTED
+      );
+    }
+
+    this.initializeLogger();
+
+    // Initialize repository pattern filter if provided
+    if (config.repoPattern) {
+      try {
+        this.repoPattern = new RegExp(config.repoPattern);
+        this.logger.info(`Repository filter pattern initialized: ${config.repoPattern}`);
+      } catch (error) {
+        throw new VcsError(
+          `Invalid repository regex pattern: ${config.repoPattern}`,
+          VcsErrorType.INVALID_CONFIGURATION,
+          VcsPlatform.BITBUCKET_SELF_HOSTED,
+          undefined,
+          error instanceof Error ? error : undefined
+        );
+      }
+    }
+
+    this.client = new VcsHttpClient({
+      baseUrl: `${this.host}/rest/api/1.0`,
+      headers: { Authorization: authorization },
+    });
+    this.logger.info(`Bitbucket Server service initialized with host: ${this.host}`);
+  }
+
+  get platformName(): string {
+    return `Bitbucket Server (${this.host})`;
+  }
+
+  /**
+   * Check if a repository exists and is accessible
+   * @param owner Project key
+   * @param repo Repository slug
+   * @returns true if exists, false if not
+   */
+  async repositoryExists(owner: string, repo: string): Promise<boolean | null> {
+    const repository = await this.getSingleRepository(owner, repo);
+    return repository !== null;
+  }
+
+  /**
+   * Get a single repository by project key and slug
+   * @param owner Project key, or ~username for personal repositories
+   * @param repo Repository slug
+   * @returns Repository object or null if not found/archived
+   */
+  async getSingleRepository(owner: string, repo: string): Promise<VcsRepository | null> {
+    this.validateOwnerAndRepo(owner, repo);
+
+    const cacheKey = createRepositoryCacheKey('bitbucket-server', 'single-repo', owner, repo);
+    const cached = this.getCachedRepository(cacheKey);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    try {
+      this.logger.info(`Retrieving repository ${owner}/${repo}...`);
+
+      const data = await this.client.getJson<BitbucketServerRepository>(
+        this.getRepositoryPath(owner, repo)
+      );
+
+      // Skip archived repositories if specified
+      if (this.config.skipArchived && data.archived) {
+        this.logger.info(`Skipping archived repository: ${owner}/${repo}`);
+        this.setCachedRepository(cacheKey, null);
+        return null;
+      }
+
+      const repository = this.toRepository(data, await this.getDefaultBranch(owner, repo));
+      this.setCachedRepository(cacheKey, repository);
+      return repository;
+    } catch (error) {
+      this.setCachedRepository(cacheKey, null);
+      if (isNotFoundError(error, this.platform)) {
+        return null;
+      }
+      this.handleError(error, 'getSingleRepository', { owner, repo });
+      return null;
+    }
+  }
+
+  /**
+   * Get all repositories of a project
+   * @param owner Project key, or ~username for personal repositories
+   * @param filter Optional filtering criteria
+   */
+  async getRepositories(owner: string, filter?: VcsRepositoryFilter): Promise<VcsRepository[]> {
+    try {
+      this.logger.info(`Retrieving repositories for ${owner}...`);
+
+      const data = await this.getAllPages<BitbucketServerRepository>(
+        `projects/${encodeURIComponent(owner)}/repos`
+      );
+
+      const items: BitbucketServerRepository[] = [];
+      let skippedArchivedCount = 0;
+      let skippedPatternCount = 0;
+      for (const item of data) {
+        // Skip archived repositories if configured
+        if (this.config.skipArchived && item.archived) {
+          skippedArchivedCount++;
+          this.logger.debug(`Skipping archived repository: ${item.project.key}/${item.slug}`);
+          continue;
+        }
+
+        // Filter by repository name pattern if specified
+        if (this.repoPattern && !this.repoPattern.test(item.slug)) {
+          skippedPatternCount++;
+          this.logger.debug(`Repository ${item.slug} doesn't match pattern ${this.repoPattern}`);
+          continue;
+        }
+
+        items.push(item);
+      }
+
+      // Repository listings do not include the default branch
+      const branchResult = await processConcurrentlySettled(
+        items,
+        item => this.getDefaultBranch(item.project.key, item.slug),
+        this.getConcurrencyLimits().repos
+      );
+      const repositories: VcsRepository[] = [];
+      items.forEach((item, index) => {
+        const defaultBranch = branchResult.results[index];
+        if (defaultBranch === null) {
+          this.logger.errorWithStack(
+            `Failed to get the default branch of ${item.project.key}/${item.slug}, skipping it`,
+            branchResult.errors[index]!
+          );
+          return;
+        }
+        repositories.push(this.toRepository(item, defaultBranch));
+      });
+
+      this.logger.info(
+        `Found ${repositories.length} repositories for ${owner} ` +
+          `(filtered out ${skippedArchivedCount} archived, ${skippedPatternCount} by pattern)`
+      );
+
+      // Apply additional filtering using base class method
+      return this.filterRepositories(repositories, filter);
+    } catch (error) {
+      this.handleError(error, 'getRepositories', { owner });
+      return [];
+    }
+  }
+
+  /**
+   * Find all IaC files in a repository
+   * @param repository Repository information
+   * @param options File discovery options
+   */
+  async findIacFilesInRepository(
+    repository: VcsRepository,
+    options?: VcsFileDiscoveryOptions
+  ): Promise<IacFile[]> {
+    try {
+      this.logger.info(`Getting IaC files from ${repository.fullName}...`);
+
+      // Use configured file types or options
+      const fileTypes = options?.fileTypes || this.iacFileTypes;
+      const repositoryPath = this.getRepositoryPath(repository.owner, repository.name);
+
+      // Pin the scan to a commit, so files are read from the same tree that was listed
+      const ref = this.resolveRef(repository, options) || repository.defaultBranch;
+      const commits = await this.client.getJson<BitbucketServerPage<{ id: string }>>(
+        `${repositoryPath}/commits`,
+        { until: ref, limit: 1 }
+      );
+      const commit = commits.values[0]?.id || ref;
+      if (ref !== repository.defaultBranch) {
+        this.logger.info(`Scanning ${repository.fullName} at ${ref} (${commit})`);
+      }
+
+      const paths = await this.listFiles(repository, commit);
+      const iacFiles = paths
+        .filter(path => this.shouldIncludeFile(path, { fileTypes: [...fileTypes], ...options }))
+        .map(path => ({
+          path,
+          type: this.getIacFileType(path)!,
+        }));
+
+      // Apply max files limit if specified
+      const limitedFiles = options?.maxFiles ? iacFiles.slice(0, options.maxFiles) : iacFiles;
+
+      if (limitedFiles.length === 0) {
+        this.logger.info(`No IaC files found in ${repository.fullName}`);
+        return [];
+      }
+
+      const terraformCount = limitedFiles.filter(f => f.type === 'terraform').length;
+      const terragruntCount = limitedFiles.filter(f => f.type === 'terragrunt').length;
+      this.logger.info(
+        `Found ${limitedFiles.length} IaC files in ${repository.fullName} ` +
+          `(${terraformCount} Terraform, ${terragruntCount} Terragrunt)`
+      );
+
+      // Get content for each file in parallel
+      const concurrency = this.getConcurrencyLimits();
+      const fileProcessingResult = await processConcurrentlySettled(
+        limitedFiles,
+        async file => {
+          const content = await this.client.getText(
+            `${repositoryPath}/raw/${encodeURI(file.path)}`,
+            { at: commit }
+          );
+
+          return {
+            type: file.type,
+            repository: repository.fullName,
+            path: file.path,
+            content,
+            url: `${repository.url}/browse/${file.path}?at=${encodeURIComponent(ref)}`,
+            size: Buffer.byteLength(content),
+          } as IacFile;
+        },
+        concurrency.files
+      );
+
+      // Log any file processing errors
+      fileProcessingResult.errors.forEach((error, index) => {
+        if (error !== null) {
+          this.logger.errorWithStack(
+            `Error getting content for ${limitedFiles[index].path} in ${repository.fullName}`,
+            error
+          );
+        }
+      });
+
+      return fileProcessingResult.results.filter((file): file is IacFile => file !== null);
+    } catch (error) {
+      this.handleError(error, 'findIacFilesInRepository', { repository: repository.fullName });
+      return [];
+    }
+  }
+
+  /**
+   * List the tag names of a repository
+   * @param owner Project key; the scm/ prefix of HTTP clone URLs is ignored
+   * @param repo Repository slug
+   */
+  async listTags(owner: string, repo: string): Promise<string[]> {
+    this.validateOwnerAndRepo(owner, repo);
+    const project = owner.replace(/^scm\//, '');
+
+    try {
+      const tags = await this.getAllPages<BitbucketServerRef>(
+        `${this.getRepositoryPath(project, repo)}/tags`
+      );
+
+      this.logger.debug(`Found ${tags.length} tags in ${project}/${repo}`);
+      return tags.map(tag => tag.displayId);
+    } catch (error) {
+      this.handleError(error, 'listTags', { owner, repo });
+      return [];
+    }
+  }
+
+  /**
+   * Get a pull request of a repository
+   * @param owner Project key
+   * @param repo Repository slug
+   * @param number Pull request ID
+   * @returns The pull request, or null if it does not exist
+   */
+  async getChangeRequest(
+    owner: string,
+    repo: string,
+    number: number
+  ): Promise<VcsChangeRequest | null> {
+    this.validateOwnerAndRepo(owner, repo);
+
+    try {
+      const pullRequest = await this.client.getJson<BitbucketServerPullRequest>(
+        `${this.getRepositoryPath(owner, repo)}/pull-requests/${number}`
+      );
+      return await this.toChangeRequest(owner, repo, pullRequest);
+    } catch (error) {
+      if (isNotFoundError(error, this.platform)) {
+        return null;
+      }
+      this.handleError(error, 'getChangeRequest', { owner, repo, number });
+      return null;
+    }
+  }
+
+  /**
+   * List the open pull requests of a repository
+   * @param owner Project key
+   * @param repo Repository slug
+   */
+  async listOpenChangeRequests(owner: string, repo: string): Promise<VcsChangeRequest[]> {
+    this.validateOwnerAndRepo(owner, repo);
+
+    try {
+      const pullRequests = await this.getAllPages<BitbucketServerPullRequest>(
+        `${this.getRepositoryPath(owner, repo)}/pull-requests`,
+        { state: 'OPEN' }
+      );
+
+      this.logger.debug(`Found ${pullRequests.length} open pull requests in ${owner}/${repo}`);
+
+      const changeRequests: VcsChangeRequest[] = [];
+      for (const pullRequest of pullRequests) {
+        changeRequests.push(await this.toChangeRequest(owner, repo, pullRequest));
+      }
+      return changeRequests;
+    } catch (error) {
+      this.handleError(error, 'listOpenChangeRequests', { owner, repo });
+      return [];
+    }
+  }
+
+  /**
+   * Map a pull request to a change request, comparing against its merge base. Servers
+   * without the merge-base endpoint compare against the latest commit of the target branch.
+   */
+  private async toChangeRequest(
+    owner: string,
+    repo: string,
+    pullRequest: BitbucketServerPullRequest
+  ): Promise<VcsChangeRequest> {
+    const headRef = pullRequest.fromRef.latestCommit || pullRequest.fromRef.id;
+    let baseRef = pullRequest.toRef.latestCommit || pullRequest.toRef.id;
+    try {
+      const mergeBase = await this.client.getJson<{ id: string }>(
+        `${this.getRepositoryPath(owner, repo)}/pull-requests/${pullRequest.id}/merge-base`
+      );
+      baseRef = mergeBase.id;
+    } catch (error) {
+      if (!isNotFoundError(error, this.platform)) {
+        throw error;
+      }
+      this.logger.debug(`No merge base for pull request ${pullRequest.id}, using ${baseRef}`);
+    }
+
+    return {
+      number: pullRequest.id,
+      title: pullRequest.title,
+      url:
+        pullRequest.links?.self?.[0]?.href ||
+        `${this.getRepositoryUrl(owner, repo)}/pull-requests/${pullRequest.id}`,
+      author: pullRequest.author?.user?.name || pullRequest.author?.user?.displayName,
+      sourceBranch: pullRequest.fromRef.displayId,
+      targetBranch: pullRequest.toRef.displayId,
+      headRef,
+      baseRef,
+    };
+  }
+
+  /**
+   * List the file paths of a commit. Files under directories that never hold IaC sources
+   * (e.g. .terraform, node_modules) are left out.
+   */
+  private async listFiles(repository: VcsRepository, commit: string): Promise<string[]> {
+    // File listings allow larger pages than other resources
+    const paths = await this.getAllPages<string>(
+      `${this.getRepositoryPath(repository.owner, repository.name)}/files`,
+      { at: commit, limit: 1000 }
+    );
+    const files = paths.filter(
+      path =>
+        !path
+          .split('/')
+          .slice(0, -1)
+          .some(directory => SKIP_DIRECTORIES.includes(directory))
+    );
+
+    this.logger.debug(`Found ${files.length} files in ${repository.fullName}`);
+    return files;
+  }
+
+  /**
+   * Get the default branch of a repository through the default-branch endpoint, or the
+   * branches/default endpoint of older servers; empty repositories fall back to main
+   */
+  private async getDefaultBranch(owner: string, repo: string): Promise<string> {
+    for (const endpoint of ['default-branch', 'branches/default']) {
+      try {
+        const branch = await this.client.getJson<BitbucketServerRef>(
+          `${this.getRepositoryPath(owner, repo)}/${endpoint}`
+        );
+        return branch.displayId;
+      } catch (error) {
+        if (!isNotFoundError(error, this.platform)) {
+          throw error;
+        }
+      }
+    }
+    return 'main';
+  }
+
+  /**
+   * Get all items of a paginated endpoint by following nextPageStart
+   */
+  private async getAllPages<T>(
+    path: string,
+    query?: Record<string, string | number | undefined>
+  ): Promise<T[]> {
+    const items: T[] = [];
+    let start = 0;
+
+    for (;;) {
+      const page = await this.client.getJson<BitbucketServerPage<T>>(path, {
+        limit: API_DEFAULTS.BITBUCKET_SERVER_PAGE_LIMIT,
+        ...query,
+        start,
+      });
+      items.push(...page.values);
+
+      if (page.isLastPage || page.nextPageStart === undefined) {
+        return items;
+      }
+      start = page.nextPageStart;
+    }
+  }
+
+  /**
+   * Get the API path of a repository
+   */
+  private getRepositoryPath(owner: string, repo: string): string {
+    return `projects/${encodeURIComponent(owner)}/repos/${encodeURIComponent(repo)}`;
+  }
+
+  /**
+   * Get the web URL of a repository
+   */
+  private getRepositoryUrl(owner: string, repo: string): string {
+    return `${this.host}/projects/${encodeURIComponent(owner)}/repos/${encodeURIComponent(repo)}`;
+  }
+
+  /**
+   * Map an API repository to a VcsRepository
+   */
+  private toRepository(
+    repository: BitbucketServerRepository,
+    defaultBranch: string
+  ): VcsRepository {
+    const owner = repository.project.key;
+    // Self links point at the browse page of the repository
+    const url =
+      repository.links?.self?.[0]?.href.replace(/\/browse\/?$/, '') ||
+      this.getRepositoryUrl(owner, repository.slug);
+    const cloneUrl =
+      repository.links?.clone?.find(link => link.name === 'http')?.href ||
+      `${this.host}/scm/${owner.toLowerCase()}/${repository.slug}.git`;
+
+    return {
+      owner,
+      name: repository.slug,
+      fullName: `${owner}/${repository.slug}`,
+      defaultBranch,
+      archived: Boolean(repository.archived),
+      private: !repository.public,
+      url,
+      cloneUrl,
+    };
+  }
+}
@@ -0,0 +1,528 @@
+import * as dotenv from 'dotenv';
+import { BaseVcsService, BaseVcsConfig } from './base';
+import { VcsHttpClient } from './http-client';
+import {
+  IacFile,
+  IacFileType,
+  VcsChangeRequest,
+  VcsRepository,
+  VcsRepositoryFilter,
+  VcsFileDiscoveryOptions,
+  VcsPlatform,
+  VcsError,
+  VcsErrorType,
+} from '../types';
+import { processConcurrently, processConcurrentlySettled } from '../utils/concurrent';
+import { isNotFoundError } from '../utils/error-handler';
+import { createRepositoryCacheKey } from '../utils/repository-mapper';
+import { API_DEFAULTS, SKIP_DIRECTORIES, VCS_CONSTANTS } from '../constants';
+
+dotenv.config({ quiet: true });
+
+interface BitbucketPage<T> {
+  values: T[];
+  next?: string;
+}
+
+interface BitbucketRepository {
+  slug: string;
+  name: string;
+  full_name: string;
+  is_private: boolean;
+  mainbranch?: {
+    name: string;
+  } | null;
+  links: {
+    html: { href: string };
+    clone?: Array<{ name: string; href: string }>;
+  };
+  workspace?: {
+    slug: string;
+  };
+}
+
+interface BitbucketTreeEntry {
+  type: string; // 'commit_file', 'commit_directory' or 'commit_link'
+  path: string;
+  size?: number;
+}
+
+interface BitbucketPullRequest {
+  id: number;
+  title: string;
+  links: {
+    html: { href: string };
+  };
+  author?: {
+    display_name?: string;
+    nickname?: string;
+  };
+  source: {
+    branch: { name: string };
+    commit: { hash: string };
+  };
+  destination: {
+    branch: { name: string };
+    commit: { hash: string };
+  };
+}
+
+export interface BitbucketServiceConfig extends BaseVcsConfig {
+  /** Workspace, project or repository access token */
+  token?: string;
+  /** Bitbucket username, used with an app password */
+  username?: string;
+  appPassword?: string;
+  /** API base URL, e.g. a proxy or a local stub (default: https://api.bitbucket.org/2.0) */
+  apiUrl?: string;
+  repoPattern?: string;
+  iacFileTypes?: readonly IacFileType[];
+  maxConcurrentRepos?: number;
+  maxConcurrentFiles?: number;
+}
+
+/**
+ * Bitbucket Cloud service using the REST API 2.0
+ */
+export class BitbucketService extends BaseVcsService {
+  private client: VcsHttpClient;
+  private repoPattern: RegExp | null = null;
+  private iacFileTypes: readonly IacFileType[];
+  private maxConcurrentRepos: number;
+  private maxConcurrentFiles: number;
+
+  /**
+   * Get concurrency limits for parallel processing
+   */
+  protected getConcurrencyLimits(): { repos: number; files: number } {
+    return {
+      repos: this.maxConcurrentRepos,
+      files: this.maxConcurrentFiles,
+    };
+  }
+
+  constructor(config: BitbucketServiceConfig) {
+    super({
+      platform: VcsPlatform.BITBUCKET,
+      debug: config.debug,
+      skipArchived: config.skipArchived,
+      maxRetries: config.maxRetries,
+      cacheEnabled: config.cacheEnabled,
+    });
+
+    this.iacFileTypes = config.iacFileTypes || ['terraform', 'terragrunt'];
+    this.maxConcurrentRepos = config.maxConcurrentRepos || 5;
+    this.maxConcurrentFiles = config.maxConcurrentFiles || 10;
+
+    // Access tokens take precedence over app passwords
+    const token = config.token || process.env.BITBUCKET_TOKEN;
+    const username = config.username || process.env.BITBUCKET_USERNAME;
+    const appPassword = config.appPassword || process.env.BITBUCKET_APP_PASSWORD;
+    let authorization: string;
+    if (token) {
+      authorization = `Bearer ${token}`;
+    } else if (username && appPassword) {
+      authorization = `Basic ${Buffer.from(`${username}:${appPassword}`).toString('base64')}`;
+    } else {
+      throw new VcsError(
+        'Bitbucket credentials not found. Please set BITBUCKET_TOKEN, or BITBUCKET_USERNAME and BITBUCKET_APP_PASSWORD environment variables',
+        VcsErrorType.INVALID_CONFIGURATION,
+        VcsPlatform.BITBUCKET
+      );
+    }
+
+    this.initializeLogger();
+
+    // Initialize repository pattern filter if provided
+    if (config.repoPattern) {
+      try {
+        this.repoPattern = new RegExp(config.repoPattern);
+        this.logger.info(`Repository filter pattern initialized: ${config.repoPattern}`);
+      } catch (error) {
+        throw new VcsError(
+          `Invalid repository regex pattern: ${config.repoPattern}`,
+          VcsErrorType.INVALID_CONFIGURATION,
+          VcsPlatform.BITBUCKET,
+          undefined,
+          error instanceof Error ? error : undefined
+        );
+      }
+    }
+
+    this.client = new VcsHttpClient({
+      baseUrl: config.apiUrl || VCS_CONSTANTS.BITBUCKET_API_URL,
+      headers: { Authorization: authorization },
+    });
+    this.logger.info('Bitbucket service initialized successfully');
+  }
+
+  get platformName(): string {
+    return 'Bitbucket';
+  }
+
+  /**
+   * Check if a repository exists and is accessible
+   * @param owner Workspace
+   * @param repo Repository slug
+   * @returns true if exists, false if not
+   */
+  async repositoryExists(owner: string, repo: string): Promise<boolean | null> {
+    const repository = await this.getSingleRepository(owner, repo);
+    return repository !== null;
+  }
+
+  /**
+   * Get a single repository by workspace and slug
+   * @param owner Workspace
+   * @param repo Repository slug
+   * @returns Repository object or null if not found
+   */
+  async getSingleRepository(owner: string, repo: string): Promise<VcsRepository | null> {
+    this.validateOwnerAndRepo(owner, repo);
+
+    const cacheKey = createRepositoryCacheKey('bitbucket', 'single-repo', owner, repo);
+    const cached = this.getCachedRepository(cacheKey);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    try {
+      this.logger.info(`Retrieving repository ${owner}/${repo}...`);
+
+      const data = await this.client.getJson<BitbucketRepository>(
+        `repositories/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`
+      );
+      const repository = this.toRepository(owner, data);
+
+      this.setCachedRepository(cacheKey, repository);
+      return repository;
+    } catch (error) {
+      this.setCachedRepository(cacheKey, null);
+      if (isNotFoundError(error, this.platform)) {
+        return null;
+      }
+      this.handleError(error, 'getSingleRepository', { owner, repo });
+      return null;
+    }
+  }
+
+  /**
+   * Get all repositories of a workspace, or of a project of the workspace
+   * @param owner Workspace, or workspace and project key (e.g. acme/INFRA)
+   * @param filter Optional filtering criteria
+   */
+  async getRepositories(owner: string, filter?: VcsRepositoryFilter): Promise<VcsRepository[]> {
+    try {
+      this.logger.info(`Retrieving repositories for ${owner}...`);
+
+      const [workspace, project] = owner.split('/');
+      const data = await this.getAllPages<BitbucketRepository>(
+        `repositories/${encodeURIComponent(workspace)}`,
+        {
+          pagelen: API_DEFAULTS.BITBUCKET_PER_PAGE,
+          q: project ? `project.key="${project}"` : undefined,
+        }
+      );
+
+      const repositories: VcsRepository[] = [];
+      let skippedPatternCount = 0;
+      for (const item of data) {
+        // Filter by repository name pattern if specified
+        if (this.repoPattern && !this.repoPattern.test(item.slug)) {
+          skippedPatternCount++;
+          this.logger.debug(`Repository ${item.slug} doesn't match pattern ${this.repoPattern}`);
+          continue;
+        }
+        repositories.push(this.toRepository(workspace, item));
+      }
+
+      this.logger.info(
+        `Found ${repositories.length} repositories for ${owner} (filtered out ${skippedPatternCount} by pattern)`
+      );
+
+      // Apply additional filtering using base class method
+      return this.filterRepositories(repositories, filter);
+    } catch (error) {
+      this.handleError(error, 'getRepositories', { owner });
+      return [];
+    }
+  }
+
+  /**
+   * Find all IaC files in a repository
+   * @param repository Repository information
+   * @param options File discovery options
+   */
+  async findIacFilesInRepository(
+    repository: VcsRepository,
+    options?: VcsFileDiscoveryOptions
+  ): Promise<IacFile[]> {
+    try {
+      this.logger.info(`Getting IaC files from ${repository.fullName}...`);
+
+      // Use configured file types or options
+      const fileTypes = options?.fileTypes || this.iacFileTypes;
+
+      // Pin the scan to a commit, so files are read from the same tree that was listed
+      const ref = this.resolveRef(repository, options) || repository.defaultBranch;
+      const commit = await this.client.getJson<{ hash: string }>(
+        `${this.getRepositoryPath(repository)}/commit/${encodeURIComponent(ref)}`
+      );
+      if (ref !== repository.defaultBranch) {
+        this.logger.info(`Scanning ${repository.fullName} at ${ref} (${commit.hash})`);
+      }
+
+      const entries = await this.listFiles(repository, commit.hash);
+      const iacFiles = entries
+        .filter(entry =>
+          this.shouldIncludeFile(entry.path, { fileTypes: [...fileTypes], ...options })
+        )
+        .map(entry => ({
+          path: entry.path,
+          size: entry.size,
+          type: this.getIacFileType(entry.path)!,
+        }));
+
+      // Apply max files limit if specified
+      const limitedFiles = options?.maxFiles ? iacFiles.slice(0, options.maxFiles) : iacFiles;
+
+      if (limitedFiles.length === 0) {
+        this.logger.info(`No IaC files found in ${repository.fullName}`);
+        return [];
+      }
+
+      const terraformCount = limitedFiles.filter(f => f.type === 'terraform').length;
+      const terragruntCount = limitedFiles.filter(f => f.type === 'terragrunt').length;
+      this.logger.info(
+        `Found ${limitedFiles.length} IaC files in ${repository.fullName} ` +
+          `(${terraformCount} Terraform, ${terragruntCount} Terragrunt)`
+      );
+
+      // Get content for each file in parallel
+      const concurrency = this.getConcurrencyLimits();
+      const fileProcessingResult = await processConcurrentlySettled(
+        limitedFiles,
+        async file => {
+          const content = await this.client.getText(
+            `${this.getRepositoryPath(repository)}/src/${commit.hash}/${encodeURI(file.path)}`
+          );
+
+          return {
+            type: file.type,
+            repository: repository.fullName,
+            path: file.path,
+            content,
+            url: `${repository.url}/src/${ref}/${file.path}`,
+            size: file.size,
+          } as IacFile;
+        },
+        concurrency.files
+      );
+
+      // Log any file processing errors
+      fileProcessingResult.errors.forEach((error, index) => {
+        if (error !== null) {
+          this.logger.errorWithStack(
+            `Error getting content for ${limitedFiles[index].path} in ${repository.fullName}`,
+            error
+          );
+        }
+      });
+
+      return fileProcessingResult.results.filter((file): file is IacFile => file !== null);
+    } catch (error) {
+      this.handleError(error, 'findIacFilesInRepository', { repository: repository.fullName });
+      return [];
+    }
+  }
+
+  /**
+   * List the tag names of a repository
+   * @param owner Workspace
+   * @param repo Repository slug
+   */
+  async listTags(owner: string, repo: string): Promise<string[]> {
+    this.validateOwnerAndRepo(owner, repo);
+
+    try {
+      const tags = await this.getAllPages<{ name: string }>(
+        `repositories/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/refs/tags`,
+        { pagelen: API_DEFAULTS.BITBUCKET_PER_PAGE }
+      );
+
+      this.logger.debug(`Found ${tags.length} tags in ${owner}/${repo}`);
+      return tags.map(tag => tag.name);
+    } catch (error) {
+      this.handleError(error, 'listTags', { owner, repo });
+      return [];
+    }
+  }
+
+  /**
+   * Get a pull request of a repository
+   * @param owner Workspace
+   * @param repo Repository slug
+   * @param number Pull request ID
+   * @returns The pull request, or null if it does not exist
+   */
+  async getChangeRequest(
+    owner: string,
+    repo: string,
+    number: number
+  ): Promise<VcsChangeRequest | null> {
+    this.validateOwnerAndRepo(owner, repo);
+
+    try {
+      const pullRequest = await this.client.getJson<BitbucketPullRequest>(
+        `repositories/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/pullrequests/${number}`
+      );
+      return await this.toChangeRequest(owner, repo, pullRequest);
+    } catch (error) {
+      if (isNotFoundError(error, this.platform)) {
+        return null;
+      }
+      this.handleError(error, 'getChangeRequest', { owner, repo, number });
+      return null;
+    }
+  }
+
+  /**
+   * List the open pull requests of a repository
+   * @param owner Workspace
+   * @param repo Repository slug
+   */
+  async listOpenChangeRequests(owner: string, repo: string): Promise<VcsChangeRequest[]> {
+    this.validateOwnerAndRepo(owner, repo);
+
+    try {
+      // Pull request pages hold at most 50 items
+      const pullRequests = await this.getAllPages<BitbucketPullRequest>(
+        `repositories/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/pullrequests`,
+        { state: 'OPEN', pagelen: 50 }
+      );
+
+      this.logger.debug(`Found ${pullRequests.length} open pull requests in ${owner}/${repo}`);
+
+      const changeRequests: VcsChangeRequest[] = [];
+      for (const pullRequest of pullRequests) {
+        changeRequests.push(await this.toChangeRequest(owner, repo, pullRequest));
+      }
+      return changeRequests;
+    } catch (error) {
+      this.handleError(error, 'listOpenChangeRequests', { owner, repo });
+      return [];
+    }
+  }
+
+  /**
+   * Map a pull request to a change request, comparing against its merge base
+   */
+  private async toChangeRequest(
+    owner: string,
+    repo: string,
+    pullRequest: BitbucketPullRequest
+  ): Promise<VcsChangeRequest> {
+    const headRef = pullRequest.source.commit.hash;
+    const mergeBase = await this.client.getJson<{ hash: string }>(
+      `repositories/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/merge-base/` +
+        `${pullRequest.destination.commit.hash}..${headRef}`
+    );
+
+    return {
+      number: pullRequest.id,
+      title: pullRequest.title,
+      url: pullRequest.links.html.href,
+      author: pullRequest.author?.nickname || pullRequest.author?.display_name,
+      sourceBranch: pullRequest.source.branch.name,
+      targetBranch: pullRequest.destination.branch.name,
+      headRef,
+      baseRef: mergeBase.hash,
+    };
+  }
+
+  /**
+   * List the files of a commit by walking its directories, one level at a time with the
+   * directories of a level listed concurrently. Directories that never hold IaC sources
+   * (e.g. .terraform, node_modules) are not walked.
+   */
+  private async listFiles(
+    repository: VcsRepository,
+    commit: string
+  ): Promise<BitbucketTreeEntry[]> {
+    const files: BitbucketTreeEntry[] = [];
+    let directories = [''];
+
+    while (directories.length > 0) {
+      const listings = await processConcurrently(
+        directories,
+        directory =>
+          this.getAllPages<BitbucketTreeEntry>(
+            `${this.getRepositoryPath(repository)}/src/${commit}/${encodeURI(directory)}`,
+            { pagelen: API_DEFAULTS.BITBUCKET_PER_PAGE }
+          ),
+        this.getConcurrencyLimits().files
+      );
+
+      directories = [];
+      for (const entry of listings.flat()) {
+        if (entry.type === 'commit_directory') {
+          const name = entry.path.split('/').pop() || '';
+          if (!SKIP_DIRECTORIES.includes(name)) {
+            directories.push(`${entry.path}/`);
+          }
+        } else if (entry.type === 'commit_file') {
+          files.push(entry);
+        }
+      }
+    }
+
+    this.logger.debug(`Found ${files.length} files in ${repository.fullName}`);
+    return files;
+  }
+
+  /**
+   * Get all items of a paginated endpoint by following the next links
+   */
+  private async getAllPages<T>(
+    path: string,
+    query?: Record<string, string | number | undefined>
+  ): Promise<T[]> {
+    const items: T[] = [];
+    let page = await this.client.getJson<BitbucketPage<T>>(path, query);
+    items.push(...page.values);
+
+    while (page.next) {
+      page = await this.client.getJson<BitbucketPage<T>>(page.next);
+      items.push(...page.values);
+    }
+
+    return items;
+  }
+
+  /**
+   * Get the API path of a repository
+   */
+  private getRepositoryPath(repository: VcsRepository): string {
+    return `repositories/${encodeURIComponent(repository.owner)}/${encodeURIComponent(repository.name)}`;
+  }
+
+  /**
+   * Map an API repository to a VcsRepository. Bitbucket Cloud has no archived repositories.
+   */
+  private toRepository(owner: string, repository: BitbucketRepository): VcsRepository {
+    const url = repository.links.html.href;
+    const cloneUrl =
+      repository.links.clone?.find(link => link.name === 'https')?.href || `${url}.git`;
+
+    return {
+      owner: repository.workspace?.slug || owner,
+      name: repository.slug,
+      fullName: `${repository.workspace?.slug || owner}/${repository.slug}`,
+      defaultBranch: repository.mainbranch?.name || 'main',
+      archived: false,
+      private: repository.is_private,
+      url,
+      cloneUrl,
+    };
+  }
+}
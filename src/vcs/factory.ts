@@ -1,6 +1,10 @@
 import { VcsPlatform } from '../types';
 import { GitHubService, GitHubServiceConfig } from './github';
 import { GitLabService, GitLabServiceConfig } from './gitlab';
+import { BitbucketService, BitbucketServiceConfig } from './bitbucket';
+import { BitbucketServerService, BitbucketServerServiceConfig } from './bitbucket-server';
+import { AzureDevOpsService, AzureDevOpsServiceConfig } from './azure-devops';
+import { GiteaService, GiteaServiceConfig } from './gitea';
 import { BaseVcsService } from './base';
 
 /**
@@ -25,6 +29,18 @@ export interface VcsServiceFactoryConfig {
   githubHost?: string;
   gitlabToken?: string;
   gitlabHost?: string;
+  bitbucketToken?: string;
+  bitbucketUsername?: string;
+  bitbucketAppPassword?: string;
+  /** Bitbucket Cloud API base URL, e.g. a proxy or a local stub */
+  bitbucketApiUrl?: string;
+  /** Bitbucket Server / Data Center URL, e.g. https://bitbucket.example.com */
+  bitbucketHost?: string;
+  azureDevOpsToken?: string;
+  /** Azure DevOps base URL, e.g. a proxy or a local stub */
+  azureDevOpsApiUrl?: string;
+  giteaToken?: string;
+  giteaHost?: string;
 }
 
 export class VcsServiceFactory {
@@ -44,13 +60,24 @@ export class VcsServiceFactory {
             `VCS factory should not be used for local filesystem.`
         );
 
-      case VcsPlatform.BITBUCKET:
-      case VcsPlatform.BITBUCKET_SELF_HOSTED:
+      case VcsPlatform.GIT:
         throw new Error(
-          `Platform ${config.platform} is not yet supported. ` +
-            `Currently supported platforms: github, github-self-hosted, gitlab, gitlab-self-hosted`
+          `Git remotes are cloned and scanned by GitRemoteScanner. ` +
+            `VCS factory should not be used for git remotes.`
         );
 
+      case VcsPlatform.BITBUCKET:
+        return VcsServiceFactory.createBitbucketService(config);
+
+      case VcsPlatform.BITBUCKET_SELF_HOSTED:
+        return VcsServiceFactory.createBitbucketServerService(config);
+
+      case VcsPlatform.AZURE_DEVOPS:
+        return VcsServiceFactory.createAzureDevOpsService(config);
+
+      case VcsPlatform.GITEA:
+        return VcsServiceFactory.createGiteaService(config);
+
       default:
         throw new Error(`Unknown platform: ${config.platform}`);
     }
@@ -94,12 +121,94 @@ export class VcsServiceFactory {
     return new GitLabService(gitlabConfig);
   }
 
+  private static createBitbucketService(config: VcsServiceFactoryConfig): BitbucketService {
+    const bitbucketConfig: BitbucketServiceConfig = {
+      platform: VcsPlatform.BITBUCKET,
+      token: config.bitbucketToken || process.env.BITBUCKET_TOKEN,
+      username: config.bitbucketUsername || process.env.BITBUCKET_USERNAME,
+      appPassword: config.bitbucketAppPassword || process.env.BITBUCKET_APP_PASSWORD,
+      apiUrl: config.bitbucketApiUrl,
+      debug: config.debug,
+      skipArchived: config.skipArchived,
+      maxRetries: config.maxRetries,
+      cacheEnabled: config.cacheEnabled,
+      repoPattern: config.repoPattern,
+      iacFileTypes: config.iacFileTypes,
+      maxConcurrentRepos: config.maxConcurrentRepos,
+      maxConcurrentFiles: config.maxConcurrentFiles,
+    };
+
+    return new BitbucketService(bitbucketConfig);
+  }
+
+  private static createBitbucketServerService(
+    config: VcsServiceFactoryConfig
+  ): BitbucketServerService {
+    const bitbucketServerConfig: BitbucketServerServiceConfig = {
+      platform: VcsPlatform.BITBUCKET_SELF_HOSTED,
+      host: config.bitbucketHost,
+      token: config.bitbucketToken || process.env.BITBUCKET_TOKEN,
+      username: config.bitbucketUsername || process.env.BITBUCKET_USERNAME,
+      password: config.bitbucketAppPassword || process.env.BITBUCKET_APP_PASSWORD,
+      debug: config.debug,
+      skipArchived: config.skipArchived,
+      maxRetries: config.maxRetries,
+      cacheEnabled: config.cacheEnabled,
+      repoPattern: config.repoPattern,
+      iacFileTypes: config.iacFileTypes,
+      maxConcurrentRepos: config.maxConcurrentRepos,
+      maxConcurrentFiles: config.maxConcurrentFiles,
+    };
+
+    return new BitbucketServerService(bitbucketServerConfig);
+  }
+
+  private static createAzureDevOpsService(config: VcsServiceFactoryConfig): AzureDevOpsService {
+    const azureDevOpsConfig: AzureDevOpsServiceConfig = {
+      platform: VcsPlatform.AZURE_DEVOPS,
+      token: config.azureDevOpsToken || process.env.AZURE_DEVOPS_TOKEN,
+      apiUrl: config.azureDevOpsApiUrl,
+      debug: config.debug,
+      skipArchived: config.skipArchived,
+      maxRetries: config.maxRetries,
+      cacheEnabled: config.cacheEnabled,
+      repoPattern: config.repoPattern,
+      iacFileTypes: config.iacFileTypes,
+      maxConcurrentRepos: config.maxConcurrentRepos,
+      maxConcurrentFiles: config.maxConcurrentFiles,
+    };
+
+    return new AzureDevOpsService(azureDevOpsConfig);
+  }
+
+  private static createGiteaService(config: VcsServiceFactoryConfig): GiteaService {
+    const giteaConfig: GiteaServiceConfig = {
+      platform: VcsPlatform.GITEA,
+      token: config.giteaToken || process.env.GITEA_TOKEN,
+      host: config.giteaHost,
+      debug: config.debug,
+      skipArchived: config.skipArchived,
+      maxRetries: config.maxRetries,
+      cacheEnabled: config.cacheEnabled,
+      repoPattern: config.repoPattern,
+      iacFileTypes: config.iacFileTypes,
+      maxConcurrentRepos: config.maxConcurrentRepos,
+      maxConcurrentFiles: config.maxConcurrentFiles,
+    };
+
+    return new GiteaService(giteaConfig);
+  }
+
   static getSupportedPlatforms(): VcsPlatform[] {
     return [
       VcsPlatform.GITHUB,
       VcsPlatform.GITHUB_SELF_HOSTED,
       VcsPlatform.GITLAB,
       VcsPlatform.GITLAB_SELF_HOSTED,
+      VcsPlatform.BITBUCKET,
+      VcsPlatform.BITBUCKET_SELF_HOSTED,
+      VcsPlatform.AZURE_DEVOPS,
+      VcsPlatform.GITEA,
     ];
   }
   static isPlatformSupported(platform: VcsPlatform): boolean {
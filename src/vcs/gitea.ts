@@ -0,0 +1,515 @@
+import * as dotenv from 'dotenv';
+import { BaseVcsService, BaseVcsConfig } from './base';
+import { VcsHttpClient } from './http-client';
+import {
+  IacFile,
+  IacFileType,
+  VcsChangeRequest,
+  VcsRepository,
+  VcsRepositoryFilter,
+  VcsFileDiscoveryOptions,
+  VcsPlatform,
+  VcsError,
+  VcsErrorType,
+} from '../types';
+import { processConcurrentlySettled } from '../utils/concurrent';
+import { isNotFoundError } from '../utils/error-handler';
+import { createRepositoryCacheKey } from '../utils/repository-mapper';
+import { API_DEFAULTS, VCS_CONSTANTS } from '../constants';
+
+dotenv.config({ quiet: true });
+
+interface GiteaRepository {
+  name: string;
+  full_name: string;
+  owner: {
+    login: string;
+  };
+  default_branch?: string;
+  archived: boolean;
+  private: boolean;
+  html_url: string;
+  clone_url: string;
+}
+
+interface GiteaTree {
+  sha: string;
+  tree: Array<{
+    path: string;
+    type: string; // 'blob', 'tree' or 'commit' (submodules)
+    size?: number;
+  }>;
+  truncated: boolean;
+}
+
+interface GiteaPullRequest {
+  number: number;
+  title: string;
+  html_url: string;
+  user?: {
+    login: string;
+  };
+  head: { ref: string; sha: string };
+  base: { ref: string; sha: string };
+  merge_base?: string;
+}
+
+export interface GiteaServiceConfig extends BaseVcsConfig {
+  token?: string;
+  /** Instance URL, e.g. https://gitea.example.com (default: https://gitea.com) */
+  host?: string;
+  repoPattern?: string;
+  iacFileTypes?: readonly IacFileType[];
+  maxConcurrentRepos?: number;
+  maxConcurrentFiles?: number;
+}
+
+/**
+ * Gitea and Forgejo service using the REST API v1
+ */
+export class GiteaService extends BaseVcsService {
+  private client: VcsHttpClient;
+  private host?: string;
+  private repoPattern: RegExp | null = null;
+  private iacFileTypes: readonly IacFileType[];
+  private maxConcurrentRepos: number;
+  private maxConcurrentFiles: number;
+
+  /**
+   * Get concurrency limits for parallel processing
+   */
+  protected getConcurrencyLimits(): { repos: number; files: number } {
+    return {
+      repos: this.maxConcurrentRepos,
+      files: this.maxConcurrentFiles,
+    };
+  }
+
+  constructor(config: GiteaServiceConfig) {
+    super({
+      platform: VcsPlatform.GITEA,
+      debug: config.debug,
+      skipArchived: config.skipArchived,
+      maxRetries: config.maxRetries,
+      cacheEnabled: config.cacheEnabled,
+    });
+
+    this.iacFileTypes = config.iacFileTypes || ['terraform', 'terragrunt'];
+    this.maxConcurrentRepos = config.maxConcurrentRepos || 5;
+    this.maxConcurrentFiles = config.maxConcurrentFiles || 10;
+
+    const token = config.token || process.env.GITEA_TOKEN;
+    if (!token) {
+      throw new VcsError(
+        'Gitea token not found. Please set GITEA_TOKEN environment variable',
+        VcsErrorType.INVALID_CONFIGURATION,
+        VcsPlatform.GITEA
+      );
+    }
+
+    this.initializeLogger();
+
+    // Initialize repository pattern filter if provided
+    if (config.repoPattern) {
+      try {
+        this.repoPattern = new RegExp(config.repoPattern);
+        this.logger.info(`Repository filter pattern initialized: ${config.repoPattern}`);
+      } catch (error) {
+        throw new VcsError(
+          `Invalid repository regex pattern: ${config.repoPattern}`,
+          VcsErrorType.INVALID_CONFIGURATION,
+          VcsPlatform.GITEA,
+          undefined,
+          error instanceof Error ? error : undefined
+        );
+      }
+    }
+
+    this.host = config.host?.replace(/\/+$/, '');
+    this.client = new VcsHttpClient({
+      baseUrl: `${this.host || VCS_CONSTANTS.GITEA_URL}/api/v1`,
+      headers: { Authorization: `token ${token}` },
+    });
+    this.logger.info(
+      `Gitea service initialized${this.host ? ` with custom host: ${this.host}` : ''}`
+    );
+  }
+
+  get platformName(): string {
+    return this.host ? `Gitea (${this.host})` : 'Gitea';
+  }
+
+  /**
+   * Check if a repository exists and is accessible
+   * @param owner Organization or user
+   * @param repo Repository name
+   * @returns true if exists, false if not
+   */
+  async repositoryExists(owner: string, repo: string): Promise<boolean | null> {
+    const repository = await this.getSingleRepository(owner, repo);
+    return repository !== null;
+  }
+
+  /**
+   * Get a single repository by owner and name
+   * @param owner Organization or user
+   * @param repo Repository name
+   * @returns Repository object or null if not found/archived
+   */
+  async getSingleRepository(owner: string, repo: string): Promise<VcsRepository | null> {
+    this.validateOwnerAndRepo(owner, repo);
+
+    const cacheKey = createRepositoryCacheKey('gitea', 'single-repo', owner, repo);
+    const cached = this.getCachedRepository(cacheKey);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    try {
+      this.logger.info(`Retrieving repository ${owner}/${repo}...`);
+
+      const data = await this.client.getJson<GiteaRepository>(this.getRepositoryPath(owner, repo));
+      const repository = this.toRepository(data);
+
+      // Skip archived repositories if specified
+      if (this.config.skipArchived && repository.archived) {
+        this.logger.info(`Skipping archived repository: ${owner}/${repo}`);
+        this.setCachedRepository(cacheKey, null);
+        return null;
+      }
+
+      this.setCachedRepository(cacheKey, repository);
+      return repository;
+    } catch (error) {
+      this.setCachedRepository(cacheKey, null);
+      if (isNotFoundError(error, this.platform)) {
+        return null;
+      }
+      this.handleError(error, 'getSingleRepository', { owner, repo });
+      return null;
+    }
+  }
+
+  /**
+   * Get all repositories of an organization, or of a user when no organization exists
+   * @param owner Organization or user
+   * @param filter Optional filtering criteria
+   */
+  async getRepositories(owner: string, filter?: VcsRepositoryFilter): Promise<VcsRepository[]> {
+    try {
+      this.logger.info(`Retrieving repositories for ${owner}...`);
+
+      let data: GiteaRepository[];
+      try {
+        data = await this.getAllPages<GiteaRepository>(`orgs/${encodeURIComponent(owner)}/repos`);
+      } catch (error) {
+        if (!isNotFoundError(error, this.platform)) {
+          throw error;
+        }
+        this.logger.info(`${owner} is not an organization, treating as a user`);
+        data = await this.getAllPages<GiteaRepository>(`users/${encodeURIComponent(owner)}/repos`);
+      }
+
+      const repositories: VcsRepository[] = [];
+      let skippedArchivedCount = 0;
+      let skippedPatternCount = 0;
+      for (const item of data) {
+        // Skip archived repositories if configured
+        if (this.config.skipArchived && item.archived) {
+          skippedArchivedCount++;
+          this.logger.debug(`Skipping archived repository: ${item.full_name}`);
+          continue;
+        }
+
+        // Filter by repository name pattern if specified
+        if (this.repoPattern && !this.repoPattern.test(item.name)) {
+          skippedPatternCount++;
+          this.logger.debug(`Repository ${item.name} doesn't match pattern ${this.repoPattern}`);
+          continue;
+        }
+        repositories.push(this.toRepository(item));
+      }
+
+      this.logger.info(
+        `Found ${repositories.length} repositories for ${owner} ` +
+          `(filtered out ${skippedArchivedCount} archived, ${skippedPatternCount} by pattern)`
+      );
+
+      // Apply additional filtering using base class method
+      return this.filterRepositories(repositories, filter);
+    } catch (error) {
+      this.handleError(error, 'getRepositories', { owner });
+      return [];
+    }
+  }
+
+  /**
+   * Find all IaC files in a repository
+   * @param repository Repository information
+   * @param options File discovery options
+   */
+  async findIacFilesInRepository(
+    repository: VcsRepository,
+    options?: VcsFileDiscoveryOptions
+  ): Promise<IacFile[]> {
+    try {
+      this.logger.info(`Getting IaC files from ${repository.fullName}...`);
+
+      // Use configured file types or options
+      const fileTypes = options?.fileTypes || this.iacFileTypes;
+      const repositoryPath = this.getRepositoryPath(repository.owner, repository.name);
+
+      // Pin the scan to a commit, so files are read from the same tree that was listed
+      const ref = this.resolveRef(repository, options);
+      const commits = await this.client.getJson<Array<{ sha: string }>>(
+        `${repositoryPath}/commits`,
+        { sha: ref || repository.defaultBranch, limit: 1, stat: false, files: false }
+      );
+      if (commits.length === 0) {
+        this.logger.info(`No commits found in ${repository.fullName}`);
+        return [];
+      }
+      const commit = commits[0].sha;
+      if (ref) {
+        this.logger.info(`Scanning ${repository.fullName} at ${ref} (${commit})`);
+      }
+
+      const entries = await this.getTree(repositoryPath, commit);
+      const iacFiles = entries
+        .filter(
+          entry =>
+            entry.type === 'blob' &&
+            this.shouldIncludeFile(entry.path, { fileTypes: [...fileTypes], ...options })
+        )
+        .map(entry => ({
+          path: entry.path,
+          size: entry.size,
+          type: this.getIacFileType(entry.path)!,
+        }));
+
+      // Apply max files limit if specified
+      const limitedFiles = options?.maxFiles ? iacFiles.slice(0, options.maxFiles) : iacFiles;
+
+      if (limitedFiles.length === 0) {
+        this.logger.info(`No IaC files found in ${repository.fullName}`);
+        return [];
+      }
+
+      const terraformCount = limitedFiles.filter(f => f.type === 'terraform').length;
+      const terragruntCount = limitedFiles.filter(f => f.type === 'terragrunt').length;
+      this.logger.info(
+        `Found ${limitedFiles.length} IaC files in ${repository.fullName} ` +
+          `(${terraformCount} Terraform, ${terragruntCount} Terragrunt)`
+      );
+
+      // Link the default branch, or the scanned commit when it is unknown whether
+      // a ref names a branch, tag or commit
+      const webRef = ref ? `commit/${commit}` : `branch/${repository.defaultBranch}`;
+
+      // Get content for each file in parallel
+      const concurrency = this.getConcurrencyLimits();
+      const fileProcessingResult = await processConcurrentlySettled(
+        limitedFiles,
+        async file => {
+          const content = await this.client.getText(
+            `${repositoryPath}/raw/${encodeURI(file.path)}`,
+            { ref: commit }
+          );
+
+          return {
+            type: file.type,
+            repository: repository.fullName,
+            path: file.path,
+            content,
+            url: `${repository.url}/src/${webRef}/${file.path}`,
+            size: file.size,
+          } as IacFile;
+        },
+        concurrency.files
+      );
+
+      // Log any file processing errors
+      fileProcessingResult.errors.forEach((error, index) => {
+        if (error !== null) {
+          this.logger.errorWithStack(
+            `Error getting content for ${limitedFiles[index].path} in ${repository.fullName}`,
+            error
+          );
+        }
+      });
+
+      return fileProcessingResult.results.filter((file): file is IacFile => file !== null);
+    } catch (error) {
+      this.handleError(error, 'findIacFilesInRepository', { repository: repository.fullName });
+      return [];
+    }
+  }
+
+  /**
+   * List the tag names of a repository
+   * @param owner Organization or user
+   * @param repo Repository name
+   */
+  async listTags(owner: string, repo: string): Promise<string[]> {
+    this.validateOwnerAndRepo(owner, repo);
+
+    try {
+      const tags = await this.getAllPages<{ name: string }>(
+        `${this.getRepositoryPath(owner, repo)}/tags`
+      );
+
+      this.logger.debug(`Found ${tags.length} tags in ${owner}/${repo}`);
+      return tags.map(tag => tag.name);
+    } catch (error) {
+      this.handleError(error, 'listTags', { owner, repo });
+      return [];
+    }
+  }
+
+  /**
+   * Get a pull request of a repository
+   * @param owner Organization or user
+   * @param repo Repository name
+   * @param number Pull request number
+   * @returns The pull request, or null if it does not exist
+   */
+  async getChangeRequest(
+    owner: string,
+    repo: string,
+    number: number
+  ): Promise<VcsChangeRequest | null> {
+    this.validateOwnerAndRepo(owner, repo);
+
+    try {
+      const pullRequest = await this.client.getJson<GiteaPullRequest>(
+        `${this.getRepositoryPath(owner, repo)}/pulls/${number}`
+      );
+      return this.toChangeRequest(pullRequest);
+    } catch (error) {
+      if (isNotFoundError(error, this.platform)) {
+        return null;
+      }
+      this.handleError(error, 'getChangeRequest', { owner, repo, number });
+      return null;
+    }
+  }
+
+  /**
+   * List the open pull requests of a repository
+   * @param owner Organization or user
+   * @param repo Repository name
+   */
+  async listOpenChangeRequests(owner: string, repo: string): Promise<VcsChangeRequest[]> {
+    this.validateOwnerAndRepo(owner, repo);
+
+    try {
+      const pullRequests = await this.getAllPages<GiteaPullRequest>(
+        `${this.getRepositoryPath(owner, repo)}/pulls`,
+        { state: 'open' }
+      );
+
+      this.logger.debug(`Found ${pullRequests.length} open pull requests in ${owner}/${repo}`);
+
+      const changeRequests: VcsChangeRequest[] = [];
+      for (const pullRequest of pullRequests) {
+        // Listed pull requests may leave out the merge base, single pull requests include it
+        const details = pullRequest.merge_base
+          ? pullRequest
+          : await this.client.getJson<GiteaPullRequest>(
+              `${this.getRepositoryPath(owner, repo)}/pulls/${pullRequest.number}`
+            );
+        changeRequests.push(this.toChangeRequest(details));
+      }
+      return changeRequests;
+    } catch (error) {
+      this.handleError(error, 'listOpenChangeRequests', { owner, repo });
+      return [];
+    }
+  }
+
+  /**
+   * Map a pull request to a change request, compared against its merge base
+   * @throws VcsError when the pull request has no merge base
+   */
+  private toChangeRequest(pullRequest: GiteaPullRequest): VcsChangeRequest {
+    // The base branch commit would include changes made after the pull request branched off
+    if (!pullRequest.merge_base) {
+      throw new VcsError(
+        `Merge base of pull request #${pullRequest.number} not returned by ${this.platformName}`,
+        VcsErrorType.PLATFORM_ERROR,
+        this.platform
+      );
+    }
+
+    return {
+      number: pullRequest.number,
+      title: pullRequest.title,
+      url: pullRequest.html_url,
+      author: pullRequest.user?.login,
+      sourceBranch: pullRequest.head.ref,
+      targetBranch: pullRequest.base.ref,
+      headRef: pullRequest.head.sha,
+      baseRef: pullRequest.merge_base,
+    };
+  }
+
+  /**
+   * Get the recursive git tree of a commit, following the pages of truncated trees
+   */
+  private async getTree(repositoryPath: string, commit: string): Promise<GiteaTree['tree']> {
+    const entries: GiteaTree['tree'] = [];
+
+    for (let page = 1; ; page++) {
+      const tree = await this.client.getJson<GiteaTree>(`${repositoryPath}/git/trees/${commit}`, {
+        recursive: true,
+        page,
+      });
+      entries.push(...tree.tree);
+      if (!tree.truncated || tree.tree.length === 0) {
+        return entries;
+      }
+    }
+  }
+
+  /**
+   * Get all items of a paginated endpoint, requesting pages until one is not full
+   */
+  private async getAllPages<T>(
+    path: string,
+    query?: Record<string, string | number | undefined>
+  ): Promise<T[]> {
+    const items: T[] = [];
+    const limit = API_DEFAULTS.GITEA_PER_PAGE;
+
+    for (let page = 1; ; page++) {
+      const values = await this.client.getJson<T[]>(path, { ...query, page, limit });
+      items.push(...values);
+      if (values.length < limit) {
+        return items;
+      }
+    }
+  }
+
+  /**
+   * Get the API path of a repository
+   */
+  private getRepositoryPath(owner: string, repo: string): string {
+    return `repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`;
+  }
+
+  /**
+   * Map an API repository to a VcsRepository
+   */
+  private toRepository(repository: GiteaRepository): VcsRepository {
+    return {
+      owner: repository.owner.login,
+      name: repository.name,
+      fullName: repository.full_name,
+      defaultBranch: repository.default_branch || 'main',
+      archived: repository.archived,
+      private: repository.private,
+      url: repository.html_url,
+      cloneUrl: repository.clone_url,
+    };
+  }
+}
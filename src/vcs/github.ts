@@ -5,6 +5,7 @@ import { BaseVcsService, BaseVcsConfig } from './base';
 import {
   IacFile,
   IacFileType,
+  VcsChangeRequest,
   VcsRepository,
   VcsRepositoryFilter,
   VcsFileDiscoveryOptions,
@@ -36,6 +37,104 @@ interface GitHubRepo {
   clone_url: string;
 }
 
+interface GitHubGraphqlRepository {
+  name: string;
+  nameWithOwner: string;
+  owner: {
+    login: string;
+  };
+  defaultBranchRef: {
+    name: string;
+  } | null;
+  isArchived: boolean;
+  isPrivate: boolean;
+  url: string;
+  pushedAt: string | null;
+  primaryLanguage: {
+    name: string;
+  } | null;
+  repositoryTopics: {
+    nodes: Array<{ topic: { name: string } }>;
+  };
+}
+
+interface GitHubGraphqlRepositoryConnection {
+  pageInfo: {
+    hasNextPage: boolean;
+    endCursor: string | null;
+  };
+  nodes: GitHubGraphqlRepository[];
+}
+
+const GRAPHQL_REPOSITORY_FIELDS = `
+  fragment RepositoryFields on Repository {
+    name
+    nameWithOwner
+    owner { login }
+    defaultBranchRef { name }
+    isArchived
+    isPrivate
+    url
+    pushedAt
+    primaryLanguage { name }
+    repositoryTopics(first: 100) { nodes { topic { name } } }
+  }
+`;
+
+// Repositories are listed most recently pushed first, so listing can stop at the pushed date
+const GRAPHQL_OWNER_REPOSITORIES_QUERY = `
+  query ($owner: String!, $first: Int!, $cursor: String, $privacy: RepositoryPrivacy) {
+    repositoryOwner(login: $owner) {
+      repositories(
+        first: $first
+        after: $cursor
+        ownerAffiliations: [OWNER]
+        privacy: $privacy
+        orderBy: { field: PUSHED_AT, direction: DESC }
+      ) {
+        pageInfo { hasNextPage endCursor }
+        nodes { ...RepositoryFields }
+      }
+    }
+  }
+  ${GRAPHQL_REPOSITORY_FIELDS}
+`;
+
+const GRAPHQL_TEAM_REPOSITORIES_QUERY = `
+  query ($owner: String!, $team: String!, $first: Int!, $cursor: String) {
+    organization(login: $owner) {
+      team(slug: $team) {
+        repositories(
+          first: $first
+          after: $cursor
+          orderBy: { field: PUSHED_AT, direction: DESC }
+        ) {
+          pageInfo { hasNextPage endCursor }
+          nodes { ...RepositoryFields }
+        }
+      }
+    }
+  }
+  ${GRAPHQL_REPOSITORY_FIELDS}
+`;
+
+interface GitHubPullRequest {
+  number: number;
+  title: string;
+  html_url: string;
+  user: {
+    login: string;
+  } | null;
+  head: {
+    ref: string;
+    sha: string;
+  };
+  base: {
+    ref: string;
+    sha: string;
+  };
+}
+
 interface GitHubTreeItem {
   path?: string;
   mode?: string;
@@ -63,6 +162,7 @@ export class GitHubService extends BaseVcsService {
   private maxConcurrentRepos: number;
   private maxConcurrentFiles: number;
   private host?: string;
+  private token: string;
 
   protected getConcurrencyLimits(): { repos: number; files: number } {
     return {
@@ -96,6 +196,7 @@ export class GitHubService extends BaseVcsService {
       );
     }
 
+    this.token = token;
     this.initializeLogger();
 
     // Initialize repository pattern filter if provided
@@ -266,6 +367,14 @@ export class GitHubService extends BaseVcsService {
 
   async getRepositories(owner: string, filter?: VcsRepositoryFilter): Promise<VcsRepository[]> {
     try {
+      // Topic, language, team and pushed date filters need the fields of the GraphQL API
+      if (
+        filter &&
+        (filter.topics?.length || filter.language || filter.team || filter.pushedAfter)
+      ) {
+        return await this.getRepositoriesWithGraphql(owner, filter);
+      }
+
       this.logger.info(`Retrieving repositories for ${owner}...`);
 
       const repositories: VcsRepository[] = [];
@@ -388,6 +497,154 @@ export class GitHubService extends BaseVcsService {
     }
   }
 
+  /**
+   * List the repositories of an owner, or of a team of the owner organization, through the
+   * GraphQL API and keep those matching the topic, language and pushed date filters
+   * @param owner Organization or user name
+   * @param filter Filtering criteria
+   */
+  private async getRepositoriesWithGraphql(
+    owner: string,
+    filter: VcsRepositoryFilter
+  ): Promise<VcsRepository[]> {
+    const target = filter.team ? `team ${owner}/${filter.team}` : owner;
+    this.logger.info(`Retrieving repositories for ${target} with GraphQL...`);
+
+    const repositories: VcsRepository[] = [];
+    const maxRepos = filter.maxRepositories;
+    const topics = filter.topics?.map(topic => topic.toLowerCase());
+    const language = filter.language?.toLowerCase();
+    let skippedArchivedCount = 0;
+    let skippedFilterCount = 0;
+    let cursor: string | null = null;
+    let currentPage = 1;
+
+    do {
+      const connection: GitHubGraphqlRepositoryConnection = await this.queryRepositories(
+        owner,
+        filter,
+        cursor
+      );
+      cursor = connection.pageInfo.hasNextPage ? connection.pageInfo.endCursor : null;
+
+      for (const node of connection.nodes) {
+        // The remaining repositories were pushed to even earlier
+        if (
+          filter.pushedAfter &&
+          (!node.pushedAt || new Date(node.pushedAt) < filter.pushedAfter)
+        ) {
+          this.logger.debug(
+            `Reached repositories pushed before ${filter.pushedAfter.toISOString()}`
+          );
+          cursor = null;
+          break;
+        }
+
+        // Skip if already processed (avoids duplicate logging)
+        if (this.processedRepoCache.has(node.nameWithOwner)) {
+          continue;
+        }
+        this.processedRepoCache.add(node.nameWithOwner);
+
+        if (this.config.skipArchived && node.isArchived) {
+          skippedArchivedCount++;
+          this.logger.debug(`Skipping archived repository: ${node.nameWithOwner}`);
+          continue;
+        }
+
+        const nodeTopics = node.repositoryTopics.nodes.map(({ topic }) => topic.name.toLowerCase());
+        if (
+          (this.repoPattern && !this.repoPattern.test(node.name)) ||
+          (topics && !topics.some(topic => nodeTopics.includes(topic))) ||
+          (language && node.primaryLanguage?.name.toLowerCase() !== language)
+        ) {
+          skippedFilterCount++;
+          this.logger.debug(`Repository ${node.nameWithOwner} doesn't match the filters`);
+          continue;
+        }
+
+        repositories.push(
+          mapToVcsRepository(
+            createGitHubRawRepository({
+              name: node.name,
+              full_name: node.nameWithOwner,
+              owner: node.owner,
+              default_branch: node.defaultBranchRef?.name || 'main',
+              archived: node.isArchived,
+              private: node.isPrivate,
+              html_url: node.url,
+              clone_url: `${node.url}.git`,
+            })
+          )
+        );
+
+        if (maxRepos && repositories.length >= maxRepos) {
+          this.logger.info(`Reached maximum repository limit (${maxRepos}), stopping retrieval`);
+          cursor = null;
+          break;
+        }
+      }
+
+      this.logger.info(
+        `Retrieved page ${currentPage}, skipped ${skippedArchivedCount} archived repos, filtered out ${skippedFilterCount}, total matching: ${repositories.length}`
+      );
+      currentPage++;
+    } while (cursor);
+
+    this.logger.info(
+      `Found ${repositories.length} active repositories for ${target} (skipped ${skippedArchivedCount} archived, filtered out ${skippedFilterCount} by filters)`
+    );
+    return this.filterRepositories(repositories, filter);
+  }
+
+  /**
+   * Query a page of the repositories of an owner, or of a team when the filter has one
+   * @param owner Organization or user name
+   * @param filter Filtering criteria; the team and visibility select the repositories
+   * @param cursor Cursor of the page, null for the first page
+   * @throws VcsError when the owner or team does not exist
+   */
+  private async queryRepositories(
+    owner: string,
+    filter: VcsRepositoryFilter,
+    cursor: string | null
+  ): Promise<GitHubGraphqlRepositoryConnection> {
+    const first = API_DEFAULTS.GITHUB_PER_PAGE;
+
+    if (filter.team) {
+      const response = await this.octokit.graphql<{
+        organization: { team: { repositories: GitHubGraphqlRepositoryConnection } | null } | null;
+      }>(GRAPHQL_TEAM_REPOSITORIES_QUERY, { owner, team: filter.team, first, cursor });
+
+      if (!response.organization?.team) {
+        throw new VcsError(
+          `Team '${filter.team}' not found in organization '${owner}'`,
+          VcsErrorType.RESOURCE_NOT_FOUND,
+          this.platform
+        );
+      }
+      // Team repositories cannot be selected by visibility, filterRepositories handles it
+      return response.organization.team.repositories;
+    }
+
+    const privacy =
+      filter.visibility === 'public' || filter.visibility === 'private'
+        ? filter.visibility.toUpperCase()
+        : null;
+    const response = await this.octokit.graphql<{
+      repositoryOwner: { repositories: GitHubGraphqlRepositoryConnection } | null;
+    }>(GRAPHQL_OWNER_REPOSITORIES_QUERY, { owner, first, cursor, privacy });
+
+    if (!response.repositoryOwner) {
+      throw new VcsError(
+        `Organization or user '${owner}' not found`,
+        VcsErrorType.RESOURCE_NOT_FOUND,
+        this.platform
+      );
+    }
+    return response.repositoryOwner.repositories;
+  }
+
   async findIacFilesInRepository(
     repository: VcsRepository,
     options?: VcsFileDiscoveryOptions
@@ -398,23 +655,43 @@ export class GitHubService extends BaseVcsService {
       // Use configured file types or options
       const fileTypes = options?.fileTypes || this.iacFileTypes;
 
-      // Get reference to the default branch
-      const reference = await this.octokit.git.getRef({
-        owner: repository.owner,
-        repo: repository.name,
-        ref: `heads/${repository.defaultBranch}`,
-      });
+      const ref = this.resolveRef(repository, options);
+      if (options?.fetchMode === 'clone' || options?.fetchMode === 'archive') {
+        return await this.findIacFilesLocally(repository, ref, options);
+      }
 
-      const commitSha = reference.data.object.sha;
+      let commitSha: string;
+      let treeSha: string;
 
-      // Get the commit
-      const commit = await this.octokit.git.getCommit({
-        owner: repository.owner,
-        repo: repository.name,
-        commit_sha: commitSha,
-      });
+      if (ref) {
+        // Branches, tags and commit SHAs all resolve through the commits API
+        const commit = await this.octokit.repos.getCommit({
+          owner: repository.owner,
+          repo: repository.name,
+          ref,
+        });
+        commitSha = commit.data.sha;
+        treeSha = commit.data.commit.tree.sha;
+        this.logger.info(`Scanning ${repository.fullName} at ${ref} (${commitSha})`);
+      } else {
+        // Get reference to the default branch
+        const reference = await this.octokit.git.getRef({
+          owner: repository.owner,
+          repo: repository.name,
+          ref: `heads/${repository.defaultBranch}`,
+        });
 
-      const treeSha = commit.data.tree.sha;
+        commitSha = reference.data.object.sha;
+
+        // Get the commit
+        const commit = await this.octokit.git.getCommit({
+          owner: repository.owner,
+          repo: repository.name,
+          commit_sha: commitSha,
+        });
+
+        treeSha = commit.data.tree.sha;
+      }
 
       // Get the recursive tree
       const tree = await this.octokit.git.getTree({
@@ -438,7 +715,11 @@ export class GitHubService extends BaseVcsService {
             const fileType = this.getIacFileType(item.path as string)!;
             return {
               path: item.path as string,
-              url: `https://github.com/${repository.fullName}/blob/${repository.defaultBranch}/${item.path}`,
+              url: this.getFileUrl(
+                repository,
+                ref || repository.defaultBranch,
+                item.path as string
+              ),
               sha: item.sha as string,
               type: fileType,
             };
@@ -477,7 +758,13 @@ export class GitHubService extends BaseVcsService {
             );
           }
 
-          const content = await this.getFileContent(repository.owner, repository.name, file.path);
+          // Read the files of the scanned commit, not whatever the ref points at by now
+          const content = await this.getFileContent(
+            repository.owner,
+            repository.name,
+            file.path,
+            ref ? commitSha : undefined
+          );
           return {
             type: file.type,
             repository: repository.fullName,
@@ -557,12 +844,189 @@ export class GitHubService extends BaseVcsService {
     }
   }
 
-  private async getFileContent(owner: string, repo: string, path: string): Promise<string> {
+  /**
+   * List the tag names of a repository
+   * @param owner Repository owner
+   * @param repo Repository name
+   */
+  async listTags(owner: string, repo: string): Promise<string[]> {
+    this.validateOwnerAndRepo(owner, repo);
+
+    try {
+      const perPage = API_DEFAULTS.GITHUB_PER_PAGE;
+      const tags: string[] = [];
+
+      for (let page = 1; ; page++) {
+        const response = await this.octokit.repos.listTags({
+          owner,
+          repo,
+          per_page: perPage,
+          page,
+        });
+        tags.push(...response.data.map(tag => tag.name));
+        if (response.data.length < perPage) {
+          break;
+        }
+      }
+
+      this.logger.debug(`Found ${tags.length} tags in ${owner}/${repo}`);
+      return tags;
+    } catch (error) {
+      this.handleError(error, 'listTags', { owner, repo });
+      return [];
+    }
+  }
+
+  /**
+   * Get a pull request of a repository
+   * @param owner Repository owner
+   * @param repo Repository name
+   * @param number Pull request number
+   * @returns The pull request, or null if it does not exist
+   */
+  async getChangeRequest(
+    owner: string,
+    repo: string,
+    number: number
+  ): Promise<VcsChangeRequest | null> {
+    this.validateOwnerAndRepo(owner, repo);
+
+    try {
+      const response = await this.octokit.pulls.get({ owner, repo, pull_number: number });
+      return await this.toChangeRequest(owner, repo, response.data);
+    } catch (error) {
+      if (isNotFoundError(error, this.platform)) {
+        return null;
+      }
+      this.handleError(error, 'getChangeRequest', { owner, repo, number });
+      return null;
+    }
+  }
+
+  /**
+   * List the open pull requests of a repository
+   * @param owner Repository owner
+   * @param repo Repository name
+   */
+  async listOpenChangeRequests(owner: string, repo: string): Promise<VcsChangeRequest[]> {
+    this.validateOwnerAndRepo(owner, repo);
+
+    try {
+      const perPage = API_DEFAULTS.GITHUB_PER_PAGE;
+      const pullRequests: GitHubPullRequest[] = [];
+
+      for (let page = 1; ; page++) {
+        const response = await this.octokit.pulls.list({
+          owner,
+          repo,
+          state: 'open',
+          per_page: perPage,
+          page,
+        });
+        pullRequests.push(...response.data);
+        if (response.data.length < perPage) {
+          break;
+        }
+      }
+
+      this.logger.debug(`Found ${pullRequests.length} open pull requests in ${owner}/${repo}`);
+
+      const changeRequests: VcsChangeRequest[] = [];
+      for (const pullRequest of pullRequests) {
+        changeRequests.push(await this.toChangeRequest(owner, repo, pullRequest));
+      }
+      return changeRequests;
+    } catch (error) {
+      this.handleError(error, 'listOpenChangeRequests', { owner, repo });
+      return [];
+    }
+  }
+
+  /**
+   * Map a pull request to a change request. The base ref is the merge base of the pull
+   * request, so commits added to the base branch after it was opened are not reported as
+   * changes of the pull request.
+   */
+  private async toChangeRequest(
+    owner: string,
+    repo: string,
+    pullRequest: GitHubPullRequest
+  ): Promise<VcsChangeRequest> {
+    const comparison = await this.octokit.repos.compareCommitsWithBasehead({
+      owner,
+      repo,
+      basehead: `${pullRequest.base.sha}...${pullRequest.head.sha}`,
+      per_page: 1,
+    });
+
+    return {
+      number: pullRequest.number,
+      title: pullRequest.title,
+      url: pullRequest.html_url,
+      author: pullRequest.user?.login,
+      sourceBranch: pullRequest.head.ref,
+      targetBranch: pullRequest.base.ref,
+      headRef: pullRequest.head.sha,
+      baseRef: comparison.data.merge_base_commit.sha,
+    };
+  }
+
+  /**
+   * Find the IaC files of a repository in a shallow clone or tarball of the scanned ref,
+   * with one request per repository instead of one per file
+   * @param ref Ref to scan, or undefined for the default branch
+   */
+  private async findIacFilesLocally(
+    repository: VcsRepository,
+    ref: string | undefined,
+    options: VcsFileDiscoveryOptions
+  ): Promise<IacFile[]> {
+    const target = ref || repository.defaultBranch;
+    const getUrl = (path: string): string => this.getFileUrl(repository, target, path);
+
+    if (options.fetchMode === 'clone') {
+      const credentials = Buffer.from(`x-access-token:${this.token}`).toString('base64');
+      return this.findIacFilesInClone(
+        repository,
+        { cloneUrl: repository.cloneUrl, ref: target, authorization: `Basic ${credentials}` },
+        options,
+        getUrl
+      );
+    }
+
+    // The tarball endpoint redirects to a download of the archive
+    const response = await this.octokit.repos.downloadTarballArchive({
+      owner: repository.owner,
+      repo: repository.name,
+      ref: target,
+    });
+    return this.findIacFilesInArchive(
+      repository,
+      Buffer.from(response.data as ArrayBuffer),
+      options,
+      getUrl
+    );
+  }
+
+  /**
+   * Get the link of a file at a branch, tag or commit
+   */
+  private getFileUrl(repository: VcsRepository, ref: string, path: string): string {
+    return `https://github.com/${repository.fullName}/blob/${ref}/${path}`;
+  }
+
+  private async getFileContent(
+    owner: string,
+    repo: string,
+    path: string,
+    ref?: string
+  ): Promise<string> {
     try {
       const response = await this.octokit.repos.getContent({
         owner,
         repo,
         path,
+        ...(ref && { ref }),
       });
 
       // The content is base64 encoded
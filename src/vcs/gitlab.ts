@@ -4,6 +4,7 @@ import { BaseVcsService, BaseVcsConfig } from './base';
 import {
   IacFile,
   IacFileType,
+  VcsChangeRequest,
   VcsRepository,
   VcsRepositoryFilter,
   VcsFileDiscoveryOptions,
@@ -32,6 +33,7 @@ interface GitLabProject {
   namespace: {
     name: string;
     path: string;
+    full_path?: string;
   };
 }
 
@@ -43,6 +45,23 @@ interface GitLabTreeItem {
   mode: string;
 }
 
+interface GitLabMergeRequest {
+  iid: number;
+  title: string;
+  web_url: string;
+  author?: {
+    username: string;
+  };
+  source_branch: string;
+  target_branch: string;
+  sha: string;
+  diff_refs?: {
+    base_sha: string;
+    head_sha: string;
+    start_sha: string;
+  } | null;
+}
+
 export interface GitLabServiceConfig extends BaseVcsConfig {
   token: string;
   host?: string;
@@ -60,6 +79,7 @@ export class GitLabService extends BaseVcsService {
   private maxConcurrentRepos: number;
   private maxConcurrentFiles: number;
   private host?: string;
+  private token: string;
 
   /**
    * Get concurrency limits for parallel processing
@@ -96,6 +116,7 @@ export class GitLabService extends BaseVcsService {
       );
     }
 
+    this.token = token;
     this.initializeLogger();
 
     // Initialize repository pattern filter if provided
@@ -122,6 +143,13 @@ export class GitLabService extends BaseVcsService {
     return this.host ? `GitLab (${this.host})` : 'GitLab';
   }
 
+  /**
+   * GitLab calls change requests merge requests, e.g. merge request !5
+   */
+  get changeRequestTerms(): { label: string; prefix: string } {
+    return { label: 'merge request', prefix: '!' };
+  }
+
   /**
    * Initialize GitLab client with appropriate configuration
    */
@@ -263,28 +291,24 @@ export class GitLabService extends BaseVcsService {
         this.logger.info(`${owner} is not a group, treating as a user`);
       }
 
-      // Get projects - use the Projects API to list projects
-      // Note: We get all projects and filter them client-side since the API
-      // pagination parameters are complex and vary by GitLab version
-      const allProjects = (await this.gitlab.Projects.all({
-        maxPages: API_DEFAULTS.GITLAB_MAX_PAGES, // Limit to prevent excessive API calls
-        perPage: API_DEFAULTS.GITLAB_PER_PAGE,
-      })) as GitLabProject[];
-
-      // Filter projects by ownership (group or user)
-      const projects = allProjects.filter(project => {
-        if (isGroup) {
-          // For groups, check if the project belongs to the group
-          return (
-            project.namespace.path === owner || project.path_with_namespace.startsWith(`${owner}/`)
-          );
-        } else {
-          // For users, check if the project belongs to the user
-          return project.namespace.path === owner;
-        }
-      });
+      // Group projects are listed through the group endpoint, which pages through every
+      // project of the group (and of its nested subgroups unless disabled)
+      const includeSubgroups = filter?.includeSubgroups !== false;
+      const projects = (
+        isGroup
+          ? await this.gitlab.Groups.allProjects(owner, {
+              includeSubgroups,
+              withShared: false,
+              perPage: API_DEFAULTS.GITLAB_PER_PAGE,
+            })
+          : await this.gitlab.Users.allProjects(owner, {
+              perPage: API_DEFAULTS.GITLAB_PER_PAGE,
+            })
+      ) as GitLabProject[];
 
-      this.logger.info(`Found ${projects.length} total projects for ${owner}`);
+      this.logger.info(
+        `Found ${projects.length} total projects for ${owner}${isGroup && includeSubgroups ? ' and its subgroups' : ''}`
+      );
 
       // Filter repositories based on criteria
       for (const project of projects) {
@@ -311,7 +335,7 @@ export class GitLabService extends BaseVcsService {
         }
 
         const repository: VcsRepository = {
-          owner: String(project.namespace.path),
+          owner: String(project.namespace.full_path || project.namespace.path),
           name: String(project.path),
           fullName: String(project.path_with_namespace),
           defaultBranch: String(project.default_branch || 'main'),
@@ -358,10 +382,25 @@ export class GitLabService extends BaseVcsService {
       // Use configured file types or options
       const fileTypes = options?.fileTypes || this.iacFileTypes;
 
+      const ref = this.resolveRef(repository, options) || repository.defaultBranch;
+      if (ref !== repository.defaultBranch) {
+        this.logger.info(`Scanning ${repository.fullName} at ${ref}`);
+      }
+
+      if (options?.fetchMode === 'clone' || options?.fetchMode === 'archive') {
+        return await this.findIacFilesLocally(repository, ref, options);
+      }
+
+      // Read the tree and every file at one commit, so a push during the scan cannot mix
+      // two trees; links keep the ref name
+      const commit = await this.gitlab.Commits.show(repository.fullName, ref);
+      const commitSha = String(commit.id);
+      this.logger.debug(`Scanning ${repository.fullName} at ${ref} (${commitSha})`);
+
       // Get the repository tree recursively
       const tree = (await this.gitlab.Repositories.allRepositoryTrees(repository.fullName, {
         recursive: true,
-        ref: repository.defaultBranch,
+        ref: commitSha,
       })) as GitLabTreeItem[];
 
       // Filter for IaC files based on options
@@ -415,8 +454,8 @@ export class GitLabService extends BaseVcsService {
             );
           }
 
-          const content = await this.getFileContent(repository.fullName, file.path);
-          const url = `${repository.url}/-/blob/${repository.defaultBranch}/${file.path}`;
+          const content = await this.getFileContent(repository.fullName, file.path, commitSha);
+          const url = this.getFileUrl(repository, ref, file.path);
 
           return {
             type: file.type,
@@ -462,14 +501,157 @@ export class GitLabService extends BaseVcsService {
     }
   }
 
+  /**
+   * Find the IaC files of a project in a shallow clone or archive of the scanned ref,
+   * with one request per project instead of one per file
+   * @param ref Branch, tag or commit SHA to scan
+   */
+  private async findIacFilesLocally(
+    repository: VcsRepository,
+    ref: string,
+    options: VcsFileDiscoveryOptions
+  ): Promise<IacFile[]> {
+    const getUrl = (path: string): string => this.getFileUrl(repository, ref, path);
+
+    if (options.fetchMode === 'clone') {
+      // GitLab accepts access tokens as the password of any user name
+      const credentials = Buffer.from(`oauth2:${this.token}`).toString('base64');
+      return this.findIacFilesInClone(
+        repository,
+        { cloneUrl: repository.cloneUrl, ref, authorization: `Basic ${credentials}` },
+        options,
+        getUrl
+      );
+    }
+
+    const archive = await this.gitlab.Repositories.showArchive(repository.fullName, {
+      fileType: 'tar.gz',
+      sha: ref,
+    });
+    return this.findIacFilesInArchive(
+      repository,
+      Buffer.from(await archive.arrayBuffer()),
+      options,
+      getUrl
+    );
+  }
+
+  /**
+   * Get the link of a file at a branch, tag or commit
+   */
+  private getFileUrl(repository: VcsRepository, ref: string, path: string): string {
+    return `${repository.url}/-/blob/${ref}/${path}`;
+  }
+
+  /**
+   * List the tag names of a project
+   * @param owner Project group or user, including subgroups
+   * @param repo Project name
+   */
+  async listTags(owner: string, repo: string): Promise<string[]> {
+    this.validateOwnerAndRepo(owner, repo);
+
+    try {
+      const tags = (await this.gitlab.Tags.all(`${owner}/${repo}`, {
+        perPage: API_DEFAULTS.GITLAB_PER_PAGE,
+      })) as Array<{ name: string }>;
+
+      this.logger.debug(`Found ${tags.length} tags in ${owner}/${repo}`);
+      return tags.map(tag => tag.name);
+    } catch (error) {
+      this.handleError(error, 'listTags', { owner, repo });
+      return [];
+    }
+  }
+
+  /**
+   * Get a merge request of a project
+   * @param owner Project group or user, including subgroups
+   * @param repo Project name
+   * @param number Merge request IID
+   * @returns The merge request, or null if it does not exist
+   */
+  async getChangeRequest(
+    owner: string,
+    repo: string,
+    number: number
+  ): Promise<VcsChangeRequest | null> {
+    this.validateOwnerAndRepo(owner, repo);
+
+    try {
+      const mergeRequest = (await this.gitlab.MergeRequests.show(
+        `${owner}/${repo}`,
+        number
+      )) as GitLabMergeRequest;
+      return this.toChangeRequest(mergeRequest);
+    } catch (error) {
+      if (isNotFoundError(error, this.platform)) {
+        return null;
+      }
+      this.handleError(error, 'getChangeRequest', { owner, repo, number });
+      return null;
+    }
+  }
+
+  /**
+   * List the open merge requests of a project
+   * @param owner Project group or user, including subgroups
+   * @param repo Project name
+   */
+  async listOpenChangeRequests(owner: string, repo: string): Promise<VcsChangeRequest[]> {
+    this.validateOwnerAndRepo(owner, repo);
+
+    try {
+      const projectPath = `${owner}/${repo}`;
+      const mergeRequests = (await this.gitlab.MergeRequests.all({
+        projectId: projectPath,
+        state: 'opened',
+        perPage: API_DEFAULTS.GITLAB_PER_PAGE,
+      })) as GitLabMergeRequest[];
+
+      this.logger.debug(`Found ${mergeRequests.length} open merge requests in ${projectPath}`);
+
+      // Listed merge requests lack the diff refs, so each one is fetched for its merge base
+      const changeRequests: VcsChangeRequest[] = [];
+      for (const { iid } of mergeRequests) {
+        const mergeRequest = (await this.gitlab.MergeRequests.show(
+          projectPath,
+          iid
+        )) as GitLabMergeRequest;
+        changeRequests.push(this.toChangeRequest(mergeRequest));
+      }
+      return changeRequests;
+    } catch (error) {
+      this.handleError(error, 'listOpenChangeRequests', { owner, repo });
+      return [];
+    }
+  }
+
+  /**
+   * Map a merge request to a change request, comparing against its merge base when known
+   */
+  private toChangeRequest(mergeRequest: GitLabMergeRequest): VcsChangeRequest {
+    return {
+      number: mergeRequest.iid,
+      title: mergeRequest.title,
+      url: mergeRequest.web_url,
+      author: mergeRequest.author?.username,
+      sourceBranch: mergeRequest.source_branch,
+      targetBranch: mergeRequest.target_branch,
+      headRef: mergeRequest.diff_refs?.head_sha || mergeRequest.sha,
+      baseRef: mergeRequest.diff_refs?.base_sha || mergeRequest.target_branch,
+    };
+  }
+
   /**
    * Get content of a file from GitLab
    * @param projectPath Project path (owner/repo)
    * @param path File path
+   * @param ref Branch, tag or commit SHA to read the file at
    */
-  private async getFileContent(projectPath: string, path: string): Promise<string> {
+  private async getFileContent(projectPath: string, path: string, ref: string): Promise<string> {
     try {
-      const file = await this.gitlab.RepositoryFiles.show(projectPath, path, 'HEAD');
+      const file = await this.gitlab.RepositoryFiles.show(projectPath, path, ref);
 
       // The content is base64 encoded
       if (file.encoding === 'base64' && file.content) {
@@ -0,0 +1,135 @@
+import { API_DEFAULTS, BASE_BACKOFF_MS, DEFAULT_MAX_RETRIES, MAX_BACKOFF_MS } from '../constants';
+import { Logger } from '../services/logger';
+
+/**
+ * Error response of a REST API. The response status is exposed like the errors of the
+ * GitLab client, so BaseVcsService.handleError and isNotFoundError recognize it.
+ */
+export class VcsHttpError extends Error {
+  constructor(
+    message: string,
+    public readonly response: { status: number; statusText?: string }
+  ) {
+    super(message);
+    this.name = 'VcsHttpError';
+  }
+}
+
+/**
+ * Configuration for the HTTP client of REST-based VCS services
+ */
+export interface VcsHttpClientConfig {
+  /** API base URL, e.g. https://api.bitbucket.org/2.0 or a local stub */
+  baseUrl: string;
+  /** Headers sent with every request, e.g. Authorization */
+  headers?: Record<string, string>;
+  /** Request timeout in milliseconds */
+  timeout?: number;
+  /** Retries of rate-limited (429) requests */
+  maxRetries?: number;
+}
+
+/**
+ * Minimal fetch-based client for VCS REST APIs without an SDK
+ */
+export class VcsHttpClient {
+  private readonly baseUrl: string;
+  private readonly headers: Record<string, string>;
+  private readonly timeout: number;
+  private readonly maxRetries: number;
+  private readonly logger = Logger.forComponent('VcsHttpClient');
+
+  constructor(config: VcsHttpClientConfig) {
+    this.baseUrl = config.baseUrl.replace(/\/+$/, '');
+    this.headers = config.headers || {};
+    this.timeout = config.timeout ?? API_DEFAULTS.REQUEST_TIMEOUT;
+    this.maxRetries = config.maxRetries ?? DEFAULT_MAX_RETRIES;
+  }
+
+  /**
+   * Get the URL of an API path, keeping absolute URLs (e.g. pagination links) as they are
+   * @param path Path relative to the base URL, or an absolute URL
+   * @param query Query parameters; undefined values are left out
+   */
+  buildUrl(path: string, query?: Record<string, string | number | boolean | undefined>): string {
+    const url = new URL(
+      /^https?:\/\//.test(path) ? path : `${this.baseUrl}/${path.replace(/^\/+/, '')}`
+    );
+    for (const [name, value] of Object.entries(query || {})) {
+      if (value !== undefined) {
+        url.searchParams.set(name, String(value));
+      }
+    }
+    return url.toString();
+  }
+
+  /**
+   * Send a GET request and parse the JSON response
+   * @throws VcsHttpError when the response status is not successful
+   */
+  async getJson<T>(
+    path: string,
+    query?: Record<string, string | number | boolean | undefined>
+  ): Promise<T> {
+    const response = await this.request(this.buildUrl(path, query), 'application/json');
+    return (await response.json()) as T;
+  }
+
+  /**
+   * Send a GET request and return the response body as text, e.g. raw file contents
+   * @throws VcsHttpError when the response status is not successful
+   */
+  async getText(
+    path: string,
+    query?: Record<string, string | number | boolean | undefined>
+  ): Promise<string> {
+    const response = await this.request(this.buildUrl(path, query), '*/*');
+    return response.text();
+  }
+
+  /**
+   * Send a GET request with the configured headers, retrying rate-limited requests
+   * after the delay given by Retry-After
+   */
+  private async request(url: string, accept: string): Promise<Response> {
+    let response: Response;
+    for (let attempt = 0; ; attempt++) {
+      response = await fetch(url, {
+        headers: { Accept: accept, ...this.headers },
+        signal: AbortSignal.timeout(this.timeout),
+      });
+      if (response.status !== 429 || attempt >= this.maxRetries) {
+        break;
+      }
+
+      const delay = this.getRetryDelay(response, attempt);
+      this.logger.warn(`Rate limited by ${new URL(url).host}, retrying in ${delay}ms`);
+      await response.body?.cancel();
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+
+    if (!response.ok) {
+      throw new VcsHttpError(`Request to ${url} failed with status ${response.status}`, {
+        status: response.status,
+        statusText: response.statusText,
+      });
+    }
+    return response;
+  }
+
+  /**
+   * Get the delay before retrying a rate-limited request: the Retry-After header in seconds
+   * or as a date, otherwise an exponential backoff
+   */
+  private getRetryDelay(response: Response, attempt: number): number {
+    const retryAfter = response.headers.get('Retry-After');
+    if (retryAfter) {
+      const seconds = Number(retryAfter);
+      const delay = Number.isNaN(seconds) ? Date.parse(retryAfter) - Date.now() : seconds * 1000;
+      if (!Number.isNaN(delay)) {
+        return Math.max(0, delay);
+      }
+    }
+    return Math.min(BASE_BACKOFF_MS * Math.pow(2, attempt), MAX_BACKOFF_MS);
+  }
+}
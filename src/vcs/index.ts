@@ -8,6 +8,13 @@ export * from './base';
 // Platform implementations
 export * from './github';
 export * from './gitlab';
+export * from './bitbucket';
+export * from './bitbucket-server';
+export * from './azure-devops';
+export * from './gitea';
+
+// Shared HTTP client for REST-based platforms
+export * from './http-client';
 
 // Service factory
 export * from './factory';
@@ -0,0 +1,65 @@
+/**
+ * Unit tests for commented-out block detection
+ */
+
+import { parseCommentedBlocks, parseHcl } from '../../../src/hcl';
+
+function commentedBlocks(source: string) {
+  return parseCommentedBlocks(source, parseHcl(source).comments);
+}
+
+describe('parseCommentedBlocks', () => {
+  it('should find blocks commented out with hash and slash line comments', () => {
+    const blocks = commentedBlocks(
+      [
+        'module "live" {',
+        '  source = "./live"',
+        '}',
+        '',
+        '# module "hashed" {',
+        '#   source = "./hashed"',
+        '# }',
+        '',
+        '// module "slashed" {',
+        '//   source = "./slashed"',
+        '// }',
+      ].join('\n')
+    );
+
+    expect(blocks.map(block => block.labels[0])).toEqual(['hashed', 'slashed']);
+    expect(blocks.map(block => block.range.start.line)).toEqual([5, 9]);
+  });
+
+  it('should find blocks inside block comments', () => {
+    const blocks = commentedBlocks(
+      ['/*', ' * module "starred" {', ' *   source = "./starred"', ' * }', ' */'].join('\n')
+    );
+
+    expect(blocks).toHaveLength(1);
+    expect(blocks[0].labels).toEqual(['starred']);
+    expect(blocks[0].range.start.line).toBe(2);
+  });
+
+  it('should skip prose around commented-out code', () => {
+    const blocks = commentedBlocks(
+      [
+        '# Disabled until the migration is done {see ticket}',
+        '# module "old" {',
+        '#   source = "./old"',
+        '# }',
+        '# Remember to remove this',
+      ].join('\n')
+    );
+
+    expect(blocks).toHaveLength(1);
+    expect(blocks[0].range.start.line).toBe(2);
+  });
+
+  it('should ignore trailing comments and unterminated blocks', () => {
+    const blocks = commentedBlocks(
+      ['locals { a = 1 } # module "inline" { source = "./x" }', '# module "open" {'].join('\n')
+    );
+
+    expect(blocks).toHaveLength(0);
+  });
+});
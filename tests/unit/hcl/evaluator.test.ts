@@ -0,0 +1,56 @@
+/**
+ * Unit tests for the best-effort HCL expression evaluator
+ */
+
+import { evaluateExpression, evaluateExpressionText, parseHclExpression } from '../../../src/hcl';
+
+const context = {
+  variables: {
+    local: { base: 'git::https://github.com/org/modules.git', versions: { vpc: 'v1.2.0' } },
+  },
+};
+
+function evaluate(source: string) {
+  return evaluateExpression(parseHclExpression(source), context);
+}
+
+function evaluateText(source: string) {
+  return evaluateExpressionText(parseHclExpression(source), context, source);
+}
+
+describe('evaluateExpression', () => {
+  it('should resolve templates, traversals and index access', () => {
+    expect(evaluate('"${local.base}//vpc?ref=${local.versions["vpc"]}"')).toEqual({
+      value: 'git::https://github.com/org/modules.git//vpc?ref=v1.2.0',
+      unresolved: [],
+    });
+  });
+
+  it('should evaluate standard functions, conditionals and operators', () => {
+    expect(evaluate('upper(join("-", ["a", "b"]))').value).toBe('A-B');
+    expect(evaluate('1 + 2 == 3 ? "yes" : "no"').value).toBe('yes');
+    expect(evaluate('lookup(local.versions, "db", "latest")').value).toBe('latest');
+    expect(evaluate('format("%s/%s", "a", "b")').value).toBe('a/b');
+  });
+
+  it('should report unresolved references and unknown functions', () => {
+    expect(evaluate('"${local.missing}/${var.region}"')).toEqual({
+      value: undefined,
+      unresolved: ['local.missing', 'var.region'],
+    });
+    expect(evaluate('sha256("x")').unresolved).toEqual(['sha256()']);
+  });
+});
+
+describe('evaluateExpressionText', () => {
+  it('should keep unresolved template sequences as written', () => {
+    expect(evaluateText('"${local.base}//vpc?ref=${local.version}"')).toEqual({
+      text: 'git::https://github.com/org/modules.git//vpc?ref=${local.version}',
+      unresolved: ['local.version'],
+    });
+  });
+
+  it('should wrap unresolved non-template expressions', () => {
+    expect(evaluateText('local.source').text).toBe('${local.source}');
+  });
+});
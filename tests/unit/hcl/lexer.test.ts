@@ -0,0 +1,152 @@
+/**
+ * Unit tests for HclLexer
+ */
+
+import { HclLexer, HclParseError } from '../../../src/hcl';
+
+const tokenize = (source: string) => new HclLexer(source).tokenize();
+const significant = (source: string) =>
+  tokenize(source).tokens.filter(token => token.type !== 'newline' && token.type !== 'eof');
+
+describe('HclLexer', () => {
+  describe('tokenize', () => {
+    it('should tokenize identifiers, punctuation, numbers and strings', () => {
+      const tokens = significant('count = 3\nname = "vpc"');
+
+      expect(tokens.map(token => [token.type, token.value])).toEqual([
+        ['identifier', 'count'],
+        ['punctuation', '='],
+        ['number', '3'],
+        ['identifier', 'name'],
+        ['punctuation', '='],
+        ['template', '"vpc"'],
+      ]);
+    });
+
+    it('should track line and column positions', () => {
+      const tokens = significant('a = 1\n  b = 2');
+
+      expect(tokens[3].range.start).toEqual({ line: 2, column: 3, offset: 8 });
+      expect(tokens[5].range.end).toEqual({ line: 2, column: 8, offset: 13 });
+    });
+
+    it('should emit newline tokens and an eof token', () => {
+      const { tokens } = tokenize('a = 1\n');
+
+      expect(tokens.map(token => token.type)).toEqual([
+        'identifier',
+        'punctuation',
+        'number',
+        'newline',
+        'eof',
+      ]);
+    });
+
+    it('should prefer the longest punctuation match', () => {
+      const tokens = significant('a >= b ... c => d == e');
+
+      expect(tokens.filter(t => t.type === 'punctuation').map(t => t.value)).toEqual([
+        '>=',
+        '...',
+        '=>',
+        '==',
+      ]);
+    });
+
+    it('should allow dashes in identifiers', () => {
+      const tokens = significant('terraform-aws-modules');
+
+      expect(tokens).toHaveLength(1);
+      expect(tokens[0].value).toBe('terraform-aws-modules');
+    });
+  });
+
+  describe('comments', () => {
+    it('should collect line and block comments without emitting tokens', () => {
+      const { tokens, comments } = tokenize(
+        '# hash\n// slashes\n/* block\n   comment */\na = 1 # trailing'
+      );
+
+      expect(comments.map(comment => comment.style)).toEqual(['line', 'line', 'block', 'line']);
+      expect(comments[2].text).toBe('/* block\n   comment */');
+      expect(comments[2].range.start.line).toBe(3);
+      expect(tokens.filter(token => token.type === 'identifier')).toHaveLength(1);
+    });
+
+    it('should throw on unterminated block comments', () => {
+      expect(() => tokenize('/* never closed')).toThrow(HclParseError);
+    });
+  });
+
+  describe('templates', () => {
+    it('should decode escape sequences in quoted strings', () => {
+      const [token] = significant('"a\\"b\\n\\u00e9"');
+
+      expect(token.templateParts).toEqual([{ kind: 'literal', value: 'a"b\né' }]);
+    });
+
+    it('should split interpolations from literal text', () => {
+      const [token] = significant('"${local.base}//vpc"');
+
+      expect(token.templateParts).toEqual([
+        expect.objectContaining({ kind: 'interpolation', stripLeft: false, stripRight: false }),
+        { kind: 'literal', value: '//vpc' },
+      ]);
+    });
+
+    it('should handle nested strings and braces inside interpolations', () => {
+      const [token] = significant('"${lookup({ a = "}" }, "a")}-suffix"');
+
+      expect(token.templateParts).toHaveLength(2);
+      expect(token.templateParts?.[1]).toEqual({ kind: 'literal', value: '-suffix' });
+    });
+
+    it('should treat escaped template sequences as literal text', () => {
+      const [token] = significant('"$${literal} %%{literal}"');
+
+      expect(token.templateParts).toEqual([{ kind: 'literal', value: '${literal} %{literal}' }]);
+    });
+
+    it('should apply strip markers to adjacent literals', () => {
+      const [token] = significant('"a   ${~ x ~}   b"');
+
+      expect(token.templateParts?.[0]).toEqual({ kind: 'literal', value: 'a' });
+      expect(token.templateParts?.[2]).toEqual({ kind: 'literal', value: 'b' });
+    });
+
+    it('should throw on strings spanning lines', () => {
+      expect(() => tokenize('a = "open\nstill open"')).toThrow(/Unterminated string/);
+    });
+  });
+
+  describe('heredocs', () => {
+    it('should read heredoc bodies up to the closing marker', () => {
+      const { tokens } = tokenize('a = <<EOT\nline 1\n  line 2\nEOT\nb = 1');
+      const heredoc = tokens.find(token => token.type === 'template');
+
+      expect(heredoc?.heredoc).toBe(true);
+      expect(heredoc?.templateParts).toEqual([{ kind: 'literal', value: 'line 1\n  line 2\n' }]);
+      expect(tokens.filter(token => token.type === 'identifier').map(t => t.value)).toEqual([
+        'a',
+        'b',
+      ]);
+    });
+
+    it('should strip common indentation from indented heredocs', () => {
+      const { tokens } = tokenize('a = <<-EOT\n    one\n      two\n    EOT\n');
+      const heredoc = tokens.find(token => token.type === 'template');
+
+      expect(heredoc?.templateParts).toEqual([{ kind: 'literal', value: 'one\n  two\n' }]);
+    });
+
+    it('should throw on unterminated heredocs', () => {
+      expect(() => tokenize('a = <<EOT\nno marker\n')).toThrow(/Unterminated heredoc/);
+    });
+  });
+
+  it('should report the filename in errors', () => {
+    expect(() => new HclLexer('a = @', { filename: 'main.tf' }).tokenize()).toThrow(
+      'main.tf:1:5: Unexpected character "@"'
+    );
+  });
+});
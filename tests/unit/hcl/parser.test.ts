@@ -0,0 +1,232 @@
+/**
+ * Unit tests for the HCL parser and AST helpers
+ */
+
+import {
+  parseHcl,
+  parseHclExpression,
+  findAttribute,
+  findBlocks,
+  getStaticString,
+  getTemplateText,
+  getSourceText,
+  walkExpression,
+  HclParseError,
+} from '../../../src/hcl';
+import { terraformSamples, terragruntSamples } from '../../fixtures/sample-terraform';
+
+describe('parseHcl', () => {
+  describe('structure', () => {
+    it('should parse attributes and labelled blocks with positions', () => {
+      const { body } = parseHcl('region = "us-east-1"\n\nmodule "vpc" {\n  source = "./vpc"\n}\n');
+
+      expect(body.attributes.map(attribute => attribute.name)).toEqual(['region']);
+      expect(body.blocks).toHaveLength(1);
+      expect(body.blocks[0]).toEqual(
+        expect.objectContaining({ kind: 'Block', type: 'module', labels: ['vpc'] })
+      );
+      expect(body.blocks[0].range.start).toEqual({ line: 3, column: 1, offset: 22 });
+      expect(body.blocks[0].range.end.line).toBe(5);
+    });
+
+    it('should parse nested blocks and single-line blocks', () => {
+      const { body } = parseHcl(
+        'terraform {\n  required_providers {\n    aws = { source = "hashicorp/aws" }\n  }\n}\nlocals { a = 1 }'
+      );
+
+      const terraform = findBlocks(body, 'terraform')[0];
+      expect(findBlocks(terraform.body, 'required_providers')).toHaveLength(1);
+      expect(findAttribute(findBlocks(body, 'locals')[0].body, 'a')).toBeDefined();
+    });
+
+    it('should accept identifier and quoted labels', () => {
+      const { body } = parseHcl('resource aws_instance "web" {}\n');
+
+      expect(body.blocks[0].labels).toEqual(['aws_instance', 'web']);
+    });
+
+    it('should parse all shared fixtures', () => {
+      for (const sample of [
+        ...Object.values(terraformSamples),
+        ...Object.values(terragruntSamples),
+      ]) {
+        expect(() => parseHcl(sample)).not.toThrow();
+      }
+    });
+  });
+
+  describe('expressions', () => {
+    it('should parse nested objects without losing sibling attributes', () => {
+      const { body } = parseHcl(
+        'module "m" {\n  tags = {\n    a = { b = "c" }\n    d = "e", f = 1\n  }\n  source = "x"\n}'
+      );
+      const module = body.blocks[0];
+      const tags = findAttribute(module.body, 'tags')?.expression;
+
+      expect(tags?.kind).toBe('Object');
+      expect(tags?.kind === 'Object' && tags.items.length).toBe(3);
+      expect(getStaticString(findAttribute(module.body, 'source')!.expression)).toBe('x');
+    });
+
+    it('should ignore newlines inside parentheses and brackets', () => {
+      const expression = parseHclExpression('merge(\n  local.a,\n  [\n    1,\n    2,\n  ]\n)');
+
+      expect(expression.kind).toBe('FunctionCall');
+      expect(expression.kind === 'FunctionCall' && expression.args).toHaveLength(2);
+    });
+
+    it('should respect operator precedence', () => {
+      const expression = parseHclExpression('a || b && c == 1 + 2 * 3');
+
+      expect(expression).toEqual(
+        expect.objectContaining({
+          kind: 'Binary',
+          operator: '||',
+          right: expect.objectContaining({
+            operator: '&&',
+            right: expect.objectContaining({
+              operator: '==',
+              right: expect.objectContaining({
+                operator: '+',
+                right: expect.objectContaining({ operator: '*' }),
+              }),
+            }),
+          }),
+        })
+      );
+    });
+
+    it('should parse conditionals, unary operators and traversals', () => {
+      const expression = parseHclExpression('!var.enabled ? dependency.vpc.outputs.ids[0] : -1');
+
+      expect(expression.kind).toBe('Conditional');
+      if (expression.kind === 'Conditional') {
+        expect(expression.condition.kind).toBe('Unary');
+        expect(expression.trueExpression.kind).toBe('Index');
+        expect(expression.falseExpression.kind).toBe('Unary');
+      }
+    });
+
+    it('should parse splat expressions and legacy index syntax', () => {
+      expect(parseHclExpression('aws_instance.web[*].id').kind).toBe('GetAttr');
+      expect(parseHclExpression('aws_instance.web.*.id').kind).toBe('GetAttr');
+      expect(parseHclExpression('var.list.0')).toEqual(
+        expect.objectContaining({ kind: 'Index', key: expect.objectContaining({ value: 0 }) })
+      );
+    });
+
+    it('should parse tuple and object for expressions', () => {
+      const tuple = parseHclExpression('[for s in var.list : upper(s) if s != ""]');
+      const object = parseHclExpression('{ for k, v in var.map : k => v... }');
+
+      expect(tuple).toEqual(
+        expect.objectContaining({ kind: 'For', valueVariable: 's', condition: expect.anything() })
+      );
+      expect(object).toEqual(
+        expect.objectContaining({
+          kind: 'For',
+          keyVariable: 'k',
+          valueVariable: 'v',
+          grouping: true,
+        })
+      );
+    });
+
+    it('should parse function calls with expansion and provider namespaces', () => {
+      expect(parseHclExpression('concat(local.lists...)')).toEqual(
+        expect.objectContaining({ kind: 'FunctionCall', name: 'concat', expandFinal: true })
+      );
+      expect(parseHclExpression('provider::aws::arn_parse("x")')).toEqual(
+        expect.objectContaining({ kind: 'FunctionCall', name: 'provider::aws::arn_parse' })
+      );
+    });
+
+    it('should parse literals', () => {
+      expect(parseHclExpression('true')).toEqual(expect.objectContaining({ value: true }));
+      expect(parseHclExpression('null')).toEqual(expect.objectContaining({ value: null }));
+      expect(parseHclExpression('1.5e3')).toEqual(expect.objectContaining({ value: 1500 }));
+    });
+  });
+
+  describe('templates', () => {
+    it('should parse interpolations into expressions with document positions', () => {
+      const { body } = parseHcl('a = 1\nsource = "${local.base}//vpc?ref=${local.version}"');
+      const expression = findAttribute(body, 'source')!.expression;
+
+      expect(expression.kind).toBe('Template');
+      if (expression.kind === 'Template') {
+        const interpolation = expression.parts[0];
+        expect(interpolation.kind).toBe('TemplateInterpolation');
+        if (interpolation.kind === 'TemplateInterpolation') {
+          expect(interpolation.expression.kind).toBe('GetAttr');
+          expect(interpolation.expression.range.start).toEqual({
+            line: 2,
+            column: 13,
+            offset: 18,
+          });
+        }
+      }
+      expect(getStaticString(expression)).toBeUndefined();
+      expect(getTemplateText(expression)).toBe('${local.base}//vpc?ref=${local.version}');
+    });
+
+    it('should keep template directives as raw text', () => {
+      const expression = parseHclExpression('"%{ if var.on }yes%{ endif }"');
+
+      expect(getTemplateText(expression)).toBe('%{if var.on}yes%{endif}');
+    });
+
+    it('should parse heredoc interpolations', () => {
+      const { body } = parseHcl('policy = <<EOT\n{"arn": "${aws_s3_bucket.b.arn}"}\nEOT\n');
+      const expression = findAttribute(body, 'policy')!.expression;
+
+      expect(expression).toEqual(expect.objectContaining({ kind: 'Template', heredoc: true }));
+      expect(getTemplateText(expression)).toBe('{"arn": "${aws_s3_bucket.b.arn}"}\n');
+    });
+  });
+
+  describe('errors', () => {
+    it('should throw HclParseError with position for unclosed blocks', () => {
+      let caught: unknown;
+      try {
+        parseHcl('module "x" {\n  source = "y"\n', 'main.tf');
+      } catch (error) {
+        caught = error;
+      }
+
+      expect(caught).toBeInstanceOf(HclParseError);
+      expect((caught as HclParseError).position.line).toBe(3);
+      expect((caught as HclParseError).filename).toBe('main.tf');
+    });
+
+    it('should reject multiple attributes on one line', () => {
+      expect(() => parseHcl('a = 1 b = 2')).toThrow(/expected newline/);
+    });
+
+    it('should reject template sequences in block labels', () => {
+      expect(() => parseHcl('module "${var.name}" {}')).toThrow(HclParseError);
+    });
+  });
+});
+
+describe('expression helpers', () => {
+  it('should return the source text of an expression', () => {
+    const source = 'path = find_in_parent_folders("root.hcl")\n';
+    const { expression } = findAttribute(parseHcl(source).body, 'path')!;
+
+    expect(getSourceText(source, expression)).toBe('find_in_parent_folders("root.hcl")');
+  });
+
+  it('should visit nested expressions including template interpolations', () => {
+    const expression = parseHclExpression('merge(local.a, { b = "${upper(var.c)}" })');
+    const functions: string[] = [];
+
+    walkExpression(expression, node => {
+      if (node.kind === 'FunctionCall') {
+        functions.push(node.name);
+      }
+    });
+
+    expect(functions).toEqual(['merge', 'upper']);
+  });
+});
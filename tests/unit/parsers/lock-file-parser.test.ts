@@ -0,0 +1,100 @@
+/**
+ * Unit tests for LockFileParser
+ */
+
+import { LockFileParser } from '../../../src/parsers/lock-file';
+import { IacFile } from '../../../src/types/vcs';
+import { IacFileBuilder } from '../../utils/builders';
+
+const lockFileContent = `# This file is maintained automatically by "terraform init".
+# Manual edits may be lost in future updates.
+
+provider "registry.terraform.io/hashicorp/aws" {
+  version     = "4.67.0"
+  constraints = ">= 4.0.0, < 5.0.0"
+  hashes = [
+    "h1:dCRc4GqsyfqHEMjgtlM1EympBcgTmcTkWaJmtd91+KA=",
+    "zh:0843017ecc24385f2b45f2c5fce79dc25b258e50d516877b3affee3bef34f060",
+  ]
+}
+
+provider "registry.terraform.io/hashicorp/random" {
+  version = "3.6.0"
+  hashes = [
+    "h1:R5Ucn26riKIEijcsiOMBR3uOAjuOMfI1x7XvH4P6B1w=",
+  ]
+}
+`;
+
+describe('LockFileParser', () => {
+  let parser: LockFileParser;
+
+  beforeEach(() => {
+    parser = new LockFileParser();
+  });
+
+  describe('parseLockFiles', () => {
+    it('should extract locked versions, constraints and hashes per root module', () => {
+      const files: IacFile[] = [
+        IacFileBuilder.terraform()
+          .withPath('envs/prod/.terraform.lock.hcl')
+          .withContent(lockFileContent)
+          .build(),
+      ];
+
+      const providers = parser.parseLockFiles(files);
+
+      expect(providers).toHaveLength(2);
+      expect(providers[0]).toEqual(
+        expect.objectContaining({
+          source: 'registry.terraform.io/hashicorp/aws',
+          version: '4.67.0',
+          constraints: '>= 4.0.0, < 5.0.0',
+          rootModule: 'envs/prod',
+          lineNumber: 4,
+        })
+      );
+      expect(providers[0].hashes).toHaveLength(2);
+      expect(providers[1]).toEqual(
+        expect.objectContaining({ version: '3.6.0', constraints: undefined })
+      );
+    });
+
+    it('should report the repository root as the root module of a top-level lock file', () => {
+      const files: IacFile[] = [
+        IacFileBuilder.terraform()
+          .withPath('.terraform.lock.hcl')
+          .withContent(lockFileContent)
+          .build(),
+      ];
+
+      expect(parser.parseLockFiles(files).every(p => p.rootModule === '.')).toBe(true);
+    });
+
+    it('should ignore files that are not lock files', () => {
+      const files: IacFile[] = [
+        IacFileBuilder.terraform().withPath('main.tf').withContent(lockFileContent).build(),
+      ];
+
+      expect(parser.parseLockFiles(files)).toHaveLength(0);
+    });
+  });
+
+  describe('createLockSummary', () => {
+    it('should count root modules per locked version', () => {
+      const files: IacFile[] = ['prod', 'staging'].map(env =>
+        IacFileBuilder.terraform()
+          .withPath(`envs/${env}/.terraform.lock.hcl`)
+          .withContent(lockFileContent)
+          .build()
+      );
+
+      const summary = parser.createLockSummary(parser.parseLockFiles(files));
+
+      expect(summary['registry.terraform.io/hashicorp/aws']).toEqual({
+        count: 2,
+        versions: { '4.67.0': 2 },
+      });
+    });
+  });
+});
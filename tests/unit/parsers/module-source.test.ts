@@ -0,0 +1,186 @@
+/**
+ * Unit tests for module source classification
+ */
+
+import {
+  determineSourceType,
+  getModuleAddressKey,
+  parseModuleAddress,
+  parseModuleSource,
+} from '../../../src/parsers';
+
+describe('determineSourceType', () => {
+  it.each([
+    ['./modules/vpc', 'local'],
+    ['../shared/vpc', 'local'],
+    ['terraform-aws-modules/vpc/aws', 'registry'],
+    ['terraform-aws-modules/vpc/aws//modules/vpc-endpoints', 'registry'],
+    ['app.terraform.io/acme/vpc/aws', 'registry'],
+    ['tfr:///terraform-aws-modules/vpc/aws?version=5.0.0', 'registry'],
+    ['git::https://github.com/acme/modules.git//vpc?ref=v1.0.0', 'git'],
+    ['git@github.com:acme/modules.git', 'git'],
+    ['ssh://git@git.acme.com/platform/modules.git', 'git'],
+    ['github.com/acme/modules//vpc?ref=v1.0.0', 'github'],
+    ['gitlab.com/acme/platform/modules', 'gitlab'],
+    ['bitbucket.org/acme/modules', 'bitbucket'],
+    ['hg::http://hg.acme.com/modules', 'hg'],
+    ['s3::https://s3-eu-west-1.amazonaws.com/acme-modules/vpc.zip', 's3'],
+    ['https://acme-modules.s3.eu-west-1.amazonaws.com/vpc.zip', 's3'],
+    ['gcs::https://www.googleapis.com/storage/v1/acme-modules/vpc.zip', 'gcs'],
+    ['https://example.com/modules/vpc.tar.gz', 'archive'],
+    ['https://example.com/modules/vpc?archive=zip', 'archive'],
+    ['https://acme.jfrog.io/artifactory/terraform/vpc.zip', 'archive'],
+    ['https://acme.jfrog.io/artifactory/api/terraform/modules', 'artifactory'],
+    ['https://example.com/modules/vpc', 'http'],
+    ['acme/vpc', 'unknown'],
+  ])('should classify %s as %s', (source, expected) => {
+    expect(determineSourceType(source)).toBe(expected);
+  });
+});
+
+describe('parseModuleSource', () => {
+  it('should parse registry addresses with and without a host', () => {
+    expect(parseModuleSource('terraform-aws-modules/vpc/aws//modules/vpc-endpoints')).toEqual({
+      host: 'registry.terraform.io',
+      namespace: 'terraform-aws-modules',
+      name: 'vpc',
+      provider: 'aws',
+      subdirectory: 'modules/vpc-endpoints',
+    });
+    expect(parseModuleSource('App.Terraform.io/acme/vpc/aws')).toMatchObject({
+      host: 'app.terraform.io',
+      namespace: 'acme',
+    });
+    expect(parseModuleSource('tfr:///acme/rds/aws?version=1.0.0')).toMatchObject({
+      host: 'registry.terraform.io',
+      namespace: 'acme',
+      name: 'rds',
+    });
+  });
+
+  it('should parse repositories, subdirectories and refs', () => {
+    expect(
+      parseModuleSource('git::https://github.com/acme/modules.git//networking/vpc?ref=v1.2.0')
+    ).toEqual({
+      host: 'github.com',
+      namespace: 'acme',
+      name: 'modules',
+      subdirectory: 'networking/vpc',
+      ref: 'v1.2.0',
+    });
+    expect(parseModuleSource('git@gitlab.com:acme/platform/modules.git?ref=main')).toEqual({
+      host: 'gitlab.com',
+      namespace: 'acme/platform',
+      name: 'modules',
+      ref: 'main',
+    });
+    expect(parseModuleSource('bitbucket.org/acme/modules')).toEqual({
+      host: 'bitbucket.org',
+      namespace: 'acme',
+      name: 'modules',
+    });
+  });
+
+  it('should parse buckets and object paths', () => {
+    expect(parseModuleSource('s3::https://s3-eu-west-1.amazonaws.com/acme/vpc.zip')).toEqual({
+      host: 's3-eu-west-1.amazonaws.com',
+      namespace: 'acme',
+      name: 'vpc.zip',
+    });
+    expect(parseModuleSource('https://acme.s3.amazonaws.com/modules/vpc.zip')).toMatchObject({
+      namespace: 'acme',
+      name: 'modules/vpc.zip',
+    });
+    expect(
+      parseModuleSource('gcs::https://www.googleapis.com/storage/v1/acme/vpc.zip')
+    ).toMatchObject({ namespace: 'acme', name: 'vpc.zip' });
+  });
+
+  it('should only report the host of other URLs and nothing for local paths', () => {
+    expect(parseModuleSource('https://example.com/modules/vpc.zip//vpc')).toEqual({
+      host: 'example.com',
+      subdirectory: 'vpc',
+    });
+    expect(parseModuleSource('./modules/vpc')).toEqual({});
+  });
+});
+
+describe('parseModuleAddress', () => {
+  it('should parse registry addresses into hostname, namespace, name and system', () => {
+    expect(parseModuleAddress('tfr:///terraform-aws-modules/vpc/aws//modules/endpoints')).toEqual({
+      kind: 'registry',
+      hostname: 'registry.terraform.io',
+      namespace: 'terraform-aws-modules',
+      name: 'vpc',
+      system: 'aws',
+      subdirectory: 'modules/endpoints',
+    });
+  });
+
+  it('should parse git sources into repository URL, subdirectory and ref', () => {
+    expect(
+      parseModuleAddress('git::ssh://git@git.acme.com:7999/platform/modules.git//vpc?ref=v1')
+    ).toEqual({
+      kind: 'git',
+      url: 'ssh://git@git.acme.com:7999/platform/modules.git',
+      host: 'git.acme.com',
+      path: 'platform/modules',
+      subdirectory: 'vpc',
+      ref: 'v1',
+    });
+    expect(parseModuleAddress('github.com/acme/modules')).toMatchObject({
+      kind: 'git',
+      url: 'https://github.com/acme/modules',
+      path: 'acme/modules',
+    });
+  });
+
+  it('should parse archives into URL and format', () => {
+    expect(parseModuleAddress('https://example.com/vpc.tgz//modules/vpc')).toEqual({
+      kind: 'archive',
+      url: 'https://example.com/vpc.tgz',
+      format: 'tgz',
+      subdirectory: 'modules/vpc',
+    });
+    expect(parseModuleAddress('s3::https://s3.amazonaws.com/acme/vpc?archive=zip')).toMatchObject({
+      kind: 'archive',
+      url: 'https://s3.amazonaws.com/acme/vpc',
+      format: 'zip',
+    });
+  });
+
+  it('should parse other sources', () => {
+    expect(parseModuleAddress('./modules/vpc')).toEqual({ kind: 'local', path: './modules/vpc' });
+    expect(parseModuleAddress('hg::https://hg.acme.com/modules?ref=default')).toEqual({
+      kind: 'remote',
+      url: 'https://hg.acme.com/modules',
+      subdirectory: undefined,
+      ref: 'default',
+    });
+    expect(parseModuleAddress('acme/vpc?ref=v1')).toEqual({ kind: 'unknown', source: 'acme/vpc' });
+  });
+});
+
+describe('getModuleAddressKey', () => {
+  const key = (source: string) => getModuleAddressKey(parseModuleAddress(source));
+
+  it('should give differently written sources of the same repository the same key', () => {
+    expect(key('git::https://github.com/acme/x.git?ref=v1.0.0')).toBe('git:github.com/acme/x');
+    expect(key('github.com/acme/x')).toBe('git:github.com/acme/x');
+    expect(key('git@github.com:acme/x.git?ref=v2.0.0')).toBe('git:github.com/acme/x');
+  });
+
+  it('should give registry sources with and without the default host the same key', () => {
+    expect(key('terraform-aws-modules/vpc/aws')).toBe(
+      key('registry.terraform.io/Terraform-AWS-Modules/vpc/aws')
+    );
+    expect(key('tfr:///terraform-aws-modules/vpc/aws?version=5.0.0')).toBe(
+      key('terraform-aws-modules/vpc/aws')
+    );
+  });
+
+  it('should keep subdirectories apart', () => {
+    expect(key('github.com/acme/x//vpc')).not.toBe(key('github.com/acme/x//subnets'));
+    expect(key('github.com/acme/x//vpc/')).toBe(key('github.com/acme/x//vpc'));
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Unit tests for ProviderParser
+ */
+
+import { ProviderParser } from '../../../src/parsers/providers';
+import { IacFile } from '../../../src/types/vcs';
+import { IacFileBuilder } from '../../utils/builders';
+import { terraformSamples } from '../../fixtures/sample-terraform';
+
+describe('ProviderParser', () => {
+  let parser: ProviderParser;
+
+  beforeEach(() => {
+    parser = new ProviderParser();
+  });
+
+  describe('parseProviders', () => {
+    it('should extract provider requirements with source, version and line number', () => {
+      const files: IacFile[] = [
+        IacFileBuilder.terraform()
+          .withPath('versions.tf')
+          .withContent(terraformSamples.complexConfiguration)
+          .build(),
+      ];
+
+      const providers = parser.parseProviders(files);
+
+      expect(providers).toHaveLength(1);
+      expect(providers[0]).toEqual(
+        expect.objectContaining({
+          localName: 'aws',
+          source: 'hashicorp/aws',
+          version: '~> 5.0',
+          filePath: 'versions.tf',
+          lineNumber: 4,
+        })
+      );
+    });
+
+    it('should handle multiple entries, legacy version strings and implied sources', () => {
+      const files: IacFile[] = [
+        IacFileBuilder.terraform()
+          .withContent(
+            `
+terraform {
+  required_version = ">= 1.5"
+
+  required_providers {
+    google = {
+      source                = "hashicorp/google"
+      version               = ">= 4.0, < 6.0"
+      configuration_aliases = [google.secondary]
+    }
+    random   = "~> 3.1"
+    internal = { source = "registry.example.com/acme/internal" }
+  }
+}
+`
+          )
+          .build(),
+      ];
+
+      const providers = parser.parseProviders(files);
+
+      expect(providers.map(p => [p.localName, p.source, p.version])).toEqual([
+        ['google', 'hashicorp/google', '>= 4.0, < 6.0'],
+        ['random', 'hashicorp/random', '~> 3.1'],
+        ['internal', 'registry.example.com/acme/internal', undefined],
+      ]);
+    });
+
+    it('should ignore terragrunt files and files with syntax errors', () => {
+      const files: IacFile[] = [
+        IacFileBuilder.terragrunt()
+          .withContent('terraform {\n  required_providers {\n    aws = "~> 5.0"\n  }\n}\n')
+          .build(),
+        IacFileBuilder.terraform().withPath('broken.tf').withContent('terraform {\n').build(),
+      ];
+
+      expect(parser.parseProviders(files)).toHaveLength(0);
+    });
+  });
+
+  describe('createProviderSummary', () => {
+    it('should group requirements by source and count version constraints', () => {
+      const files: IacFile[] = ['~> 5.0', '~> 5.0', '>= 4.0'].map((version, index) =>
+        IacFileBuilder.terraform()
+          .withPath(`stack-${index}/versions.tf`)
+          .withContent(
+            `terraform {\n  required_providers {\n    aws = { source = "hashicorp/aws", version = "${version}" }\n  }\n}\n`
+          )
+          .build()
+      );
+
+      const summary = parser.createProviderSummary(parser.parseProviders(files));
+
+      expect(summary).toEqual({
+        'hashicorp/aws': { count: 3, versions: { '~> 5.0': 2, '>= 4.0': 1 } },
+      });
+    });
+  });
+});
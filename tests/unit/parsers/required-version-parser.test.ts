@@ -0,0 +1,72 @@
+/**
+ * Unit tests for RequiredVersionParser
+ */
+
+import { RequiredVersionParser } from '../../../src/parsers/required-version';
+import { IacFile } from '../../../src/types/vcs';
+import { IacFileBuilder } from '../../utils/builders';
+import { terraformSamples } from '../../fixtures/sample-terraform';
+
+function versionsFile(repository: string, path: string, constraint: string): IacFile {
+  return IacFileBuilder.terraform()
+    .withRepository(repository)
+    .withPath(path)
+    .withContent(`terraform {\n  required_version = "${constraint}"\n}\n`)
+    .build();
+}
+
+describe('RequiredVersionParser', () => {
+  let parser: RequiredVersionParser;
+
+  beforeEach(() => {
+    parser = new RequiredVersionParser();
+  });
+
+  describe('parseRequiredVersions', () => {
+    it('should extract required_version with root module and line number', () => {
+      const constraints = parser.parseRequiredVersions([
+        versionsFile('org/live', 'envs/prod/versions.tf', '>= 1.5.0'),
+      ]);
+
+      expect(constraints).toEqual([
+        expect.objectContaining({
+          constraint: '>= 1.5.0',
+          rootModule: 'envs/prod',
+          repository: 'org/live',
+          filePath: 'envs/prod/versions.tf',
+          lineNumber: 2,
+        }),
+      ]);
+    });
+
+    it('should skip terraform blocks without required_version', () => {
+      const files: IacFile[] = [
+        IacFileBuilder.terraform().withContent(terraformSamples.complexConfiguration).build(),
+      ];
+
+      expect(parser.parseRequiredVersions(files)).toHaveLength(0);
+    });
+  });
+
+  describe('createRequiredVersionSummary', () => {
+    it('should group constraints per repository and per root module', () => {
+      const constraints = parser.parseRequiredVersions([
+        versionsFile('org/live', 'envs/prod/versions.tf', '>= 1.5.0'),
+        versionsFile('org/live', 'envs/prod/backend.tf', '>= 1.5.0'),
+        versionsFile('org/live', 'envs/legacy/versions.tf', '~> 0.12'),
+        versionsFile('org/other', 'versions.tf', '>= 1.5.0'),
+      ]);
+
+      const summary = parser.createRequiredVersionSummary(constraints);
+
+      expect(summary.byRepository).toEqual({
+        'org/live': { '>= 1.5.0': 2, '~> 0.12': 1 },
+        'org/other': { '>= 1.5.0': 1 },
+      });
+      expect(summary.byRootModule).toEqual({
+        'org/live': { 'envs/prod': ['>= 1.5.0'], 'envs/legacy': ['~> 0.12'] },
+        'org/other': { '.': ['>= 1.5.0'] },
+      });
+    });
+  });
+});
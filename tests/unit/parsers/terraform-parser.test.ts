@@ -83,6 +83,13 @@ describe('TerraformParser', () => {
           source: 'git@github.com:example/terraform-modules.git//network?ref=v1.0.0',
           sourceType: 'git',
           version: 'v1.0.0',
+          sourceDetails: {
+            host: 'github.com',
+            namespace: 'example',
+            name: 'terraform-modules',
+            subdirectory: 'network',
+            ref: 'v1.0.0',
+          },
         })
       );
     });
@@ -269,11 +276,71 @@ module "actual_module" {
 
       const modules = parser.parseModules(files);
 
-      // Note: Current regex-based parser has limitations with multiline comments
-      // This is a known issue to be addressed with a proper HCL parser
-      expect(modules).toHaveLength(3);
+      expect(modules).toHaveLength(2);
       expect(modules.map(m => m.name)).toContain('vpc');
       expect(modules.map(m => m.name)).toContain('actual_module');
+      expect(modules.map(m => m.name)).not.toContain('commented_out');
+    });
+
+    it('should read source and version from modules with nested maps and heredocs', () => {
+      const files: IacFile[] = [
+        IacFileBuilder.terraform()
+          .withPath('nested.tf')
+          .withContent(
+            `
+module "tagged" {
+  tags = {
+    Name = "example"
+    Team = "platform"
+  }
+  providers = {
+    aws = aws.us_east_1
+  }
+  policy = <<-EOT
+    {
+      "Statement": []
+    }
+  EOT
+  source  = "terraform-aws-modules/s3-bucket/aws"
+  version = "4.1.0"
+}
+
+module "engine" {
+  source         = "terraform-aws-modules/rds/aws"
+  engine_version = "13.7"
+}
+`
+          )
+          .build(),
+      ];
+
+      const modules = parser.parseModules(files);
+
+      expect(modules).toHaveLength(2);
+      expect(modules[0]).toEqual(
+        expect.objectContaining({
+          name: 'tagged',
+          source: 'terraform-aws-modules/s3-bucket/aws',
+          version: '4.1.0',
+          lineNumber: 2,
+        })
+      );
+      expect(modules[1].version).toBeUndefined();
+    });
+
+    it('should skip files with syntax errors without failing other files', () => {
+      const files: IacFile[] = [
+        IacFileBuilder.terraform().withPath('broken.tf').withContent('module "x" {\n').build(),
+        IacFileBuilder.terraform()
+          .withPath('main.tf')
+          .withContent(terraformSamples.moduleUsage)
+          .build(),
+      ];
+
+      const modules = parser.parseModules(files);
+
+      expect(modules).toHaveLength(2);
+      expect(modules.every(m => m.filePath === 'main.tf')).toBe(true);
     });
 
     it('should handle empty content', () => {
@@ -293,6 +360,103 @@ module "actual_module" {
     });
   });
 
+  describe('local module resolution', () => {
+    it('should resolve local sources and flag missing target directories', () => {
+      const files: IacFile[] = [
+        IacFileBuilder.terraform()
+          .withPath('envs/prod/main.tf')
+          .withContent(
+            `module "vpc" {
+  source = "../../modules/vpc"
+}
+
+module "dns" {
+  source = "./dns"
+}
+
+module "remote" {
+  source = "terraform-aws-modules/vpc/aws"
+}
+
+module "shared" {
+  source = "../../../shared/modules/c"
+}
+`
+          )
+          .build(),
+        IacFileBuilder.terraform()
+          .withPath('modules/vpc/main.tf')
+          .withContent('variable "cidr" {}')
+          .build(),
+        IacFileBuilder.terraform()
+          .withRepository('other-repo')
+          .withPath('envs/prod/dns/main.tf')
+          .withContent('variable "zone" {}')
+          .build(),
+      ];
+
+      const modules = parser.parseModules(files);
+
+      expect(modules.map(m => [m.name, m.resolvedPath, m.brokenLink])).toEqual([
+        ['vpc', 'modules/vpc', false],
+        // The dns directory only exists in another repository
+        ['dns', 'envs/prod/dns', true],
+        ['remote', undefined, undefined],
+        // Directories outside the repository are not resolved, nor reported as broken
+        ['shared', undefined, undefined],
+      ]);
+    });
+
+    it('should not flag links when the files are not a complete file set', () => {
+      const files: IacFile[] = [
+        IacFileBuilder.terraform()
+          .withPath('live/main.tf')
+          .withContent('module "vpc" {\n  source = "../modules/vpc"\n}\n')
+          .build(),
+      ];
+
+      const modules = parser.parseModules(files, { completeFileSet: false });
+
+      expect(modules.map(m => [m.resolvedPath, m.brokenLink])).toEqual([
+        ['modules/vpc', undefined],
+      ]);
+    });
+  });
+
+  describe('parseCommentedModules', () => {
+    it('should report commented-out modules with original line numbers', () => {
+      const files: IacFile[] = [
+        IacFileBuilder.terraform()
+          .withPath('main.tf')
+          .withContent(
+            `module "vpc" {
+  source = "terraform-aws-modules/vpc/aws"
+}
+
+# Replaced by the vpc module above
+# module "legacy_vpc" {
+#   source  = "git::https://github.com/example/modules.git//vpc?ref=v1.0.0"
+# }
+`
+          )
+          .build(),
+      ];
+
+      const modules = parser.parseCommentedModules(files);
+
+      expect(modules).toHaveLength(1);
+      expect(modules[0]).toEqual(
+        expect.objectContaining({
+          name: 'legacy_vpc',
+          sourceType: 'git',
+          version: 'v1.0.0',
+          lineNumber: 6,
+        })
+      );
+      expect(parser.parseModules(files).map(m => m.name)).toEqual(['vpc']);
+    });
+  });
+
   describe('createModuleSummary', () => {
     it('should create summary for parsed modules', () => {
       const files: IacFile[] = [
@@ -0,0 +1,102 @@
+/**
+ * Unit tests for TerragruntEvaluator
+ */
+
+import { TerragruntEvaluator } from '../../../src/parsers/terragrunt-evaluator';
+import { findAttribute, findBlocks, parseHcl } from '../../../src/hcl';
+import { IacFile } from '../../../src/types/vcs';
+import { IacFileBuilder } from '../../utils/builders';
+
+function terragruntFile(path: string, content: string): IacFile {
+  return IacFileBuilder.terragrunt().withPath(path).withContent(content).build();
+}
+
+function evaluateSource(evaluator: TerragruntEvaluator, file: IacFile) {
+  const terraform = findBlocks(parseHcl(file.content).body, 'terraform')[0];
+  return evaluator.evaluateText(findAttribute(terraform.body, 'source')!.expression, file);
+}
+
+const rootFile = terragruntFile(
+  'live/root.hcl',
+  `locals {
+  base_source_url = "git::https://github.com/org/modules.git"
+}
+`
+);
+
+const envFile = terragruntFile('live/prod/env.hcl', 'locals {\n  version = "v2.0.0"\n}\n');
+
+describe('TerragruntEvaluator', () => {
+  it('should resolve include locals, read_terragrunt_config and local references', () => {
+    const unit = terragruntFile(
+      'live/prod/vpc/terragrunt.hcl',
+      `include "root" {
+  path   = find_in_parent_folders("root.hcl")
+  expose = true
+}
+
+locals {
+  env     = read_terragrunt_config(find_in_parent_folders("env.hcl"))
+  version = local.env.locals.version
+}
+
+terraform {
+  source = "\${include.root.locals.base_source_url}//vpc?ref=\${local.version}"
+}
+`
+    );
+    const evaluator = new TerragruntEvaluator([rootFile, envFile, unit]);
+
+    expect(evaluateSource(evaluator, unit)).toEqual({
+      text: 'git::https://github.com/org/modules.git//vpc?ref=v2.0.0',
+      unresolved: [],
+    });
+  });
+
+  it('should resolve path functions relative to the include', () => {
+    const unit = terragruntFile(
+      'live/prod/vpc/terragrunt.hcl',
+      `include {
+  path = find_in_parent_folders("root.hcl")
+}
+
+terraform {
+  source = "\${get_parent_terragrunt_dir()}/modules//\${path_relative_to_include()}"
+}
+`
+    );
+    const evaluator = new TerragruntEvaluator([rootFile, unit]);
+
+    expect(evaluateSource(evaluator, unit).text).toBe('/live/modules//prod/vpc');
+  });
+
+  it('should mark references that cannot be resolved', () => {
+    const unit = terragruntFile(
+      'live/prod/vpc/terragrunt.hcl',
+      `terraform {
+  source = "\${find_in_parent_folders("missing.hcl")}//vpc?ref=\${local.version}"
+}
+`
+    );
+    const evaluator = new TerragruntEvaluator([unit]);
+
+    expect(evaluateSource(evaluator, unit)).toEqual({
+      text: '${find_in_parent_folders("missing.hcl")}//vpc?ref=${local.version}',
+      unresolved: ['find_in_parent_folders()', 'local.version'],
+    });
+  });
+
+  it('should not loop on circular includes', () => {
+    const first = terragruntFile(
+      'a/terragrunt.hcl',
+      'include {\n  path = "../b/terragrunt.hcl"\n}\nlocals {\n  x = include.locals.y\n}\n'
+    );
+    const second = terragruntFile(
+      'b/terragrunt.hcl',
+      'include {\n  path = "../a/terragrunt.hcl"\n}\nlocals {\n  y = "b"\n}\nterraform {\n  source = "./${local.y}"\n}\n'
+    );
+    const evaluator = new TerragruntEvaluator([first, second]);
+
+    expect(evaluateSource(evaluator, second).text).toBe('./b');
+  });
+});
@@ -242,13 +242,34 @@ include {
 
       const modules = parser.parseModules(files);
 
-      // Note: Current regex-based parser has limitations with multiline comments
-      expect(modules).toHaveLength(2);
-      expect(
-        modules.some(
-          m => m.source === 'git::https://github.com/example/modules.git//vpc?ref=v1.0.0'
-        )
-      ).toBe(true);
+      expect(modules).toHaveLength(1);
+      expect(modules[0].source).toBe('git::https://github.com/example/modules.git//vpc?ref=v1.0.0');
+    });
+
+    it('should only read the source attribute of the terraform block itself', () => {
+      const content = `terraform {
+  extra_arguments "vars" {
+    commands  = ["plan"]
+    arguments = ["-var-file=\${get_parent_terragrunt_dir()}/common.tfvars"]
+  }
+
+  source = "git::https://github.com/example/modules.git//app?ref=v3.0.0"
+}`;
+
+      const files: IacFile[] = [
+        IacFileBuilder.terragrunt().withPath('app/terragrunt.hcl').withContent(content).build(),
+      ];
+
+      const modules = parser.parseModules(files);
+
+      expect(modules).toHaveLength(1);
+      expect(modules[0]).toEqual(
+        expect.objectContaining({
+          source: 'git::https://github.com/example/modules.git//app?ref=v3.0.0',
+          version: 'v3.0.0',
+          lineNumber: 1,
+        })
+      );
     });
 
     it('should handle empty content', () => {
@@ -416,6 +437,278 @@ include {
     });
   });
 
+  describe('source evaluation', () => {
+    it('should resolve sources built from locals and includes across the scanned files', () => {
+      const files: IacFile[] = [
+        IacFileBuilder.terragrunt()
+          .withPath('live/root.hcl')
+          .withContent(
+            'locals {\n  base_source_url = "git::https://github.com/org/modules.git"\n}\n'
+          )
+          .build(),
+        IacFileBuilder.terragrunt()
+          .withPath('live/prod/vpc/terragrunt.hcl')
+          .withContent(
+            `include "root" {
+  path   = find_in_parent_folders("root.hcl")
+  expose = true
+}
+
+locals {
+  version = "v1.4.0"
+}
+
+terraform {
+  source = "\${include.root.locals.base_source_url}//vpc?ref=\${local.version}"
+}
+`
+          )
+          .build(),
+      ];
+
+      const modules = parser.parseModules(files);
+
+      expect(modules).toHaveLength(1);
+      expect(modules[0]).toEqual(
+        expect.objectContaining({
+          source: 'git::https://github.com/org/modules.git//vpc?ref=v1.4.0',
+          rawSource: '${include.root.locals.base_source_url}//vpc?ref=${local.version}',
+          sourceType: 'git',
+          version: 'v1.4.0',
+        })
+      );
+      expect(modules[0].unresolved).toBeUndefined();
+    });
+
+    it('should keep and mark references that cannot be resolved', () => {
+      const files: IacFile[] = [
+        IacFileBuilder.terragrunt()
+          .withPath('app/terragrunt.hcl')
+          .withContent('terraform {\n  source = "${local.base}//app?ref=v1.0.0"\n}\n')
+          .build(),
+      ];
+
+      const modules = parser.parseModules(files);
+
+      expect(modules[0].source).toBe('${local.base}//app?ref=v1.0.0');
+      expect(modules[0].rawSource).toBeUndefined();
+      expect(modules[0].unresolved).toEqual(['local.base']);
+    });
+  });
+
+  describe('local module resolution', () => {
+    it('should resolve local sources, including evaluated absolute paths', () => {
+      const files: IacFile[] = [
+        IacFileBuilder.terragrunt()
+          .withPath('live/prod/vpc/terragrunt.hcl')
+          .withContent('terraform {\n  source = "../../../modules//vpc"\n}\n')
+          .build(),
+        IacFileBuilder.terragrunt()
+          .withPath('live/prod/dns/terragrunt.hcl')
+          .withContent('terraform {\n  source = "${get_repo_root()}/modules/dns"\n}\n')
+          .build(),
+        IacFileBuilder.terragrunt()
+          .withPath('live/terragrunt.hcl')
+          .withContent('terraform {\n  source = "../../shared//modules/c"\n}\n')
+          .build(),
+        IacFileBuilder.terraform().withPath('modules/vpc/main.tf').build(),
+      ];
+
+      const modules = parser.parseModules(files);
+
+      expect(modules.map(m => [m.source, m.resolvedPath, m.brokenLink])).toEqual([
+        ['../../../modules//vpc', 'modules/vpc', false],
+        ['/modules/dns', 'modules/dns', true],
+        // Outside the repository
+        ['../../shared//modules/c', undefined, undefined],
+      ]);
+    });
+
+    it('should keep joined repository root paths from starting with //', () => {
+      const files: IacFile[] = [
+        IacFileBuilder.terragrunt()
+          .withPath('live/prod/vpc/terragrunt.hcl')
+          .withContent('terraform {\n  source = "${get_repo_root()}/modules/vpc//network"\n}\n')
+          .build(),
+        IacFileBuilder.terragrunt()
+          .withPath('terragrunt.hcl')
+          .withContent('terraform {\n  source = "${get_terragrunt_dir()}/modules/vpc"\n}\n')
+          .build(),
+        IacFileBuilder.terraform().withPath('modules/vpc/network/main.tf').build(),
+      ];
+
+      const modules = parser.parseModules(files);
+
+      expect(modules.map(m => [m.source, m.rawSource, m.resolvedPath])).toEqual([
+        ['/modules/vpc//network', '${get_repo_root()}/modules/vpc//network', 'modules/vpc/network'],
+        ['/modules/vpc', '${get_terragrunt_dir()}/modules/vpc', 'modules/vpc'],
+      ]);
+    });
+  });
+
+  describe('parseConfigRecords', () => {
+    it('should emit typed records for include and dependency blocks', () => {
+      const files: IacFile[] = [
+        IacFileBuilder.terragrunt()
+          .withPath('live/prod/app/terragrunt.hcl')
+          .withContent(terragruntSamples.terragruntComplex)
+          .build(),
+      ];
+
+      const records = parser.parseConfigRecords(files);
+
+      expect(records.map(r => r.kind)).toEqual(['locals', 'include', 'dependency', 'dependency']);
+      expect(records[0]).toEqual(
+        expect.objectContaining({ names: ['environment', 'region', 'common_vars'], lineNumber: 2 })
+      );
+      expect(records[1]).toEqual(
+        expect.objectContaining({
+          kind: 'include',
+          path: 'find_in_parent_folders()',
+          resolvedPath: undefined,
+          expose: false,
+          filePath: 'live/prod/app/terragrunt.hcl',
+        })
+      );
+      expect(records[2]).toEqual(
+        expect.objectContaining({
+          kind: 'dependency',
+          name: 'network',
+          configPath: '../network',
+          resolvedPath: 'live/prod/network',
+          skipOutputs: false,
+          hasMockOutputs: true,
+        })
+      );
+      expect(records[3]).toEqual(
+        expect.objectContaining({ name: 'database', skipOutputs: true, hasMockOutputs: false })
+      );
+    });
+
+    it('should emit dependencies, generate and read_terragrunt_config records', () => {
+      const files: IacFile[] = [
+        IacFileBuilder.terragrunt()
+          .withPath('live/app/terragrunt.hcl')
+          .withContent(
+            `include "root" {
+  path           = find_in_parent_folders("root.hcl")
+  expose         = true
+  merge_strategy = "deep"
+}
+
+locals {
+  env = read_terragrunt_config("../env.hcl")
+}
+
+dependencies {
+  paths = ["../vpc", "../db"]
+}
+
+generate "provider" {
+  path      = "provider.tf"
+  if_exists = "overwrite"
+  contents  = <<EOF
+provider "aws" {}
+EOF
+}
+`
+          )
+          .build(),
+      ];
+
+      const records = parser.parseConfigRecords(files);
+
+      expect(records.map(r => r.kind)).toEqual([
+        'include',
+        'locals',
+        'read_terragrunt_config',
+        'dependencies',
+        'generate',
+      ]);
+      expect(records[0]).toEqual(
+        expect.objectContaining({ name: 'root', expose: true, mergeStrategy: 'deep' })
+      );
+      expect(records[2]).toEqual(
+        expect.objectContaining({ path: '../env.hcl', resolvedPath: 'live/env.hcl', lineNumber: 8 })
+      );
+      expect(records[3]).toEqual(
+        expect.objectContaining({
+          paths: ['../vpc', '../db'],
+          resolvedPaths: ['live/vpc', 'live/db'],
+        })
+      );
+      expect(records[4]).toEqual(
+        expect.objectContaining({ name: 'provider', path: 'provider.tf', ifExists: 'overwrite' })
+      );
+    });
+
+    it('should not resolve paths that are absolute or leave the repository', () => {
+      const files: IacFile[] = [
+        IacFileBuilder.terragrunt()
+          .withPath('app/terragrunt.hcl')
+          .withContent(
+            `include "host" {
+  path = "/etc/terragrunt/root.hcl"
+}
+
+dependency "shared" {
+  config_path = "../../shared"
+}
+
+dependencies {
+  paths = ["../vpc", "../../outside"]
+}
+
+locals {
+  parent = read_terragrunt_config("\${get_repo_root()}/../common.hcl")
+}
+`
+          )
+          .build(),
+      ];
+
+      const records = parser.parseConfigRecords(files);
+
+      expect(records[0]).toEqual(
+        expect.objectContaining({ kind: 'include', resolvedPath: undefined })
+      );
+      expect(records[1]).toEqual(
+        expect.objectContaining({ kind: 'dependency', resolvedPath: undefined })
+      );
+      expect(records[2]).toEqual(expect.objectContaining({ resolvedPaths: ['vpc'] }));
+      expect(records[4]).toEqual(
+        expect.objectContaining({ kind: 'read_terragrunt_config', resolvedPath: undefined })
+      );
+    });
+  });
+
+  describe('parseCommentedModules', () => {
+    it('should report commented-out terraform blocks', () => {
+      const files: IacFile[] = [
+        IacFileBuilder.terragrunt()
+          .withPath('app/terragrunt.hcl')
+          .withContent(
+            `terraform {
+  source = "../modules/app"
+}
+
+// terraform {
+//   source = "git::https://github.com/example/modules.git//app?ref=v0.1.0"
+// }
+`
+          )
+          .build(),
+      ];
+
+      const modules = parser.parseCommentedModules(files);
+
+      expect(modules).toHaveLength(1);
+      expect(modules[0]).toEqual(
+        expect.objectContaining({ name: 'app', version: 'v0.1.0', lineNumber: 5 })
+      );
+    });
+  });
+
   describe('createModuleSummary', () => {
     it('should create summary for parsed modules', () => {
       const files: IacFile[] = [
@@ -0,0 +1,131 @@
+/**
+ * Unit tests for the module registry client
+ */
+
+import { RegistryClient, RegistryError, parseRegistryAddress } from '../../../src/registry';
+
+/**
+ * Create a fetch response with a JSON body
+ */
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+describe('parseRegistryAddress', () => {
+  it('should parse public registry addresses', () => {
+    expect(parseRegistryAddress('terraform-aws-modules/vpc/aws')).toEqual({
+      host: undefined,
+      namespace: 'terraform-aws-modules',
+      name: 'vpc',
+      provider: 'aws',
+      subdirectory: undefined,
+    });
+  });
+
+  it('should parse private registry addresses with submodules', () => {
+    expect(parseRegistryAddress('App.Terraform.io/acme/vpc/aws//modules/endpoints')).toEqual({
+      host: 'app.terraform.io',
+      namespace: 'acme',
+      name: 'vpc',
+      provider: 'aws',
+      subdirectory: 'modules/endpoints',
+    });
+  });
+
+  it('should parse Terragrunt tfr:// sources', () => {
+    expect(
+      parseRegistryAddress('tfr:///terraform-aws-modules/rds/aws?version=5.1.0')
+    ).toMatchObject({
+      host: undefined,
+      namespace: 'terraform-aws-modules',
+      name: 'rds',
+    });
+    expect(parseRegistryAddress('tfr://registry.acme.com/acme/rds/aws')).toMatchObject({
+      host: 'registry.acme.com',
+      namespace: 'acme',
+    });
+  });
+
+  it('should reject sources that are not registry addresses', () => {
+    expect(parseRegistryAddress('./modules/vpc')).toBeUndefined();
+    expect(parseRegistryAddress('git::https://github.com/acme/modules.git')).toBeUndefined();
+    expect(parseRegistryAddress('acme/vpc')).toBeUndefined();
+  });
+});
+
+describe('RegistryClient', () => {
+  let fetchMock: jest.SpyInstance;
+
+  beforeEach(() => {
+    fetchMock = jest.spyOn(global, 'fetch');
+  });
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+    delete process.env.TF_TOKEN_registry_acme__corp_com;
+  });
+
+  it('should list versions through the discovered modules endpoint', async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse({ 'modules.v1': '/api/registry/v1/modules/' }))
+      .mockResolvedValueOnce(
+        jsonResponse({ modules: [{ versions: [{ version: '1.0.0' }, { version: '1.1.0' }] }] })
+      );
+
+    const client = new RegistryClient({ baseUrl: 'http://localhost:8080/' });
+    await expect(client.getVersions('acme/vpc/aws')).resolves.toEqual(['1.0.0', '1.1.0']);
+
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+      'http://localhost:8080/.well-known/terraform.json',
+      'http://localhost:8080/api/registry/v1/modules/acme/vpc/aws/versions',
+    ]);
+  });
+
+  it('should fall back to the default modules path and cache lookups', async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse({}, 404))
+      .mockResolvedValueOnce(jsonResponse({ modules: [{ versions: [{ version: '5.0.0' }] }] }));
+
+    const client = new RegistryClient();
+    await client.getVersions('terraform-aws-modules/vpc/aws');
+    await client.getVersions('terraform-aws-modules/vpc/aws//modules/vpc-endpoints');
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(fetchMock.mock.calls[1][0]).toBe(
+      'https://registry.terraform.io/v1/modules/terraform-aws-modules/vpc/aws/versions'
+    );
+  });
+
+  it('should query the host of private registry sources with its TF_TOKEN_ token', async () => {
+    process.env.TF_TOKEN_registry_acme__corp_com = 'secret';
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse({ 'modules.v1': '/v1/modules/' }))
+      .mockResolvedValueOnce(jsonResponse({ modules: [{ versions: [] }] }));
+
+    await new RegistryClient().getVersions('registry.acme-corp.com/acme/vpc/aws');
+
+    const [url, init] = fetchMock.mock.calls[1];
+    expect(url).toBe('https://registry.acme-corp.com/v1/modules/acme/vpc/aws/versions');
+    expect(init.headers.Authorization).toBe('Bearer secret');
+  });
+
+  it('should reject unknown modules with a RegistryError', async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse({ 'modules.v1': '/v1/modules/' }))
+      .mockResolvedValueOnce(jsonResponse({ errors: ['Not Found'] }, 404));
+
+    const lookup = new RegistryClient().getVersions('acme/missing/aws');
+    await expect(lookup).rejects.toBeInstanceOf(RegistryError);
+    await expect(lookup).rejects.toMatchObject({ statusCode: 404 });
+  });
+
+  it('should reject sources that are not registry addresses', async () => {
+    await expect(new RegistryClient().getVersions('./modules/vpc')).rejects.toThrow(
+      'is not a registry module address'
+    );
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
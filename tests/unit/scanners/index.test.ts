@@ -5,6 +5,11 @@ describe('Scanners Index', () => {
     expect(scanners.LocalFilesystemScanner).toBeDefined();
   });
 
+  it('should export GitRemoteScanner', () => {
+    expect(scanners.GitRemoteScanner).toBeDefined();
+    expect(scanners.redactRemoteUrl).toBeDefined();
+  });
+
   it('should be able to create scanner instance', () => {
     const scanner = new scanners.LocalFilesystemScanner();
     expect(scanner).toBeInstanceOf(scanners.LocalFilesystemScanner);
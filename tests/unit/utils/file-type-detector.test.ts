@@ -1,4 +1,8 @@
-import { getIacFileType, shouldIncludeFileByType } from '../../../src/utils/file-type-detector';
+import {
+  getIacFileType,
+  isTerraformLockFile,
+  shouldIncludeFileByType,
+} from '../../../src/utils/file-type-detector';
 import { IacFileType } from '../../../src/types';
 
 describe('File Type Detector', () => {
@@ -33,6 +37,15 @@ describe('File Type Detector', () => {
     });
   });
 
+  describe('isTerraformLockFile', () => {
+    it('should only match files named exactly .terraform.lock.hcl', () => {
+      expect(isTerraformLockFile('.terraform.lock.hcl')).toBe(true);
+      expect(isTerraformLockFile('envs/prod/.terraform.lock.hcl')).toBe(true);
+      expect(isTerraformLockFile('test.terraform.lock.hcl')).toBe(false);
+      expect(isTerraformLockFile('main.tf')).toBe(false);
+    });
+  });
+
   describe('shouldIncludeFileByType', () => {
     it('should include all IaC files when no filter provided', () => {
       expect(shouldIncludeFileByType('main.tf')).toBe(true);
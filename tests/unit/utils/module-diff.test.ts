@@ -0,0 +1,130 @@
+/**
+ * Unit tests for module reference diffs
+ */
+
+import { diffModules, formatModuleChangesAsMarkdown } from '../../../src/utils/module-diff';
+import { IaCModule, determineSourceType } from '../../../src/parsers';
+
+/**
+ * Create a module usage
+ */
+function createModule(
+  name: string,
+  source: string,
+  version?: string,
+  filePath = 'main.tf',
+  lineNumber = 1
+): IaCModule {
+  return {
+    name,
+    source,
+    sourceType: determineSourceType(source),
+    version,
+    repository: 'repo1',
+    filePath,
+    fileUrl: `https://example.com/${filePath}`,
+    lineNumber,
+    type: 'terraform',
+  };
+}
+
+describe('diffModules', () => {
+  it('should report added and removed modules', () => {
+    const changes = diffModules(
+      [createModule('vpc', 'terraform-aws-modules/vpc/aws', '5.0.0')],
+      [createModule('rds', 'terraform-aws-modules/rds/aws', '6.0.0', 'db.tf')]
+    );
+
+    expect(changes.map(c => [c.kind, c.name, c.filePath])).toEqual([
+      ['added', 'rds', 'db.tf'],
+      ['removed', 'vpc', 'main.tf'],
+    ]);
+  });
+
+  it('should report version bumps with their direction', () => {
+    const changes = diffModules(
+      [
+        createModule('vpc', 'terraform-aws-modules/vpc/aws', '5.0.0', 'main.tf', 1),
+        createModule('eks', 'terraform-aws-modules/eks/aws', 'v20.1.0', 'main.tf', 10),
+        createModule('app', 'git::https://github.com/acme/app.git?ref=main', 'main', 'main.tf', 20),
+      ],
+      [
+        createModule('vpc', 'terraform-aws-modules/vpc/aws', '5.1.0', 'main.tf', 1),
+        createModule('eks', 'terraform-aws-modules/eks/aws', '19.0.0', 'main.tf', 12),
+        createModule('app', 'github.com/acme/app?ref=v1.0.0', 'v1.0.0', 'main.tf', 22),
+      ]
+    );
+
+    expect(changes).toEqual([
+      expect.objectContaining({
+        kind: 'version-changed',
+        name: 'vpc',
+        version: '5.1.0',
+        previousVersion: '5.0.0',
+        direction: 'upgrade',
+      }),
+      expect.objectContaining({
+        kind: 'version-changed',
+        name: 'eks',
+        lineNumber: 12,
+        direction: 'downgrade',
+      }),
+      expect.objectContaining({
+        kind: 'version-changed',
+        name: 'app',
+        previousSource: 'git::https://github.com/acme/app.git?ref=main',
+        direction: undefined,
+      }),
+    ]);
+  });
+
+  it('should ignore rewritten sources that keep the address and version', () => {
+    expect(
+      diffModules(
+        [createModule('vpc', 'terraform-aws-modules/vpc/aws', 'v5.0.0')],
+        [createModule('vpc', 'registry.terraform.io/terraform-aws-modules/vpc/aws', '5.0.0')]
+      )
+    ).toEqual([]);
+  });
+
+  it('should report modules pointing at another source', () => {
+    expect(
+      diffModules(
+        [createModule('vpc', 'terraform-aws-modules/vpc/aws', '5.0.0')],
+        [createModule('vpc', 'github.com/acme/vpc?ref=v1.0.0', 'v1.0.0')]
+      )
+    ).toEqual([
+      expect.objectContaining({
+        kind: 'source-changed',
+        source: 'github.com/acme/vpc?ref=v1.0.0',
+        previousSource: 'terraform-aws-modules/vpc/aws',
+        previousVersion: '5.0.0',
+      }),
+    ]);
+  });
+});
+
+describe('formatModuleChangesAsMarkdown', () => {
+  it('should render a row per change', () => {
+    const markdown = formatModuleChangesAsMarkdown(
+      diffModules(
+        [createModule('vpc', 'terraform-aws-modules/vpc/aws', '5.0.0', 'main.tf', 3)],
+        [
+          createModule('vpc', 'terraform-aws-modules/vpc/aws', '5.1.0', 'main.tf', 3),
+          createModule('app', 'git::https://github.com/acme/app.git?ref=a|b', 'a|b', 'main.tf', 9),
+        ]
+      )
+    );
+
+    expect(markdown.split('\n')).toEqual([
+      '| Change | Module | Source | Version | File |',
+      '| --- | --- | --- | --- | --- |',
+      '| upgraded | vpc | `terraform-aws-modules/vpc/aws` | 5.0.0 → 5.1.0 | [main.tf:3](https://example.com/main.tf#L3) |',
+      '| added | app | `git::https://github.com/acme/app.git?ref=a\\|b` | a\\|b | [main.tf:9](https://example.com/main.tf#L9) |',
+    ]);
+  });
+
+  it('should say when there are no changes', () => {
+    expect(formatModuleChangesAsMarkdown([])).toBe('No module changes.');
+  });
+});
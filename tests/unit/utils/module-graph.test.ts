@@ -0,0 +1,137 @@
+/**
+ * Unit tests for the module dependency graph
+ */
+
+import {
+  buildModuleGraph,
+  formatGraphAsDot,
+  formatGraphAsMermaid,
+} from '../../../src/utils/module-graph';
+import { IaCModule, TerragruntDependency } from '../../../src/parsers';
+
+/**
+ * Create a module usage
+ */
+function createModule(overrides: Partial<IaCModule>): IaCModule {
+  return {
+    name: 'module',
+    source: 'terraform-aws-modules/vpc/aws',
+    sourceType: 'registry',
+    repository: 'repo1',
+    filePath: 'envs/prod/main.tf',
+    fileUrl: 'https://example.com/main.tf',
+    lineNumber: 1,
+    type: 'terraform',
+    ...overrides,
+  };
+}
+
+describe('buildModuleGraph', () => {
+  it('should connect repositories, root modules and module sources', () => {
+    const graph = buildModuleGraph([
+      createModule({ version: '5.0.0' }),
+      createModule({ source: 'terraform-aws-modules/vpc/aws?version=v4.0.0', version: 'v4.0.0' }),
+      createModule({ repository: 'repo2', filePath: 'main.tf', version: '5.0.0' }),
+    ]);
+
+    expect(graph.nodes.map(n => [n.id, n.kind])).toEqual([
+      ['repository:repo1', 'repository'],
+      ['repository:repo2', 'repository'],
+      ['directory:repo1/envs/prod', 'root-module'],
+      ['directory:repo2/.', 'root-module'],
+      ['module:terraform-aws-modules/vpc/aws', 'module'],
+    ]);
+    expect(graph.edges).toEqual([
+      {
+        from: 'directory:repo1/envs/prod',
+        to: 'module:terraform-aws-modules/vpc/aws',
+        kind: 'calls',
+        count: 2,
+        versions: ['4.0.0', '5.0.0'],
+      },
+      {
+        from: 'directory:repo2/.',
+        to: 'module:terraform-aws-modules/vpc/aws',
+        kind: 'calls',
+        count: 1,
+        versions: ['5.0.0'],
+      },
+      { from: 'repository:repo1', to: 'directory:repo1/envs/prod', kind: 'contains', count: 1 },
+      { from: 'repository:repo2', to: 'directory:repo2/.', kind: 'contains', count: 1 },
+    ]);
+  });
+
+  it('should point local module calls and Terragrunt dependencies at directory nodes', () => {
+    const dependency: TerragruntDependency = {
+      kind: 'dependency',
+      name: 'vpc',
+      configPath: '../vpc',
+      resolvedPath: 'live/vpc',
+      skipOutputs: false,
+      hasMockOutputs: false,
+      repository: 'repo1',
+      filePath: 'live/app/terragrunt.hcl',
+      fileUrl: 'https://example.com/terragrunt.hcl',
+      lineNumber: 5,
+    };
+
+    const graph = buildModuleGraph(
+      [
+        createModule({
+          source: '../../modules//app',
+          sourceType: 'local',
+          resolvedPath: 'modules/app',
+          filePath: 'live/app/terragrunt.hcl',
+          type: 'terragrunt',
+        }),
+      ],
+      [dependency]
+    );
+
+    expect(graph.nodes.find(n => n.id === 'directory:repo1/modules/app')?.kind).toBe('module');
+    expect(graph.edges.filter(e => e.kind !== 'contains')).toEqual([
+      {
+        from: 'directory:repo1/live/app',
+        to: 'directory:repo1/live/vpc',
+        kind: 'depends-on',
+        count: 1,
+      },
+      {
+        from: 'directory:repo1/live/app',
+        to: 'directory:repo1/modules/app',
+        kind: 'calls',
+        count: 1,
+      },
+    ]);
+  });
+});
+
+describe('graph formats', () => {
+  const graph = buildModuleGraph([
+    createModule({ source: 'git::https://github.com/acme/"quoted".git', sourceType: 'git' }),
+    createModule({ version: '5.0.0' }),
+  ]);
+
+  it('should render DOT with escaped labels', () => {
+    const dot = formatGraphAsDot(graph);
+
+    expect(dot.startsWith('digraph terrawiz {')).toBe(true);
+    expect(dot).toContain('[label="git::https://github.com/acme/\\"quoted\\".git", shape=ellipse]');
+    expect(dot).toContain(
+      '"directory:repo1/envs/prod" -> "module:terraform-aws-modules/vpc/aws" [label="5.0.0"];'
+    );
+  });
+
+  it('should render Mermaid with generated node ids', () => {
+    expect(formatGraphAsMermaid(graph).split('\n')).toEqual([
+      'flowchart LR',
+      '  n0[["repo1"]]',
+      '  n1["repo1/envs/prod"]',
+      '  n2(["git::https://github.com/acme/#quot;quoted#quot;.git"])',
+      '  n3(["terraform-aws-modules/vpc/aws"])',
+      '  n1 --> n2',
+      '  n1 -->|"5.0.0"| n3',
+      '  n0 --> n1',
+    ]);
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Unit tests for module usage lookup
+ */
+
+import { createUsageSummary, findModuleUsages } from '../../../src/utils/module-usages';
+import { IaCModule, determineSourceType } from '../../../src/parsers';
+
+/**
+ * Create a module usage
+ */
+function createModule(source: string, repository = 'repo1', version?: string): IaCModule {
+  return {
+    name: 'module',
+    source,
+    sourceType: determineSourceType(source),
+    version,
+    repository,
+    filePath: 'main.tf',
+    fileUrl: 'https://example.com/main.tf',
+    lineNumber: 1,
+    type: 'terraform',
+  };
+}
+
+describe('findModuleUsages', () => {
+  const modules = [
+    createModule('git::https://github.com/acme/modules.git?ref=v1.0.0', 'repo1', 'v1.0.0'),
+    createModule('github.com/acme/modules//vpc?ref=v2.0.0', 'repo2', 'v2.0.0'),
+    createModule('git@github.com:acme/modules-extra.git', 'repo3'),
+    createModule('terraform-aws-modules/vpc/aws', 'repo1', '5.0.0'),
+    createModule('tfr:///terraform-aws-modules/vpc/aws?version=4.0.0', 'repo2', '4.0.0'),
+  ];
+
+  it('should match all refs, spellings and submodules of a repository', () => {
+    expect(findModuleUsages(modules, 'github.com/acme/modules').map(m => m.repository)).toEqual([
+      'repo1',
+      'repo2',
+    ]);
+  });
+
+  it('should only match the given submodule when the source has a subdirectory', () => {
+    expect(
+      findModuleUsages(modules, 'git::https://github.com/acme/modules.git//vpc').map(
+        m => m.repository
+      )
+    ).toEqual(['repo2']);
+  });
+
+  it('should match registry modules with any version', () => {
+    expect(findModuleUsages(modules, 'Terraform-AWS-Modules/vpc/aws')).toHaveLength(2);
+    expect(findModuleUsages(modules, 'terraform-aws-modules/rds/aws')).toEqual([]);
+  });
+});
+
+describe('createUsageSummary', () => {
+  it('should count usages per repository and normalized version', () => {
+    expect(
+      createUsageSummary([
+        createModule('acme/vpc/aws', 'repo1', 'v1.0.0'),
+        createModule('acme/vpc/aws', 'repo1', '1.0.0'),
+        createModule('acme/vpc/aws', 'repo1'),
+        createModule('acme/vpc/aws', 'repo2', '2.0.0'),
+      ])
+    ).toEqual({
+      repo1: { count: 3, versions: { '1.0.0': 2, '': 1 } },
+      repo2: { count: 1, versions: { '2.0.0': 1 } },
+    });
+  });
+});
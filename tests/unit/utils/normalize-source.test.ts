@@ -107,9 +107,10 @@ describe('createNormalizedSummary', () => {
     const normalizedSource = 'git::git@ssh.dev.azure.com:v3/org/repo/module';
     expect(Object.keys(summary)).toContain(normalizedSource);
     expect(summary[normalizedSource].count).toBe(2);
+    // v prefixes are normalized away
     expect(summary[normalizedSource].versions).toEqual({
-      'v1.0': 1,
-      'v2.0': 1,
+      '1.0': 1,
+      '2.0': 1,
     });
   });
 
@@ -183,6 +184,43 @@ describe('createNormalizedSummary', () => {
     expect(summary).toEqual({});
   });
 
+  it('should group differently written sources of the same module', () => {
+    const modules: IaCModule[] = [
+      {
+        name: 'https',
+        source: 'git::https://github.com/org/x.git?ref=v1.0.0',
+        sourceType: 'git',
+        version: 'v1.0.0',
+        repository: 'repo1',
+        filePath: 'main.tf',
+        fileUrl: 'https://example.com/main.tf',
+        lineNumber: 5,
+        type: 'terraform',
+      },
+      {
+        name: 'shorthand',
+        source: 'github.com/org/x?ref=v2.0.0',
+        sourceType: 'github',
+        version: 'v2.0.0',
+        repository: 'repo2',
+        filePath: 'main.tf',
+        fileUrl: 'https://example.com/main.tf',
+        lineNumber: 10,
+        type: 'terraform',
+      },
+    ];
+
+    const summary = createNormalizedSummary(modules);
+
+    expect(summary).toEqual({
+      'git::https://github.com/org/x.git': {
+        count: 2,
+        versions: { '1.0.0': 1, '2.0.0': 1 },
+        sourceType: 'git',
+      },
+    });
+  });
+
   it('should count modules without versions', () => {
     const modules: IaCModule[] = [
       {
@@ -0,0 +1,144 @@
+/**
+ * Unit tests for outdated module detection
+ */
+
+import {
+  ModuleVersionLookup,
+  assessVersion,
+  checkOutdatedModules,
+  createOutdatedSummary,
+} from '../../../src/utils/outdated';
+import { IaCModule } from '../../../src/parsers';
+
+const VPC_VERSIONS = ['3.14.0', '4.0.0', '5.0.0', '5.1.0', '5.1.2', '5.2.0', '6.0.0-beta1'];
+
+/**
+ * Create a registry module usage
+ */
+function createModule(source: string, version?: string, lineNumber = 1): IaCModule {
+  return {
+    name: 'module',
+    source,
+    sourceType: 'registry',
+    version,
+    repository: 'repo1',
+    filePath: 'main.tf',
+    fileUrl: 'https://example.com/main.tf',
+    lineNumber,
+    type: 'terraform',
+  };
+}
+
+describe('assessVersion', () => {
+  it('should count the major and minor versions published since an exact version', () => {
+    expect(assessVersion('3.14.0', VPC_VERSIONS)).toEqual({
+      status: 'outdated',
+      resolvedVersion: '3.14.0',
+      latestVersion: '5.2.0',
+      majorsBehind: 2,
+      minorsBehind: 4,
+    });
+    expect(assessVersion('v5.1.0', VPC_VERSIONS)).toMatchObject({
+      status: 'outdated',
+      majorsBehind: 0,
+      minorsBehind: 1,
+    });
+  });
+
+  it('should report patch-only differences as outdated without minor versions behind', () => {
+    expect(assessVersion('5.2.0', ['5.2.0', '5.2.1'])).toMatchObject({
+      status: 'outdated',
+      majorsBehind: 0,
+      minorsBehind: 0,
+    });
+  });
+
+  it('should ignore prereleases when determining the latest version', () => {
+    expect(assessVersion('5.2.0', VPC_VERSIONS)).toMatchObject({
+      status: 'up-to-date',
+      latestVersion: '5.2.0',
+    });
+  });
+
+  it('should resolve constraints to the newest matching published version', () => {
+    expect(assessVersion('~> 5.1.0', VPC_VERSIONS)).toMatchObject({
+      status: 'outdated',
+      resolvedVersion: '5.1.2',
+      minorsBehind: 1,
+    });
+    expect(assessVersion('>= 4.0, < 6.0', VPC_VERSIONS)).toMatchObject({
+      status: 'up-to-date',
+      resolvedVersion: '5.2.0',
+    });
+  });
+
+  it('should report unpinned usages and unknown versions', () => {
+    expect(assessVersion(undefined, VPC_VERSIONS)).toMatchObject({
+      status: 'unpinned',
+      latestVersion: '5.2.0',
+    });
+    expect(assessVersion('~> 7.0', VPC_VERSIONS)).toMatchObject({
+      status: 'unknown',
+      reason: 'no published version matches ~> 7.0',
+    });
+    expect(assessVersion('main', VPC_VERSIONS)).toMatchObject({ status: 'unknown' });
+    expect(assessVersion('1.0.0', [])).toEqual({
+      status: 'unknown',
+      reason: 'no published versions',
+    });
+  });
+});
+
+describe('checkOutdatedModules', () => {
+  it('should look up each normalized source once and skip other source types', async () => {
+    const lookup: ModuleVersionLookup = {
+      getVersions: jest.fn(async (source: string) => {
+        if (source === 'acme/missing/aws') {
+          throw new Error('Module acme/missing/aws not found');
+        }
+        return VPC_VERSIONS;
+      }),
+    };
+
+    const usages = await checkOutdatedModules(
+      [
+        createModule('terraform-aws-modules/vpc/aws', '3.14.0', 1),
+        createModule('terraform-aws-modules/vpc/aws', '5.2.0', 5),
+        createModule('acme/missing/aws', '1.0.0', 9),
+        { ...createModule('./modules/vpc'), sourceType: 'local' },
+      ],
+      { registry: lookup }
+    );
+
+    expect(lookup.getVersions).toHaveBeenCalledTimes(2);
+    expect(usages.map(u => [u.lineNumber, u.status])).toEqual([
+      [1, 'outdated'],
+      [5, 'up-to-date'],
+      [9, 'unknown'],
+    ]);
+    expect(usages[2].reason).toBe('Module acme/missing/aws not found');
+  });
+
+  it('should group usages by normalized source and version in the summary', async () => {
+    const lookup: ModuleVersionLookup = { getVersions: async () => VPC_VERSIONS };
+    const usages = await checkOutdatedModules(
+      [
+        createModule('tfr:///terraform-aws-modules/vpc/aws?version=5.1.0', '5.1.0'),
+        createModule('tfr:///terraform-aws-modules/vpc/aws?version=v5.1.0', 'v5.1.0'),
+        createModule('tfr:///terraform-aws-modules/vpc/aws'),
+      ],
+      { registry: lookup }
+    );
+
+    const summary = createOutdatedSummary(usages);
+    expect(summary['tfr:///terraform-aws-modules/vpc/aws']).toMatchObject({
+      latestVersion: '5.2.0',
+      count: 3,
+      outdatedCount: 2,
+      versions: {
+        '5.1.0': { count: 2, status: 'outdated', minorsBehind: 1 },
+        '': { count: 1, status: 'unpinned' },
+      },
+    });
+  });
+});
@@ -497,4 +497,26 @@ describe('sortModulesBySource', () => {
       expect(sorted.some(m => m.type === 'terragrunt')).toBe(true);
     });
   });
+
+  describe('version ordering', () => {
+    it('should order versions semantically rather than alphabetically', () => {
+      const modules: IaCModule[] = ['v1.10.0', '~> 1.9', 'v1.9.0', 'main', '1.2.0'].map(
+        (version, index) => ({
+          name: `vpc_${index}`,
+          source: 'terraform-aws-modules/vpc/aws',
+          sourceType: 'registry',
+          version,
+          repository: 'repo1',
+          filePath: 'main.tf',
+          fileUrl: 'https://example.com/main.tf',
+          lineNumber: index + 1,
+          type: 'terraform',
+        })
+      );
+
+      const sorted = sortModulesBySource(modules);
+
+      expect(sorted.map(m => m.version)).toEqual(['1.2.0', 'v1.9.0', '~> 1.9', 'v1.10.0', 'main']);
+    });
+  });
 });
@@ -90,6 +90,19 @@ describe('Source Parser', () => {
         expect(result.platform).toBe(VcsPlatform.BITBUCKET);
         expect(result.identifier).toBe('myworkspace');
       });
+
+      it('should parse Bitbucket repositories and projects', () => {
+        expect(parseSource('bitbucket:myworkspace/infra-live')).toMatchObject({
+          identifier: 'myworkspace',
+          repository: 'infra-live',
+        });
+        expect(parseSource('bitbucket:myworkspace/INFRA')).toEqual({
+          platform: VcsPlatform.BITBUCKET,
+          identifier: 'myworkspace/INFRA',
+          repository: undefined,
+          originalInput: 'bitbucket:myworkspace/INFRA',
+        });
+      });
     });
 
     describe('Local sources', () => {
@@ -203,6 +216,111 @@ describe('Source Parser', () => {
       });
     });
 
+    describe('Azure DevOps format', () => {
+      it('should parse organization and project', () => {
+        const result = parseSource('azure:contoso/platform');
+        expect(result).toEqual({
+          platform: VcsPlatform.AZURE_DEVOPS,
+          identifier: 'contoso/platform',
+          repository: undefined,
+          originalInput: 'azure:contoso/platform',
+        });
+      });
+
+      it('should parse a repository in a project with spaces', () => {
+        const result = parseSource('ado:contoso/Platform Team/infra');
+        expect(result.platform).toBe(VcsPlatform.AZURE_DEVOPS);
+        expect(result.identifier).toBe('contoso/Platform Team');
+        expect(result.repository).toBe('infra');
+      });
+
+      it('should require a project', () => {
+        expect(() => parseSource('azure:contoso')).toThrow(
+          'Expected format: organization/project[/repo]'
+        );
+        expect(() => parseSource('azure:contoso/platform/infra/extra')).toThrow(
+          'Expected format: organization/project[/repo]'
+        );
+      });
+
+      it('should reject URL-style sources', () => {
+        expect(() => parseSource('azure://dev.azure.com/contoso/platform')).toThrow(
+          'Azure DevOps sources use the azure:organization/project[/repo] format'
+        );
+      });
+    });
+
+    describe('Gitea format', () => {
+      it('should parse gitea.com and Forgejo sources', () => {
+        expect(parseSource('gitea:myorg/myrepo')).toEqual({
+          platform: VcsPlatform.GITEA,
+          identifier: 'myorg',
+          repository: 'myrepo',
+          originalInput: 'gitea:myorg/myrepo',
+        });
+        expect(parseSource('forgejo:myorg').platform).toBe(VcsPlatform.GITEA);
+      });
+
+      it('should parse self-hosted Gitea URL format', () => {
+        expect(parseSource('gitea://git.example.com/myorg')).toEqual({
+          platform: VcsPlatform.GITEA,
+          identifier: 'myorg',
+          repository: undefined,
+          host: 'https://git.example.com',
+          originalInput: 'gitea://git.example.com/myorg',
+        });
+      });
+    });
+
+    describe('Git remote format', () => {
+      it('should parse HTTPS and SSH remotes', () => {
+        expect(parseSource('git:https://git.example.com/infra/modules.git')).toEqual({
+          platform: VcsPlatform.GIT,
+          identifier: 'https://git.example.com/infra/modules.git',
+          originalInput: 'git:https://git.example.com/infra/modules.git',
+        });
+        expect(parseSource('git:ssh://git@git.example.com:2222/infra.git').identifier).toBe(
+          'ssh://git@git.example.com:2222/infra.git'
+        );
+        expect(parseSource('git:git@git.example.com:infra/modules.git').identifier).toBe(
+          'git@git.example.com:infra/modules.git'
+        );
+      });
+
+      it('should keep git:// remotes whole', () => {
+        expect(parseSource('git://git.example.com/infra.git')).toMatchObject({
+          platform: VcsPlatform.GIT,
+          identifier: 'git://git.example.com/infra.git',
+        });
+      });
+
+      it('should reject addresses that are not git remotes', () => {
+        expect(() => parseSource('git:infra/modules')).toThrow('Invalid git remote');
+        expect(() => parseSource('git:https://git.example.com')).toThrow('Invalid git remote');
+        expect(() => parseSource('git:')).toThrow('Missing identifier after "git:"');
+      });
+    });
+
+    describe('Bitbucket URL format', () => {
+      it('should parse Bitbucket Cloud URL format', () => {
+        const result = parseSource('bitbucket://bitbucket.org/my-workspace/my-repo');
+        expect(result.platform).toBe(VcsPlatform.BITBUCKET);
+        expect(result.identifier).toBe('my-workspace');
+        expect(result.repository).toBe('my-repo');
+      });
+
+      it('should parse Bitbucket Server URL format', () => {
+        const result = parseSource('bitbucket://bitbucket.example.com:8443/INFRA/modules');
+        expect(result).toEqual({
+          platform: VcsPlatform.BITBUCKET_SELF_HOSTED,
+          identifier: 'INFRA',
+          repository: 'modules',
+          host: 'https://bitbucket.example.com:8443',
+          originalInput: 'bitbucket://bitbucket.example.com:8443/INFRA/modules',
+        });
+      });
+    });
+
     describe('Error cases', () => {
       it('should throw error for empty source', () => {
         expect(() => parseSource('')).toThrow('Source must be a non-empty string');
@@ -278,6 +396,9 @@ describe('Source Parser', () => {
       expect(getPlatformDisplayName(VcsPlatform.BITBUCKET_SELF_HOSTED)).toBe(
         'Bitbucket Self-Hosted'
       );
+      expect(getPlatformDisplayName(VcsPlatform.AZURE_DEVOPS)).toBe('Azure DevOps');
+      expect(getPlatformDisplayName(VcsPlatform.GITEA)).toBe('Gitea');
+      expect(getPlatformDisplayName(VcsPlatform.GIT)).toBe('Git Remote');
       expect(getPlatformDisplayName(VcsPlatform.LOCAL)).toBe('Local Filesystem');
     });
   });
@@ -0,0 +1,49 @@
+import { gunzipSync } from 'zlib';
+import { readTarArchive } from '../../../src/utils/tar-archive';
+import { TarballBuilder } from '../../utils/builders';
+
+describe('readTarArchive', () => {
+  it('should read the regular files and the commit of a gzipped tarball', () => {
+    const archive = TarballBuilder.create()
+      .withCommit('abc123')
+      .withFile('acme-infra-abc123/main.tf', 'module "vpc" {}')
+      .withFile('acme-infra-abc123/live/terragrunt.hcl', 'terraform {}')
+      .build();
+
+    expect(readTarArchive(archive)).toEqual({
+      commit: 'abc123',
+      entries: [
+        { path: 'acme-infra-abc123/main.tf', content: Buffer.from('module "vpc" {}') },
+        { path: 'acme-infra-abc123/live/terragrunt.hcl', content: Buffer.from('terraform {}') },
+      ],
+    });
+  });
+
+  it('should read uncompressed archives', () => {
+    const archive = gunzipSync(TarballBuilder.create().withFile('repo/main.tf', 'x').build());
+
+    expect(readTarArchive(archive).entries.map(entry => entry.path)).toEqual(['repo/main.tf']);
+  });
+
+  it('should use the paths of pax headers for long names', () => {
+    const path = `repo/${'nested/'.repeat(20)}main.tf`;
+    const archive = TarballBuilder.create().withLongFile(path, 'module "vpc" {}').build();
+
+    expect(readTarArchive(archive).entries).toEqual([
+      { path, content: Buffer.from('module "vpc" {}') },
+    ]);
+  });
+
+  it('should skip links and filtered files', () => {
+    const archive = TarballBuilder.create()
+      .withSymlink('repo/secrets.tf', '/etc/passwd')
+      .withFile('repo/README.md', '# Infra')
+      .withFile('repo/main.tf', 'module "vpc" {}')
+      .build();
+
+    const { commit, entries } = readTarArchive(archive, path => path.endsWith('.tf'));
+
+    expect(commit).toBeUndefined();
+    expect(entries.map(entry => entry.path)).toEqual(['repo/main.tf']);
+  });
+});
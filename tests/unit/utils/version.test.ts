@@ -0,0 +1,91 @@
+/**
+ * Unit tests for the version model
+ */
+
+import {
+  compareVersions,
+  normalizeVersion,
+  parseSemanticVersion,
+  parseVersion,
+  satisfiesConstraints,
+} from '../../../src/utils/version';
+
+describe('Version model', () => {
+  describe('parseVersion', () => {
+    it('should parse exact versions with and without v prefix', () => {
+      expect(parseVersion('v1.2.3')).toEqual(
+        expect.objectContaining({
+          kind: 'exact',
+          normalized: '1.2.3',
+          version: expect.objectContaining({ major: 1, minor: 2, patch: 3 }),
+        })
+      );
+      expect(parseVersion('= 2.0.0').normalized).toBe('2.0.0');
+      expect(parseVersion('1.0.0-beta.1').version?.prerelease).toEqual(['beta', '1']);
+    });
+
+    it('should parse Terraform constraint lists', () => {
+      const parsed = parseVersion('>=1.0,<2.0.0, != 1.5.0');
+
+      expect(parsed.kind).toBe('constraint');
+      expect(parsed.normalized).toBe('>= 1.0, < 2.0.0, != 1.5.0');
+      expect(parsed.constraints?.map(c => c.operator)).toEqual(['>=', '<', '!=']);
+    });
+
+    it('should treat anything else as a git ref', () => {
+      expect(parseVersion('main')).toEqual({ raw: 'main', kind: 'ref', normalized: 'main' });
+      expect(parseVersion('a1b2c3d').kind).toBe('ref');
+      expect(parseVersion('release-2024').kind).toBe('ref');
+    });
+  });
+
+  describe('normalizeVersion', () => {
+    it('should group equivalent spellings', () => {
+      expect(normalizeVersion('v3.0.0')).toBe(normalizeVersion('3.0.0'));
+      expect(normalizeVersion('~>3.0')).toBe('~> 3.0');
+    });
+  });
+
+  describe('compareVersions', () => {
+    it('should sort by semantic version precedence', () => {
+      const versions = ['v1.10.0', '1.9.0', '1.10.0-rc.1', '1.10.0-beta', '0.9'];
+
+      expect([...versions].sort(compareVersions)).toEqual([
+        '0.9',
+        '1.9.0',
+        '1.10.0-beta',
+        '1.10.0-rc.1',
+        'v1.10.0',
+      ]);
+    });
+
+    it('should sort constraints after exact versions of the same base and refs last', () => {
+      expect(['develop', '~> 3.0', '>= 2.0', '3.0.0'].sort(compareVersions)).toEqual([
+        '>= 2.0',
+        '3.0.0',
+        '~> 3.0',
+        'develop',
+      ]);
+    });
+  });
+
+  describe('satisfiesConstraints', () => {
+    const satisfies = (version: string, constraint: string) =>
+      satisfiesConstraints(
+        parseSemanticVersion(version)!,
+        parseVersion(constraint).constraints ?? []
+      );
+
+    it('should apply pessimistic constraints by precision', () => {
+      expect(satisfies('3.9.0', '~> 3.0')).toBe(true);
+      expect(satisfies('4.0.0', '~> 3.0')).toBe(false);
+      expect(satisfies('3.0.9', '~> 3.0.1')).toBe(true);
+      expect(satisfies('3.1.0', '~> 3.0.1')).toBe(false);
+    });
+
+    it('should apply comparison operators in a list', () => {
+      expect(satisfies('1.5.0', '>= 1.0, < 2.0, != 1.5.0')).toBe(false);
+      expect(satisfies('1.6.0', '>= 1.0, < 2.0, != 1.5.0')).toBe(true);
+    });
+  });
+});
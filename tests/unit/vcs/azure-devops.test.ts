@@ -0,0 +1,259 @@
+import { AzureDevOpsService, AzureDevOpsServiceConfig } from '../../../src/vcs/azure-devops';
+import { VcsPlatform } from '../../../src/types';
+import { stubApi } from '../../utils/builders';
+
+const API_URL = 'http://localhost:8080';
+const PROJECT_URL = `${API_URL}/contoso/Platform%20Team/_apis/git/repositories`;
+const REPO_URL = `${PROJECT_URL}/infra`;
+const API_VERSION = 'api-version=7.1';
+
+const repository = {
+  id: '6f1c',
+  name: 'infra',
+  defaultBranch: 'refs/heads/main',
+  webUrl: 'https://dev.azure.com/contoso/Platform%20Team/_git/infra',
+  remoteUrl: 'https://contoso@dev.azure.com/contoso/Platform%20Team/_git/infra',
+  project: { name: 'Platform Team', visibility: 'private' },
+};
+
+describe('AzureDevOpsService', () => {
+  const originalEnv = process.env;
+  let fetchMock: jest.SpyInstance;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    delete process.env.AZURE_DEVOPS_TOKEN;
+    fetchMock = jest.spyOn(global, 'fetch');
+  });
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+    process.env = originalEnv;
+  });
+
+  const createDefaultConfig = (): AzureDevOpsServiceConfig => ({
+    platform: VcsPlatform.AZURE_DEVOPS,
+    token: 'test-token',
+    apiUrl: API_URL,
+  });
+
+  describe('constructor', () => {
+    it('should throw error when no token is provided', () => {
+      expect(() => new AzureDevOpsService({ platform: VcsPlatform.AZURE_DEVOPS })).toThrow(
+        'Azure DevOps token not found'
+      );
+    });
+
+    it('should use the token from AZURE_DEVOPS_TOKEN', async () => {
+      process.env.AZURE_DEVOPS_TOKEN = 'env-token';
+      stubApi(fetchMock, { [`${REPO_URL}?${API_VERSION}`]: repository });
+
+      const service = new AzureDevOpsService({
+        platform: VcsPlatform.AZURE_DEVOPS,
+        apiUrl: API_URL,
+      });
+      await service.getSingleRepository('contoso/Platform Team', 'infra');
+
+      expect(fetchMock.mock.calls[0][1].headers.Authorization).toBe(
+        `Basic ${Buffer.from(':env-token').toString('base64')}`
+      );
+    });
+  });
+
+  describe('getSingleRepository', () => {
+    it('should map a repository', async () => {
+      stubApi(fetchMock, { [`${REPO_URL}?${API_VERSION}`]: repository });
+
+      const service = new AzureDevOpsService(createDefaultConfig());
+
+      expect(await service.getSingleRepository('contoso/Platform Team', 'infra')).toEqual({
+        owner: 'contoso/Platform Team',
+        name: 'infra',
+        fullName: 'contoso/Platform Team/infra',
+        defaultBranch: 'main',
+        archived: false,
+        private: true,
+        url: 'https://dev.azure.com/contoso/Platform%20Team/_git/infra',
+        cloneUrl: 'https://contoso@dev.azure.com/contoso/Platform%20Team/_git/infra',
+      });
+    });
+
+    it('should return null for non-existent repository', async () => {
+      stubApi(fetchMock, {});
+
+      const service = new AzureDevOpsService(createDefaultConfig());
+      expect(await service.getSingleRepository('contoso/Platform Team', 'missing')).toBe(null);
+    });
+
+    it('should reject owners without a project', async () => {
+      stubApi(fetchMock, {});
+
+      const service = new AzureDevOpsService(createDefaultConfig());
+      await expect(service.getRepositories('contoso')).rejects.toThrow(
+        'Invalid Azure DevOps owner: "contoso"'
+      );
+    });
+  });
+
+  describe('getRepositories', () => {
+    it('should skip disabled repositories and filter by pattern', async () => {
+      stubApi(fetchMock, {
+        [`${PROJECT_URL}?${API_VERSION}`]: {
+          value: [
+            repository,
+            { ...repository, name: 'infra-legacy', isDisabled: true },
+            { ...repository, name: 'docs' },
+          ],
+          count: 3,
+        },
+      });
+
+      const service = new AzureDevOpsService({
+        ...createDefaultConfig(),
+        skipArchived: true,
+        repoPattern: '^infra',
+      });
+      const repositories = await service.getRepositories('contoso/Platform Team');
+
+      expect(repositories.map(r => r.fullName)).toEqual(['contoso/Platform Team/infra']);
+    });
+  });
+
+  describe('findIacFilesInRepository', () => {
+    const listing = (versionType: string, version = 'main'): string =>
+      `${REPO_URL}/items?${API_VERSION}&scopePath=%2F&recursionLevel=full` +
+      `&versionDescriptor.version=${version}&versionDescriptor.versionType=${versionType}`;
+    const content = (path: string): string =>
+      `${REPO_URL}/items?${API_VERSION}&path=${encodeURIComponent(path)}&includeContent=true` +
+      '&versionDescriptor.version=abc123&versionDescriptor.versionType=commit';
+
+    it('should list the tree recursively and read files at the listed commit', async () => {
+      stubApi(fetchMock, {
+        [`${REPO_URL}?${API_VERSION}`]: repository,
+        [listing('branch')]: {
+          value: [
+            { path: '/', isFolder: true, gitObjectType: 'tree', commitId: 'abc123' },
+            { path: '/main.tf', gitObjectType: 'blob', commitId: 'abc123', size: 15 },
+            { path: '/README.md', gitObjectType: 'blob', commitId: 'abc123' },
+            { path: '/live', isFolder: true, gitObjectType: 'tree', commitId: 'abc123' },
+            { path: '/live/terragrunt.hcl', gitObjectType: 'blob', commitId: 'abc123' },
+            { path: '/.terraform/modules/x/main.tf', gitObjectType: 'blob', commitId: 'abc123' },
+          ],
+        },
+        [content('/main.tf')]: { content: 'module "vpc" {}' },
+        [content('/live/terragrunt.hcl')]: { content: 'terraform {}' },
+      });
+
+      const service = new AzureDevOpsService(createDefaultConfig());
+      const repo = await service.getSingleRepository('contoso/Platform Team', 'infra');
+      const files = await service.findIacFilesInRepository(repo!, {
+        fileTypes: ['terraform', 'terragrunt'],
+      });
+
+      expect(files).toEqual([
+        {
+          type: 'terraform',
+          repository: 'contoso/Platform Team/infra',
+          path: 'main.tf',
+          content: 'module "vpc" {}',
+          url: `${repository.webUrl}?path=/main.tf&version=GBmain`,
+          size: 15,
+        },
+        {
+          type: 'terragrunt',
+          repository: 'contoso/Platform Team/infra',
+          path: 'live/terragrunt.hcl',
+          content: 'terraform {}',
+          url: `${repository.webUrl}?path=/live/terragrunt.hcl&version=GBmain`,
+          size: undefined,
+        },
+      ]);
+    });
+
+    it('should fall back to tags for refs that are not branches', async () => {
+      stubApi(fetchMock, {
+        [`${REPO_URL}?${API_VERSION}`]: repository,
+        [listing('tag', 'v1.0.0')]: {
+          value: [{ path: '/main.tf', gitObjectType: 'blob', commitId: 'abc123' }],
+        },
+        [content('/main.tf')]: { content: 'module "vpc" {}' },
+      });
+
+      const service = new AzureDevOpsService(createDefaultConfig());
+      const repo = await service.getSingleRepository('contoso/Platform Team', 'infra');
+      const files = await service.findIacFilesInRepository(repo!, {
+        fileTypes: ['terraform'],
+        ref: 'v1.0.0',
+      });
+
+      expect(files.map(f => f.url)).toEqual([
+        `${repository.webUrl}?path=/main.tf&version=GTv1.0.0`,
+      ]);
+    });
+  });
+
+  describe('listTags', () => {
+    it('should list tag names, ignoring the _git segment of clone URLs', async () => {
+      stubApi(fetchMock, {
+        [`${REPO_URL}/refs?${API_VERSION}&filter=tags%2F`]: {
+          value: [{ name: 'refs/tags/v1.0.0' }, { name: 'refs/tags/v1.1.0' }],
+        },
+      });
+
+      const service = new AzureDevOpsService(createDefaultConfig());
+      expect(await service.listTags('contoso/Platform Team/_git', 'infra')).toEqual([
+        'v1.0.0',
+        'v1.1.0',
+      ]);
+    });
+  });
+
+  describe('change requests', () => {
+    const pullRequest = {
+      pullRequestId: 12,
+      title: 'Bump VPC module',
+      createdBy: { uniqueName: 'jdoe@contoso.com', displayName: 'Jane Doe' },
+      sourceRefName: 'refs/heads/bump-vpc',
+      targetRefName: 'refs/heads/main',
+      lastMergeSourceCommit: { commitId: 'head123' },
+      lastMergeTargetCommit: { commitId: 'main123' },
+    };
+    const mergeBases = `${REPO_URL}/commits/head123/mergebases?api-version=7.1-preview.1&otherCommitId=main123`;
+
+    it('should compare a pull request against its merge base', async () => {
+      stubApi(fetchMock, {
+        [`${REPO_URL}/pullrequests/12?${API_VERSION}`]: pullRequest,
+        [mergeBases]: { value: [{ commitId: 'base123' }] },
+      });
+
+      const service = new AzureDevOpsService(createDefaultConfig());
+
+      expect(await service.getChangeRequest('contoso/Platform Team', 'infra', 12)).toEqual({
+        number: 12,
+        title: 'Bump VPC module',
+        url: `${API_URL}/contoso/Platform%20Team/_git/infra/pullrequest/12`,
+        author: 'jdoe@contoso.com',
+        sourceBranch: 'bump-vpc',
+        targetBranch: 'main',
+        headRef: 'head123',
+        baseRef: 'base123',
+      });
+      expect(await service.getChangeRequest('contoso/Platform Team', 'infra', 13)).toBe(null);
+    });
+
+    it('should list active pull requests', async () => {
+      stubApi(fetchMock, {
+        [`${REPO_URL}/pullrequests?${API_VERSION}&searchCriteria.status=active&%24top=100&%24skip=0`]:
+          { value: [pullRequest] },
+        [mergeBases]: { value: [] },
+      });
+
+      const service = new AzureDevOpsService(createDefaultConfig());
+      const changeRequests = await service.listOpenChangeRequests('contoso/Platform Team', 'infra');
+
+      expect(changeRequests.map(c => [c.number, c.headRef, c.baseRef])).toEqual([
+        [12, 'head123', 'main123'],
+      ]);
+    });
+  });
+});
@@ -3,6 +3,7 @@ import {
   VcsPlatform,
   VcsRepository,
   VcsRepositoryFilter,
+  VcsChangeRequest,
   VcsFileDiscoveryOptions,
   IacFile,
   VcsError,
@@ -75,6 +76,22 @@ class TestVcsService extends BaseVcsService {
 
     return this.mockFiles.filter(file => file.repository === repository.name);
   }
+
+  async listTags(_owner: string, _repo: string): Promise<string[]> {
+    return [];
+  }
+
+  async getChangeRequest(
+    _owner: string,
+    _repo: string,
+    _number: number
+  ): Promise<VcsChangeRequest | null> {
+    return null;
+  }
+
+  async listOpenChangeRequests(_owner: string, _repo: string): Promise<VcsChangeRequest[]> {
+    return [];
+  }
 }
 
 describe('BaseVcsService', () => {
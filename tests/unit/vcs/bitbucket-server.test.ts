@@ -0,0 +1,287 @@
+import {
+  BitbucketServerService,
+  BitbucketServerServiceConfig,
+} from '../../../src/vcs/bitbucket-server';
+import { VcsPlatform } from '../../../src/types';
+import { stubApi, stubResponse } from '../../utils/builders';
+
+const HOST = 'http://localhost:7990';
+const API_URL = `${HOST}/rest/api/1.0`;
+const REPO_URL = `${API_URL}/projects/INFRA/repos/modules`;
+
+const repository = {
+  slug: 'modules',
+  name: 'Modules',
+  public: false,
+  project: { key: 'INFRA' },
+  links: {
+    self: [{ href: `${HOST}/projects/INFRA/repos/modules/browse` }],
+    clone: [
+      { name: 'ssh', href: 'ssh://git@localhost:7999/infra/modules.git' },
+      { name: 'http', href: `${HOST}/scm/infra/modules.git` },
+    ],
+  },
+};
+
+describe('BitbucketServerService', () => {
+  const originalEnv = process.env;
+  let fetchMock: jest.SpyInstance;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    delete process.env.BITBUCKET_TOKEN;
+    delete process.env.BITBUCKET_USERNAME;
+    delete process.env.BITBUCKET_APP_PASSWORD;
+    fetchMock = jest.spyOn(global, 'fetch');
+  });
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+    process.env = originalEnv;
+  });
+
+  const createDefaultConfig = (): BitbucketServerServiceConfig => ({
+    platform: VcsPlatform.BITBUCKET_SELF_HOSTED,
+    host: HOST,
+    token: 'test-token',
+  });
+
+  describe('constructor', () => {
+    it('should throw error when no host is provided', () => {
+      expect(
+        () =>
+          new BitbucketServerService({ platform: VcsPlatform.BITBUCKET_SELF_HOSTED, token: 't' })
+      ).toThrow('Bitbucket Server host is required');
+    });
+
+    it('should throw error when no credentials are provided', () => {
+      expect(
+        () =>
+          new BitbucketServerService({ platform: VcsPlatform.BITBUCKET_SELF_HOSTED, host: HOST })
+      ).toThrow('Bitbucket Server credentials not found');
+    });
+
+    it('should include the host in the platform name', () => {
+      expect(new BitbucketServerService(createDefaultConfig()).platformName).toBe(
+        `Bitbucket Server (${HOST})`
+      );
+    });
+  });
+
+  describe('getSingleRepository', () => {
+    it('should map a repository with its default branch', async () => {
+      stubApi(fetchMock, {
+        [REPO_URL]: repository,
+        [`${REPO_URL}/default-branch`]: { id: 'refs/heads/master', displayId: 'master' },
+      });
+
+      const service = new BitbucketServerService(createDefaultConfig());
+
+      expect(await service.getSingleRepository('INFRA', 'modules')).toEqual({
+        owner: 'INFRA',
+        name: 'modules',
+        fullName: 'INFRA/modules',
+        defaultBranch: 'master',
+        archived: false,
+        private: true,
+        url: `${HOST}/projects/INFRA/repos/modules`,
+        cloneUrl: `${HOST}/scm/infra/modules.git`,
+      });
+      expect(fetchMock.mock.calls[0][1].headers.Authorization).toBe('Bearer test-token');
+    });
+
+    it('should fall back to the branches/default endpoint of older servers', async () => {
+      stubApi(fetchMock, {
+        [REPO_URL]: repository,
+        [`${REPO_URL}/branches/default`]: { id: 'refs/heads/develop', displayId: 'develop' },
+      });
+
+      const service = new BitbucketServerService(createDefaultConfig());
+      const repo = await service.getSingleRepository('INFRA', 'modules');
+
+      expect(repo?.defaultBranch).toBe('develop');
+    });
+
+    it('should skip archived repositories when configured', async () => {
+      stubApi(fetchMock, { [REPO_URL]: { ...repository, archived: true } });
+
+      const service = new BitbucketServerService({
+        ...createDefaultConfig(),
+        skipArchived: true,
+      });
+      expect(await service.getSingleRepository('INFRA', 'modules')).toBe(null);
+    });
+
+    it('should return null for non-existent repository', async () => {
+      stubApi(fetchMock, {});
+
+      const service = new BitbucketServerService(createDefaultConfig());
+      expect(await service.getSingleRepository('INFRA', 'missing')).toBe(null);
+      expect(await service.repositoryExists('INFRA', 'missing')).toBe(false);
+    });
+  });
+
+  describe('getRepositories', () => {
+    it('should page with start and limit and filter by pattern', async () => {
+      stubApi(fetchMock, {
+        [`${API_URL}/projects/INFRA/repos?limit=100&start=0`]: {
+          values: [repository],
+          isLastPage: false,
+          nextPageStart: 1,
+        },
+        [`${API_URL}/projects/INFRA/repos?limit=100&start=1`]: {
+          values: [{ ...repository, slug: 'docs' }],
+          isLastPage: true,
+        },
+        [`${REPO_URL}/default-branch`]: { id: 'refs/heads/main', displayId: 'main' },
+      });
+
+      const service = new BitbucketServerService({
+        ...createDefaultConfig(),
+        repoPattern: '^mod',
+      });
+      const repositories = await service.getRepositories('INFRA');
+
+      expect(repositories.map(r => r.fullName)).toEqual(['INFRA/modules']);
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it('should skip repositories whose default branch cannot be read', async () => {
+      stubApi(fetchMock, {
+        [`${API_URL}/projects/INFRA/repos?limit=100&start=0`]: {
+          values: [repository, { ...repository, slug: 'docs' }, { ...repository, slug: 'live' }],
+          isLastPage: true,
+        },
+        [`${REPO_URL}/default-branch`]: { id: 'refs/heads/main', displayId: 'main' },
+        [`${API_URL}/projects/INFRA/repos/live/default-branch`]: {
+          id: 'refs/heads/master',
+          displayId: 'master',
+        },
+      });
+      const routes = fetchMock.getMockImplementation()!;
+      fetchMock.mockImplementation(async (url: string) =>
+        url === `${API_URL}/projects/INFRA/repos/docs/default-branch`
+          ? stubResponse({ errors: [] }, 500)
+          : routes(url)
+      );
+
+      const service = new BitbucketServerService(createDefaultConfig());
+      const repositories = await service.getRepositories('INFRA');
+
+      expect(repositories.map(r => [r.fullName, r.defaultBranch])).toEqual([
+        ['INFRA/modules', 'main'],
+        ['INFRA/live', 'master'],
+      ]);
+    });
+  });
+
+  describe('findIacFilesInRepository', () => {
+    it('should list the files of the pinned commit and fetch IaC files', async () => {
+      stubApi(fetchMock, {
+        [REPO_URL]: repository,
+        [`${REPO_URL}/default-branch`]: { id: 'refs/heads/main', displayId: 'main' },
+        [`${REPO_URL}/commits?until=main&limit=1`]: {
+          values: [{ id: 'abc123' }],
+          isLastPage: false,
+        },
+        [`${REPO_URL}/files?limit=1000&at=abc123&start=0`]: {
+          values: ['main.tf', 'README.md', 'live/terragrunt.hcl', 'node_modules/x/main.tf'],
+          isLastPage: true,
+        },
+        [`${REPO_URL}/raw/main.tf?at=abc123`]: 'module "vpc" {}',
+        [`${REPO_URL}/raw/live/terragrunt.hcl?at=abc123`]: 'terraform {}',
+      });
+
+      const service = new BitbucketServerService(createDefaultConfig());
+      const repo = await service.getSingleRepository('INFRA', 'modules');
+      const files = await service.findIacFilesInRepository(repo!, {
+        fileTypes: ['terraform', 'terragrunt'],
+      });
+
+      expect(files).toEqual([
+        {
+          type: 'terraform',
+          repository: 'INFRA/modules',
+          path: 'main.tf',
+          content: 'module "vpc" {}',
+          url: `${HOST}/projects/INFRA/repos/modules/browse/main.tf?at=main`,
+          size: 15,
+        },
+        {
+          type: 'terragrunt',
+          repository: 'INFRA/modules',
+          path: 'live/terragrunt.hcl',
+          content: 'terraform {}',
+          url: `${HOST}/projects/INFRA/repos/modules/browse/live/terragrunt.hcl?at=main`,
+          size: 12,
+        },
+      ]);
+    });
+  });
+
+  describe('listTags', () => {
+    it('should list tag names, ignoring the scm/ prefix of clone URLs', async () => {
+      stubApi(fetchMock, {
+        [`${REPO_URL}/tags?limit=100&start=0`]: {
+          values: [
+            { id: 'refs/tags/v1.0.0', displayId: 'v1.0.0' },
+            { id: 'refs/tags/v1.1.0', displayId: 'v1.1.0' },
+          ],
+          isLastPage: true,
+        },
+      });
+
+      const service = new BitbucketServerService(createDefaultConfig());
+      expect(await service.listTags('INFRA', 'modules')).toEqual(['v1.0.0', 'v1.1.0']);
+      expect(await service.listTags('scm/INFRA', 'modules')).toEqual(['v1.0.0', 'v1.1.0']);
+    });
+  });
+
+  describe('change requests', () => {
+    const pullRequest = {
+      id: 7,
+      title: 'Bump VPC module',
+      links: { self: [{ href: `${HOST}/projects/INFRA/repos/modules/pull-requests/7` }] },
+      author: { user: { name: 'jdoe', displayName: 'Jane Doe' } },
+      fromRef: { id: 'refs/heads/bump-vpc', displayId: 'bump-vpc', latestCommit: 'head123' },
+      toRef: { id: 'refs/heads/main', displayId: 'main', latestCommit: 'main123' },
+    };
+
+    it('should compare a pull request against its merge base', async () => {
+      stubApi(fetchMock, {
+        [`${REPO_URL}/pull-requests/7`]: pullRequest,
+        [`${REPO_URL}/pull-requests/7/merge-base`]: { id: 'base123' },
+      });
+
+      const service = new BitbucketServerService(createDefaultConfig());
+
+      expect(await service.getChangeRequest('INFRA', 'modules', 7)).toEqual({
+        number: 7,
+        title: 'Bump VPC module',
+        url: `${HOST}/projects/INFRA/repos/modules/pull-requests/7`,
+        author: 'jdoe',
+        sourceBranch: 'bump-vpc',
+        targetBranch: 'main',
+        headRef: 'head123',
+        baseRef: 'base123',
+      });
+      expect(await service.getChangeRequest('INFRA', 'modules', 8)).toBe(null);
+    });
+
+    it('should list open pull requests, falling back to the target branch commit', async () => {
+      stubApi(fetchMock, {
+        [`${REPO_URL}/pull-requests?limit=100&state=OPEN&start=0`]: {
+          values: [pullRequest],
+          isLastPage: true,
+        },
+      });
+
+      const service = new BitbucketServerService(createDefaultConfig());
+      const changeRequests = await service.listOpenChangeRequests('INFRA', 'modules');
+
+      expect(changeRequests.map(c => [c.number, c.headRef, c.baseRef])).toEqual([
+        [7, 'head123', 'main123'],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,251 @@
+import { BitbucketService, BitbucketServiceConfig } from '../../../src/vcs/bitbucket';
+import { VcsErrorType, VcsPlatform } from '../../../src/types';
+import { stubApi, stubResponse } from '../../utils/builders';
+
+const API_URL = 'http://localhost:8080/2.0';
+
+const repository = {
+  slug: 'infra',
+  name: 'Infra',
+  full_name: 'acme/infra',
+  is_private: true,
+  mainbranch: { name: 'main' },
+  links: {
+    html: { href: 'https://bitbucket.org/acme/infra' },
+    clone: [{ name: 'https', href: 'https://user@bitbucket.org/acme/infra.git' }],
+  },
+  workspace: { slug: 'acme' },
+};
+
+describe('BitbucketService', () => {
+  const originalEnv = process.env;
+  let fetchMock: jest.SpyInstance;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    delete process.env.BITBUCKET_TOKEN;
+    delete process.env.BITBUCKET_USERNAME;
+    delete process.env.BITBUCKET_APP_PASSWORD;
+    fetchMock = jest.spyOn(global, 'fetch');
+  });
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+    process.env = originalEnv;
+  });
+
+  const createDefaultConfig = (): BitbucketServiceConfig => ({
+    platform: VcsPlatform.BITBUCKET,
+    token: 'test-token',
+    apiUrl: API_URL,
+  });
+
+  describe('constructor', () => {
+    it('should throw error when no credentials are provided', () => {
+      expect(() => new BitbucketService({ platform: VcsPlatform.BITBUCKET })).toThrow(
+        'Bitbucket credentials not found'
+      );
+    });
+
+    it('should authenticate with an app password', async () => {
+      stubApi(fetchMock, { [`${API_URL}/repositories/acme/infra`]: repository });
+
+      const service = new BitbucketService({
+        platform: VcsPlatform.BITBUCKET,
+        username: 'jdoe',
+        appPassword: 'app-password',
+        apiUrl: API_URL,
+      });
+      await service.getSingleRepository('acme', 'infra');
+
+      const [, init] = fetchMock.mock.calls[0];
+      expect(init.headers.Authorization).toBe(
+        `Basic ${Buffer.from('jdoe:app-password').toString('base64')}`
+      );
+    });
+  });
+
+  describe('getSingleRepository', () => {
+    it('should map a repository', async () => {
+      stubApi(fetchMock, { [`${API_URL}/repositories/acme/infra`]: repository });
+
+      const service = new BitbucketService(createDefaultConfig());
+
+      expect(await service.getSingleRepository('acme', 'infra')).toEqual({
+        owner: 'acme',
+        name: 'infra',
+        fullName: 'acme/infra',
+        defaultBranch: 'main',
+        archived: false,
+        private: true,
+        url: 'https://bitbucket.org/acme/infra',
+        cloneUrl: 'https://user@bitbucket.org/acme/infra.git',
+      });
+      expect(fetchMock.mock.calls[0][1].headers.Authorization).toBe('Bearer test-token');
+    });
+
+    it('should return null for non-existent repository', async () => {
+      stubApi(fetchMock, {});
+
+      const service = new BitbucketService(createDefaultConfig());
+      expect(await service.getSingleRepository('acme', 'missing')).toBe(null);
+      expect(await service.repositoryExists('acme', 'missing')).toBe(false);
+    });
+  });
+
+  describe('rate limiting', () => {
+    const rateLimited = (): Response =>
+      new Response('', { status: 429, headers: { 'Retry-After': '0' } });
+
+    it('should retry rate-limited requests after Retry-After', async () => {
+      fetchMock
+        .mockResolvedValueOnce(rateLimited())
+        .mockResolvedValueOnce(stubResponse(repository));
+
+      const service = new BitbucketService(createDefaultConfig());
+
+      expect(await service.getSingleRepository('acme', 'infra')).toMatchObject({
+        fullName: 'acme/infra',
+      });
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('should fail when requests stay rate-limited', async () => {
+      fetchMock.mockImplementation(async () => rateLimited());
+
+      const service = new BitbucketService(createDefaultConfig());
+
+      await expect(service.getSingleRepository('acme', 'infra')).rejects.toMatchObject({
+        type: VcsErrorType.RATE_LIMIT_EXCEEDED,
+      });
+      expect(fetchMock).toHaveBeenCalledTimes(4);
+    });
+  });
+
+  describe('getRepositories', () => {
+    it('should follow pagination and filter by pattern', async () => {
+      stubApi(fetchMock, {
+        [`${API_URL}/repositories/acme?pagelen=100`]: {
+          values: [repository],
+          next: `${API_URL}/repositories/acme?pagelen=100&page=2`,
+        },
+        [`${API_URL}/repositories/acme?pagelen=100&page=2`]: {
+          values: [{ ...repository, slug: 'docs', full_name: 'acme/docs' }],
+        },
+      });
+
+      const service = new BitbucketService({ ...createDefaultConfig(), repoPattern: '^infra' });
+      const repositories = await service.getRepositories('acme');
+
+      expect(repositories.map(r => r.fullName)).toEqual(['acme/infra']);
+    });
+
+    it('should list the repositories of a project', async () => {
+      stubApi(fetchMock, {
+        [`${API_URL}/repositories/acme?pagelen=100&q=project.key%3D%22INFRA%22`]: {
+          values: [repository],
+        },
+      });
+
+      const service = new BitbucketService(createDefaultConfig());
+      const repositories = await service.getRepositories('acme/INFRA');
+
+      expect(repositories.map(r => [r.owner, r.fullName])).toEqual([['acme', 'acme/infra']]);
+    });
+  });
+
+  describe('findIacFilesInRepository', () => {
+    const source = `${API_URL}/repositories/acme/infra/src/abc123`;
+
+    it('should walk the source tree of the main branch and fetch IaC files', async () => {
+      stubApi(fetchMock, {
+        [`${API_URL}/repositories/acme/infra`]: repository,
+        [`${API_URL}/repositories/acme/infra/commit/main`]: { hash: 'abc123' },
+        [`${source}/?pagelen=100`]: {
+          values: [
+            { type: 'commit_file', path: 'main.tf', size: 20 },
+            { type: 'commit_file', path: 'README.md', size: 10 },
+            { type: 'commit_directory', path: 'live' },
+            { type: 'commit_directory', path: 'node_modules' },
+          ],
+        },
+        [`${source}/live/?pagelen=100`]: {
+          values: [{ type: 'commit_file', path: 'live/terragrunt.hcl', size: 30 }],
+        },
+        [`${source}/main.tf`]: 'module "vpc" {}',
+        [`${source}/live/terragrunt.hcl`]: 'terraform {}',
+      });
+
+      const service = new BitbucketService(createDefaultConfig());
+      const repo = await service.getSingleRepository('acme', 'infra');
+      const files = await service.findIacFilesInRepository(repo!, {
+        fileTypes: ['terraform', 'terragrunt'],
+      });
+
+      expect(files).toEqual([
+        {
+          type: 'terraform',
+          repository: 'acme/infra',
+          path: 'main.tf',
+          content: 'module "vpc" {}',
+          url: 'https://bitbucket.org/acme/infra/src/main/main.tf',
+          size: 20,
+        },
+        {
+          type: 'terragrunt',
+          repository: 'acme/infra',
+          path: 'live/terragrunt.hcl',
+          content: 'terraform {}',
+          url: 'https://bitbucket.org/acme/infra/src/main/live/terragrunt.hcl',
+          size: 30,
+        },
+      ]);
+      expect(fetchMock.mock.calls.map(([url]) => url)).not.toContain(
+        `${source}/node_modules/?pagelen=100`
+      );
+    });
+  });
+
+  describe('listTags', () => {
+    it('should list tag names', async () => {
+      stubApi(fetchMock, {
+        [`${API_URL}/repositories/acme/infra/refs/tags?pagelen=100`]: {
+          values: [{ name: 'v1.0.0' }, { name: 'v1.1.0' }],
+        },
+      });
+
+      const service = new BitbucketService(createDefaultConfig());
+      expect(await service.listTags('acme', 'infra')).toEqual(['v1.0.0', 'v1.1.0']);
+    });
+  });
+
+  describe('change requests', () => {
+    it('should compare a pull request against its merge base', async () => {
+      stubApi(fetchMock, {
+        [`${API_URL}/repositories/acme/infra/pullrequests/3`]: {
+          id: 3,
+          title: 'Bump VPC module',
+          links: { html: { href: 'https://bitbucket.org/acme/infra/pull-requests/3' } },
+          author: { display_name: 'Jane Doe', nickname: 'jdoe' },
+          source: { branch: { name: 'bump-vpc' }, commit: { hash: 'head123' } },
+          destination: { branch: { name: 'main' }, commit: { hash: 'main123' } },
+        },
+        [`${API_URL}/repositories/acme/infra/merge-base/main123..head123`]: { hash: 'base123' },
+      });
+
+      const service = new BitbucketService(createDefaultConfig());
+
+      expect(await service.getChangeRequest('acme', 'infra', 3)).toEqual({
+        number: 3,
+        title: 'Bump VPC module',
+        url: 'https://bitbucket.org/acme/infra/pull-requests/3',
+        author: 'jdoe',
+        sourceBranch: 'bump-vpc',
+        targetBranch: 'main',
+        headRef: 'head123',
+        baseRef: 'base123',
+      });
+      expect(await service.getChangeRequest('acme', 'infra', 4)).toBe(null);
+    });
+  });
+});
@@ -40,6 +40,12 @@ describe('VcsServiceFactory', () => {
       );
     });
 
+    it('should throw error for git remote platform (handled separately)', () => {
+      expect(() => VcsServiceFactory.createService({ platform: VcsPlatform.GIT })).toThrow(
+        'Git remotes are cloned and scanned by GitRemoteScanner'
+      );
+    });
+
     it('should create GitLab service', () => {
       const config = {
         platform: VcsPlatform.GITLAB,
@@ -65,15 +71,54 @@ describe('VcsServiceFactory', () => {
       expect(service.platformName).toBe('GitLab');
     });
 
-    it('should throw error for unsupported Bitbucket platform', () => {
+    it('should create Bitbucket service', () => {
       const config = {
         platform: VcsPlatform.BITBUCKET,
+        bitbucketToken: 'test-token',
         debug: false,
       };
 
-      expect(() => VcsServiceFactory.createService(config)).toThrow(
-        'Platform bitbucket is not yet supported. Currently supported platforms: github, github-self-hosted, gitlab, gitlab-self-hosted'
-      );
+      const service = VcsServiceFactory.createService(config);
+      expect(service).toBeDefined();
+      expect(service.platformName).toBe('Bitbucket');
+    });
+
+    it('should create Bitbucket Server service', () => {
+      const config = {
+        platform: VcsPlatform.BITBUCKET_SELF_HOSTED,
+        bitbucketToken: 'test-token',
+        bitbucketHost: 'https://bitbucket.example.com',
+        debug: false,
+      };
+
+      const service = VcsServiceFactory.createService(config);
+      expect(service).toBeDefined();
+      expect(service.platformName).toBe('Bitbucket Server (https://bitbucket.example.com)');
+    });
+
+    it('should create Azure DevOps service', () => {
+      const config = {
+        platform: VcsPlatform.AZURE_DEVOPS,
+        azureDevOpsToken: 'test-token',
+        debug: false,
+      };
+
+      const service = VcsServiceFactory.createService(config);
+      expect(service).toBeDefined();
+      expect(service.platformName).toBe('Azure DevOps');
+    });
+
+    it('should create Gitea service', () => {
+      const config = {
+        platform: VcsPlatform.GITEA,
+        giteaToken: 'test-token',
+        giteaHost: 'https://gitea.example.com',
+        debug: false,
+      };
+
+      const service = VcsServiceFactory.createService(config);
+      expect(service).toBeDefined();
+      expect(service.platformName).toBe('Gitea (https://gitea.example.com)');
     });
 
     it('should throw error for unknown platform', () => {
@@ -94,6 +139,10 @@ describe('VcsServiceFactory', () => {
         VcsPlatform.GITHUB_SELF_HOSTED,
         VcsPlatform.GITLAB,
         VcsPlatform.GITLAB_SELF_HOSTED,
+        VcsPlatform.BITBUCKET,
+        VcsPlatform.BITBUCKET_SELF_HOSTED,
+        VcsPlatform.AZURE_DEVOPS,
+        VcsPlatform.GITEA,
       ]);
     });
   });
@@ -104,12 +153,15 @@ describe('VcsServiceFactory', () => {
       expect(VcsServiceFactory.isPlatformSupported(VcsPlatform.GITHUB_SELF_HOSTED)).toBe(true);
       expect(VcsServiceFactory.isPlatformSupported(VcsPlatform.GITLAB)).toBe(true);
       expect(VcsServiceFactory.isPlatformSupported(VcsPlatform.GITLAB_SELF_HOSTED)).toBe(true);
+      expect(VcsServiceFactory.isPlatformSupported(VcsPlatform.BITBUCKET)).toBe(true);
+      expect(VcsServiceFactory.isPlatformSupported(VcsPlatform.BITBUCKET_SELF_HOSTED)).toBe(true);
+      expect(VcsServiceFactory.isPlatformSupported(VcsPlatform.AZURE_DEVOPS)).toBe(true);
+      expect(VcsServiceFactory.isPlatformSupported(VcsPlatform.GITEA)).toBe(true);
     });
 
     it('should return false for unsupported platforms and local (handled separately)', () => {
       expect(VcsServiceFactory.isPlatformSupported(VcsPlatform.LOCAL)).toBe(false);
-      expect(VcsServiceFactory.isPlatformSupported(VcsPlatform.BITBUCKET)).toBe(false);
-      expect(VcsServiceFactory.isPlatformSupported(VcsPlatform.BITBUCKET_SELF_HOSTED)).toBe(false);
+      expect(VcsServiceFactory.isPlatformSupported(VcsPlatform.GIT)).toBe(false);
     });
   });
 });
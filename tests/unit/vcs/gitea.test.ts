@@ -0,0 +1,270 @@
+import { GiteaService, GiteaServiceConfig } from '../../../src/vcs/gitea';
+import { VcsPlatform } from '../../../src/types';
+import { stubApi } from '../../utils/builders';
+
+const HOST = 'http://localhost:3000';
+const API_URL = `${HOST}/api/v1`;
+const REPO_URL = `${API_URL}/repos/acme/infra`;
+
+const repository = {
+  name: 'infra',
+  full_name: 'acme/infra',
+  owner: { login: 'acme' },
+  default_branch: 'main',
+  archived: false,
+  private: true,
+  html_url: `${HOST}/acme/infra`,
+  clone_url: `${HOST}/acme/infra.git`,
+};
+
+describe('GiteaService', () => {
+  const originalEnv = process.env;
+  let fetchMock: jest.SpyInstance;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    delete process.env.GITEA_TOKEN;
+    fetchMock = jest.spyOn(global, 'fetch');
+  });
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+    process.env = originalEnv;
+  });
+
+  const createDefaultConfig = (): GiteaServiceConfig => ({
+    platform: VcsPlatform.GITEA,
+    token: 'test-token',
+    host: HOST,
+  });
+
+  describe('constructor', () => {
+    it('should throw error when no token is provided', () => {
+      expect(() => new GiteaService({ platform: VcsPlatform.GITEA })).toThrow(
+        'Gitea token not found'
+      );
+    });
+
+    it('should include a custom host in the platform name', () => {
+      expect(new GiteaService(createDefaultConfig()).platformName).toBe(`Gitea (${HOST})`);
+      expect(new GiteaService({ platform: VcsPlatform.GITEA, token: 't' }).platformName).toBe(
+        'Gitea'
+      );
+    });
+  });
+
+  describe('getSingleRepository', () => {
+    it('should map a repository', async () => {
+      stubApi(fetchMock, { [REPO_URL]: repository });
+
+      const service = new GiteaService(createDefaultConfig());
+
+      expect(await service.getSingleRepository('acme', 'infra')).toEqual({
+        owner: 'acme',
+        name: 'infra',
+        fullName: 'acme/infra',
+        defaultBranch: 'main',
+        archived: false,
+        private: true,
+        url: `${HOST}/acme/infra`,
+        cloneUrl: `${HOST}/acme/infra.git`,
+      });
+      expect(fetchMock.mock.calls[0][1].headers.Authorization).toBe('token test-token');
+    });
+
+    it('should use gitea.com without a host', async () => {
+      stubApi(fetchMock, { 'https://gitea.com/api/v1/repos/acme/infra': repository });
+
+      const service = new GiteaService({ platform: VcsPlatform.GITEA, token: 'test-token' });
+      expect(await service.repositoryExists('acme', 'infra')).toBe(true);
+    });
+
+    it('should return null for non-existent repository', async () => {
+      stubApi(fetchMock, {});
+
+      const service = new GiteaService(createDefaultConfig());
+      expect(await service.getSingleRepository('acme', 'missing')).toBe(null);
+    });
+  });
+
+  describe('getRepositories', () => {
+    it('should page through organization repositories', async () => {
+      const page = Array.from({ length: 50 }, (_, index) => ({
+        ...repository,
+        name: `repo-${index}`,
+        full_name: `acme/repo-${index}`,
+      }));
+      stubApi(fetchMock, {
+        [`${API_URL}/orgs/acme/repos?page=1&limit=50`]: page,
+        [`${API_URL}/orgs/acme/repos?page=2&limit=50`]: [
+          repository,
+          { ...repository, name: 'old', full_name: 'acme/old', archived: true },
+        ],
+      });
+
+      const service = new GiteaService({ ...createDefaultConfig(), skipArchived: true });
+      const repositories = await service.getRepositories('acme');
+
+      expect(repositories).toHaveLength(51);
+      expect(repositories.map(r => r.fullName)).not.toContain('acme/old');
+    });
+
+    it('should fall back to user repositories and filter by pattern', async () => {
+      stubApi(fetchMock, {
+        [`${API_URL}/users/jdoe/repos?page=1&limit=50`]: [
+          { ...repository, name: 'infra', full_name: 'jdoe/infra' },
+          { ...repository, name: 'dotfiles', full_name: 'jdoe/dotfiles' },
+        ],
+      });
+
+      const service = new GiteaService({ ...createDefaultConfig(), repoPattern: '^infra' });
+      const repositories = await service.getRepositories('jdoe');
+
+      expect(repositories.map(r => r.fullName)).toEqual(['jdoe/infra']);
+    });
+  });
+
+  describe('findIacFilesInRepository', () => {
+    it('should read the recursive tree of the default branch and fetch raw files', async () => {
+      stubApi(fetchMock, {
+        [REPO_URL]: repository,
+        [`${REPO_URL}/commits?sha=main&limit=1&stat=false&files=false`]: [{ sha: 'abc123' }],
+        [`${REPO_URL}/git/trees/abc123?recursive=true&page=1`]: {
+          sha: 'abc123',
+          tree: [
+            { path: 'main.tf', type: 'blob', size: 15 },
+            { path: 'live', type: 'tree' },
+          ],
+          truncated: true,
+        },
+        [`${REPO_URL}/git/trees/abc123?recursive=true&page=2`]: {
+          sha: 'abc123',
+          tree: [
+            { path: 'live/terragrunt.hcl', type: 'blob', size: 12 },
+            { path: 'README.md', type: 'blob', size: 10 },
+          ],
+          truncated: false,
+        },
+        [`${REPO_URL}/raw/main.tf?ref=abc123`]: 'module "vpc" {}',
+        [`${REPO_URL}/raw/live/terragrunt.hcl?ref=abc123`]: 'terraform {}',
+      });
+
+      const service = new GiteaService(createDefaultConfig());
+      const repo = await service.getSingleRepository('acme', 'infra');
+      const files = await service.findIacFilesInRepository(repo!, {
+        fileTypes: ['terraform', 'terragrunt'],
+      });
+
+      expect(files).toEqual([
+        {
+          type: 'terraform',
+          repository: 'acme/infra',
+          path: 'main.tf',
+          content: 'module "vpc" {}',
+          url: `${HOST}/acme/infra/src/branch/main/main.tf`,
+          size: 15,
+        },
+        {
+          type: 'terragrunt',
+          repository: 'acme/infra',
+          path: 'live/terragrunt.hcl',
+          content: 'terraform {}',
+          url: `${HOST}/acme/infra/src/branch/main/live/terragrunt.hcl`,
+          size: 12,
+        },
+      ]);
+    });
+
+    it('should link the scanned commit when a ref is given', async () => {
+      stubApi(fetchMock, {
+        [REPO_URL]: repository,
+        [`${REPO_URL}/commits?sha=v1.0.0&limit=1&stat=false&files=false`]: [{ sha: 'def456' }],
+        [`${REPO_URL}/git/trees/def456?recursive=true&page=1`]: {
+          sha: 'def456',
+          tree: [{ path: 'main.tf', type: 'blob', size: 15 }],
+          truncated: false,
+        },
+        [`${REPO_URL}/raw/main.tf?ref=def456`]: 'module "vpc" {}',
+      });
+
+      const service = new GiteaService(createDefaultConfig());
+      const repo = await service.getSingleRepository('acme', 'infra');
+      const files = await service.findIacFilesInRepository(repo!, {
+        fileTypes: ['terraform'],
+        ref: 'v1.0.0',
+      });
+
+      expect(files.map(f => f.url)).toEqual([`${HOST}/acme/infra/src/commit/def456/main.tf`]);
+    });
+  });
+
+  describe('listTags', () => {
+    it('should list tag names', async () => {
+      stubApi(fetchMock, {
+        [`${REPO_URL}/tags?page=1&limit=50`]: [{ name: 'v1.0.0' }, { name: 'v1.1.0' }],
+      });
+
+      const service = new GiteaService(createDefaultConfig());
+      expect(await service.listTags('acme', 'infra')).toEqual(['v1.0.0', 'v1.1.0']);
+    });
+  });
+
+  describe('change requests', () => {
+    const pullRequest = {
+      number: 5,
+      title: 'Bump VPC module',
+      html_url: `${HOST}/acme/infra/pulls/5`,
+      user: { login: 'jdoe' },
+      head: { ref: 'bump-vpc', sha: 'head123' },
+      base: { ref: 'main', sha: 'main123' },
+      merge_base: 'base123',
+    };
+
+    it('should use the merge base of a pull request', async () => {
+      stubApi(fetchMock, { [`${REPO_URL}/pulls/5`]: pullRequest });
+
+      const service = new GiteaService(createDefaultConfig());
+
+      expect(await service.getChangeRequest('acme', 'infra', 5)).toEqual({
+        number: 5,
+        title: 'Bump VPC module',
+        url: `${HOST}/acme/infra/pulls/5`,
+        author: 'jdoe',
+        sourceBranch: 'bump-vpc',
+        targetBranch: 'main',
+        headRef: 'head123',
+        baseRef: 'base123',
+      });
+      expect(await service.getChangeRequest('acme', 'infra', 6)).toBe(null);
+    });
+
+    it('should list open pull requests, fetching merge bases the list leaves out', async () => {
+      stubApi(fetchMock, {
+        [`${REPO_URL}/pulls?state=open&page=1&limit=50`]: [
+          { ...pullRequest, merge_base: undefined },
+          { ...pullRequest, number: 6, merge_base: 'base456' },
+        ],
+        [`${REPO_URL}/pulls/5`]: pullRequest,
+      });
+
+      const service = new GiteaService(createDefaultConfig());
+      const changeRequests = await service.listOpenChangeRequests('acme', 'infra');
+
+      expect(changeRequests.map(c => [c.number, c.baseRef])).toEqual([
+        [5, 'base123'],
+        [6, 'base456'],
+      ]);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not compare against the base branch without a merge base', async () => {
+      stubApi(fetchMock, { [`${REPO_URL}/pulls/5`]: { ...pullRequest, merge_base: '' } });
+
+      const service = new GiteaService(createDefaultConfig());
+
+      await expect(service.getChangeRequest('acme', 'infra', 5)).rejects.toThrow(
+        'Merge base of pull request #5 not returned'
+      );
+    });
+  });
+});
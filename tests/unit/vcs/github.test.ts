@@ -1,5 +1,7 @@
 import { GitHubService, GitHubServiceConfig } from '../../../src/vcs/github';
 import { VcsPlatform } from '../../../src/types';
+import { GitRemoteScanner } from '../../../src/scanners';
+import { TarballBuilder } from '../../utils/builders';
 
 // Mock the @octokit/rest module
 const mockOctokit = {
@@ -20,6 +22,14 @@ const mockOctokit = {
       },
     },
     getContent: jest.fn(),
+    getCommit: jest.fn(),
+    downloadTarballArchive: jest.fn(),
+    compareCommitsWithBasehead: jest.fn(),
+    listTags: jest.fn(),
+  },
+  pulls: {
+    get: jest.fn(),
+    list: jest.fn(),
   },
   orgs: {
     get: jest.fn(),
@@ -33,6 +43,7 @@ const mockOctokit = {
     get: jest.fn(),
   },
   request: jest.fn(),
+  graphql: jest.fn(),
 };
 
 jest.mock('@octokit/rest', () => ({
@@ -86,6 +97,7 @@ describe('GitHubService', () => {
       const service = new GitHubService(createDefaultConfig());
       expect(service).toBeDefined();
       expect(service.platformName).toBe('GitHub');
+      expect(service.changeRequestTerms).toEqual({ label: 'pull request', prefix: '#' });
     });
 
     it('should use GITHUB_TOKEN environment variable if no token provided', () => {
@@ -377,6 +389,149 @@ describe('GitHubService', () => {
     });
   });
 
+  describe('getRepositories with GraphQL filters', () => {
+    /**
+     * Create a repository node of a GraphQL repository connection
+     */
+    const repositoryNode = (name: string, overrides: Record<string, unknown> = {}) => ({
+      name,
+      nameWithOwner: `test-org/${name}`,
+      owner: { login: 'test-org' },
+      defaultBranchRef: { name: 'main' },
+      isArchived: false,
+      isPrivate: true,
+      url: `https://github.com/test-org/${name}`,
+      pushedAt: '2024-06-01T00:00:00Z',
+      primaryLanguage: { name: 'HCL' },
+      repositoryTopics: { nodes: [{ topic: { name: 'terraform' } }] },
+      ...overrides,
+    });
+
+    /**
+     * Create a page of a GraphQL repository connection
+     */
+    const connection = (nodes: unknown[], endCursor: string | null = null) => ({
+      pageInfo: { hasNextPage: endCursor !== null, endCursor },
+      nodes,
+    });
+
+    it('should page through owner repositories and filter by topic and language', async () => {
+      mockOctokit.graphql
+        .mockResolvedValueOnce({
+          repositoryOwner: {
+            repositories: connection(
+              [
+                repositoryNode('infra'),
+                repositoryNode('website', {
+                  primaryLanguage: { name: 'TypeScript' },
+                  repositoryTopics: { nodes: [] },
+                }),
+              ],
+              'cursor-1'
+            ),
+          },
+        })
+        .mockResolvedValueOnce({
+          repositoryOwner: {
+            repositories: connection([
+              repositoryNode('modules', { primaryLanguage: { name: 'hcl' } }),
+              repositoryNode('scripts', { primaryLanguage: null }),
+            ]),
+          },
+        });
+
+      const service = new GitHubService(createDefaultConfig());
+      const result = await service.getRepositories('test-org', {
+        topics: ['Terraform', 'terragrunt'],
+        language: 'HCL',
+        visibility: 'private',
+      });
+
+      expect(result).toEqual([
+        {
+          owner: 'test-org',
+          name: 'infra',
+          fullName: 'test-org/infra',
+          defaultBranch: 'main',
+          archived: false,
+          private: true,
+          url: 'https://github.com/test-org/infra',
+          cloneUrl: 'https://github.com/test-org/infra.git',
+        },
+        expect.objectContaining({ fullName: 'test-org/modules' }),
+      ]);
+      expect(mockOctokit.graphql).toHaveBeenCalledTimes(2);
+      expect(mockOctokit.graphql.mock.calls[0][1]).toEqual({
+        owner: 'test-org',
+        first: 100,
+        cursor: null,
+        privacy: 'PRIVATE',
+      });
+      expect(mockOctokit.graphql.mock.calls[1][1].cursor).toBe('cursor-1');
+      expect(mockOctokit.request).not.toHaveBeenCalled();
+    });
+
+    it('should stop at the first repository pushed before the pushed date', async () => {
+      mockOctokit.graphql.mockResolvedValueOnce({
+        repositoryOwner: {
+          repositories: connection(
+            [
+              repositoryNode('recent', { pushedAt: '2024-06-01T00:00:00Z' }),
+              repositoryNode('stale', { pushedAt: '2023-01-01T00:00:00Z' }),
+            ],
+            'cursor-1'
+          ),
+        },
+      });
+
+      const service = new GitHubService(createDefaultConfig());
+      const result = await service.getRepositories('test-org', {
+        pushedAfter: new Date('2024-01-01'),
+      });
+
+      expect(result.map(r => r.name)).toEqual(['recent']);
+      expect(mockOctokit.graphql).toHaveBeenCalledTimes(1);
+    });
+
+    it('should list the repositories of a team', async () => {
+      mockOctokit.graphql.mockResolvedValueOnce({
+        organization: {
+          team: {
+            repositories: connection([
+              repositoryNode('infra'),
+              repositoryNode('docs', { isPrivate: false }),
+            ]),
+          },
+        },
+      });
+
+      const service = new GitHubService(createDefaultConfig());
+      const result = await service.getRepositories('test-org', {
+        team: 'platform',
+        visibility: 'private',
+      });
+
+      expect(result.map(r => r.name)).toEqual(['infra']);
+      expect(mockOctokit.graphql.mock.calls[0][0]).toContain('team(slug: $team)');
+      expect(mockOctokit.graphql.mock.calls[0][1]).toEqual({
+        owner: 'test-org',
+        team: 'platform',
+        first: 100,
+        cursor: null,
+      });
+    });
+
+    it('should throw for missing teams', async () => {
+      mockOctokit.graphql.mockResolvedValueOnce({ organization: { team: null } });
+
+      const service = new GitHubService(createDefaultConfig());
+
+      await expect(service.getRepositories('test-org', { team: 'missing' })).rejects.toThrow(
+        "Team 'missing' not found in organization 'test-org'"
+      );
+    });
+  });
+
   describe('findIacFilesInRepository', () => {
     it('should find and return IaC files with content', async () => {
       const mockRepository = {
@@ -583,5 +738,252 @@ describe('GitHubService', () => {
 
       expect(result).toHaveLength(0);
     });
+
+    it('should scan the commit of a ref instead of the default branch', async () => {
+      const mockRepository = {
+        owner: 'test-owner',
+        name: 'test-repo',
+        fullName: 'test-owner/test-repo',
+        defaultBranch: 'main',
+        archived: false,
+        private: false,
+        url: 'https://github.com/test-owner/test-repo',
+        cloneUrl: 'https://github.com/test-owner/test-repo.git',
+      };
+
+      mockOctokit.repos.getCommit.mockResolvedValue({
+        data: {
+          sha: 'release-sha',
+          commit: {
+            tree: {
+              sha: 'release-tree-sha',
+            },
+          },
+        },
+      });
+      mockOctokit.git.getTree.mockResolvedValue({
+        data: {
+          tree: [{ path: 'main.tf', type: 'blob', sha: 'abc123' }],
+        },
+      });
+      mockOctokit.repos.getContent.mockResolvedValue({
+        data: {
+          encoding: 'base64',
+          content: Buffer.from('content').toString('base64'),
+        },
+      });
+
+      const service = new GitHubService(createDefaultConfig());
+      const result = await service.findIacFilesInRepository(mockRepository, {
+        fileTypes: ['terraform'],
+        ref: 'main',
+        repositoryRefs: { 'test-owner/test-repo': 'release/v1' },
+      });
+
+      expect(mockOctokit.repos.getCommit).toHaveBeenCalledWith({
+        owner: 'test-owner',
+        repo: 'test-repo',
+        ref: 'release/v1',
+      });
+      expect(mockOctokit.git.getRef).not.toHaveBeenCalled();
+      expect(mockOctokit.git.getTree).toHaveBeenCalledWith(
+        expect.objectContaining({ tree_sha: 'release-tree-sha' })
+      );
+      expect(mockOctokit.repos.getContent).toHaveBeenCalledWith(
+        expect.objectContaining({ path: 'main.tf', ref: 'release-sha' })
+      );
+      expect(result[0].url).toBe('https://github.com/test-owner/test-repo/blob/release/v1/main.tf');
+    });
+
+    describe('fetch modes', () => {
+      const mockRepository = {
+        owner: 'test-owner',
+        name: 'test-repo',
+        fullName: 'test-owner/test-repo',
+        defaultBranch: 'main',
+        archived: false,
+        private: false,
+        url: 'https://github.com/test-owner/test-repo',
+        cloneUrl: 'https://github.com/test-owner/test-repo.git',
+      };
+
+      it('should read files from the tarball of the repository', async () => {
+        const tarball = TarballBuilder.create()
+          .withCommit('commit-sha')
+          .withFile('test-owner-test-repo-commit-sha/main.tf', 'module "vpc" {}')
+          .withFile('test-owner-test-repo-commit-sha/live/terragrunt.hcl', 'terraform {}')
+          .withFile('test-owner-test-repo-commit-sha/README.md', '# Test')
+          .withFile('test-owner-test-repo-commit-sha/.terraform/modules/x/main.tf', 'x')
+          .build();
+        mockOctokit.repos.downloadTarballArchive.mockResolvedValue({
+          data: new Uint8Array(tarball).buffer,
+        });
+
+        const service = new GitHubService(createDefaultConfig());
+        const result = await service.findIacFilesInRepository(mockRepository, {
+          fileTypes: ['terraform', 'terragrunt'],
+          fetchMode: 'archive',
+        });
+
+        expect(mockOctokit.repos.downloadTarballArchive).toHaveBeenCalledWith({
+          owner: 'test-owner',
+          repo: 'test-repo',
+          ref: 'main',
+        });
+        expect(mockOctokit.git.getTree).not.toHaveBeenCalled();
+        expect(mockOctokit.repos.getContent).not.toHaveBeenCalled();
+        expect(result).toEqual([
+          {
+            type: 'terraform',
+            repository: 'test-owner/test-repo',
+            path: 'main.tf',
+            content: 'module "vpc" {}',
+            url: 'https://github.com/test-owner/test-repo/blob/main/main.tf',
+            size: 15,
+          },
+          {
+            type: 'terragrunt',
+            repository: 'test-owner/test-repo',
+            path: 'live/terragrunt.hcl',
+            content: 'terraform {}',
+            url: 'https://github.com/test-owner/test-repo/blob/main/live/terragrunt.hcl',
+            size: 12,
+          },
+        ]);
+      });
+
+      it('should scan a shallow clone authenticated with the token', async () => {
+        const scanCheckout = jest
+          .spyOn(GitRemoteScanner.prototype, 'scanCheckout')
+          .mockResolvedValue({
+            commit: 'release-sha',
+            files: [
+              {
+                type: 'terraform',
+                repository: 'terrawiz-git-abc',
+                path: 'main.tf',
+                content: 'module "vpc" {}',
+                url: 'file:///tmp/terrawiz-git-abc/main.tf',
+                size: 15,
+              },
+            ],
+          });
+
+        const service = new GitHubService(createDefaultConfig());
+        const result = await service.findIacFilesInRepository(mockRepository, {
+          fileTypes: ['terraform'],
+          ref: 'v1.0.0',
+          fetchMode: 'clone',
+        });
+
+        expect(scanCheckout).toHaveBeenCalledWith(
+          'https://github.com/test-owner/test-repo.git',
+          expect.objectContaining({
+            ref: 'v1.0.0',
+            authorization: `Basic ${Buffer.from('x-access-token:test-token').toString('base64')}`,
+          }),
+          expect.objectContaining({ fetchMode: 'clone' })
+        );
+        expect(result).toEqual([
+          expect.objectContaining({
+            repository: 'test-owner/test-repo',
+            path: 'main.tf',
+            url: 'https://github.com/test-owner/test-repo/blob/v1.0.0/main.tf',
+          }),
+        ]);
+        scanCheckout.mockRestore();
+      });
+    });
+  });
+
+  describe('listTags', () => {
+    it('should list tags across pages', async () => {
+      const firstPage = Array.from({ length: 100 }, (_, i) => ({ name: `v1.${i}.0` }));
+      mockOctokit.repos.listTags
+        .mockResolvedValueOnce({ data: firstPage })
+        .mockResolvedValueOnce({ data: [{ name: 'v2.0.0' }] });
+
+      const service = new GitHubService(createDefaultConfig());
+      const tags = await service.listTags('test-owner', 'test-repo');
+
+      expect(tags).toHaveLength(101);
+      expect(tags[100]).toBe('v2.0.0');
+      expect(mockOctokit.repos.listTags).toHaveBeenLastCalledWith({
+        owner: 'test-owner',
+        repo: 'test-repo',
+        per_page: 100,
+        page: 2,
+      });
+    });
+
+    it('should throw for missing repositories', async () => {
+      mockOctokit.repos.listTags.mockRejectedValue({ status: 404, message: 'Not Found' });
+
+      const service = new GitHubService(createDefaultConfig());
+      await expect(service.listTags('test-owner', 'missing')).rejects.toBeDefined();
+    });
+  });
+
+  describe('change requests', () => {
+    const pullRequest = {
+      number: 7,
+      title: 'Bump VPC module',
+      html_url: 'https://github.com/test-owner/test-repo/pull/7',
+      user: { login: 'octocat' },
+      head: { ref: 'bump-vpc', sha: 'head-sha' },
+      base: { ref: 'main', sha: 'main-sha' },
+    };
+
+    beforeEach(() => {
+      mockOctokit.repos.compareCommitsWithBasehead.mockResolvedValue({
+        data: { merge_base_commit: { sha: 'merge-base-sha' } },
+      });
+    });
+
+    it('should compare a pull request against its merge base', async () => {
+      mockOctokit.pulls.get.mockResolvedValue({ data: pullRequest });
+
+      const service = new GitHubService(createDefaultConfig());
+      const changeRequest = await service.getChangeRequest('test-owner', 'test-repo', 7);
+
+      expect(changeRequest).toEqual({
+        number: 7,
+        title: 'Bump VPC module',
+        url: 'https://github.com/test-owner/test-repo/pull/7',
+        author: 'octocat',
+        sourceBranch: 'bump-vpc',
+        targetBranch: 'main',
+        headRef: 'head-sha',
+        baseRef: 'merge-base-sha',
+      });
+      expect(mockOctokit.repos.compareCommitsWithBasehead).toHaveBeenCalledWith(
+        expect.objectContaining({ basehead: 'main-sha...head-sha' })
+      );
+    });
+
+    it('should return null for missing pull requests', async () => {
+      const error = new Error('Not found') as any;
+      error.status = 404;
+      mockOctokit.pulls.get.mockRejectedValue(error);
+
+      const service = new GitHubService(createDefaultConfig());
+      expect(await service.getChangeRequest('test-owner', 'test-repo', 99)).toBe(null);
+    });
+
+    it('should list open pull requests', async () => {
+      mockOctokit.pulls.list.mockResolvedValue({ data: [pullRequest] });
+
+      const service = new GitHubService(createDefaultConfig());
+      const changeRequests = await service.listOpenChangeRequests('test-owner', 'test-repo');
+
+      expect(changeRequests.map(c => c.number)).toEqual([7]);
+      expect(mockOctokit.pulls.list).toHaveBeenCalledWith({
+        owner: 'test-owner',
+        repo: 'test-repo',
+        state: 'open',
+        per_page: 100,
+        page: 1,
+      });
+    });
   });
 });
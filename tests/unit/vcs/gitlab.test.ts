@@ -1,22 +1,37 @@
 import { GitLabService, GitLabServiceConfig } from '../../../src/vcs/gitlab';
 import { VcsPlatform } from '../../../src/types';
+import { GitRemoteScanner } from '../../../src/scanners';
+import { TarballBuilder } from '../../utils/builders';
 
 // Mock the @gitbeaker/rest module
 const mockGitlab = {
   Projects: {
     show: jest.fn(),
-    all: jest.fn(),
   },
   Groups: {
     show: jest.fn(),
+    allProjects: jest.fn(),
+  },
+  Users: {
+    allProjects: jest.fn(),
   },
-  Users: {},
   Repositories: {
     allRepositoryTrees: jest.fn(),
+    showArchive: jest.fn(),
   },
   RepositoryFiles: {
     show: jest.fn(),
   },
+  Commits: {
+    show: jest.fn(),
+  },
+  Tags: {
+    all: jest.fn(),
+  },
+  MergeRequests: {
+    show: jest.fn(),
+    all: jest.fn(),
+  },
 };
 
 jest.mock('@gitbeaker/rest', () => ({
@@ -33,6 +48,7 @@ describe('GitLabService', () => {
   beforeEach(() => {
     jest.clearAllMocks();
     process.env = { ...originalEnv };
+    mockGitlab.Commits.show.mockResolvedValue({ id: 'c0ffee' });
   });
 
   afterAll(() => {
@@ -68,6 +84,7 @@ describe('GitLabService', () => {
       );
       expect(service).toBeDefined();
       expect(service.platformName).toBe('GitLab (https://gitlab.example.com)');
+      expect(service.changeRequestTerms).toEqual({ label: 'merge request', prefix: '!' });
     });
 
     it('should use GITLAB_TOKEN environment variable if no token provided', () => {
@@ -235,7 +252,7 @@ describe('GitLabService', () => {
       ];
 
       mockGitlab.Groups.show.mockResolvedValue({ name: 'test-group' });
-      mockGitlab.Projects.all.mockResolvedValue(mockProjects);
+      mockGitlab.Groups.allProjects.mockResolvedValue(mockProjects);
 
       const service = new GitLabService(createDefaultConfig());
       const result = await service.getRepositories('test-group');
@@ -243,8 +260,46 @@ describe('GitLabService', () => {
       expect(result).toHaveLength(2);
       expect(result[0].name).toBe('repo1');
       expect(result[1].name).toBe('repo2');
-      expect(mockGitlab.Projects.all).toHaveBeenCalledWith({
-        maxPages: 10,
+      expect(mockGitlab.Groups.allProjects).toHaveBeenCalledWith('test-group', {
+        includeSubgroups: true,
+        withShared: false,
+        perPage: 100,
+      });
+    });
+
+    it('should attribute subgroup projects to their full namespace', async () => {
+      mockGitlab.Groups.show.mockResolvedValue({ name: 'test-group' });
+      mockGitlab.Groups.allProjects.mockResolvedValue([
+        {
+          namespace: { path: 'network', full_path: 'test-group/platform/network' },
+          path: 'vpc',
+          path_with_namespace: 'test-group/platform/network/vpc',
+          default_branch: 'main',
+          archived: false,
+          visibility: 'private',
+          web_url: 'https://gitlab.com/test-group/platform/network/vpc',
+          http_url_to_repo: 'https://gitlab.com/test-group/platform/network/vpc.git',
+        },
+      ]);
+
+      const service = new GitLabService(createDefaultConfig());
+      const result = await service.getRepositories('test-group');
+
+      expect(result.map(r => [r.owner, r.name, r.fullName])).toEqual([
+        ['test-group/platform/network', 'vpc', 'test-group/platform/network/vpc'],
+      ]);
+    });
+
+    it('should only list projects directly in the group without subgroups', async () => {
+      mockGitlab.Groups.show.mockResolvedValue({ name: 'test-group' });
+      mockGitlab.Groups.allProjects.mockResolvedValue([]);
+
+      const service = new GitLabService(createDefaultConfig());
+      await service.getRepositories('test-group', { includeSubgroups: false });
+
+      expect(mockGitlab.Groups.allProjects).toHaveBeenCalledWith('test-group', {
+        includeSubgroups: false,
+        withShared: false,
         perPage: 100,
       });
     });
@@ -264,17 +319,15 @@ describe('GitLabService', () => {
       ];
 
       mockGitlab.Groups.show.mockRejectedValue(new Error('Not a group'));
-      mockGitlab.Projects.all.mockResolvedValue(mockProjects);
+      mockGitlab.Users.allProjects.mockResolvedValue(mockProjects);
 
       const service = new GitLabService(createDefaultConfig());
       const result = await service.getRepositories('test-user');
 
       expect(result).toHaveLength(1);
       expect(result[0].name).toBe('user-repo');
-      expect(mockGitlab.Projects.all).toHaveBeenCalledWith({
-        maxPages: 10,
-        perPage: 100,
-      });
+      expect(mockGitlab.Users.allProjects).toHaveBeenCalledWith('test-user', { perPage: 100 });
+      expect(mockGitlab.Groups.allProjects).not.toHaveBeenCalled();
     });
 
     it('should filter archived repositories when skipArchived is true', async () => {
@@ -302,7 +355,7 @@ describe('GitLabService', () => {
       ];
 
       mockGitlab.Groups.show.mockResolvedValue({ name: 'test-group' });
-      mockGitlab.Projects.all.mockResolvedValue(mockProjects);
+      mockGitlab.Groups.allProjects.mockResolvedValue(mockProjects);
 
       const service = new GitLabService(createDefaultConfig({ skipArchived: true }));
       const result = await service.getRepositories('test-group');
@@ -336,7 +389,7 @@ describe('GitLabService', () => {
       ];
 
       mockGitlab.Groups.show.mockResolvedValue({ name: 'test-group' });
-      mockGitlab.Projects.all.mockResolvedValue(mockProjects);
+      mockGitlab.Groups.allProjects.mockResolvedValue(mockProjects);
 
       const service = new GitLabService(createDefaultConfig({ repoPattern: '^terraform-' }));
       const result = await service.getRepositories('test-group');
@@ -492,5 +545,194 @@ describe('GitLabService', () => {
 
       expect(result).toHaveLength(0);
     });
+
+    it('should scan a ref instead of the default branch', async () => {
+      const mockRepository = {
+        owner: 'test-group',
+        name: 'test-repo',
+        fullName: 'test-group/test-repo',
+        defaultBranch: 'main',
+        archived: false,
+        private: false,
+        url: 'https://gitlab.com/test-group/test-repo',
+        cloneUrl: 'https://gitlab.com/test-group/test-repo.git',
+      };
+
+      mockGitlab.Repositories.allRepositoryTrees.mockResolvedValue([
+        {
+          id: 'abc123',
+          name: 'main.tf',
+          type: 'blob' as const,
+          path: 'main.tf',
+          mode: '100644',
+        },
+      ]);
+      mockGitlab.RepositoryFiles.show.mockResolvedValue({
+        encoding: 'base64',
+        content: Buffer.from('content').toString('base64'),
+      });
+      mockGitlab.Commits.show.mockResolvedValue({ id: 'f00dfeed' });
+
+      const service = new GitLabService(createDefaultConfig());
+      const result = await service.findIacFilesInRepository(mockRepository, {
+        fileTypes: ['terraform'],
+        ref: 'v1.2.0',
+        repositoryRefs: { 'other-repo': 'develop' },
+      });
+
+      expect(mockGitlab.Commits.show).toHaveBeenCalledWith('test-group/test-repo', 'v1.2.0');
+      expect(mockGitlab.Repositories.allRepositoryTrees).toHaveBeenCalledWith(
+        'test-group/test-repo',
+        { recursive: true, ref: 'f00dfeed' }
+      );
+      expect(mockGitlab.RepositoryFiles.show).toHaveBeenCalledWith(
+        'test-group/test-repo',
+        'main.tf',
+        'f00dfeed'
+      );
+      expect(result[0].url).toBe('https://gitlab.com/test-group/test-repo/-/blob/v1.2.0/main.tf');
+    });
+
+    describe('fetch modes', () => {
+      const mockRepository = {
+        owner: 'test-group',
+        name: 'test-repo',
+        fullName: 'test-group/test-repo',
+        defaultBranch: 'main',
+        archived: false,
+        private: false,
+        url: 'https://gitlab.com/test-group/test-repo',
+        cloneUrl: 'https://gitlab.com/test-group/test-repo.git',
+      };
+
+      it('should read files from the archive of the project', async () => {
+        const archive = TarballBuilder.create()
+          .withCommit('commit-sha')
+          .withFile('test-repo-main-commit-sha/main.tf', 'module "vpc" {}')
+          .withFile('test-repo-main-commit-sha/node_modules/x/main.tf', 'x')
+          .withFile('test-repo-main-commit-sha/live/terragrunt.hcl', 'terraform {}')
+          .build();
+        mockGitlab.Repositories.showArchive.mockResolvedValue(new Blob([new Uint8Array(archive)]));
+
+        const service = new GitLabService(createDefaultConfig());
+        const result = await service.findIacFilesInRepository(mockRepository, {
+          fileTypes: ['terraform', 'terragrunt'],
+          maxFiles: 1,
+          fetchMode: 'archive',
+        });
+
+        expect(mockGitlab.Repositories.showArchive).toHaveBeenCalledWith('test-group/test-repo', {
+          fileType: 'tar.gz',
+          sha: 'main',
+        });
+        expect(mockGitlab.Repositories.allRepositoryTrees).not.toHaveBeenCalled();
+        expect(mockGitlab.RepositoryFiles.show).not.toHaveBeenCalled();
+        expect(result).toEqual([
+          {
+            type: 'terraform',
+            repository: 'test-group/test-repo',
+            path: 'main.tf',
+            content: 'module "vpc" {}',
+            url: 'https://gitlab.com/test-group/test-repo/-/blob/main/main.tf',
+            size: 15,
+          },
+        ]);
+      });
+
+      it('should scan a shallow clone authenticated with the token', async () => {
+        const scanCheckout = jest
+          .spyOn(GitRemoteScanner.prototype, 'scanCheckout')
+          .mockResolvedValue({ commit: 'commit-sha', files: [] });
+
+        const service = new GitLabService(createDefaultConfig());
+        const result = await service.findIacFilesInRepository(mockRepository, {
+          fileTypes: ['terraform'],
+          fetchMode: 'clone',
+        });
+
+        expect(scanCheckout).toHaveBeenCalledWith(
+          'https://gitlab.com/test-group/test-repo.git',
+          {
+            cloneUrl: 'https://gitlab.com/test-group/test-repo.git',
+            ref: 'main',
+            authorization: `Basic ${Buffer.from('oauth2:test-token').toString('base64')}`,
+          },
+          expect.objectContaining({ fetchMode: 'clone' })
+        );
+        expect(result).toEqual([]);
+        scanCheckout.mockRestore();
+      });
+    });
+  });
+
+  describe('listTags', () => {
+    it('should list tags of projects in subgroups', async () => {
+      mockGitlab.Tags.all.mockResolvedValue([{ name: 'v1.0.0' }, { name: 'v1.1.0' }]);
+
+      const service = new GitLabService(createDefaultConfig());
+      const tags = await service.listTags('test-group/platform', 'test-repo');
+
+      expect(tags).toEqual(['v1.0.0', 'v1.1.0']);
+      expect(mockGitlab.Tags.all).toHaveBeenCalledWith('test-group/platform/test-repo', {
+        perPage: 100,
+      });
+    });
+  });
+
+  describe('change requests', () => {
+    const mergeRequest = {
+      iid: 12,
+      title: 'Bump VPC module',
+      web_url: 'https://gitlab.com/test-group/test-repo/-/merge_requests/12',
+      author: { username: 'tanuki' },
+      source_branch: 'bump-vpc',
+      target_branch: 'main',
+      sha: 'head-sha',
+      diff_refs: { base_sha: 'merge-base-sha', head_sha: 'head-sha', start_sha: 'main-sha' },
+    };
+
+    it('should compare a merge request against its merge base', async () => {
+      mockGitlab.MergeRequests.show.mockResolvedValue(mergeRequest);
+
+      const service = new GitLabService(createDefaultConfig());
+      const changeRequest = await service.getChangeRequest('test-group', 'test-repo', 12);
+
+      expect(changeRequest).toEqual({
+        number: 12,
+        title: 'Bump VPC module',
+        url: 'https://gitlab.com/test-group/test-repo/-/merge_requests/12',
+        author: 'tanuki',
+        sourceBranch: 'bump-vpc',
+        targetBranch: 'main',
+        headRef: 'head-sha',
+        baseRef: 'merge-base-sha',
+      });
+      expect(mockGitlab.MergeRequests.show).toHaveBeenCalledWith('test-group/test-repo', 12);
+    });
+
+    it('should fall back to the target branch without diff refs', async () => {
+      mockGitlab.MergeRequests.all.mockResolvedValue([{ iid: 12 }]);
+      mockGitlab.MergeRequests.show.mockResolvedValue({ ...mergeRequest, diff_refs: null });
+
+      const service = new GitLabService(createDefaultConfig());
+      const changeRequests = await service.listOpenChangeRequests('test-group', 'test-repo');
+
+      expect(changeRequests).toHaveLength(1);
+      expect(changeRequests[0].baseRef).toBe('main');
+      expect(mockGitlab.MergeRequests.all).toHaveBeenCalledWith({
+        projectId: 'test-group/test-repo',
+        state: 'opened',
+        perPage: 100,
+      });
+    });
+
+    it('should return null for missing merge requests', async () => {
+      const error = new Error('Not found') as any;
+      error.response = { status: 404 };
+      mockGitlab.MergeRequests.show.mockRejectedValue(error);
+
+      const service = new GitLabService(createDefaultConfig());
+      expect(await service.getChangeRequest('test-group', 'test-repo', 99)).toBe(null);
+    });
   });
 });
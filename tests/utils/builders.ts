@@ -19,6 +19,7 @@ import {
   MutableVcsOperationResult,
   TestTypeConverters,
 } from '../types/test-types';
+import { gzipSync } from 'zlib';
 
 /**
  * Builder for creating mock VCS repositories
@@ -128,7 +129,7 @@ export class IacFileBuilder {
   withPath(path: string): IacFileBuilder {
     this.file.path = path;
     // Auto-detect type from path
-    if (path.endsWith('.tf')) {
+    if (path.endsWith('.tf') || path.endsWith('.terraform.lock.hcl')) {
       this.file.type = 'terraform';
     } else if (path.endsWith('.hcl')) {
       this.file.type = 'terragrunt';
@@ -377,6 +378,84 @@ export class VcsOperationResultBuilder<T> {
   }
 }
 
+/**
+ * Builder for creating gzipped tar archives, laid out like the repository tarballs of
+ * GitHub and GitLab
+ */
+export class TarballBuilder {
+  private blocks: Buffer[] = [];
+
+  withCommit(commit: string): TarballBuilder {
+    return this.withEntry('pax_global_header', 'g', TarballBuilder.paxRecord('comment', commit));
+  }
+
+  withFile(path: string, content: string): TarballBuilder {
+    return this.withEntry(path, '0', Buffer.from(content));
+  }
+
+  withLongFile(path: string, content: string): TarballBuilder {
+    return this.withEntry('PaxHeader', 'x', TarballBuilder.paxRecord('path', path)).withFile(
+      path.slice(0, 99),
+      content
+    );
+  }
+
+  withSymlink(path: string, target: string): TarballBuilder {
+    return this.withEntry(path, '2', Buffer.alloc(0), target);
+  }
+
+  build(): Buffer {
+    return gzipSync(Buffer.concat([...this.blocks, Buffer.alloc(1024)]));
+  }
+
+  static create(): TarballBuilder {
+    return new TarballBuilder();
+  }
+
+  private withEntry(path: string, type: string, body: Buffer, linkName = ''): TarballBuilder {
+    const header = Buffer.alloc(512);
+    header.write(path, 0, 100);
+    header.write(body.length.toString(8).padStart(11, '0'), 124, 12);
+    header.write(type, 156, 1);
+    header.write(linkName, 157, 100);
+    header.write('ustar\u000000', 257, 8);
+
+    const padding = Buffer.alloc((512 - (body.length % 512)) % 512);
+    this.blocks.push(header, body, padding);
+    return this;
+  }
+
+  private static paxRecord(key: string, value: string): Buffer {
+    const record = ` ${key}=${value}\n`;
+    let length = record.length;
+    length += String(length + String(length).length).length;
+    return Buffer.from(`${length}${record}`);
+  }
+}
+
+/**
+ * Create a fetch response with a JSON or text body
+ */
+export function stubResponse(body: unknown, status = 200): Response {
+  return new Response(typeof body === 'string' ? body : JSON.stringify(body), { status });
+}
+
+/**
+ * Route fetch calls to stubbed API responses keyed by URL; unknown URLs return 404
+ * @param fetchMock Spy on the global fetch
+ * @param routes Response bodies keyed by request URL
+ * @param notFound Body of the 404 responses, shaped like the errors of the stubbed API
+ */
+export function stubApi(
+  fetchMock: jest.SpyInstance,
+  routes: Record<string, unknown>,
+  notFound: unknown = { message: 'Not Found' }
+): void {
+  fetchMock.mockImplementation(async (url: string) =>
+    url in routes ? stubResponse(routes[url]) : stubResponse(notFound, 404)
+  );
+}
+
 /**
  * Utility class for creating collections of test data
  */